@@ -5,7 +5,7 @@
  * @format
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { StatusBar, useColorScheme } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { NavigationContainer } from '@react-navigation/native';
@@ -13,6 +13,14 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { HomeScreen } from './src/screens/HomeScreen';
 import { ARScreen } from './src/screens/ARScreen';
+import { LibraryScreen } from './src/screens/LibraryScreen';
+import { ScanDetailScreen } from './src/screens/ScanDetailScreen';
+import { DatasetReviewScreen } from './src/screens/DatasetReviewScreen';
+import { ReconstructionSettingsScreen } from './src/screens/ReconstructionSettingsScreen';
+import { DiagnosticsScreen } from './src/screens/DiagnosticsScreen';
+import { processingQueue } from './src/processing/ProcessingQueue';
+import { watchProcessingNotifications } from './src/processing/processingNotifications';
+import { restoreDevSettings } from './src/native/devSettings';
 import { RootStackParamList } from './src/types/navigation';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -20,6 +28,16 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 function App() {
   const isDarkMode = useColorScheme() === 'dark';
 
+  // Pick up jobs that were queued or running when the app last exited,
+  // from the simulator if the dev setting selects it
+  useEffect(() => {
+    const ready = __DEV__ ? restoreDevSettings() : Promise.resolve();
+    ready.then(() => processingQueue.restore());
+  }, []);
+
+  // Tell the user when a long job finishes while they are in another app
+  useEffect(() => watchProcessingNotifications(), []);
+
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
@@ -52,6 +70,46 @@ function App() {
                 headerBackTitle: 'Back',
               }}
             />
+            <Stack.Screen
+              name="Library"
+              component={LibraryScreen}
+              options={{
+                title: 'Scan Library',
+                headerBackTitle: 'Back',
+              }}
+            />
+            <Stack.Screen
+              name="ScanDetail"
+              component={ScanDetailScreen}
+              options={{
+                title: 'Scan',
+                headerBackTitle: 'Library',
+              }}
+            />
+            <Stack.Screen
+              name="DatasetReview"
+              component={DatasetReviewScreen}
+              options={{
+                title: 'Review Frames',
+                headerBackTitle: 'Back',
+              }}
+            />
+            <Stack.Screen
+              name="ReconstructionSettings"
+              component={ReconstructionSettingsScreen}
+              options={{
+                title: 'Processing',
+                headerBackTitle: 'Back',
+              }}
+            />
+            <Stack.Screen
+              name="Diagnostics"
+              component={DiagnosticsScreen}
+              options={{
+                title: 'Diagnostics',
+                headerBackTitle: 'Back',
+              }}
+            />
           </Stack.Navigator>
         </NavigationContainer>
       </SafeAreaProvider>
@@ -0,0 +1,124 @@
+/**
+ * @format
+ */
+
+import { NativeModules } from 'react-native';
+import {
+  ARAvailabilityError,
+  ARError,
+  ARProcessingError,
+  ARSessionError,
+  ARStorageError,
+  createARError,
+  isARError,
+  toARError,
+} from '../src/native/ARError';
+import { ARNativeModule } from '../src/native/ARNativeModule';
+import { getRecoveryGuidance } from '../src/components/ARErrorAlert';
+
+const nativeRejection = (code: string, message: string) =>
+  Object.assign(new Error(message), { code });
+
+describe('toARError', () => {
+  it('maps native rejection codes onto stable codes', () => {
+    const error = toARError(
+      nativeRejection('ARCORE_NOT_INSTALLED', 'ARCore needs to be installed'),
+    );
+    expect(error).toBeInstanceOf(ARAvailabilityError);
+    expect(error).toMatchObject({
+      code: 'AR_UNSUPPORTED',
+      nativeCode: 'ARCORE_NOT_INSTALLED',
+      message: 'ARCore needs to be installed',
+    });
+
+    expect(toARError(nativeRejection('AR_VIEW_NOT_FOUND', 'x'))).toBeInstanceOf(
+      ARSessionError,
+    );
+    expect(toARError(nativeRejection('NOT_IMPLEMENTED', 'x')).code).toBe(
+      'PHOTOGRAMMETRY_UNSUPPORTED',
+    );
+    expect(
+      toARError(nativeRejection('INSUFFICIENT_IMAGES', 'x')),
+    ).toBeInstanceOf(ARProcessingError);
+  });
+
+  it('recognises a full disk behind a generic code', () => {
+    const error = toARError(
+      nativeRejection('WRITE_FILE_FAILED', 'No space left on device'),
+    );
+    expect(error).toBeInstanceOf(ARStorageError);
+    expect(error.nativeCode).toBe('WRITE_FILE_FAILED');
+  });
+
+  it('falls back to UNKNOWN and passes ARErrors through', () => {
+    expect(toARError(nativeRejection('READ_FILE_FAILED', 'Bad file'))).toEqual(
+      expect.objectContaining({ code: 'UNKNOWN', message: 'Bad file' }),
+    );
+    expect(toARError('oops')).toMatchObject({
+      code: 'UNKNOWN',
+      message: 'oops',
+    });
+
+    const error = createARError('NO_ACTIVE_CAPTURE', 'No capture');
+    expect(toARError(error)).toBe(error);
+    expect(isARError(error, 'NO_ACTIVE_CAPTURE')).toBe(true);
+    expect(isARError(error, 'SESSION_FAILED')).toBe(false);
+    expect(isARError(new Error('x'))).toBe(false);
+  });
+});
+
+describe('getRecoveryGuidance', () => {
+  const fallback = { title: 'Error', message: 'Something failed' };
+
+  it('explains known failures and offers their recovery', () => {
+    expect(
+      getRecoveryGuidance(
+        nativeRejection('CAMERA_PERMISSION_DENIED', 'Denied'),
+        fallback,
+      ),
+    ).toEqual({
+      title: 'Camera Access Needed',
+      message: 'Allow camera access in Settings to capture images.',
+      recovery: 'openSettings',
+      actionLabel: 'Open Settings',
+    });
+  });
+
+  it("keeps the native message and the caller's title otherwise", () => {
+    expect(getRecoveryGuidance(new Error('Bad file'), fallback)).toEqual({
+      title: 'Error',
+      message: 'Bad file',
+      recovery: 'retry',
+      actionLabel: 'Try Again',
+    });
+  });
+});
+
+describe('ARNativeModule', () => {
+  afterEach(() => {
+    delete NativeModules.ARNativeModule;
+  });
+
+  it('rejects with NOT_LINKED when the native module is missing', async () => {
+    const error = await ARNativeModule.isSupported().catch(e => e);
+    expect(error).toBeInstanceOf(ARError);
+    expect(error.code).toBe('NOT_LINKED');
+  });
+
+  it('rejects with the mapped code when a native call fails', async () => {
+    NativeModules.ARNativeModule = {
+      stopObjectScan: jest
+        .fn()
+        .mockRejectedValue(
+          nativeRejection('NO_ACTIVE_CAPTURE', 'No capture has been started'),
+        ),
+    };
+
+    const error = await ARNativeModule.stopObjectScan().catch(e => e);
+    expect(error).toBeInstanceOf(ARSessionError);
+    expect(error).toMatchObject({
+      code: 'NO_ACTIVE_CAPTURE',
+      nativeCode: 'NO_ACTIVE_CAPTURE',
+    });
+  });
+});
@@ -0,0 +1,524 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import { Alert, AlertButton, Linking, Share, Text } from 'react-native';
+import ReactTestRenderer, { ReactTestInstance } from 'react-test-renderer';
+import { ARScreen } from '../src/screens/ARScreen';
+import { selectARNativeModule } from '../src/native/ARNativeModule';
+import { SimulatedARNativeModule } from '../src/native/SimulatedARNativeModule';
+import { ScanMeshData } from '../src/capture/meshExport';
+import { flush } from './helpers/fakeARNativeModule';
+
+const { act } = ReactTestRenderer;
+
+let simulator: SimulatedARNativeModule;
+let renderer: ReactTestRenderer.ReactTestRenderer | null;
+let alertSpy: jest.SpyInstance;
+
+const textOf = (node: ReactTestInstance | string): string =>
+  typeof node === 'string' ? node : node.children.map(textOf).join('');
+
+const screenTexts = () =>
+  renderer!.root.findAllByType(Text).map(node => textOf(node));
+
+/**
+ * All the text on screen, open sheets included, as one string
+ */
+const screenText = () => screenTexts().join('\n');
+
+const renderScreen = async (params?: { resumeDirectory?: string }) => {
+  const navigation = {
+    goBack: jest.fn(),
+    navigate: jest.fn(),
+    replace: jest.fn(),
+  };
+  await act(async () => {
+    renderer = ReactTestRenderer.create(
+      <ARScreen
+        navigation={navigation as any}
+        route={{ key: 'AR', name: 'AR', params }}
+      />,
+    );
+  });
+  return navigation;
+};
+
+/**
+ * Tap the control labelled `label` and let the work it starts settle
+ */
+const press = async (label: string) => {
+  let node: ReactTestInstance | null =
+    renderer!.root.findAllByType(Text).find(text => textOf(text) === label) ??
+    null;
+  while (node && !node.props.onPress) {
+    node = node.parent;
+  }
+  if (!node) {
+    throw new Error(`Nothing to press labelled "${label}"`);
+  }
+  await act(async () => {
+    node!.props.onPress();
+    await flush();
+  });
+};
+
+const lastAlert = () => {
+  const calls = alertSpy.mock.calls;
+  const [title, message, buttons = []] = calls[calls.length - 1] ?? [];
+  return {
+    title: title as string,
+    message: message as string,
+    buttons: buttons as AlertButton[],
+  };
+};
+
+/**
+ * Tap a button of the latest alert; long-running work it starts is not awaited
+ */
+const pressAlertButton = async (text: string) => {
+  const button = lastAlert().buttons.find(candidate => candidate.text === text);
+  if (!button) {
+    throw new Error(`"${lastAlert().title}" has no "${text}" button`);
+  }
+  await act(async () => {
+    button.onPress?.();
+    await flush();
+  });
+};
+
+const simulate = async (step: () => unknown) => {
+  await act(async () => {
+    step();
+    await flush();
+  });
+};
+
+/**
+ * The smallest scene mesh there is something to export from
+ */
+const TRIANGLE_MESH: ScanMeshData = {
+  vertices: [
+    [0, 0, 0],
+    [1, 0, 0],
+    [0, 1, 0],
+  ],
+  faces: [[0, 1, 2]],
+};
+
+const captureAndStop = async (frames: number) => {
+  await press('Start Photogrammetry');
+  await simulate(() => simulator.captureFrames(frames));
+  await press('Stop Capture');
+};
+
+describe('ARScreen with the simulated module', () => {
+  beforeEach(() => {
+    simulator = new SimulatedARNativeModule({
+      orbit: { frameIntervalMs: null },
+      processingStepMs: null,
+    });
+    selectARNativeModule(simulator);
+    alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await act(async () => renderer?.unmount());
+    renderer = null;
+    simulator.dispose();
+    selectARNativeModule(null);
+    jest.restoreAllMocks();
+  });
+
+  it('captures an orbit and builds a model on the device', async () => {
+    await renderScreen();
+    await press('Start Photogrammetry');
+    expect(screenTexts()).toContain('Capturing Images...');
+
+    await simulate(() => simulator.captureFrames(24));
+    expect(screenTexts()).toContain('Images: 24');
+
+    await press('Stop Capture');
+    expect(screenTexts()).toContain('Capture Complete');
+    expect(screenText()).toContain('Captured 24 images');
+    expect(screenText()).toContain('Viewpoint coverage:');
+    const directory = await simulator.getPhotogrammetryCaptureDirectory();
+
+    await press('Process Now');
+    expect(screenTexts()).toContain('Processing Options');
+    await press('Full');
+    await press('OBJ');
+    await press('Process');
+    expect(screenTexts()).not.toContain('Processing Options');
+    expect(screenTexts()).toContain('Processing...');
+
+    await simulate(() => simulator.advanceProcessing());
+    expect(screenTexts()).toContain('Input validated: 10%');
+    expect(screenTexts()).toContain('Validating images (1 of 4)');
+    await simulate(() => simulator.advanceProcessing());
+    expect(screenTexts()).toContain('Reconstructing geometry (2 of 4)');
+
+    for (let step = 0; step < 3; step++) {
+      await simulate(() => simulator.advanceProcessing());
+    }
+    expect(lastAlert().title).toBe('Processing Complete');
+    expect(screenTexts()).not.toContain('Processing...');
+    expect(await simulator.getCaptureInfo(directory!)).toMatchObject({
+      processing: { status: 'completed', detail: 'full' },
+      models: [
+        expect.objectContaining({ detail: 'full', exists: true }),
+        expect.objectContaining({
+          path: expect.stringMatching(/\.obj$/),
+          exists: true,
+        }),
+      ],
+    });
+    // Remembered for the next capture
+    expect(
+      JSON.parse((await simulator.readTextFile('processing_options.json'))!),
+    ).toMatchObject({ detail: 'full', outputFormats: ['usdz', 'obj'] });
+  });
+
+  it('places a box on the table and keeps it with the capture', async () => {
+    await renderScreen();
+    await press('Place Box Around Object');
+    expect(screenTexts()).toContain('Box: 30 × 30 × 30 cm');
+    await press('+');
+    expect(screenTexts()).toContain('Box: 35 × 30 × 30 cm');
+
+    await captureAndStop(12);
+    const directory = await simulator.getPhotogrammetryCaptureDirectory();
+    const region = JSON.parse(
+      (await simulator.readTextFile(`${directory}/region.json`))!,
+    );
+    expect(region).toMatchObject({ size: [0.35, 0.3, 0.3], yaw: 0 });
+    expect(region.center[1]).toBeCloseTo(0);
+
+    await press('Process Now');
+    expect(screenTexts()).toContain(
+      'Starts from the 35 × 30 × 30 cm box placed before capture',
+    );
+  });
+
+  it('guides a capture through each pass and keeps them as segments', async () => {
+    await renderScreen();
+    await press('Guided passes: Off');
+    await press('Turn over for bottom: Off');
+    await press('Start Guided Capture');
+    const directory = await simulator.getPhotogrammetryCaptureDirectory();
+    const orbitAt = async (height: number, frames: number) => {
+      await simulate(() => simulator.setConfig({ orbit: { height } }));
+      await simulate(() => simulator.captureFrames(frames));
+    };
+
+    await orbitAt(0.1, 24);
+    expect(screenTexts()).toContain('Mid orbit (2 of 4): 0/24');
+    await orbitAt(0.1, 2);
+    expect(screenTexts()).toContain('Raise the phone a little');
+    await orbitAt(0.25, 24);
+    await orbitAt(0.6, 16);
+    expect(screenTexts()).toContain('Capture Paused');
+
+    // Nothing is saved while the object is turned over
+    await orbitAt(0.1, 3);
+    expect(screenTexts()).toContain('Images: 66');
+    await press('Object Turned Over');
+    await orbitAt(0.1, 24);
+
+    expect(screenTexts()).toContain('Capture Complete');
+    expect(screenText()).toContain(
+      'Low orbit: 24 images · Mid orbit: 26 images · High orbit: 16 images · Bottom: 24 images',
+    );
+    expect(
+      JSON.parse((await simulator.readTextFile(`${directory}/segments.json`))!),
+    ).toEqual([
+      { id: 'low', firstIndex: 0, lastIndex: 23 },
+      { id: 'mid', firstIndex: 24, lastIndex: 49 },
+      { id: 'high', firstIndex: 50, lastIndex: 65 },
+      { id: 'flip', firstIndex: 66, lastIndex: 89 },
+    ]);
+
+    await press('Process Now');
+    await press('High orbit');
+    await press('Process');
+    expect(screenTexts()).toContain('Processing...');
+    await press('Cancel Processing');
+  });
+
+  it('leaves a guided capture running past the auto-stop coverage', async () => {
+    simulator.setConfig({ orbit: { framesPerTurn: 12 } });
+    await renderScreen();
+    await press('Start Photogrammetry');
+    await press('Auto-stop at 60%: Off');
+    await press('Stop Capture');
+    await press('OK');
+    await press('Guided passes: Off');
+    await press('Turn over for bottom: Off');
+    await press('Start Guided Capture');
+    const orbitAt = async (height: number, frames: number) => {
+      await simulate(() => simulator.setConfig({ orbit: { height } }));
+      await simulate(() => simulator.captureFrames(frames));
+    };
+
+    // One coverage band per pass, so the target is passed on the high orbit
+    await orbitAt(-0.05, 24);
+    await orbitAt(0.2, 24);
+    await orbitAt(0.45, 16);
+    expect(screenTexts()).not.toContain('Capture Complete');
+    expect(screenTexts()).toContain('Object Turned Over');
+
+    await press('Object Turned Over');
+    await orbitAt(0.1, 24);
+    expect(screenTexts()).toContain('Capture Complete');
+  });
+
+  it('pauses capture while tracking is limited', async () => {
+    await renderScreen();
+    await press('Start Photogrammetry');
+
+    await simulate(() =>
+      simulator.setTracking({ state: 'limited', reason: 'excessiveMotion' }),
+    );
+    expect(screenTexts()).toEqual(
+      expect.arrayContaining(['Capture Paused', 'Slow down']),
+    );
+    await simulate(() => simulator.captureFrames(5));
+    expect(screenTexts()).toContain('Images: 0');
+
+    await simulate(() =>
+      simulator.setTracking({ state: 'normal', reason: null }),
+    );
+    await simulate(() => simulator.captureFrames(3));
+    expect(screenTexts()).toEqual(
+      expect.arrayContaining(['Capturing Images...', 'Images: 3']),
+    );
+    expect(screenTexts()).not.toContain('Slow down');
+  });
+
+  it('offers to resume a capture the screen closed in the middle of', async () => {
+    await renderScreen();
+    await press('Start Photogrammetry');
+    await simulate(() => simulator.captureFrames(8));
+    const directory = await simulator.getPhotogrammetryCaptureDirectory();
+    await act(async () => renderer!.unmount());
+
+    await renderScreen();
+    expect(lastAlert().title).toBe('Capture Interrupted');
+    expect(lastAlert().message).toContain('stopped after 8 images');
+    await pressAlertButton('Resume');
+    // Nothing is saved until tracking relocalizes, on the next frame
+    expect(screenTexts()).toEqual(
+      expect.arrayContaining(['Capture Paused', 'Images: 8']),
+    );
+    await simulate(() => simulator.captureFrames(1));
+    await simulate(() => simulator.captureFrames(4));
+    expect(screenTexts()).toContain('Images: 12');
+
+    await press('Stop Capture');
+    expect(screenText()).toContain('Captured 12 images');
+    expect(await simulator.getCaptureInfo(directory!)).toMatchObject({
+      imageCount: 12,
+    });
+    expect(await simulator.readTextFile('capture_journal.json')).toBe('null');
+  });
+
+  it('resumes the capture Home asked for without asking again', async () => {
+    await renderScreen();
+    await press('Start Photogrammetry');
+    await simulate(() => simulator.captureFrames(3));
+    const directory = await simulator.getPhotogrammetryCaptureDirectory();
+    await act(async () => renderer!.unmount());
+    alertSpy.mockClear();
+
+    await renderScreen({ resumeDirectory: directory! });
+    expect(alertSpy).not.toHaveBeenCalled();
+    expect(screenTexts()).toContain('Images: 3');
+    await press('Stop Capture');
+  });
+
+  it('cancels processing', async () => {
+    await renderScreen();
+    await captureAndStop(12);
+    const directory = await simulator.getPhotogrammetryCaptureDirectory();
+    await press('Process Now');
+    await press('Process');
+    await simulate(() => simulator.advanceProcessing());
+
+    await press('Cancel Processing');
+    expect(screenTexts()).not.toContain('Processing...');
+    expect(screenTexts()).toContain('Start Photogrammetry');
+    expect(lastAlert().title).not.toBe('Processing Complete');
+    expect(
+      (await simulator.getCaptureInfo(directory!)).processing,
+    ).toMatchObject({ status: 'cancelled' });
+  });
+
+  it('offers a new capture when there are too few images', async () => {
+    await renderScreen();
+    await captureAndStop(4);
+    await press('Process Now');
+    await press('Process');
+
+    expect(lastAlert()).toMatchObject({
+      title: 'Not Enough Images',
+      buttons: [{ text: 'Cancel' }, { text: 'Capture Again' }],
+    });
+    await pressAlertButton('Capture Again');
+    expect(screenTexts()).toContain('Capturing Images...');
+  });
+
+  it('sends the user to Settings when camera access is denied', async () => {
+    const openSettings = jest
+      .spyOn(Linking, 'openSettings')
+      .mockResolvedValue(undefined);
+    simulator.setConfig({ cameraAuthorized: false });
+    await renderScreen();
+    expect(lastAlert().title).toBe('Camera Access Needed');
+
+    await press('Start Photogrammetry');
+    expect(lastAlert().title).toBe('Camera Access Needed');
+    expect(screenTexts()).toContain('Start Photogrammetry');
+    await pressAlertButton('Open Settings');
+    expect(openSettings).toHaveBeenCalled();
+  });
+
+  it('restarts the screen after a session failure', async () => {
+    const navigation = await renderScreen();
+    await simulate(() => simulator.failSession('SESSION_FAILED'));
+    expect(lastAlert().title).toBe('AR Session Failed');
+
+    await pressAlertButton('Try Again');
+    expect(navigation.replace).toHaveBeenCalledWith('AR');
+  });
+
+  it('turns the user back when AR is not supported', async () => {
+    simulator.setConfig({ arSupported: false });
+    const navigation = await renderScreen();
+
+    expect(screenTexts()).toContain('AR not supported on this device');
+    expect(lastAlert().title).toBe('AR Not Supported');
+    await pressAlertButton('OK');
+    expect(navigation.goBack).toHaveBeenCalled();
+  });
+
+  it('adapts the capture to the storage and sensors of the device', async () => {
+    simulator.setConfig({
+      freeStorageBytes: 500e6 + 5 * 1.2e6,
+      thermalState: 'serious',
+    });
+    await renderScreen();
+    expect(screenTexts()).not.toContain('Save depth: Off');
+    expect(screenTexts()).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('room for about 5 images'),
+        expect.stringContaining('The device is hot'),
+      ]),
+    );
+
+    // Stops when the space runs out rather than at the preset's limit
+    await press('Start Photogrammetry');
+    await simulate(() => simulator.captureFrames(8));
+    expect(screenTexts()).toContain('Capture Complete');
+    expect(screenText()).toContain('Captured 5 images');
+  });
+
+  it('saves depth by default on a LiDAR device', async () => {
+    simulator.setConfig({ mesh: { vertices: [], faces: [] } });
+    await renderScreen();
+    await press('Save depth: On');
+    await press('Save depth: Off');
+
+    await captureAndStop(4);
+    const directory = await simulator.getPhotogrammetryCaptureDirectory();
+    expect(
+      JSON.parse(
+        (await simulator.readTextFile(`${directory}/capture_settings.json`))!,
+      ),
+    ).toMatchObject({ saveDepth: true });
+  });
+
+  it('offers every mesh format, more than an alert can show', async () => {
+    const share = jest.spyOn(Share, 'share').mockResolvedValue({
+      action: Share.sharedAction,
+    });
+    simulator.setConfig({ mesh: TRIANGLE_MESH });
+    await renderScreen();
+    await captureAndStop(4);
+
+    await press('Export Mesh');
+    expect(screenTexts()).toEqual(
+      expect.arrayContaining([
+        'OBJ',
+        'PLY (ASCII)',
+        'PLY (Binary)',
+        'glTF Binary (GLB)',
+      ]),
+    );
+    await press('glTF Binary (GLB)');
+    expect(screenTexts()).not.toContain('PLY (ASCII)');
+    expect(share).toHaveBeenCalledWith(
+      expect.objectContaining({ url: expect.stringMatching(/mesh\.glb$/) }),
+    );
+  });
+
+  it.each<[string, (navigation: { navigate: jest.Mock }) => Promise<void>]>([
+    [
+      'Process Now',
+      async () => expect(screenTexts()).toContain('Processing Options'),
+    ],
+    [
+      'Share Images',
+      async () =>
+        expect(Share.share).toHaveBeenCalledWith(
+          expect.objectContaining({
+            url: await simulator.getPhotogrammetryCaptureDirectory(),
+          }),
+        ),
+    ],
+    [
+      'Review Frames',
+      async navigation =>
+        expect(navigation.navigate).toHaveBeenCalledWith('DatasetReview', {
+          directory: await simulator.getPhotogrammetryCaptureDirectory(),
+        }),
+    ],
+    ['Export Mesh', async () => expect(screenTexts()).toContain('PLY (ASCII)')],
+    ['OK', async () => expect(screenTexts()).toContain('Start Photogrammetry')],
+  ])('reaches %s after a capture', async (action, check) => {
+    jest.spyOn(Share, 'share').mockResolvedValue({
+      action: Share.sharedAction,
+    });
+    simulator.setConfig({ mesh: TRIANGLE_MESH });
+    const navigation = await renderScreen();
+    await captureAndStop(4);
+    expect(screenTexts()).toEqual(
+      expect.arrayContaining([
+        'Process Now',
+        'Share Images',
+        'Review Frames',
+        'Export Mesh',
+        'OK',
+      ]),
+    );
+
+    await press(action);
+    expect(screenTexts()).not.toContain('Capture Complete');
+    await check(navigation);
+  });
+
+  it('shows why starting failed when a native call is made to fail', async () => {
+    simulator.failNext('startObjectScan', {
+      code: 'STORAGE_FULL',
+      message: 'No space left on device',
+    });
+    const navigation = await renderScreen();
+
+    await press('Start Photogrammetry');
+    expect(lastAlert().title).toBe('Storage Full');
+    await pressAlertButton('Manage Scans');
+    expect(navigation.navigate).toHaveBeenCalledWith('Library');
+  });
+});
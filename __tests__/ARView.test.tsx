@@ -0,0 +1,121 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { ARView, ARViewProps } from '../src/native/ARView';
+import { selectARNativeModule } from '../src/native/ARNativeModule';
+import { RecordingARNativeModule } from '../src/native/RecordingARNativeModule';
+import { createFakeModule } from './helpers/fakeARNativeModule';
+
+// Stand-in for the native view so props and events can be inspected
+jest.mock('react-native/Libraries/ReactNative/requireNativeComponent', () => {
+  const { createElement } = require('react');
+  return {
+    __esModule: true,
+    default: (name: string) => {
+      const NativeComponent = (props: object) => createElement(name, props);
+      NativeComponent.displayName = name;
+      return NativeComponent;
+    },
+  };
+});
+
+const render = async (props: ARViewProps) => {
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+  await ReactTestRenderer.act(() => {
+    renderer = ReactTestRenderer.create(<ARView {...props} />);
+  });
+  return renderer!.root.findByType('ARView' as any);
+};
+
+describe('ARView', () => {
+  it('passes display props with defaults to the native view', async () => {
+    const native = await render({ showFeaturePoints: true });
+    expect(native.props).toMatchObject({
+      showFeaturePoints: true,
+      showPlaneOverlays: false,
+      showCaptureFrustums: false,
+      sessionPaused: false,
+    });
+  });
+
+  it('unwraps native events into typed payloads', async () => {
+    const onTrackingStateChange = jest.fn();
+    const onPlaneDetected = jest.fn();
+    const onSessionError = jest.fn();
+    const native = await render({
+      onTrackingStateChange,
+      onPlaneDetected,
+      onSessionError,
+    });
+
+    const tracking = { state: 'limited', reason: 'excessiveMotion' };
+    native.props.onTrackingStateChange({ nativeEvent: tracking });
+    expect(onTrackingStateChange).toHaveBeenCalledWith(tracking);
+
+    const plane = {
+      id: 'plane-1',
+      alignment: 'horizontal',
+      center: [0, -1, -0.5],
+      extent: { width: 1.2, length: 0.8 },
+    };
+    native.props.onPlaneDetected({ nativeEvent: plane });
+    expect(onPlaneDetected).toHaveBeenCalledWith(plane);
+
+    const error = { code: 'SESSION_FAILED', message: 'Camera unavailable' };
+    native.props.onSessionError({ nativeEvent: error });
+    expect(onSessionError).toHaveBeenCalledWith(error);
+  });
+
+  it('delivers captured frames', async () => {
+    const onFrameCaptured = jest.fn();
+    const native = await render({ onFrameCaptured });
+    const frame = {
+      index: 3,
+      path: '/captures/PhotoCapture_1/image_0003.jpg',
+      pose: [
+        [1, 0, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 1, 0],
+        [0, 0, 0, 1],
+      ],
+      timestamp: 12.5,
+    };
+    native.props.onFrameCaptured({ nativeEvent: frame });
+    expect(onFrameCaptured).toHaveBeenCalledWith(frame);
+  });
+
+  it('leaves events unregistered when there is no handler', async () => {
+    const native = await render({});
+    expect(native.props.onTrackingStateChange).toBeUndefined();
+    expect(native.props.onFrameCaptured).toBeUndefined();
+    expect(native.props.onPlaneDetected).toBeUndefined();
+    expect(native.props.onSessionError).toBeUndefined();
+  });
+
+  it('lets a recording module see native events first', async () => {
+    const recorder = new RecordingARNativeModule(createFakeModule().module);
+    selectARNativeModule(recorder);
+    const onTrackingStateChange = jest.fn();
+    try {
+      const native = await render({ onTrackingStateChange });
+      const tracking = { state: 'normal', reason: null };
+      native.props.onTrackingStateChange({ nativeEvent: tracking });
+      native.props.onPlaneDetected({ nativeEvent: { id: 'plane-1' } });
+
+      expect(onTrackingStateChange).toHaveBeenCalledWith(tracking);
+      expect(recorder.stop().timeline).toEqual([
+        expect.objectContaining({
+          type: 'view',
+          name: 'onTrackingStateChange',
+          payload: tracking,
+        }),
+        expect.objectContaining({ type: 'view', name: 'onPlaneDetected' }),
+      ]);
+    } finally {
+      selectARNativeModule(null);
+    }
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @format
+ */
+
+import {
+  parseFrameMetadata,
+  readCaptureDataset,
+} from '../src/capture/CaptureDataset';
+import { CaptureManifest } from '../src/native/ARNativeModule';
+
+const IDENTITY_4 = [
+  [1, 0, 0, 0],
+  [0, 1, 0, 0],
+  [0, 0, 1, 0],
+  [0, 0, 0, 1],
+];
+
+const INTRINSICS = [
+  [1500, 0, 0],
+  [0, 1500, 0],
+  [960, 720, 1],
+];
+
+const frameJson = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    transform: IDENTITY_4,
+    intrinsics: INTRINSICS,
+    imageResolution: { width: 1920, height: 1440 },
+    exposureDuration: 0.01,
+    timestamp: 100,
+    ...overrides,
+  });
+
+const manifest = (metadata: Record<string, string>, images: number[]) => {
+  const result: CaptureManifest = {
+    directory: '/captures/PhotoCapture_1',
+    files: [
+      ...images.map(i => `image_${String(i).padStart(4, '0')}.jpg`),
+      ...Object.keys(metadata),
+    ],
+    metadata,
+  };
+  return result;
+};
+
+describe('parseFrameMetadata', () => {
+  it('reads iOS metadata as-is', () => {
+    const metadata = parseFrameMetadata(frameJson());
+    expect(metadata.transform).toEqual(IDENTITY_4);
+    expect(metadata.intrinsics).toEqual(INTRINSICS);
+    expect(metadata.timestamp).toBe(100);
+  });
+
+  it('normalizes Android pose and intrinsics', () => {
+    const metadata = parseFrameMetadata(
+      JSON.stringify({
+        transform: [
+          [1, 2, 3],
+          [0, 0, 0, 1],
+        ],
+        intrinsics: {
+          focalLength: [500, 510],
+          principalPoint: [320, 240],
+          imageSize: [640, 480],
+        },
+        imageResolution: { width: 640, height: 480 },
+        timestamp: 2_000_000_000,
+        trackingState: 'TRACKING',
+      }),
+    );
+    expect(metadata.transform[3]).toEqual([1, 2, 3, 1]);
+    expect(metadata.intrinsics).toEqual([
+      [500, 0, 0],
+      [0, 510, 0],
+      [320, 240, 1],
+    ]);
+    expect(metadata.timestamp).toBe(2);
+    expect(metadata.trackingState).toBe('TRACKING');
+  });
+
+  it('rejects malformed matrices', () => {
+    expect(() =>
+      parseFrameMetadata(frameJson({ transform: [[1, 0, 0]] })),
+    ).toThrow('Transform');
+    expect(() =>
+      parseFrameMetadata(frameJson({ intrinsics: [[0, 0, 0]] })),
+    ).toThrow('Intrinsics');
+  });
+});
+
+describe('readCaptureDataset', () => {
+  it('accepts a consistent dataset', () => {
+    const { dataset, report } = readCaptureDataset(
+      manifest(
+        {
+          'image_0000.json': frameJson({ timestamp: 1 }),
+          'image_0001.json': frameJson({ timestamp: 2 }),
+        },
+        [0, 1],
+      ),
+    );
+    expect(report).toMatchObject({ valid: true, frameCount: 2, issues: [] });
+    expect(dataset.frames[1].imagePath).toBe(
+      '/captures/PhotoCapture_1/image_0001.jpg',
+    );
+  });
+
+  it('reads the region of interest saved with the capture', () => {
+    const region = { center: [0, 0.1, 0], size: [0.3, 0.2, 0.3], yaw: 45 };
+    const { dataset, report } = readCaptureDataset(
+      manifest(
+        {
+          'image_0000.json': frameJson(),
+          'region.json': JSON.stringify(region),
+        },
+        [0],
+      ),
+    );
+    expect(report.valid).toBe(true);
+    expect(dataset.region).toEqual(region);
+    expect(
+      readCaptureDataset(manifest({ 'image_0000.json': frameJson() }, [0]))
+        .dataset.region,
+    ).toBeNull();
+  });
+
+  it('reports missing pairs, bad metadata, ordering and resolution changes', () => {
+    const { report } = readCaptureDataset(
+      manifest(
+        {
+          'image_0000.json': frameJson({ timestamp: 5 }),
+          'image_0001.json': frameJson({ timestamp: 4 }),
+          'image_0002.json': '{not json',
+          'image_0003.json': frameJson({
+            timestamp: 6,
+            imageResolution: { width: 1280, height: 720 },
+          }),
+          'image_0005.json': frameJson({ timestamp: 7 }),
+        },
+        [0, 1, 2, 3, 4],
+      ),
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.frameCount).toBe(3);
+    expect(report.issues.map(issue => [issue.code, issue.frameIndex])).toEqual(
+      expect.arrayContaining([
+        ['MALFORMED_METADATA', 2],
+        ['MISSING_METADATA', 4],
+        ['MISSING_IMAGE', 5],
+        ['NON_MONOTONIC_TIMESTAMP', 1],
+        ['RESOLUTION_CHANGED', 3],
+      ]),
+    );
+    expect(report.warningCount).toBe(1);
+  });
+
+  it('flags an empty directory', () => {
+    const { report } = readCaptureDataset(manifest({}, []));
+    expect(report.valid).toBe(false);
+    expect(report.issues[0].code).toBe('EMPTY_DATASET');
+  });
+});
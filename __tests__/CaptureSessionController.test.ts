@@ -0,0 +1,408 @@
+/**
+ * @format
+ */
+
+import { CaptureSessionController } from '../src/capture/CaptureSessionController';
+import {
+  createFakeModule,
+  deferred,
+  flush,
+} from './helpers/fakeARNativeModule';
+
+describe('CaptureSessionController', () => {
+  it('runs a capture from idle to completed', async () => {
+    const { module, emit } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    controller.attach();
+
+    expect(await controller.start()).toBe(true);
+    expect(controller.getState().phase).toBe('capturing');
+
+    emit('onCaptureStarted', { directory: '/captures/PhotoCapture_1' });
+    emit('onImageCaptured', {
+      index: 0,
+      path: '/captures/PhotoCapture_1/image_0000.jpg',
+      pose: [],
+      timestamp: 1,
+    });
+    expect(controller.getState().imageCount).toBe(1);
+
+    expect(await controller.stop()).toBe(true);
+    expect(controller.getState()).toMatchObject({
+      phase: 'captured',
+      directory: '/captures/PhotoCapture_1',
+      imageCount: 3,
+    });
+
+    module.processPhotogrammetry.mockImplementation(
+      async (_dir, _name, _options, progressCallback) => {
+        progressCallback({ status: 'Processing', progress: 0.5 });
+        return '/models/model.usdz';
+      },
+    );
+    expect(await controller.process({ detail: 'medium' })).toBe(
+      '/models/model.usdz',
+    );
+    expect(controller.getState()).toMatchObject({
+      phase: 'completed',
+      options: expect.objectContaining({ detail: 'medium' }),
+      outputPath: '/models/model.usdz',
+      progress: null,
+    });
+  });
+
+  it('resumes an interrupted capture, paused until tracking relocalizes', async () => {
+    const { module, emit } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    controller.attach();
+    controller.updateTracking({ state: 'limited', reason: 'relocalizing' });
+
+    expect(await controller.resume('/captures/PhotoCapture_1')).toBe(true);
+    expect(module.resumeObjectScan).toHaveBeenCalledWith(
+      '/captures/PhotoCapture_1',
+    );
+    expect(controller.getState()).toMatchObject({
+      phase: 'capturing',
+      directory: '/captures/PhotoCapture_1',
+      imageCount: 3,
+      capturePaused: true,
+    });
+
+    controller.updateTracking({ state: 'normal', reason: null });
+    emit('onImageCaptured', {
+      index: 3,
+      path: '/captures/PhotoCapture_1/image_0003.jpg',
+      pose: [],
+      timestamp: 1,
+    });
+    expect(controller.getState()).toMatchObject({
+      capturePaused: false,
+      imageCount: 4,
+    });
+    expect(await controller.resume('/captures/PhotoCapture_1')).toBe(false);
+  });
+
+  it('counts the images left after frames were deleted, not frame indices', async () => {
+    const { module, emit } = createFakeModule();
+    // image_0001 and image_0002 were deleted in review
+    module.resumeObjectScan.mockResolvedValue({
+      directory: '/captures/PhotoCapture_1',
+      imageCount: 2,
+      nextIndex: 4,
+      relocalizing: false,
+    });
+    module.stopObjectScan.mockResolvedValue({
+      vertices: [],
+      faces: [],
+      vertexCount: 0,
+      faceCount: 0,
+      meshCount: 0,
+      directory: '/captures/PhotoCapture_1',
+      imageCount: 5,
+    });
+    const controller = new CaptureSessionController(module);
+    controller.attach();
+
+    await controller.resume('/captures/PhotoCapture_1');
+    expect(controller.getState().imageCount).toBe(2);
+    emit('onImageCaptured', {
+      index: 4,
+      path: '/captures/PhotoCapture_1/image_0004.jpg',
+      pose: [],
+      timestamp: 1,
+    });
+    expect(controller.getState().imageCount).toBe(3);
+
+    await controller.stop();
+    expect(controller.getState()).toMatchObject({
+      phase: 'captured',
+      imageCount: 3,
+    });
+  });
+
+  it('ignores a second start while the first is in flight', async () => {
+    const { module } = createFakeModule();
+    const pending = deferred<void>();
+    module.startObjectScan.mockReturnValue(pending.promise);
+    const controller = new CaptureSessionController(module);
+
+    const first = controller.start();
+    expect(await controller.start()).toBe(false);
+
+    pending.resolve();
+    expect(await first).toBe(true);
+    expect(module.startObjectScan).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start a new scan while stopping', async () => {
+    const { module } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    await controller.start();
+
+    const pending = deferred<any>();
+    module.stopObjectScan.mockReturnValue(pending.promise);
+    const stopping = controller.stop();
+
+    expect(controller.getState().phase).toBe('stopping');
+    expect(await controller.start()).toBe(false);
+    expect(await controller.stop()).toBe(false);
+
+    pending.resolve({ directory: '/captures/a', imageCount: 1 });
+    await stopping;
+    expect(module.startObjectScan).toHaveBeenCalledTimes(1);
+    expect(module.stopObjectScan).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves to failed and rethrows native errors', async () => {
+    const { module } = createFakeModule();
+    module.startObjectScan.mockRejectedValue(new Error('AR View missing'));
+    const controller = new CaptureSessionController(module);
+
+    await expect(controller.start()).rejects.toThrow('AR View missing');
+    expect(controller.getState().phase).toBe('failed');
+    expect(controller.getState().error?.message).toBe('AR View missing');
+
+    module.startObjectScan.mockResolvedValue(undefined);
+    expect(await controller.start()).toBe(true);
+    expect(controller.getState().error).toBeNull();
+  });
+
+  it('refuses to process without a capture', async () => {
+    const { module } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+
+    expect(await controller.process({ detail: 'full' })).toBeNull();
+    expect(module.processPhotogrammetry).not.toHaveBeenCalled();
+  });
+
+  it('settles when native stops capture on its own', async () => {
+    const { module, emit } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    controller.attach();
+    await controller.start();
+
+    emit('onCaptureStopped', { directory: '/captures/b', imageCount: 7 });
+    expect(controller.getState()).toMatchObject({
+      phase: 'captured',
+      directory: '/captures/b',
+      imageCount: 7,
+    });
+  });
+
+  it('tallies frame decisions until native reports its own counts', async () => {
+    const { module, emit } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    controller.attach();
+    await controller.start();
+
+    emit('onImageCaptured', {
+      index: 0,
+      path: '/captures/PhotoCapture_1/image_0000.jpg',
+      pose: [],
+      timestamp: 1,
+    });
+    emit('onFrameRejected', { reason: 'motionBlur', timestamp: 1.5 });
+    expect(controller.getState().frameStats).toEqual({
+      evaluated: 2,
+      accepted: 1,
+      rejected: {
+        limitedTracking: 0,
+        motionBlur: 1,
+        outsideRegion: 0,
+        redundantPose: 0,
+      },
+    });
+
+    const frameStats = {
+      evaluated: 5,
+      accepted: 3,
+      rejected: {
+        limitedTracking: 0,
+        motionBlur: 1,
+        outsideRegion: 0,
+        redundantPose: 1,
+      },
+    };
+    module.stopObjectScan.mockResolvedValueOnce({
+      vertices: [],
+      faces: [],
+      vertexCount: 0,
+      faceCount: 0,
+      meshCount: 0,
+      imageCount: 3,
+      frameStats,
+    });
+    await controller.stop();
+    expect(controller.getState().frameStats).toEqual(frameStats);
+
+    await controller.start();
+    expect(controller.getState().frameStats).toBeNull();
+  });
+
+  it('keeps the scene mesh from the scan result', async () => {
+    const { module } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    await controller.start();
+    await controller.stop();
+    expect(controller.getState().mesh).toBeNull();
+
+    const mesh = {
+      vertices: [
+        [0, 0, 0],
+        [1, 0, 0],
+        [0, 1, 0],
+      ],
+      faces: [[0, 1, 2]],
+    };
+    module.stopObjectScan.mockResolvedValueOnce({
+      ...mesh,
+      vertexCount: 3,
+      faceCount: 1,
+      meshCount: 1,
+      imageCount: 3,
+    });
+    await controller.start();
+    await controller.stop();
+    expect(controller.getState().mesh).toEqual(mesh);
+  });
+
+  it('loads an earlier capture for processing', async () => {
+    const { module } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+
+    expect(controller.load('/captures/old', 12)).toBe(true);
+    expect(controller.getState()).toMatchObject({
+      phase: 'captured',
+      directory: '/captures/old',
+      imageCount: 12,
+    });
+    expect(await controller.process({ detail: 'full' })).toBe(
+      '/models/model.usdz',
+    );
+    expect(module.processPhotogrammetry).toHaveBeenCalledWith(
+      '/captures/old',
+      expect.any(String),
+      expect.objectContaining({ detail: 'full' }),
+      expect.any(Function),
+      expect.any(String),
+    );
+    expect(controller.load('/captures/other', 3)).toBe(false);
+  });
+
+  it('returns to captured when processing is cancelled', async () => {
+    const { module } = createFakeModule();
+    const pending = deferred<string>();
+    module.processPhotogrammetry.mockReturnValue(pending.promise);
+    module.cancelPhotogrammetry.mockImplementation(async () => {
+      pending.reject(
+        Object.assign(new Error('cancelled'), { code: 'PROCESSING_CANCELLED' }),
+      );
+      return true;
+    });
+    const controller = new CaptureSessionController(module);
+    controller.load('/captures/old', 12);
+
+    const processing = controller.process({ detail: 'medium' });
+    const { jobId } = controller.getState();
+    expect(jobId).toEqual(expect.any(String));
+    await flush();
+    expect(await controller.cancelProcessing()).toBe(true);
+    expect(module.cancelPhotogrammetry).toHaveBeenCalledWith(jobId);
+    expect(await processing).toBeNull();
+    expect(controller.getState()).toMatchObject({
+      phase: 'captured',
+      jobId: null,
+    });
+    expect(await controller.cancelProcessing()).toBe(false);
+  });
+
+  it('discards a capture on cancel and removes listeners on detach', async () => {
+    const { module, listeners } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    const detach = controller.attach();
+    await controller.start();
+    await controller.stop();
+
+    expect(await controller.cancel()).toBe(true);
+    expect(controller.getState().phase).toBe('cancelled');
+    expect(module.clearScan).toHaveBeenCalled();
+
+    detach();
+    Object.values(listeners).forEach(set => expect(set.size).toBe(0));
+  });
+
+  it('pauses saving while tracking is limited and records the time', async () => {
+    const { module } = createFakeModule();
+    let now = 0;
+    const controller = new CaptureSessionController(
+      module,
+      undefined,
+      () => now,
+    );
+
+    // Tracking reported before capture is not timed
+    controller.updateTracking({ state: 'normal', reason: null });
+    now = 1000;
+    await controller.start();
+    expect(module.setCapturePaused).not.toHaveBeenCalled();
+
+    now = 3000;
+    controller.updateTracking({ state: 'limited', reason: 'excessiveMotion' });
+    expect(controller.getState().capturePaused).toBe(true);
+    expect(module.setCapturePaused).toHaveBeenLastCalledWith(true);
+
+    // A new reason while still limited does not resume
+    now = 4000;
+    controller.updateTracking({ state: 'limited', reason: 'relocalizing' });
+    expect(module.setCapturePaused).toHaveBeenCalledTimes(1);
+
+    now = 4500;
+    controller.updateTracking({ state: 'normal', reason: null });
+    expect(controller.getState().capturePaused).toBe(false);
+    expect(module.setCapturePaused).toHaveBeenLastCalledWith(false);
+
+    now = 6000;
+    await controller.stop();
+    expect(controller.getState().trackingStats).toEqual({
+      normal: 3500,
+      limited: 1500,
+      notAvailable: 0,
+      limitedByReason: { excessiveMotion: 1000, relocalizing: 500 },
+    });
+
+    // After capture, tracking changes no longer pause or add time
+    now = 9000;
+    controller.updateTracking({ state: 'notAvailable', reason: null });
+    expect(controller.getState().capturePaused).toBe(false);
+    expect(controller.getState().trackingStats?.notAvailable).toBe(0);
+  });
+
+  it('holds saving on request, whatever the tracking', async () => {
+    const { module } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    expect(controller.holdCapture(true)).toBe(false);
+    await controller.start();
+
+    expect(controller.holdCapture(true)).toBe(true);
+    expect(module.setCapturePaused).toHaveBeenLastCalledWith(true);
+    controller.updateTracking({ state: 'normal', reason: null });
+    expect(controller.getState().capturePaused).toBe(true);
+
+    controller.holdCapture(false);
+    expect(controller.getState()).toMatchObject({
+      capturePaused: false,
+      captureHeld: false,
+    });
+    expect(module.setCapturePaused).toHaveBeenLastCalledWith(false);
+  });
+
+  it('starts paused when tracking is already limited', async () => {
+    const { module } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    controller.updateTracking({ state: 'limited', reason: 'initializing' });
+    await controller.start();
+
+    expect(controller.getState().capturePaused).toBe(true);
+    expect(module.setCapturePaused).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * @format
+ */
+
+import {
+  countFailuresByCause,
+  NO_PROVIDER_ERROR,
+  PROCESSING_JOBS_FILE,
+  ProcessingQueue,
+} from '../src/processing/ProcessingQueue';
+import { DEFAULT_PROCESSING_OPTIONS } from '../src/processing/processingOptions';
+import {
+  createFakeModule,
+  deferred,
+  flush,
+} from './helpers/fakeARNativeModule';
+
+const cancelledError = () =>
+  Object.assign(new Error('Processing cancelled'), {
+    code: 'PROCESSING_CANCELLED',
+  });
+
+describe('ProcessingQueue', () => {
+  it('runs a job and reports progress', async () => {
+    const { module } = createFakeModule();
+    const pending = deferred<string>();
+    let report: (data: any) => void = () => {};
+    module.processPhotogrammetry.mockImplementation(
+      (_dir, _name, _options, progressCallback) => {
+        report = progressCallback;
+        return pending.promise;
+      },
+    );
+    const queue = new ProcessingQueue(module, null);
+
+    const job = queue.enqueue('/captures/a', { detail: 'medium' });
+    expect(queue.getJob(job.id)).toMatchObject({
+      status: 'running',
+      attempts: 1,
+    });
+    await flush();
+    expect(queue.getJob(job.id)?.provider).toBe('local');
+    expect(module.processPhotogrammetry).toHaveBeenCalledWith(
+      '/captures/a',
+      expect.any(String),
+      expect.objectContaining({ detail: 'medium' }),
+      expect.any(Function),
+      job.id,
+    );
+
+    report({ status: 'Processing...', progress: 0.5 });
+    expect(queue.getJob(job.id)?.progress).toEqual({
+      status: 'Processing...',
+      progress: 0.5,
+      etaSeconds: null,
+    });
+
+    pending.resolve('/models/a.usdz');
+    expect(await queue.waitFor(job.id)).toMatchObject({
+      status: 'completed',
+      outputPath: '/models/a.usdz',
+      progress: null,
+    });
+  });
+
+  it('runs one job at a time and reuses unsettled jobs', async () => {
+    const { module } = createFakeModule();
+    const first = deferred<string>();
+    module.processPhotogrammetry
+      .mockReturnValueOnce(first.promise)
+      .mockResolvedValueOnce('/models/b.usdz');
+    const queue = new ProcessingQueue(module, null);
+
+    const a = queue.enqueue('/captures/a', { detail: 'medium' });
+    const b = queue.enqueue('/captures/b', { detail: 'full' });
+    expect(queue.enqueue('/captures/b', { detail: 'full' })).toBe(b);
+    expect(queue.getJob(b.id)?.status).toBe('queued');
+    await flush();
+    expect(module.processPhotogrammetry).toHaveBeenCalledTimes(1);
+
+    first.resolve('/models/a.usdz');
+    await queue.waitFor(a.id);
+    expect(await queue.waitFor(b.id)).toMatchObject({ status: 'completed' });
+    expect(module.processPhotogrammetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('cancels queued and running jobs', async () => {
+    const { module } = createFakeModule();
+    const running = deferred<string>();
+    module.processPhotogrammetry.mockReturnValueOnce(running.promise);
+    module.cancelPhotogrammetry.mockImplementation(async () => {
+      running.reject(cancelledError());
+      return true;
+    });
+    const queue = new ProcessingQueue(module, null);
+
+    const a = queue.enqueue('/captures/a', { detail: 'medium' });
+    const b = queue.enqueue('/captures/b', { detail: 'medium' });
+
+    expect(await queue.cancel(b.id)).toBe(true);
+    expect(queue.getJob(b.id)?.status).toBe('cancelled');
+
+    await flush();
+    expect(await queue.cancel(a.id)).toBe(true);
+    expect(module.cancelPhotogrammetry).toHaveBeenCalledWith(a.id);
+    expect(await queue.waitFor(a.id)).toMatchObject({
+      status: 'cancelled',
+      error: null,
+    });
+    expect(await queue.cancel(a.id)).toBe(false);
+    expect(module.processPhotogrammetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails jobs when no reconstruction backend is available', async () => {
+    const { module } = createFakeModule();
+    const queue = new ProcessingQueue(module, null, async () => null);
+
+    const job = queue.enqueue('/captures/a', { detail: 'medium' });
+    expect(await queue.waitFor(job.id)).toMatchObject({
+      status: 'failed',
+      error: NO_PROVIDER_ERROR,
+      errorCode: 'PHOTOGRAMMETRY_UNSUPPORTED',
+    });
+    expect(module.processPhotogrammetry).not.toHaveBeenCalled();
+  });
+
+  it('records why jobs failed and counts failures by cause', async () => {
+    const { module } = createFakeModule();
+    module.processPhotogrammetry
+      .mockRejectedValueOnce(
+        Object.assign(new Error('Only 4 images'), {
+          code: 'INSUFFICIENT_IMAGES',
+        }),
+      )
+      .mockRejectedValueOnce(new Error('write failed: ENOSPC'))
+      .mockRejectedValueOnce(new Error('Out of memory'))
+      .mockRejectedValueOnce(
+        Object.assign(new Error('Only 2 images'), {
+          code: 'INSUFFICIENT_IMAGES',
+        }),
+      );
+    const queue = new ProcessingQueue(module, null);
+
+    const jobs = [
+      '/captures/a',
+      '/captures/b',
+      '/captures/c',
+      '/captures/d',
+    ].map(directory => queue.enqueue(directory, { detail: 'medium' }));
+    for (const job of jobs) {
+      await queue.waitFor(job.id);
+    }
+
+    expect(queue.getJob(jobs[0].id)).toMatchObject({
+      status: 'failed',
+      error: 'Only 4 images',
+      errorCode: 'INSUFFICIENT_IMAGES',
+    });
+    expect(countFailuresByCause(queue.getJobs())).toEqual({
+      INSUFFICIENT_IMAGES: 2,
+      STORAGE_FULL: 1,
+      UNKNOWN: 1,
+    });
+  });
+
+  it('cancels a job before its provider is chosen', async () => {
+    const { module } = createFakeModule();
+    const queue = new ProcessingQueue(module, null);
+
+    const job = queue.enqueue('/captures/a', { detail: 'medium' });
+    expect(await queue.cancel(job.id)).toBe(true);
+    expect(await queue.waitFor(job.id)).toMatchObject({ status: 'cancelled' });
+    expect(module.processPhotogrammetry).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed job with different options', async () => {
+    const { module } = createFakeModule();
+    module.processPhotogrammetry
+      .mockRejectedValueOnce(new Error('Out of memory'))
+      .mockResolvedValueOnce('/models/a.usdz');
+    const queue = new ProcessingQueue(module, null);
+
+    const job = queue.enqueue('/captures/a', { detail: 'raw' });
+    expect(await queue.waitFor(job.id)).toMatchObject({
+      status: 'failed',
+      error: 'Out of memory',
+    });
+
+    expect(queue.retry(job.id, { detail: 'reduced' })).toMatchObject({
+      status: 'running',
+      options: { detail: 'reduced' },
+      attempts: 2,
+    });
+    expect(await queue.waitFor(job.id)).toMatchObject({
+      status: 'completed',
+      error: null,
+    });
+    expect(module.processPhotogrammetry).toHaveBeenLastCalledWith(
+      '/captures/a',
+      expect.any(String),
+      expect.objectContaining({ detail: 'reduced' }),
+      expect.any(Function),
+      job.id,
+    );
+    expect(queue.remove(job.id)).toBe(true);
+    expect(queue.getJobs()).toEqual([]);
+  });
+
+  it('restores persisted jobs and requeues interrupted ones', async () => {
+    const { module } = createFakeModule();
+    const interrupted = {
+      id: 'job_1',
+      directory: '/captures/a',
+      options: { detail: 'full' },
+      status: 'running',
+      progress: null,
+      outputPath: null,
+      error: null,
+      attempts: 1,
+      createdAt: 1,
+      updatedAt: 2,
+    };
+    const done = {
+      ...interrupted,
+      id: 'job_0',
+      status: 'completed',
+      outputPath: '/models/old.usdz',
+    };
+    module.readTextFile.mockResolvedValue(
+      JSON.stringify([done, interrupted, { id: 'broken' }]),
+    );
+    const queue = new ProcessingQueue(module);
+
+    await queue.restore();
+    expect(module.readTextFile).toHaveBeenCalledWith(PROCESSING_JOBS_FILE);
+    expect(queue.getJobs().map(job => job.id)).toEqual(['job_0', 'job_1']);
+    // Saved before the other options existed
+    expect(queue.getJob('job_1')?.options).toEqual({
+      ...DEFAULT_PROCESSING_OPTIONS,
+      detail: 'full',
+    });
+    expect(await queue.waitFor('job_1')).toMatchObject({
+      status: 'completed',
+      attempts: 2,
+    });
+
+    await flush();
+    const saved = JSON.parse(module.writeTextFile.mock.calls.at(-1)![1]);
+    expect(module.writeTextFile).toHaveBeenLastCalledWith(
+      PROCESSING_JOBS_FILE,
+      expect.any(String),
+    );
+    expect(saved.map((job: any) => job.status)).toEqual([
+      'completed',
+      'completed',
+    ]);
+  });
+
+  it('keeps saved jobs when a job is queued before restore', async () => {
+    const { module } = createFakeModule();
+    const saved = deferred<string | null>();
+    module.readTextFile.mockReturnValue(saved.promise);
+    const queue = new ProcessingQueue(module);
+
+    const job = queue.enqueue('/captures/b', {});
+    await flush();
+    // Nothing is written until the old jobs are in
+    expect(module.writeTextFile).not.toHaveBeenCalled();
+
+    saved.resolve(
+      JSON.stringify([
+        {
+          id: 'job_0',
+          directory: '/captures/a',
+          options: { detail: 'full' },
+          status: 'completed',
+          progress: null,
+          outputPath: '/models/old.usdz',
+          error: null,
+          attempts: 1,
+          createdAt: 1,
+          updatedAt: 2,
+        },
+      ]),
+    );
+    await queue.restore();
+    await queue.waitFor(job.id);
+    await flush();
+
+    expect(queue.getJobs().map(entry => entry.id)).toEqual(['job_0', job.id]);
+    expect(module.writeTextFile).toHaveBeenCalled();
+    // A write with only the new job would lose the saved one if the app died
+    for (const [, json] of module.writeTextFile.mock.calls) {
+      const written = JSON.parse(json);
+      expect(written.map((entry: any) => entry.id)).toEqual(['job_0', job.id]);
+    }
+  });
+});
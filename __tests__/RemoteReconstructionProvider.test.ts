@@ -0,0 +1,268 @@
+/**
+ * @format
+ */
+
+import {
+  checkReconstructionServer,
+  ReconstructionUploadError,
+  REMOTE_UPLOADS_FILE,
+  RemoteReconstructionProvider,
+} from '../src/processing/RemoteReconstructionProvider';
+import { DEFAULT_PROCESSING_OPTIONS } from '../src/processing/processingOptions';
+import {
+  normalizeServerUrl,
+  selectReconstructionProvider,
+  ServerUrlError,
+} from '../src/processing/reconstructionSettings';
+import { createFakeModule } from './helpers/fakeARNativeModule';
+
+const {
+  createMockReconstructionServer,
+  PLACEHOLDER_MODEL,
+} = require('../scripts/mock-reconstruction-server');
+const { Buffer } = require('buffer');
+
+const FILES: Record<string, string> = {
+  'image_0001.jpg': 'first image bytes',
+  'image_0001.json': '{"transform":[]}',
+  'image_0002.jpg': 'second image, a little longer than the first',
+};
+
+const request = {
+  jobId: 'job_1',
+  directory: '/documents/PhotoCapture_1',
+  outputFilename: 'model_1',
+  options: { ...DEFAULT_PROCESSING_OPTIONS, outputFormats: ['obj' as const] },
+};
+
+/**
+ * A fake native module backed by FILES, whose state file and downloads live
+ * in memory
+ */
+const createCaptureModule = () => {
+  const fake = createFakeModule();
+  const { module } = fake;
+  const stored = new Map<string, string>();
+  const downloads = new Map<string, string>();
+
+  module.listCaptureFiles.mockResolvedValue(
+    Object.keys(FILES).map(name => ({ name, size: FILES[name].length })),
+  );
+  module.readFileChunk.mockImplementation(async (path, offset, length) =>
+    Buffer.from(
+      FILES[path.split('/').pop()!].slice(offset, offset + length),
+    ).toString('base64'),
+  );
+  module.readTextFile.mockImplementation(
+    async path => stored.get(path) ?? null,
+  );
+  module.writeTextFile.mockImplementation(async (path, contents) => {
+    stored.set(path, contents);
+  });
+  module.downloadFile.mockImplementation(async (url, path) => {
+    downloads.set(path, await (await fetch(url)).text());
+    return `/documents/${path}`;
+  });
+
+  return { ...fake, stored, downloads };
+};
+
+describe('RemoteReconstructionProvider', () => {
+  let mock: ReturnType<typeof createMockReconstructionServer>;
+  let serverUrl: string;
+
+  beforeEach(async () => {
+    mock = createMockReconstructionServer({ processingMs: 30 });
+    await new Promise<void>(resolve =>
+      mock.server.listen(0, '127.0.0.1', () => resolve()),
+    );
+    serverUrl = `http://127.0.0.1:${mock.server.address().port}/`;
+  });
+
+  afterEach(
+    () => new Promise<void>(resolve => mock.server.close(() => resolve())),
+  );
+
+  it('uploads in chunks, waits for the server and downloads the model', async () => {
+    const { module, downloads } = createCaptureModule();
+    const provider = new RemoteReconstructionProvider(
+      { serverUrl, chunkSize: 8, pollIntervalMs: 10 },
+      module,
+    );
+    const progress: string[] = [];
+
+    const path = await provider.reconstruct(request, update =>
+      progress.push(update.status),
+    );
+
+    expect(path).toBe('/documents/model_1.obj');
+    expect(downloads.get('model_1.obj')).toBe(PLACEHOLDER_MODEL);
+    const job = mock.jobs.get('1');
+    expect(job.metadata).toMatchObject({
+      captureId: 'PhotoCapture_1',
+      detail: 'medium',
+      options: request.options,
+      imageCount: 2,
+    });
+    Object.entries(FILES).forEach(([name, contents]) => {
+      expect(String(Buffer.concat(job.files.get(name).chunks))).toBe(contents);
+    });
+    // 17 + 16 + 44 bytes in 8-byte chunks
+    expect(module.readFileChunk).toHaveBeenCalledTimes(3 + 2 + 6);
+    expect(progress).toEqual(
+      expect.arrayContaining(['Uploading...', 'Downloading model...']),
+    );
+    expect(module.recordCaptureModel).toHaveBeenCalledWith(
+      request.directory,
+      path,
+      'medium',
+    );
+    expect(module.recordCaptureProcessing).toHaveBeenLastCalledWith(
+      request.directory,
+      { status: 'completed', detail: 'medium' },
+    );
+  });
+
+  it('uploads only the images of the chosen pass', async () => {
+    const { module, stored } = createCaptureModule();
+    stored.set(
+      `${request.directory}/segments.json`,
+      JSON.stringify([
+        { id: 'low', firstIndex: 0, lastIndex: 1 },
+        { id: 'mid', firstIndex: 2, lastIndex: 2 },
+      ]),
+    );
+    const provider = new RemoteReconstructionProvider(
+      { serverUrl, pollIntervalMs: 10 },
+      module,
+    );
+
+    await provider.reconstruct(
+      { ...request, options: { ...request.options, segment: 'mid' } },
+      () => {},
+    );
+
+    const job = mock.jobs.get('1');
+    expect(job.metadata.imageCount).toBe(1);
+    expect([...job.files.keys()]).toEqual(['image_0002.jpg']);
+  });
+
+  it('resumes an interrupted upload from what the server holds', async () => {
+    const { module, stored } = createCaptureModule();
+    const read = module.readFileChunk.getMockImplementation()!;
+    module.readFileChunk.mockImplementation(async (path, offset, length) => {
+      if (path.endsWith('image_0002.jpg') && offset >= 16) {
+        throw new Error('Connection lost');
+      }
+      return read(path, offset, length);
+    });
+    const provider = new RemoteReconstructionProvider(
+      { serverUrl, chunkSize: 8, pollIntervalMs: 10 },
+      module,
+    );
+
+    await expect(provider.reconstruct(request, () => {})).rejects.toThrow(
+      'Connection lost',
+    );
+    expect(JSON.parse(stored.get(REMOTE_UPLOADS_FILE)!)).toEqual({
+      job_1: expect.objectContaining({ remoteId: '1' }),
+    });
+
+    module.readFileChunk.mockClear();
+    module.readFileChunk.mockImplementation(read);
+    await provider.reconstruct(request, () => {});
+
+    // Only the rest of the last file is sent again, to the same server job
+    expect(mock.jobs.size).toBe(1);
+    expect(module.readFileChunk.mock.calls.map(call => call[1])).toEqual([
+      16, 24, 32, 40,
+    ]);
+    expect(JSON.parse(stored.get(REMOTE_UPLOADS_FILE)!)).toEqual({});
+  });
+
+  it.each([
+    ['no count', {}],
+    ['a count that does not move on', { received: 0 }],
+    ['a count past the end of the file', { received: 1000 }],
+  ])('fails the upload when the server replies with %s', async (_, reply) => {
+    const { module } = createCaptureModule();
+    const provider = new RemoteReconstructionProvider(
+      {
+        serverUrl,
+        chunkSize: 8,
+        pollIntervalMs: 10,
+        fetch: async (url, init) =>
+          init?.method === 'PUT'
+            ? new Response(JSON.stringify(reply), { status: 200 })
+            : fetch(url, init),
+      },
+      module,
+    );
+
+    await expect(provider.reconstruct(request, () => {})).rejects.toThrow(
+      ReconstructionUploadError,
+    );
+    expect(module.readFileChunk).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks that the server is reachable', async () => {
+    await expect(checkReconstructionServer(serverUrl)).resolves.toBeUndefined();
+    await expect(
+      checkReconstructionServer(`${serverUrl}missing`),
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('cancels the server job', async () => {
+    const { module } = createCaptureModule();
+    const provider = new RemoteReconstructionProvider(
+      { serverUrl, chunkSize: 8, pollIntervalMs: 10 },
+      module,
+    );
+    module.listCaptureFiles.mockImplementationOnce(async () => {
+      await provider.cancel(request.jobId);
+      return [{ name: 'image_0001.jpg', size: FILES['image_0001.jpg'].length }];
+    });
+
+    await expect(provider.reconstruct(request, () => {})).rejects.toMatchObject(
+      { code: 'PROCESSING_CANCELLED' },
+    );
+    expect(mock.jobs.get('1').status).toBe('cancelled');
+    expect(module.recordCaptureProcessing).toHaveBeenLastCalledWith(
+      request.directory,
+      { status: 'cancelled', detail: 'medium' },
+    );
+    expect(await provider.cancel(request.jobId)).toBe(false);
+  });
+});
+
+describe('selectReconstructionProvider', () => {
+  it('prefers on-device photogrammetry, then a configured server', async () => {
+    const { module } = createFakeModule();
+    expect((await selectReconstructionProvider(module))?.id).toBe('local');
+
+    module.isPhotogrammetrySupported.mockResolvedValue(false);
+    expect(
+      await selectReconstructionProvider(module, { serverUrl: null }),
+    ).toBeNull();
+    const remote = await selectReconstructionProvider(module, {
+      serverUrl: 'http://192.168.1.20:8080',
+    });
+    expect(remote).toMatchObject({ id: 'remote', label: '192.168.1.20:8080' });
+  });
+});
+
+describe('normalizeServerUrl', () => {
+  it('defaults to http and trims trailing slashes', () => {
+    expect(normalizeServerUrl(' 192.168.1.20:8080/ ')).toBe(
+      'http://192.168.1.20:8080',
+    );
+    expect(normalizeServerUrl('HTTPS://recon.lan/api/')).toBe(
+      'https://recon.lan/api',
+    );
+    expect(normalizeServerUrl('')).toBeNull();
+  });
+
+  it('rejects other schemes', () => {
+    expect(() => normalizeServerUrl('ftp://recon.lan')).toThrow(ServerUrlError);
+  });
+});
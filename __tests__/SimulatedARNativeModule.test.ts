@@ -0,0 +1,321 @@
+/**
+ * @format
+ */
+
+import { readCaptureDataset } from '../src/capture/CaptureDataset';
+import { analyzeDatasetCoverage } from '../src/capture/coverage';
+import { getTranslation } from '../src/capture/matrix';
+import { RegionOfInterest } from '../src/capture/regionOfInterest';
+import {
+  ARNativeModule,
+  NativeARNativeModule,
+  selectARNativeModule,
+} from '../src/native/ARNativeModule';
+import {
+  getActiveSimulator,
+  SIMULATED_DOCUMENTS_DIRECTORY,
+  SimulatedARNativeModule,
+} from '../src/native/SimulatedARNativeModule';
+import { flush } from './helpers/fakeARNativeModule';
+
+const createSimulator = () => {
+  const simulator = new SimulatedARNativeModule({
+    orbit: { frameIntervalMs: null },
+    processingStepMs: null,
+  });
+  simulator.attachView({});
+  return { simulator };
+};
+
+const captureOrbit = async (
+  simulator: SimulatedARNativeModule,
+  frames: number,
+) => {
+  await simulator.startObjectScan();
+  simulator.captureFrames(frames);
+  return simulator.stopObjectScan();
+};
+
+describe('SimulatedARNativeModule', () => {
+  afterEach(() => {
+    selectARNativeModule(null);
+  });
+
+  it('is used by ARNativeModule once selected', async () => {
+    const { simulator } = createSimulator();
+    expect(getActiveSimulator()).toBeNull();
+
+    selectARNativeModule(simulator);
+    expect(getActiveSimulator()).toBe(simulator);
+    await ARNativeModule.writeTextFile('notes.txt', 'héllo 📷');
+    expect(await simulator.readTextFile('notes.txt')).toBe('héllo 📷');
+
+    selectARNativeModule(null);
+    await expect(ARNativeModule.isSupported()).rejects.toMatchObject({
+      code: 'NOT_LINKED',
+    });
+    expect(NativeARNativeModule).not.toBe(simulator);
+  });
+
+  it('reports a device to match its config, with storage used by captures', async () => {
+    const { simulator } = createSimulator();
+    expect(await simulator.getDeviceCapabilities()).toMatchObject({
+      arSupported: true,
+      lidar: false,
+      depth: false,
+      photogrammetry: true,
+      videoFormats: [{ width: 1920, height: 1440, fps: 60 }],
+      freeStorageBytes: 32e9,
+      thermalState: 'nominal',
+    });
+
+    simulator.setConfig({
+      mesh: { vertices: [], faces: [] },
+      thermalState: 'serious',
+    });
+    await captureOrbit(simulator, 4);
+    const capabilities = await simulator.getDeviceCapabilities();
+    expect(capabilities).toMatchObject({
+      lidar: true,
+      sceneReconstruction: true,
+      thermalState: 'serious',
+    });
+    expect(capabilities.freeStorageBytes).toBeLessThan(32e9);
+  });
+
+  it('captures an orbit as a valid dataset', async () => {
+    const { simulator } = createSimulator();
+    const captured: number[] = [];
+    simulator.addEventListener('onImageCaptured', event =>
+      captured.push(event.index),
+    );
+
+    const result = await captureOrbit(simulator, 36);
+    expect(result).toMatchObject({
+      imageCount: 36,
+      frameStats: { evaluated: 36, accepted: 36 },
+    });
+    expect(captured).toHaveLength(36);
+
+    const { dataset, report } = readCaptureDataset(
+      await simulator.readCaptureManifest(result.directory!),
+    );
+    expect(report).toMatchObject({ valid: true, frameCount: 36 });
+    const [x, y, z] = getTranslation(dataset.frames[9].metadata.transform);
+    expect([x, y, z].map(v => Number(v.toFixed(3)))).toEqual([0, 0.25, 0.4]);
+    expect(analyzeDatasetCoverage(dataset).frameCount).toBe(36);
+
+    expect(await simulator.listCaptures()).toEqual([
+      expect.objectContaining({
+        directory: result.directory,
+        imageCount: 36,
+      }),
+    ]);
+  });
+
+  it('deletes frames with their metadata', async () => {
+    const { simulator } = createSimulator();
+    const { directory } = await captureOrbit(simulator, 6);
+
+    expect(await simulator.deleteCaptureFrames(directory!, [1, 3, 99])).toBe(2);
+    const { dataset, report } = readCaptureDataset(
+      await simulator.readCaptureManifest(directory!),
+    );
+    expect(report).toMatchObject({ valid: true, frameCount: 4 });
+    expect(dataset.frames.map(frame => frame.index)).toEqual([0, 2, 4, 5]);
+    await expect(
+      simulator.deleteCaptureFrames('/nowhere', [0]),
+    ).rejects.toMatchObject({ nativeCode: 'CAPTURE_NOT_FOUND' });
+  });
+
+  it('skips frames while paused or tracking is limited, and stops at the limit', async () => {
+    const { simulator } = createSimulator();
+    await simulator.startObjectScan({ maxImageCount: 5 });
+
+    simulator.setTracking({ state: 'limited', reason: 'excessiveMotion' });
+    expect(simulator.captureFrames(2)).toBe(0);
+    await simulator.setCapturePaused(true);
+    expect(simulator.captureFrames(2)).toBe(0);
+    await simulator.setCapturePaused(false);
+    simulator.setTracking({ state: 'normal', reason: null });
+    expect(simulator.captureFrames(10)).toBe(5);
+
+    expect((await simulator.stopObjectScan()).frameStats).toEqual({
+      evaluated: 7,
+      accepted: 5,
+      rejected: {
+        limitedTracking: 2,
+        motionBlur: 0,
+        outsideRegion: 0,
+        redundantPose: 0,
+      },
+    });
+  });
+
+  it('saves the region of interest and skips frames that miss it', async () => {
+    const { simulator } = createSimulator();
+    // Beside the orbit target, so only the nearer half of the orbit sees it
+    const region: RegionOfInterest = {
+      center: [1.5, 0, 0],
+      size: [0.2, 0.2, 0.2],
+      yaw: 0,
+    };
+    await simulator.startObjectScan({ regionOfInterest: region });
+    simulator.captureFrames(36);
+    const result = await simulator.stopObjectScan();
+
+    const { outsideRegion } = result.frameStats!.rejected;
+    expect(outsideRegion).toBeGreaterThan(0);
+    expect(result.imageCount).toBe(36 - outsideRegion);
+    const { dataset } = readCaptureDataset(
+      await simulator.readCaptureManifest(result.directory!),
+    );
+    expect(dataset.region).toEqual(region);
+  });
+
+  it('resumes a capture where it left off once tracking relocalizes', async () => {
+    const { simulator } = createSimulator();
+    const tracking: string[] = [];
+    simulator.attachView({
+      onTrackingStateChange: event => tracking.push(event.reason ?? 'normal'),
+    });
+    const { directory } = await captureOrbit(simulator, 4);
+    await expect(simulator.resumeObjectScan('/nowhere')).rejects.toMatchObject({
+      nativeCode: 'CAPTURE_NOT_FOUND',
+    });
+
+    expect(await simulator.resumeObjectScan(directory!)).toEqual({
+      directory,
+      imageCount: 4,
+      nextIndex: 4,
+      relocalizing: true,
+    });
+    await expect(simulator.resumeObjectScan(directory!)).rejects.toMatchObject({
+      code: 'SESSION_FAILED',
+    });
+    // The first frame only relocalizes
+    expect(simulator.captureFrames(3)).toBe(2);
+    expect(tracking).toEqual(['relocalizing', 'normal']);
+
+    const result = await simulator.stopObjectScan();
+    expect(result).toMatchObject({ directory, imageCount: 6 });
+    const { files } = await simulator.readCaptureManifest(directory!);
+    expect(files.filter(name => name.endsWith('.jpg'))).toHaveLength(6);
+    expect(files).toContain('image_0005.jpg');
+  });
+
+  it('rejects like the platform module', async () => {
+    const simulator = new SimulatedARNativeModule({
+      failures: { isPhotogrammetrySupported: { code: 'SESSION_FAILED' } },
+    });
+    await expect(simulator.startObjectScan()).rejects.toMatchObject({
+      code: 'SESSION_FAILED',
+      nativeCode: 'AR_VIEW_NOT_FOUND',
+    });
+    await expect(simulator.isPhotogrammetrySupported()).rejects.toMatchObject({
+      code: 'SESSION_FAILED',
+    });
+
+    simulator.attachView({});
+    await expect(simulator.stopObjectScan()).rejects.toMatchObject({
+      code: 'NO_ACTIVE_CAPTURE',
+    });
+    simulator.failNext('startObjectScan', {
+      code: 'WRITE_FILE_FAILED',
+      message: 'No space left on device',
+    });
+    await expect(simulator.startObjectScan()).rejects.toMatchObject({
+      code: 'STORAGE_FULL',
+    });
+    await expect(simulator.startObjectScan()).resolves.toBeUndefined();
+    await expect(simulator.readTextFile('../etc/passwd')).rejects.toMatchObject(
+      { nativeCode: 'READ_FILE_FAILED' },
+    );
+    simulator.dispose();
+  });
+
+  it('reports progress steps and records the model', async () => {
+    const { simulator } = createSimulator();
+    const { directory } = await captureOrbit(simulator, 12);
+    const progress: number[] = [];
+    const stages: string[] = [];
+    simulator.addEventListener('onProcessingProgress', event =>
+      stages.push(`${event.jobId} ${event.stage}`),
+    );
+
+    const output = simulator.processPhotogrammetry(
+      directory!,
+      'model',
+      { detail: 'medium', outputFormats: ['usdz', 'obj'] },
+      step => progress.push(step.progress),
+      'job_1',
+    );
+    await flush();
+    expect(
+      (await simulator.getCaptureInfo(directory!)).processing,
+    ).toMatchObject({ status: 'processing', detail: 'medium' });
+    while (simulator.advanceProcessing()) {
+      await flush();
+    }
+
+    expect(await output).toBe(`${SIMULATED_DOCUMENTS_DIRECTORY}/model.usdz`);
+    expect(progress).toEqual([0.1, 0.4, 0.7, 0.95, 1]);
+    expect(stages).toEqual([
+      'job_1 validating',
+      'job_1 reconstructing',
+      'job_1 texturing',
+      'job_1 exporting',
+      'job_1 exporting',
+    ]);
+    expect(await simulator.getCaptureInfo(directory!)).toMatchObject({
+      processing: { status: 'completed' },
+      models: [
+        { path: await output, detail: 'medium', exists: true },
+        {
+          path: `${SIMULATED_DOCUMENTS_DIRECTORY}/model_obj/model.obj`,
+          detail: 'medium',
+          exists: true,
+        },
+      ],
+    });
+  });
+
+  it('cancels processing and refuses small captures', async () => {
+    const { simulator } = createSimulator();
+    const { directory } = await captureOrbit(simulator, 12);
+    const output = simulator.processPhotogrammetry(
+      directory!,
+      'model',
+      { detail: 'full' },
+      () => {},
+      'job_1',
+    );
+    await flush();
+
+    expect(await simulator.cancelPhotogrammetry('job_1')).toBe(true);
+    await expect(output).rejects.toMatchObject({
+      code: 'PROCESSING_CANCELLED',
+    });
+    expect(await simulator.cancelPhotogrammetry('job_1')).toBe(false);
+
+    const small = await captureOrbit(simulator, 4);
+    await expect(
+      simulator.processPhotogrammetry(
+        small.directory!,
+        'small',
+        { detail: 'full' },
+        () => {},
+      ),
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_IMAGES' });
+  });
+
+  it('reads back binary files in chunks', async () => {
+    const { simulator } = createSimulator();
+    await simulator.writeBase64File('mesh.glb', 'AAECAwQF');
+    expect(await simulator.readFileChunk('mesh.glb', 2, 3)).toBe('AgME');
+    expect(await simulator.readFileChunk('mesh.glb', 6, 3)).toBe('');
+    await expect(
+      simulator.writeBase64File('mesh.glb', 'not base64!'),
+    ).rejects.toMatchObject({ nativeCode: 'WRITE_FILE_FAILED' });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @format
+ */
+
+import {
+  CAPTURE_JOURNAL_FILE,
+  discardInterruptedCapture,
+  findInterruptedCapture,
+  parseCaptureJournal,
+  watchCaptureJournal,
+} from '../src/capture/captureJournal';
+import { CaptureSessionController } from '../src/capture/CaptureSessionController';
+import { createARError } from '../src/native/ARError';
+import { createFakeModule, flush } from './helpers/fakeARNativeModule';
+
+const DIRECTORY = '/captures/PhotoCapture_1';
+
+const journalWrites = (module: ReturnType<typeof createFakeModule>['module']) =>
+  module.writeTextFile.mock.calls
+    .filter(([path]) => path === CAPTURE_JOURNAL_FILE)
+    .map(([, contents]) => JSON.parse(contents));
+
+describe('capture journal', () => {
+  it('parses only journals that name a capture', () => {
+    expect(
+      parseCaptureJournal(JSON.stringify({ directory: DIRECTORY })),
+    ).toEqual({ directory: DIRECTORY });
+    expect(parseCaptureJournal('null')).toBeNull();
+    expect(parseCaptureJournal('{"directory": 3}')).toBeNull();
+    expect(parseCaptureJournal('{')).toBeNull();
+  });
+
+  it('journals a capture until the user stops it', async () => {
+    const { module, emit } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    controller.attach();
+    const stop = watchCaptureJournal(controller, module);
+
+    await controller.start();
+    emit('onCaptureStarted', { directory: DIRECTORY });
+    expect(journalWrites(module)).toEqual([{ directory: DIRECTORY }]);
+
+    await controller.stop();
+    await flush();
+    expect(journalWrites(module)).toEqual([{ directory: DIRECTORY }, null]);
+    stop();
+  });
+
+  it('keeps the journal when a capture ends without the user', async () => {
+    const { module, emit } = createFakeModule();
+    const controller = new CaptureSessionController(module);
+    controller.attach();
+    watchCaptureJournal(controller, module);
+
+    await controller.start();
+    emit('onCaptureStarted', { directory: DIRECTORY });
+    // The AR view went away mid-capture
+    emit('onCaptureStopped', { directory: DIRECTORY, imageCount: 12 });
+    expect(controller.getState().phase).toBe('captured');
+    expect(journalWrites(module)).toEqual([{ directory: DIRECTORY }]);
+
+    // Resuming journals it again
+    await controller.resume(DIRECTORY);
+    expect(journalWrites(module)).toEqual([
+      { directory: DIRECTORY },
+      { directory: DIRECTORY },
+    ]);
+  });
+
+  it('finds the interrupted capture, forgetting one that is gone', async () => {
+    const { module } = createFakeModule();
+    const info = {
+      directory: DIRECTORY,
+      name: null,
+      createdAt: 0,
+      imageCount: 12,
+      sizeBytes: 1000,
+      models: [],
+      processing: null,
+    };
+    expect(await findInterruptedCapture(module)).toBeNull();
+
+    module.readTextFile.mockResolvedValue(
+      JSON.stringify({ directory: DIRECTORY }),
+    );
+    module.getCaptureInfo.mockResolvedValueOnce(info);
+    const interrupted = await findInterruptedCapture(module);
+    expect(interrupted).toEqual({ directory: DIRECTORY, info });
+
+    await discardInterruptedCapture(interrupted!, module);
+    expect(module.deleteCapture).toHaveBeenCalledWith(DIRECTORY);
+    expect(journalWrites(module)).toEqual([null]);
+
+    module.getCaptureInfo.mockRejectedValueOnce(
+      createARError('UNKNOWN', 'No capture', 'CAPTURE_NOT_FOUND'),
+    );
+    expect(await findInterruptedCapture(module)).toBeNull();
+    expect(journalWrites(module)).toEqual([null, null]);
+
+    module.getCaptureInfo.mockRejectedValueOnce(
+      createARError('NOT_LINKED', 'Not linked'),
+    );
+    await expect(findInterruptedCapture(module)).rejects.toMatchObject({
+      code: 'NOT_LINKED',
+    });
+  });
+});
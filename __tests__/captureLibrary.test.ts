@@ -0,0 +1,120 @@
+/**
+ * @format
+ */
+
+import {
+  availableModels,
+  formatByteSize,
+  formatCaptureSummary,
+  formatJobStatus,
+  getCaptureStatus,
+  getCaptureTitle,
+  normalizeCaptureName,
+} from '../src/capture/captureLibrary';
+import { CaptureInfo } from '../src/native/ARNativeModule';
+import { ProcessingJob } from '../src/processing/ProcessingQueue';
+import { DEFAULT_PROCESSING_OPTIONS } from '../src/processing/processingOptions';
+
+const capture = (overrides: Partial<CaptureInfo> = {}): CaptureInfo => ({
+  directory: '/Documents/PhotoCapture_1700000000',
+  name: null,
+  createdAt: 1_700_000_000_000,
+  imageCount: 42,
+  sizeBytes: 3 * 1024 * 1024,
+  models: [],
+  processing: null,
+  ...overrides,
+});
+
+const model = (path: string, createdAt: number, exists = true) => ({
+  path,
+  detail: 'medium',
+  createdAt,
+  exists,
+});
+
+describe('getCaptureStatus', () => {
+  it('is unprocessed until a model exists', () => {
+    expect(getCaptureStatus(capture())).toBe('unprocessed');
+    expect(
+      getCaptureStatus(capture({ models: [model('/a.usdz', 1, false)] })),
+    ).toBe('unprocessed');
+    expect(getCaptureStatus(capture({ models: [model('/a.usdz', 1)] }))).toBe(
+      'processed',
+    );
+  });
+
+  it('reports the last processing attempt over older models', () => {
+    const failed = capture({
+      models: [model('/a.usdz', 1)],
+      processing: { status: 'failed', detail: 'full', updatedAt: 2 },
+    });
+    expect(getCaptureStatus(failed)).toBe('failed');
+  });
+});
+
+describe('capture formatting', () => {
+  it('lists existing models newest first', () => {
+    const info = capture({
+      models: [
+        model('/old.usdz', 1),
+        model('/gone.usdz', 3, false),
+        model('/new.usdz', 2),
+      ],
+    });
+    expect(availableModels(info).map(m => m.path)).toEqual([
+      '/new.usdz',
+      '/old.usdz',
+    ]);
+    expect(formatCaptureSummary(info)).toBe('42 images · 3.0 MB · 2 models');
+  });
+
+  it('prefers the user-given name', () => {
+    expect(getCaptureTitle(capture({ name: 'Teapot' }))).toBe('Teapot');
+    expect(getCaptureTitle(capture())).toMatch(/^Scan /);
+  });
+
+  it('normalizes names', () => {
+    expect(normalizeCaptureName('  Blue   teapot ')).toBe('Blue teapot');
+    expect(normalizeCaptureName('x'.repeat(100))).toHaveLength(60);
+  });
+
+  it('formats byte sizes', () => {
+    expect(formatByteSize(512)).toBe('512 B');
+    expect(formatByteSize(1536)).toBe('1.5 KB');
+  });
+
+  it('describes processing jobs', () => {
+    const job: ProcessingJob = {
+      id: 'job_1',
+      directory: '/Documents/PhotoCapture_1700000000',
+      options: { ...DEFAULT_PROCESSING_OPTIONS, detail: 'medium' },
+      status: 'running',
+      progress: { status: 'Processing...', progress: 0.426 },
+      outputPath: null,
+      error: null,
+      errorCode: null,
+      provider: 'local',
+      attempts: 1,
+      createdAt: 1,
+      updatedAt: 1,
+      startedAt: 1,
+    };
+    expect(formatJobStatus(job)).toBe('Processing... 43%');
+    expect(
+      formatJobStatus({
+        ...job,
+        progress: {
+          status: 'Processing...',
+          progress: 0.75,
+          stage: 'texturing',
+          etaSeconds: 130,
+        },
+      }),
+    ).toBe('Texturing (3 of 4) 75% · About 2 min left');
+    expect(formatJobStatus({ ...job, status: 'queued' })).toBe('Queued');
+    expect(
+      formatJobStatus({ ...job, status: 'failed', error: 'Out of memory' }),
+    ).toBe('Failed: Out of memory');
+  });
+});
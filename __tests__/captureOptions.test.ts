@@ -0,0 +1,59 @@
+/**
+ * @format
+ */
+
+import {
+  CAPTURE_PRESETS,
+  CaptureOptionsError,
+  DEFAULT_CAPTURE_OPTIONS,
+  normalizeCaptureOptions,
+  toNativeCaptureOptions,
+} from '../src/capture/captureOptions';
+
+describe('normalizeCaptureOptions', () => {
+  it('falls back to the defaults', () => {
+    expect(normalizeCaptureOptions()).toEqual(DEFAULT_CAPTURE_OPTIONS);
+    expect(normalizeCaptureOptions({ intervalMs: undefined })).toEqual(
+      DEFAULT_CAPTURE_OPTIONS,
+    );
+  });
+
+  it('rounds counts and intervals', () => {
+    expect(
+      normalizeCaptureOptions({ intervalMs: 333.3, maxImageCount: 99.9 }),
+    ).toMatchObject({ intervalMs: 333, maxImageCount: 99 });
+  });
+
+  it('rejects out-of-range values with the offending field', () => {
+    expect(() => normalizeCaptureOptions({ jpegQuality: 1.5 })).toThrow(
+      CaptureOptionsError,
+    );
+    expect(() => normalizeCaptureOptions({ maxImageCount: 0 })).toThrow(
+      "'maxImageCount'",
+    );
+    expect(() => normalizeCaptureOptions({ intervalMs: NaN })).toThrow(
+      "'intervalMs'",
+    );
+    expect(() =>
+      normalizeCaptureOptions({
+        regionOfInterest: { center: [0, 0, 0], size: [0.3, 0.3, 50], yaw: 0 },
+      }),
+    ).toThrow("'regionOfInterest'");
+  });
+
+  it('accepts every preset', () => {
+    Object.values(CAPTURE_PRESETS).forEach(preset =>
+      expect(() => normalizeCaptureOptions(preset.options)).not.toThrow(),
+    );
+  });
+
+  it('encodes no frame limit as zero for native', () => {
+    expect(toNativeCaptureOptions(DEFAULT_CAPTURE_OPTIONS).maxImageCount).toBe(
+      0,
+    );
+    expect(
+      toNativeCaptureOptions(normalizeCaptureOptions({ maxExposureMs: null }))
+        .maxExposureMs,
+    ).toBe(0);
+  });
+});
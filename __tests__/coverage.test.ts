@@ -0,0 +1,112 @@
+/**
+ * @format
+ */
+
+import {
+  analyzeCoverage,
+  estimateObjectCenter,
+  formatCoverageSummary,
+  nextCellToCapture,
+} from '../src/capture/coverage';
+import {
+  cross,
+  Matrix4,
+  normalize,
+  scale,
+  subtract,
+  Vec3,
+} from '../src/capture/matrix';
+
+const lookAt = (eye: Vec3, target: Vec3): Matrix4 => {
+  const z = scale(normalize(subtract(target, eye)), -1);
+  const x = normalize(cross([0, 1, 0], z));
+  const y = cross(z, x);
+  return [
+    [...x, 0],
+    [...y, 0],
+    [...z, 0],
+    [...eye, 1],
+  ];
+};
+
+const orbit = (
+  target: Vec3,
+  radius: number,
+  elevationDeg: number,
+  fromDeg: number,
+  toDeg: number,
+  steps: number,
+) =>
+  Array.from({ length: steps }, (_, i) => {
+    const azimuth =
+      ((fromDeg + ((toDeg - fromDeg) * i) / steps) * Math.PI) / 180;
+    const elevation = (elevationDeg * Math.PI) / 180;
+    const eye: Vec3 = [
+      target[0] + radius * Math.cos(elevation) * Math.sin(azimuth),
+      target[1] + radius * Math.sin(elevation),
+      target[2] + radius * Math.cos(elevation) * Math.cos(azimuth),
+    ];
+    return lookAt(eye, target);
+  });
+
+describe('coverage', () => {
+  const target: Vec3 = [0.5, 0.2, -1];
+
+  it('estimates the object centre from converging cameras', () => {
+    const center = estimateObjectCenter(orbit(target, 0.6, 20, 0, 360, 24));
+    center.forEach((value, i) => expect(value).toBeCloseTo(target[i], 5));
+  });
+
+  it('reports a full ring at one elevation as one band covered', () => {
+    const report = analyzeCoverage(orbit(target, 0.6, 15, 5, 365, 36));
+    // 12 of 48 cells: one elevation band, every azimuth
+    expect(report.coverage).toBeCloseTo(0.25);
+    expect(report.cells[1].every(cell => cell.frames.length === 3)).toBe(true);
+    expect(report.redundantCells).toEqual([]);
+  });
+
+  it('finds the unvisited side as the largest gap', () => {
+    const report = analyzeCoverage([
+      ...orbit(target, 0.6, 15, 5, 185, 18),
+      ...orbit(target, 0.6, 45, 5, 185, 18),
+    ]);
+    const gapSectors = new Set(
+      report.gaps[0].cells
+        .filter(cell => cell.elevationIndex === 1)
+        .map(cell => cell.azimuthIndex),
+    );
+    expect([...gapSectors].sort((a, b) => a - b)).toEqual([6, 7, 8, 9, 10, 11]);
+    expect(formatCoverageSummary(report)).toContain('Largest gap');
+  });
+
+  it('flags viewpoints that were captured over and over', () => {
+    const report = analyzeCoverage([
+      ...orbit(target, 0.6, 15, 15, 375, 12),
+      ...orbit(target, 0.6, 15, 5, 25, 20),
+    ]);
+    expect(report.redundantCells).toHaveLength(1);
+    expect(report.redundantCells[0].azimuthIndex).toBe(0);
+    expect(report.redundantCells[0].frames.length).toBeGreaterThan(10);
+  });
+
+  it('centres on the region of interest and counts frames that miss it', () => {
+    const region = { center: target, size: [0.2, 0.2, 0.2] as Vec3, yaw: 0 };
+    const away = lookAt([0, 0.2, -1], [-2, 0.2, -1]);
+    const report = analyzeCoverage(
+      [...orbit(target, 0.6, 15, 5, 365, 36), away],
+      { region },
+    );
+    expect(report.coverage).toBeCloseTo(0.25);
+    expect(report.framesOutsideRegion).toBe(1);
+    expect(formatCoverageSummary(report)).toContain(
+      '1 frame(s) did not look at the object',
+    );
+  });
+
+  it('guides towards the nearest uncovered sector at the same height', () => {
+    const poses = orbit(target, 0.6, 15, 5, 95, 9);
+    const report = analyzeCoverage(poses);
+    const next = nextCellToCapture(report, poses[poses.length - 1]);
+    expect(next).toMatchObject({ elevationIndex: 1, azimuthIndex: 3 });
+  });
+});
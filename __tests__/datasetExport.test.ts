@@ -0,0 +1,228 @@
+/**
+ * @format
+ */
+
+import { readCaptureDataset } from '../src/capture/CaptureDataset';
+import {
+  DatasetExportError,
+  exportCaptureDataset,
+  rotationToQuaternion,
+  toColmapModel,
+  toColmapPose,
+  toNerfTransforms,
+} from '../src/capture/datasetExport';
+import { CaptureManifest } from '../src/native/ARNativeModule';
+import { createFakeModule } from './helpers/fakeARNativeModule';
+
+const fs = require('fs');
+const path = require('path');
+
+declare const __dirname: string;
+
+// A capture directory with three iOS frames and one Android frame around the
+// world origin, and the files exported from it
+const GOLDEN_DIRECTORY = path.join(__dirname, 'golden');
+const CAPTURE_DIRECTORY = path.join(GOLDEN_DIRECTORY, 'PhotoCapture_golden');
+
+const readGolden = (name: string): string =>
+  fs.readFileSync(path.join(GOLDEN_DIRECTORY, name), 'utf8');
+
+const goldenManifest = (): CaptureManifest => {
+  const metadataFiles: string[] = fs.readdirSync(CAPTURE_DIRECTORY).sort();
+  return {
+    directory: '/documents/PhotoCapture_golden',
+    files: metadataFiles.flatMap(name => [name, name.replace('.json', '.jpg')]),
+    metadata: Object.fromEntries(
+      metadataFiles.map(name => [
+        name,
+        fs.readFileSync(path.join(CAPTURE_DIRECTORY, name), 'utf8'),
+      ]),
+    ),
+  };
+};
+
+const goldenDataset = () => readCaptureDataset(goldenManifest()).dataset;
+
+// Row-major rotation of a (w, x, y, z) quaternion
+const quaternionToRotation = ([w, x, y, z]: number[]) => [
+  [1 - 2 * (y * y + z * z), 2 * (x * y - z * w), 2 * (x * z + y * w)],
+  [2 * (x * y + z * w), 1 - 2 * (x * x + z * z), 2 * (y * z - x * w)],
+  [2 * (x * z - y * w), 2 * (y * z + x * w), 1 - 2 * (x * x + y * y)],
+];
+
+describe('toColmapModel', () => {
+  it('matches the golden COLMAP text model', () => {
+    const model = toColmapModel(goldenDataset());
+    expect(model.cameras).toBe(readGolden('colmap/cameras.txt'));
+    expect(model.images).toBe(readGolden('colmap/images.txt'));
+    expect(model.points3D).toBe(readGolden('colmap/points3D.txt'));
+  });
+
+  it('projects world points where the AR camera saw them', () => {
+    const dataset = goldenDataset();
+    const model = toColmapModel(dataset);
+    const poses = model.images
+      .split('\n')
+      .filter(line => /^\d+ /.test(line))
+      .map(line => line.split(' ').slice(1, 8).map(Number));
+
+    poses.forEach((pose, i) => {
+      const { intrinsics } = dataset.frames[i].metadata;
+      const [fx, fy, cx, cy] = [
+        intrinsics[0][0],
+        intrinsics[1][1],
+        intrinsics[2][0],
+        intrinsics[2][1],
+      ];
+      const rotation = quaternionToRotation(pose.slice(0, 4));
+      const project = (point: number[]) => {
+        const [x, y, z] = rotation.map(
+          (row, r) =>
+            row[0] * point[0] +
+            row[1] * point[1] +
+            row[2] * point[2] +
+            pose[4 + r],
+        );
+        return { u: (fx * x) / z + cx, v: (fy * y) / z + cy, depth: z };
+      };
+
+      // A point 1 m down the AR camera's -Z axis lands on the principal point
+      const [right, , back, position] = dataset.frames[i].metadata.transform;
+      const ahead = [0, 1, 2].map(axis => position[axis] - back[axis]);
+      const center = project(ahead);
+      expect(center.depth).toBeCloseTo(1, 6);
+      expect(center.u).toBeCloseTo(cx, 3);
+      expect(center.v).toBeCloseTo(cy, 3);
+      // Camera right is right in the image, and world up is towards row 0
+      expect(
+        project([0, 1, 2].map(axis => ahead[axis] + right[axis] * 0.1)).u,
+      ).toBeGreaterThan(cx);
+      expect(project([ahead[0], ahead[1] + 0.1, ahead[2]]).v).toBeLessThan(cy);
+    });
+  });
+
+  it('shares a camera between frames with the same intrinsics', () => {
+    const model = toColmapModel(goldenDataset());
+    const cameraIds = model.images
+      .split('\n')
+      .filter(line => /^\d+ /.test(line))
+      .map(line => line.split(' ')[8]);
+    expect(cameraIds).toEqual(['1', '1', '1', '2']);
+  });
+});
+
+describe('toColmapPose', () => {
+  it('inverts the pose after flipping to OpenCV camera axes', () => {
+    const { rotation, translation } = toColmapPose([
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+      [1, 2, 3, 1],
+    ]);
+    expect(rotation).toEqual([
+      [1, 0, 0],
+      [-0, -1, -0],
+      [-0, -0, -1],
+    ]);
+    expect(translation).toEqual([-1, 2, 3]);
+  });
+});
+
+describe('rotationToQuaternion', () => {
+  it('round-trips rotations in every branch with w >= 0', () => {
+    const quaternions = [
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+      [0, 0, 0, 1],
+      [0.5, -0.5, 0.5, -0.5],
+    ];
+    quaternions.forEach(q => {
+      const result = rotationToQuaternion(quaternionToRotation(q));
+      expect(result[0]).toBeGreaterThanOrEqual(0);
+      result.forEach((value, i) =>
+        expect(Math.abs(value)).toBeCloseTo(Math.abs(q[i]), 9),
+      );
+      expect(quaternionToRotation(result)).toEqual(
+        quaternionToRotation(q).map(row =>
+          row.map(value => expect.closeTo(value, 9)),
+        ),
+      );
+    });
+  });
+});
+
+describe('toNerfTransforms', () => {
+  it('matches the golden transforms.json', () => {
+    expect(
+      `${JSON.stringify(toNerfTransforms(goldenDataset()), null, 2)}\n`,
+    ).toBe(readGolden('transforms.json'));
+  });
+
+  it('keeps OpenGL camera axes in a Z-up world', () => {
+    const [first] = toNerfTransforms(goldenDataset()).frames;
+    const m = first.transform_matrix;
+    // ARKit position (0, 0.2, 1) becomes (0, -1, 0.2)
+    expect([m[0][3], m[1][3], m[2][3]]).toEqual([0, -1, 0.2]);
+    // The camera looks down its -Z axis, which points towards +Y
+    expect([m[0][2], m[1][2], m[2][2]]).toEqual([0, -1, 0]);
+    // and its +Y axis is world up
+    expect([m[0][1], m[1][1], m[2][1]]).toEqual([0, 0, 1]);
+    expect(m[3]).toEqual([0, 0, 0, 1]);
+  });
+
+  it('lifts shared intrinsics to the top level', () => {
+    const dataset = goldenDataset();
+    const transforms = toNerfTransforms({
+      ...dataset,
+      frames: dataset.frames.slice(0, 3),
+    });
+    expect(transforms).toMatchObject({
+      fl_x: 1500,
+      fl_y: 1500,
+      cx: 960,
+      cy: 720,
+      w: 1920,
+      h: 1440,
+    });
+    expect(transforms.frames[0]).not.toHaveProperty('fl_x');
+  });
+});
+
+describe('exportCaptureDataset', () => {
+  it('writes the model files into the capture directory', async () => {
+    const { module } = createFakeModule();
+    module.readCaptureManifest.mockResolvedValue(goldenManifest());
+
+    const paths = await exportCaptureDataset(
+      '/documents/PhotoCapture_golden/',
+      ['colmap', 'nerf'],
+      module,
+    );
+
+    expect(paths).toEqual([
+      '/documents/PhotoCapture_golden/colmap/cameras.txt',
+      '/documents/PhotoCapture_golden/colmap/images.txt',
+      '/documents/PhotoCapture_golden/colmap/points3D.txt',
+      '/documents/PhotoCapture_golden/transforms.json',
+    ]);
+    expect(module.writeTextFile).toHaveBeenCalledWith(
+      '/documents/PhotoCapture_golden/transforms.json',
+      readGolden('transforms.json'),
+    );
+  });
+
+  it('refuses a capture without frames', async () => {
+    const { module } = createFakeModule();
+    module.readCaptureManifest.mockResolvedValue({
+      directory: '/documents/PhotoCapture_empty',
+      files: [],
+      metadata: {},
+    });
+
+    await expect(
+      exportCaptureDataset('/documents/PhotoCapture_empty', ['nerf'], module),
+    ).rejects.toThrow(DatasetExportError);
+    expect(module.writeTextFile).not.toHaveBeenCalled();
+  });
+});
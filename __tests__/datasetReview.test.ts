@@ -0,0 +1,142 @@
+/**
+ * @format
+ */
+
+import {
+  CaptureFrame,
+  readCaptureDataset,
+} from '../src/capture/CaptureDataset';
+import {
+  flaggedFrameIndices,
+  formatFrameDetails,
+  formatReviewSummary,
+  reviewCaptureFrames,
+  unpairedFrameIndices,
+} from '../src/capture/datasetReview';
+import { Matrix4 } from '../src/capture/matrix';
+
+// Camera at x, rotated about Y by yawDegrees
+const pose = (x: number, yawDegrees = 0): Matrix4 => {
+  const yaw = (yawDegrees * Math.PI) / 180;
+  return [
+    [Math.cos(yaw), 0, -Math.sin(yaw), 0],
+    [0, 1, 0, 0],
+    [Math.sin(yaw), 0, Math.cos(yaw), 0],
+    [x, 0, 0, 1],
+  ];
+};
+
+const frame = (
+  index: number,
+  transform: Matrix4,
+  extra: { exposureDuration?: number; trackingState?: string } = {},
+): CaptureFrame => ({
+  index,
+  imagePath: `/captures/image_${index}.jpg`,
+  metadataPath: `/captures/image_${index}.json`,
+  metadata: {
+    transform,
+    intrinsics: [
+      [500, 0, 0],
+      [0, 500, 0],
+      [320, 240, 1],
+    ],
+    imageResolution: { width: 640, height: 480 },
+    timestamp: 100 + index * 0.5,
+    ...extra,
+  },
+});
+
+describe('reviewCaptureFrames', () => {
+  it('leaves well-spaced, short, tracked frames unflagged', () => {
+    const reviews = reviewCaptureFrames([
+      frame(0, pose(0), { exposureDuration: 0.01, trackingState: 'TRACKING' }),
+      frame(1, pose(0.05), { exposureDuration: 0.01 }),
+      frame(2, pose(0.05, 10)),
+    ]);
+
+    expect(reviews.map(review => review.flags)).toEqual([[], [], []]);
+  });
+
+  it('flags long exposures and limited tracking', () => {
+    const reviews = reviewCaptureFrames([
+      frame(0, pose(0), { exposureDuration: 0.03 }),
+      frame(1, pose(0.1), { trackingState: 'PAUSED' }),
+    ]);
+
+    expect(reviews.map(review => review.flags)).toEqual([
+      ['longExposure'],
+      ['limitedTracking'],
+    ]);
+  });
+
+  it('flags every frame of a still run after its first', () => {
+    const reviews = reviewCaptureFrames([
+      frame(0, pose(0)),
+      frame(1, pose(0.002)),
+      frame(2, pose(0.004)),
+      frame(3, pose(0.006)),
+      frame(4, pose(0.1)),
+    ]);
+
+    // Frame 3 is 6 mm from frame 0, so it starts a new reference
+    expect(flaggedFrameIndices(reviews)).toEqual([1, 2]);
+  });
+
+  it('does not flag a frame that only turned', () => {
+    const reviews = reviewCaptureFrames([
+      frame(0, pose(0)),
+      frame(1, pose(0, 5)),
+    ]);
+
+    expect(flaggedFrameIndices(reviews)).toEqual([]);
+  });
+});
+
+describe('unpairedFrameIndices', () => {
+  it('finds images and metadata without a usable partner', () => {
+    const metadata = JSON.stringify(frame(0, pose(0)).metadata);
+    const result = readCaptureDataset({
+      directory: '/captures',
+      files: [
+        'image_0000.jpg',
+        'image_0000.json',
+        'image_0001.jpg',
+        'image_0002.json',
+        'image_0003.jpg',
+        'image_0003.json',
+      ],
+      metadata: {
+        'image_0000.json': metadata,
+        'image_0002.json': metadata,
+        'image_0003.json': '{',
+      },
+    });
+
+    expect(unpairedFrameIndices(result)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('formatting', () => {
+  it('describes a frame from the start of the capture', () => {
+    expect(
+      formatFrameDetails(
+        frame(4, pose(0), {
+          exposureDuration: 0.0166,
+          trackingState: 'TRACKING',
+        }),
+        100,
+      ),
+    ).toBe('+2.0 s · 17 ms · TRACKING');
+    expect(formatFrameDetails(frame(1, pose(0)), 100)).toBe('+0.5 s');
+  });
+
+  it('summarizes the review', () => {
+    const reviews = reviewCaptureFrames([frame(0, pose(0)), frame(1, pose(0))]);
+
+    expect(formatReviewSummary(reviews, 0)).toBe('2 frames · 1 flagged');
+    expect(formatReviewSummary(reviews, 2)).toBe(
+      '2 frames · 1 flagged · 2 selected',
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @format
+ */
+
+import { DEFAULT_CAPTURE_OPTIONS } from '../src/capture/captureOptions';
+import {
+  adaptCaptureOptions,
+  capabilityHighlights,
+  formatCapabilityReport,
+  storageRoomForFrames,
+  storageWarning,
+  thermalWarning,
+} from '../src/capture/deviceCapabilities';
+import { DeviceCapabilities } from '../src/native/ARNativeModule';
+
+const capabilities = (
+  overrides: Partial<DeviceCapabilities> = {},
+): DeviceCapabilities => ({
+  platform: 'ios',
+  model: 'iPhone15,3',
+  osVersion: '17.5',
+  arSupported: true,
+  lidar: true,
+  depth: true,
+  sceneReconstruction: true,
+  photogrammetry: true,
+  videoFormats: [
+    { width: 1920, height: 1440, fps: 60 },
+    { width: 1280, height: 720, fps: 60 },
+  ],
+  freeStorageBytes: 32e9,
+  totalStorageBytes: 128e9,
+  thermalState: 'nominal',
+  ...overrides,
+});
+
+// Free space for exactly this many frames without depth, after the reserve
+const freeFor = (frames: number) => 500e6 + frames * 1.2e6;
+
+describe('adaptCaptureOptions', () => {
+  it('leaves options alone until the report has loaded', () => {
+    const options = { ...DEFAULT_CAPTURE_OPTIONS, saveDepth: true };
+    expect(adaptCaptureOptions(options, null)).toBe(options);
+  });
+
+  it('drops depth on a device without it', () => {
+    const options = { ...DEFAULT_CAPTURE_OPTIONS, saveDepth: true };
+
+    expect(
+      adaptCaptureOptions(options, capabilities({ depth: false })).saveDepth,
+    ).toBe(false);
+    expect(adaptCaptureOptions(options, capabilities()).saveDepth).toBe(true);
+  });
+
+  it('lowers the frame limit to what fits in the free space', () => {
+    const device = capabilities({ freeStorageBytes: freeFor(40) });
+
+    expect(storageRoomForFrames(device, false)).toBe(40);
+    expect(
+      adaptCaptureOptions(
+        { ...DEFAULT_CAPTURE_OPTIONS, maxImageCount: 150 },
+        device,
+      ).maxImageCount,
+    ).toBe(40);
+    expect(
+      adaptCaptureOptions(DEFAULT_CAPTURE_OPTIONS, device).maxImageCount,
+    ).toBe(40);
+    expect(
+      adaptCaptureOptions(DEFAULT_CAPTURE_OPTIONS, capabilities())
+        .maxImageCount,
+    ).toBeNull();
+  });
+});
+
+describe('warnings', () => {
+  it('warns when the capture will not fit', () => {
+    const options = { saveDepth: false, maxImageCount: 150 };
+
+    expect(storageWarning(capabilities(), options)).toBeNull();
+    expect(
+      storageWarning(capabilities({ freeStorageBytes: freeFor(40) }), options),
+    ).toMatch(/room for about 40 images/);
+    expect(
+      storageWarning(capabilities({ freeStorageBytes: 100e6 }), options),
+    ).toMatch(/almost full/);
+  });
+
+  it('warns about an unlimited capture with little space', () => {
+    const options = { saveDepth: false, maxImageCount: null };
+
+    expect(
+      storageWarning(capabilities({ freeStorageBytes: freeFor(99) }), options),
+    ).not.toBeNull();
+    expect(
+      storageWarning(capabilities({ freeStorageBytes: freeFor(100) }), options),
+    ).toBeNull();
+  });
+
+  it('warns only once the device is hot', () => {
+    expect(thermalWarning('nominal')).toBeNull();
+    expect(thermalWarning('fair')).toBeNull();
+    expect(thermalWarning(null)).toBeNull();
+    expect(thermalWarning('serious')).not.toBeNull();
+    expect(thermalWarning('critical')).not.toBeNull();
+  });
+});
+
+describe('reporting', () => {
+  it('describes what the device will use', () => {
+    expect(
+      capabilityHighlights(
+        capabilities({
+          lidar: false,
+          depth: true,
+          sceneReconstruction: false,
+          photogrammetry: false,
+        }),
+      ),
+    ).toEqual([
+      'Estimated depth can be saved with each image',
+      'Build 3D models with a remote service',
+    ]);
+  });
+
+  it('formats a plain-text report', () => {
+    const report = formatCapabilityReport(
+      capabilities({ thermalState: null, freeStorageBytes: 2 * 1024 ** 3 }),
+    );
+
+    expect(report).toContain('Device: iPhone15,3 (iOS 17.5)');
+    expect(report).toContain('Storage: 2.0 GB free of 119.2 GB');
+    expect(report).toContain('Thermal state: Unknown');
+    expect(report).toContain('  1920×1440 @ 60 fps\n  1280×720 @ 60 fps');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @format
+ */
+
+import { CaptureFrame } from '../src/capture/CaptureDataset';
+import { DEFAULT_CAPTURE_OPTIONS } from '../src/capture/captureOptions';
+import {
+  EMPTY_FRAME_QUALITY_STATS,
+  evaluateFrame,
+  filterCaptureFrames,
+  formatFrameQualitySummary,
+  recordFrameDecision,
+} from '../src/capture/frameQuality';
+import { Matrix4 } from '../src/capture/matrix';
+import { RegionOfInterest } from '../src/capture/regionOfInterest';
+
+// Camera at x, rotated about Y by yawDegrees
+const pose = (x: number, yawDegrees = 0): Matrix4 => {
+  const yaw = (yawDegrees * Math.PI) / 180;
+  return [
+    [Math.cos(yaw), 0, -Math.sin(yaw), 0],
+    [0, 1, 0, 0],
+    [Math.sin(yaw), 0, Math.cos(yaw), 0],
+    [x, 0, 0, 1],
+  ];
+};
+
+const thresholds = DEFAULT_CAPTURE_OPTIONS;
+
+const frame = (
+  index: number,
+  transform: Matrix4,
+  extra: { exposureDuration?: number; trackingState?: string } = {},
+): CaptureFrame => ({
+  index,
+  imagePath: `/captures/image_${index}.jpg`,
+  metadataPath: `/captures/image_${index}.json`,
+  metadata: {
+    transform,
+    intrinsics: [
+      [500, 0, 0],
+      [0, 500, 0],
+      [320, 240, 1],
+    ],
+    imageResolution: { width: 640, height: 480 },
+    timestamp: index,
+    ...extra,
+  },
+});
+
+describe('evaluateFrame', () => {
+  it('accepts the first frame', () => {
+    expect(evaluateFrame({ transform: pose(0) }, null, thresholds)).toEqual({
+      accepted: true,
+    });
+  });
+
+  it('rejects a frame that has neither moved nor turned', () => {
+    expect(
+      evaluateFrame({ transform: pose(0.005, 1) }, pose(0), thresholds),
+    ).toEqual({ accepted: false, reason: 'redundantPose' });
+  });
+
+  it('accepts a frame that has moved or turned enough', () => {
+    expect(
+      evaluateFrame({ transform: pose(0.02) }, pose(0), thresholds),
+    ).toEqual({ accepted: true });
+    expect(
+      evaluateFrame({ transform: pose(0, 5) }, pose(0), thresholds),
+    ).toEqual({ accepted: true });
+  });
+
+  it('rejects long exposures only when a limit is set', () => {
+    const blurry = { transform: pose(1), exposureDuration: 1 / 15 };
+    expect(evaluateFrame(blurry, pose(0), thresholds)).toEqual({
+      accepted: false,
+      reason: 'motionBlur',
+    });
+    expect(
+      evaluateFrame(blurry, pose(0), { ...thresholds, maxExposureMs: null }),
+    ).toEqual({ accepted: true });
+  });
+
+  it('rejects frames that do not look at the region of interest', () => {
+    const regionOfInterest: RegionOfInterest = {
+      center: [0, 0, -1],
+      size: [0.3, 0.3, 0.3],
+      yaw: 0,
+    };
+    const withRegion = { ...thresholds, regionOfInterest };
+    expect(
+      evaluateFrame({ transform: pose(0.1) }, pose(0), withRegion),
+    ).toEqual({
+      accepted: true,
+    });
+    expect(
+      evaluateFrame({ transform: pose(1, 180) }, pose(0), withRegion),
+    ).toEqual({ accepted: false, reason: 'outsideRegion' });
+  });
+
+  it('checks tracking before anything else', () => {
+    expect(
+      evaluateFrame(
+        { transform: pose(0), exposureDuration: 1, trackingState: 'PAUSED' },
+        pose(0),
+        thresholds,
+      ),
+    ).toEqual({ accepted: false, reason: 'limitedTracking' });
+    expect(
+      evaluateFrame({ transform: pose(1), trackingState: 'normal' }, pose(0), {
+        ...thresholds,
+        rejectLimitedTracking: true,
+      }),
+    ).toEqual({ accepted: true });
+  });
+});
+
+describe('frame quality stats', () => {
+  it('counts decisions by reason', () => {
+    const stats = [
+      { accepted: true as const },
+      { accepted: false as const, reason: 'redundantPose' as const },
+      { accepted: false as const, reason: 'redundantPose' as const },
+      { accepted: false as const, reason: 'motionBlur' as const },
+    ].reduce(recordFrameDecision, EMPTY_FRAME_QUALITY_STATS);
+
+    expect(stats).toEqual({
+      evaluated: 4,
+      accepted: 1,
+      rejected: {
+        limitedTracking: 0,
+        motionBlur: 1,
+        outsideRegion: 0,
+        redundantPose: 2,
+      },
+    });
+    expect(formatFrameQualitySummary(stats)).toBe(
+      'Kept 1 of 4 frames (skipped 1 motion blur, 2 too similar)',
+    );
+    expect(EMPTY_FRAME_QUALITY_STATS.evaluated).toBe(0);
+  });
+
+  it('compares against the last kept frame, not the last seen one', () => {
+    // Creeping forward 6 mm at a time: every third step clears 1 cm
+    const frames = [0, 1, 2, 3, 4].map(i => frame(i, pose(i * 0.006)));
+    const { kept, decisions, stats } = filterCaptureFrames(frames, thresholds);
+
+    expect(kept.map(f => f.index)).toEqual([0, 2, 4]);
+    expect(decisions.filter(d => !d.accepted)).toHaveLength(2);
+    expect(stats.accepted).toBe(3);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @format
+ */
+
+import {
+  cameraElevation,
+  formatGuidedProgress,
+  formatSegmentSummary,
+  GUIDED_PASSES,
+  GuidedCaptureSequence,
+  guidedPassSequence,
+  isFileInSegment,
+  parseCaptureSegments,
+} from '../src/capture/guidedCapture';
+import {
+  cross,
+  Matrix4,
+  normalize,
+  scale,
+  subtract,
+  Vec3,
+} from '../src/capture/matrix';
+
+const lookAt = (eye: Vec3, target: Vec3): Matrix4 => {
+  const z = scale(normalize(subtract(target, eye)), -1);
+  const x = normalize(cross([0, 1, 0], z));
+  const y = cross(z, x);
+  return [
+    [...x, 0],
+    [...y, 0],
+    [...z, 0],
+    [...eye, 1],
+  ];
+};
+
+// Camera 0.5 m from the origin at an elevation, looking at it
+const viewFrom = (elevationDeg: number, azimuthDeg = 0): Matrix4 => {
+  const elevation = (elevationDeg * Math.PI) / 180;
+  const azimuth = (azimuthDeg * Math.PI) / 180;
+  return lookAt(
+    [
+      0.5 * Math.cos(elevation) * Math.sin(azimuth),
+      0.5 * Math.sin(elevation),
+      0.5 * Math.cos(elevation) * Math.cos(azimuth),
+    ],
+    [0, 0, 0],
+  );
+};
+
+describe('cameraElevation', () => {
+  it('measures from the centre, or from the tilt without one', () => {
+    expect(cameraElevation(viewFrom(30, 90), [0, 0, 0])).toBeCloseTo(30);
+    expect(cameraElevation(viewFrom(30, 90), null)).toBeCloseTo(30);
+    expect(cameraElevation(viewFrom(-5), null)).toBeCloseTo(-5);
+  });
+});
+
+describe('GuidedCaptureSequence', () => {
+  const passes = [
+    { ...GUIDED_PASSES.low, frameTarget: 3 },
+    { ...GUIDED_PASSES.mid, frameTarget: 2 },
+    { ...GUIDED_PASSES.flip, frameTarget: 2 },
+  ];
+
+  it('advances through the passes as each reaches its frame target', () => {
+    const sequence = new GuidedCaptureSequence(passes);
+    expect(sequence.getState()).toMatchObject({
+      status: 'capturing',
+      pass: { id: 'low' },
+      prompt: GUIDED_PASSES.low.instruction,
+    });
+
+    sequence.addFrame(0, viewFrom(10));
+    // Too high for the low pass: saved with it, but not counted
+    expect(sequence.addFrame(1, viewFrom(35))).toMatchObject({
+      passFrames: 1,
+      prompt: 'Lower the phone a little',
+    });
+    sequence.addFrame(2, viewFrom(5));
+    const mid = sequence.addFrame(3, viewFrom(15));
+    expect(mid).toMatchObject({ pass: { id: 'mid' }, passFrames: 0 });
+    expect(formatGuidedProgress(mid)).toBe('Mid orbit (2 of 3): 0/2');
+
+    expect(sequence.addFrame(4, viewFrom(5)).prompt).toBe(
+      'Raise the phone a little',
+    );
+    sequence.addFrame(5, viewFrom(30));
+    expect(sequence.addFrame(6, viewFrom(40))).toMatchObject({
+      status: 'waitingForFlip',
+      pass: { id: 'flip' },
+    });
+
+    // Nothing counts until the object is turned over
+    expect(sequence.addFrame(7, viewFrom(10)).passFrames).toBe(0);
+    sequence.confirmFlip();
+    sequence.addFrame(7, viewFrom(10));
+    const done = sequence.addFrame(8, viewFrom(10));
+    expect(done.status).toBe('complete');
+    expect(done.segments).toEqual([
+      { id: 'low', firstIndex: 0, lastIndex: 3 },
+      { id: 'mid', firstIndex: 4, lastIndex: 6 },
+      { id: 'flip', firstIndex: 7, lastIndex: 8 },
+    ]);
+  });
+
+  it('skips a pass on request', () => {
+    const sequence = new GuidedCaptureSequence(guidedPassSequence(false));
+    sequence.addFrame(0, viewFrom(10));
+    expect(sequence.skipPass().pass.id).toBe('mid');
+    expect(sequence.skipPass().pass.id).toBe('high');
+    expect(sequence.skipPass().status).toBe('complete');
+    expect(sequence.getState().segments).toEqual([
+      { id: 'low', firstIndex: 0, lastIndex: 0 },
+    ]);
+  });
+});
+
+describe('capture segments', () => {
+  const segments = [
+    { id: 'low' as const, firstIndex: 0, lastIndex: 9 },
+    { id: 'mid' as const, firstIndex: 10, lastIndex: 19 },
+  ];
+
+  it('picks out the files of one segment', () => {
+    expect(isFileInSegment(segments, 'mid', 'image_0012.jpg')).toBe(true);
+    expect(isFileInSegment(segments, 'mid', 'image_0012_depth.bin')).toBe(true);
+    expect(isFileInSegment(segments, 'mid', 'image_0003.json')).toBe(false);
+    expect(isFileInSegment(segments, 'mid', 'image_0042.jpg')).toBe(false);
+    expect(isFileInSegment(segments, 'mid', 'region.json')).toBe(true);
+  });
+
+  it('drops malformed entries', () => {
+    expect(
+      parseCaptureSegments(
+        JSON.stringify([
+          ...segments,
+          { id: 'side', firstIndex: 20, lastIndex: 29 },
+          { id: 'high', firstIndex: 30, lastIndex: 20 },
+        ]),
+      ),
+    ).toEqual(segments);
+    expect(parseCaptureSegments('{')).toEqual([]);
+  });
+
+  it('counts only the frames left after some were deleted', () => {
+    expect(formatSegmentSummary(segments)).toBe(
+      'Low orbit: 10 images · Mid orbit: 10 images',
+    );
+    expect(formatSegmentSummary(segments, [0, 1, 2, 12, 19, 25])).toBe(
+      'Low orbit: 3 images · Mid orbit: 2 images',
+    );
+  });
+});
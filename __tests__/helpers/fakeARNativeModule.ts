@@ -0,0 +1,106 @@
+/**
+ * @format
+ */
+
+import {
+  ARNativeEventMap,
+  ARNativeEventName,
+  ARNativeModuleType,
+  createEventListeners,
+} from '../../src/native/ARNativeModule';
+
+export const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+/**
+ * Let pending promise callbacks run
+ */
+export const flush = () =>
+  new Promise<void>(resolve => setImmediate(() => resolve()));
+
+export const createFakeModule = () => {
+  const listeners = createEventListeners();
+  const module: jest.Mocked<ARNativeModuleType> = {
+    isSupported: jest.fn().mockResolvedValue(true),
+    getDeviceCapabilities: jest.fn().mockResolvedValue({
+      platform: 'ios',
+      model: 'iPhone15,3',
+      osVersion: '17.5',
+      arSupported: true,
+      lidar: true,
+      depth: true,
+      sceneReconstruction: true,
+      photogrammetry: true,
+      videoFormats: [{ width: 1920, height: 1440, fps: 60 }],
+      freeStorageBytes: 32e9,
+      totalStorageBytes: 128e9,
+      thermalState: 'nominal',
+    }),
+    startSession: jest.fn().mockResolvedValue(undefined),
+    stopSession: jest.fn().mockResolvedValue(undefined),
+    startObjectScan: jest.fn().mockResolvedValue(undefined),
+    stopObjectScan: jest.fn().mockResolvedValue({
+      vertices: [],
+      faces: [],
+      vertexCount: 0,
+      faceCount: 0,
+      meshCount: 0,
+      directory: '/captures/PhotoCapture_1',
+      imageCount: 3,
+    }),
+    resumeObjectScan: jest.fn().mockResolvedValue({
+      directory: '/captures/PhotoCapture_1',
+      imageCount: 3,
+      nextIndex: 3,
+      relocalizing: true,
+    }),
+    clearScan: jest.fn().mockResolvedValue(undefined),
+    setCapturePaused: jest.fn().mockResolvedValue(undefined),
+    isPhotogrammetrySupported: jest.fn().mockResolvedValue(true),
+    processPhotogrammetry: jest.fn().mockResolvedValue('/models/model.usdz'),
+    getPhotogrammetryCaptureDirectory: jest.fn().mockResolvedValue(null),
+    getPhotogrammetryImageCount: jest.fn().mockResolvedValue(0),
+    readCaptureManifest: jest.fn(),
+    listCaptures: jest.fn().mockResolvedValue([]),
+    getCaptureInfo: jest.fn(),
+    renameCapture: jest.fn().mockResolvedValue(undefined),
+    deleteCapture: jest.fn().mockResolvedValue(undefined),
+    deleteCaptureFrames: jest.fn().mockResolvedValue(0),
+    cancelPhotogrammetry: jest.fn().mockResolvedValue(true),
+    readTextFile: jest.fn().mockResolvedValue(null),
+    writeTextFile: jest.fn().mockResolvedValue(undefined),
+    writeBase64File: jest.fn().mockResolvedValue(undefined),
+    readFileChunk: jest.fn().mockResolvedValue(''),
+    downloadFile: jest.fn((_url: string, path: string) =>
+      Promise.resolve(`/documents/${path}`),
+    ),
+    listCaptureFiles: jest.fn().mockResolvedValue([]),
+    recordCaptureProcessing: jest.fn().mockResolvedValue(undefined),
+    recordCaptureModel: jest.fn().mockResolvedValue(undefined),
+    requestNotificationPermission: jest.fn().mockResolvedValue(true),
+    showLocalNotification: jest.fn().mockResolvedValue(true),
+    addEventListener: jest.fn(
+      <K extends ARNativeEventName>(
+        eventName: K,
+        listener: (event: ARNativeEventMap[K]) => void,
+      ) => {
+        const set = listeners[eventName];
+        set.add(listener);
+        return { remove: () => set.delete(listener) };
+      },
+    ),
+  };
+  const emit = <K extends ARNativeEventName>(
+    eventName: K,
+    event: ARNativeEventMap[K],
+  ) => listeners[eventName].forEach(listener => listener(event));
+
+  return { module, emit, listeners };
+};
@@ -0,0 +1,211 @@
+/**
+ * @format
+ */
+
+import {
+  buildTriangleMesh,
+  computeVertexNormals,
+  encodeBase64,
+  exportScanMesh,
+  MeshError,
+  toAsciiPly,
+  toBinaryPly,
+  toGlb,
+  toObj,
+} from '../src/capture/meshExport';
+import { createFakeModule } from './helpers/fakeARNativeModule';
+
+const { Buffer } = require('buffer');
+
+// A unit square on the floor, split into two triangles facing up
+const SQUARE = {
+  vertices: [
+    [0, 0, 0],
+    [0, 0, 1],
+    [1, 0, 1],
+    [1, 0, 0],
+  ],
+  faces: [
+    [0, 1, 2],
+    [0, 2, 3],
+  ],
+};
+
+describe('buildTriangleMesh', () => {
+  it('computes unit normals facing out of the winding', () => {
+    const mesh = buildTriangleMesh(SQUARE);
+    expect(mesh.triangles).toEqual(SQUARE.faces);
+    expect(mesh.normals).toEqual(SQUARE.vertices.map(() => [0, 1, 0]));
+  });
+
+  it('fans polygons out into triangles', () => {
+    const mesh = buildTriangleMesh({ ...SQUARE, faces: [[0, 1, 2, 3]] });
+    expect(mesh.triangles).toEqual([
+      [0, 1, 2],
+      [0, 2, 3],
+    ]);
+  });
+
+  it('rejects faces that refer to missing vertices', () => {
+    expect(() => buildTriangleMesh({ ...SQUARE, faces: [[0, 1, 4]] })).toThrow(
+      expect.objectContaining({ code: 'INVALID_FACE' }),
+    );
+    expect(() =>
+      buildTriangleMesh({ ...SQUARE, faces: [[0, 1, 1.5]] }),
+    ).toThrow(MeshError);
+    expect(() => buildTriangleMesh({ ...SQUARE, faces: [[0, 1]] })).toThrow(
+      MeshError,
+    );
+  });
+
+  it('rejects empty meshes and malformed vertices', () => {
+    expect(() => buildTriangleMesh({ vertices: [], faces: [] })).toThrow(
+      expect.objectContaining({ code: 'EMPTY_MESH' }),
+    );
+    expect(() =>
+      buildTriangleMesh({ ...SQUARE, vertices: [...SQUARE.vertices, [NaN]] }),
+    ).toThrow(expect.objectContaining({ code: 'INVALID_VERTEX' }));
+  });
+});
+
+describe('computeVertexNormals', () => {
+  it('weights faces by area and points unused vertices up', () => {
+    const normals = computeVertexNormals(
+      [
+        [0, 0, 0],
+        [2, 0, 0],
+        [0, 2, 0],
+        [0, 0, 1],
+        [5, 5, 5],
+      ],
+      [
+        // 2 m² facing +Z and 1 m² facing -Y share the first vertex
+        [0, 1, 2],
+        [0, 1, 3],
+      ],
+    );
+    expect(normals[0][0]).toBeCloseTo(0);
+    expect(normals[0][1]).toBeCloseTo(-1 / Math.sqrt(5));
+    expect(normals[0][2]).toBeCloseTo(2 / Math.sqrt(5));
+    expect(normals[4]).toEqual([0, 1, 0]);
+  });
+});
+
+describe('text formats', () => {
+  it('writes OBJ with 1-based indices and normals', () => {
+    expect(toObj(buildTriangleMesh(SQUARE))).toBe(
+      [
+        '# Scanned with ARinReactNative',
+        '# 4 vertices, 2 faces',
+        'v 0 0 0',
+        'v 0 0 1',
+        'v 1 0 1',
+        'v 1 0 0',
+        'vn 0 1 0',
+        'vn 0 1 0',
+        'vn 0 1 0',
+        'vn 0 1 0',
+        'f 1//1 2//2 3//3',
+        'f 1//1 3//3 4//4',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('writes ASCII PLY', () => {
+    const ply = toAsciiPly(buildTriangleMesh(SQUARE));
+    const [header, body] = ply.split('end_header\n');
+    expect(header).toContain('format ascii 1.0\n');
+    expect(header).toContain('element vertex 4\n');
+    expect(header).toContain('element face 2\n');
+    expect(body.split('\n')).toEqual([
+      '0 0 0 0 1 0',
+      '0 0 1 0 1 0',
+      '1 0 1 0 1 0',
+      '1 0 0 0 1 0',
+      '3 0 1 2',
+      '3 0 2 3',
+      '',
+    ]);
+  });
+});
+
+describe('binary formats', () => {
+  it('writes little-endian binary PLY', () => {
+    const bytes = Buffer.from(toBinaryPly(buildTriangleMesh(SQUARE)));
+    const headerEnd = bytes.indexOf('end_header\n') + 'end_header\n'.length;
+    expect(String(bytes.subarray(0, headerEnd))).toContain(
+      'format binary_little_endian 1.0',
+    );
+    expect(bytes.length).toBe(headerEnd + 4 * 24 + 2 * 13);
+
+    // Third vertex: position (1, 0, 1), normal (0, 1, 0)
+    const vertex = headerEnd + 2 * 24;
+    expect(
+      [0, 1, 2, 3, 4, 5].map(i => bytes.readFloatLE(vertex + i * 4)),
+    ).toEqual([1, 0, 1, 0, 1, 0]);
+    // Second face: 3 indices 0, 2, 3
+    const face = headerEnd + 4 * 24 + 13;
+    expect(bytes[face]).toBe(3);
+    expect([0, 1, 2].map(i => bytes.readInt32LE(face + 1 + i * 4))).toEqual([
+      0, 2, 3,
+    ]);
+  });
+
+  it('writes a GLB with positions, normals and indices', () => {
+    const bytes = Buffer.from(toGlb(buildTriangleMesh(SQUARE)));
+    expect(String(bytes.subarray(0, 4))).toBe('glTF');
+    expect(bytes.readUInt32LE(4)).toBe(2);
+    expect(bytes.readUInt32LE(8)).toBe(bytes.length);
+
+    const jsonLength = bytes.readUInt32LE(12);
+    expect(jsonLength % 4).toBe(0);
+    expect(String(bytes.subarray(16, 20))).toBe('JSON');
+    const gltf = JSON.parse(String(bytes.subarray(20, 20 + jsonLength)));
+    expect(gltf.accessors[0]).toMatchObject({
+      count: 4,
+      type: 'VEC3',
+      min: [0, 0, 0],
+      max: [1, 0, 1],
+    });
+    expect(gltf.accessors[2]).toMatchObject({ count: 6, type: 'SCALAR' });
+
+    const bin = 20 + jsonLength;
+    const binLength = bytes.readUInt32LE(bin);
+    expect(String(bytes.subarray(bin + 4, bin + 7))).toBe('BIN');
+    expect(binLength).toBe(gltf.buffers[0].byteLength);
+    expect(bin + 8 + binLength).toBe(bytes.length);
+
+    const indices = bin + 8 + gltf.bufferViews[2].byteOffset;
+    expect(
+      [0, 1, 2, 3, 4, 5].map(i => bytes.readUInt32LE(indices + i * 4)),
+    ).toEqual([0, 1, 2, 0, 2, 3]);
+  });
+
+  it('encodes base64 like Buffer', () => {
+    [0, 1, 2, 3, 4, 5, 255].forEach(size => {
+      const bytes = Uint8Array.from({ length: size }, (_, i) => (i * 97) % 256);
+      expect(encodeBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+    });
+  });
+});
+
+describe('exportScanMesh', () => {
+  it('writes text formats as text and binary formats as base64', async () => {
+    const { module } = createFakeModule();
+
+    expect(await exportScanMesh(SQUARE, 'obj', '/documents/scan', module)).toBe(
+      '/documents/scan.obj',
+    );
+    expect(module.writeTextFile).toHaveBeenCalledWith(
+      '/documents/scan.obj',
+      expect.stringContaining('f 1//1 2//2 3//3'),
+    );
+
+    expect(await exportScanMesh(SQUARE, 'glb', '/documents/scan', module)).toBe(
+      '/documents/scan.glb',
+    );
+    const [, data] = module.writeBase64File.mock.calls[0];
+    expect(String(Buffer.from(data, 'base64').subarray(0, 4))).toBe('glTF');
+  });
+});
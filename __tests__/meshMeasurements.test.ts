@@ -0,0 +1,169 @@
+/**
+ * @format
+ */
+
+import { Vec3 } from '../src/capture/matrix';
+import { buildTriangleMesh, toGlb, toObj } from '../src/capture/meshExport';
+import {
+  formatDimensions,
+  formatMeasurement,
+  isWatertight,
+  measureMesh,
+  toMeasurementMetadata,
+} from '../src/capture/meshMeasurements';
+
+const { Buffer } = require('buffer');
+
+// Closed box from (0, 0, 0) to size, wound so normals face outwards
+const box = (size: Vec3, transform: (point: Vec3) => Vec3 = p => p) => {
+  const [x, y, z] = size;
+  const corners: Vec3[] = [
+    [0, 0, 0],
+    [x, 0, 0],
+    [x, y, 0],
+    [0, y, 0],
+    [0, 0, z],
+    [x, 0, z],
+    [x, y, z],
+    [0, y, z],
+  ];
+  return {
+    vertices: corners.map(transform),
+    faces: [
+      [0, 3, 2, 1],
+      [4, 5, 6, 7],
+      [0, 1, 5, 4],
+      [3, 7, 6, 2],
+      [0, 4, 7, 3],
+      [1, 2, 6, 5],
+    ],
+  };
+};
+
+// 30° about the vertical axis, then moved away from the origin
+const ANGLE = Math.PI / 6;
+const turnAndMove = ([x, y, z]: Vec3): Vec3 => [
+  x * Math.cos(ANGLE) + z * Math.sin(ANGLE) + 3,
+  y + 0.5,
+  -x * Math.sin(ANGLE) + z * Math.cos(ANGLE) - 2,
+];
+
+describe('measureMesh', () => {
+  it('measures a closed box', () => {
+    const measurements = measureMesh(buildTriangleMesh(box([0.2, 0.1, 0.05])));
+
+    expect(measurements.axisAligned).toMatchObject({
+      min: [0, 0, 0],
+      max: [0.2, 0.1, 0.05],
+      width: 0.2,
+      height: 0.1,
+      depth: 0.05,
+    });
+    expect(measurements.watertight).toBe(true);
+    expect(measurements.surfaceArea).toBeCloseTo(
+      2 * (0.2 * 0.1 + 0.2 * 0.05 + 0.1 * 0.05),
+      12,
+    );
+    expect(measurements.volume).toBeCloseTo(0.2 * 0.1 * 0.05, 12);
+  });
+
+  it('fits an upright box to a turned object', () => {
+    const measurements = measureMesh(
+      buildTriangleMesh(box([0.05, 0.1, 0.2], turnAndMove)),
+    );
+    const { oriented, axisAligned } = measurements;
+
+    // Width is the longer side of the footprint
+    expect(oriented.width).toBeCloseTo(0.2, 9);
+    expect(oriented.height).toBeCloseTo(0.1, 9);
+    expect(oriented.depth).toBeCloseTo(0.05, 9);
+    expect(axisAligned.width * axisAligned.depth).toBeGreaterThan(0.2 * 0.05);
+
+    const center = turnAndMove([0.025, 0.05, 0.1]);
+    oriented.center.forEach((value, i) => expect(value).toBeCloseTo(center[i]));
+    // The width axis runs along the turned box's long (z) edge
+    const along = turnAndMove([0, 0, 1]).map(
+      (value, i) => value - turnAndMove([0, 0, 0])[i],
+    );
+    expect(
+      Math.abs(
+        oriented.axes[0].reduce((sum, value, i) => sum + value * along[i], 0),
+      ),
+    ).toBeCloseTo(1, 9);
+    expect(oriented.axes[1]).toEqual([0, 1, 0]);
+
+    // Far from the world origin, volume stays precise
+    expect(measurements.volume).toBeCloseTo(0.05 * 0.1 * 0.2, 12);
+  });
+
+  it('leaves volume out for open meshes', () => {
+    const open = box([1, 1, 1]);
+    const measurements = measureMesh(
+      buildTriangleMesh({ ...open, faces: open.faces.slice(1) }),
+    );
+    expect(measurements.watertight).toBe(false);
+    expect(measurements.volume).toBeNull();
+    expect(measurements.surfaceArea).toBeCloseTo(5, 12);
+  });
+});
+
+describe('isWatertight', () => {
+  it('requires consistent winding', () => {
+    expect(
+      isWatertight([
+        [0, 1, 2],
+        [0, 2, 3],
+        [0, 3, 1],
+        [1, 3, 2],
+      ]),
+    ).toBe(true);
+    expect(
+      isWatertight([
+        [0, 1, 2],
+        [0, 2, 3],
+        [0, 3, 1],
+        [1, 2, 3],
+      ]),
+    ).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  it('converts metres to the chosen unit', () => {
+    expect(formatMeasurement(0.1234, 'mm')).toBe('123.4 mm');
+    expect(formatMeasurement(0.1234, 'cm')).toBe('12.34 cm');
+    expect(formatMeasurement(0.0254, 'in')).toBe('1.00 in');
+    expect(formatMeasurement(0.0005, 'cm', 2)).toBe('5.0 cm²');
+    expect(formatMeasurement(0.001, 'cm', 3)).toBe('1000 cm³');
+    expect(
+      formatDimensions({ width: 0.2, height: 0.1, depth: 0.05 }, 'cm'),
+    ).toBe('20.00 × 10.00 × 5.00 cm');
+  });
+});
+
+describe('exported metadata', () => {
+  it('embeds measurements in metres', () => {
+    const mesh = buildTriangleMesh(box([0.2, 0.1, 0.05]));
+    const metadata = { measurements: toMeasurementMetadata(measureMesh(mesh)) };
+    expect(metadata.measurements).toMatchObject({
+      units: 'm',
+      orientedBox: { width: 0.2, height: 0.1, depth: 0.05 },
+      surfaceArea: 0.07,
+      watertight: true,
+      volume: 0.001,
+    });
+
+    const comment = toObj(mesh, metadata)
+      .split('\n')
+      .find(line => line.startsWith('# measurements '))!;
+    expect(JSON.parse(comment.slice('# measurements '.length))).toEqual(
+      metadata.measurements,
+    );
+
+    const glb = Buffer.from(toGlb(mesh, metadata));
+    const gltf = JSON.parse(
+      String(glb.subarray(20, 20 + glb.readUInt32LE(12))),
+    );
+    expect(gltf.nodes[0].extras).toEqual(metadata);
+  });
+});
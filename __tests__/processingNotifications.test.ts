@@ -0,0 +1,92 @@
+/**
+ * @format
+ */
+
+import { AppStateStatus } from 'react-native';
+import { ProcessingQueue } from '../src/processing/ProcessingQueue';
+import { watchProcessingNotifications } from '../src/processing/processingNotifications';
+import {
+  createFakeModule,
+  deferred,
+  flush,
+} from './helpers/fakeARNativeModule';
+
+describe('watchProcessingNotifications', () => {
+  const setup = () => {
+    const { module } = createFakeModule();
+    const queue = new ProcessingQueue(module, null);
+    let appState: AppStateStatus = 'active';
+    let now = Date.now();
+    const stop = watchProcessingNotifications({
+      queue,
+      module,
+      minDurationMs: 60000,
+      getAppState: () => appState,
+      now: () => now,
+    });
+    return {
+      module,
+      queue,
+      stop,
+      setAppState: (state: AppStateStatus) => {
+        appState = state;
+      },
+      advance: (ms: number) => {
+        now += ms;
+      },
+    };
+  };
+
+  it('notifies when a long job finishes in the background', async () => {
+    const { module, queue, setAppState, advance } = setup();
+    const pending = deferred<string>();
+    module.processPhotogrammetry.mockReturnValueOnce(pending.promise);
+
+    const job = queue.enqueue('/captures/PhotoCapture_1', {});
+    expect(module.requestNotificationPermission).toHaveBeenCalledTimes(1);
+    advance(120000);
+    setAppState('background');
+    pending.resolve('/models/a.usdz');
+    await queue.waitFor(job.id);
+
+    expect(module.showLocalNotification).toHaveBeenCalledWith(
+      'Model ready',
+      'PhotoCapture_1 has finished processing.',
+    );
+  });
+
+  it('stays quiet for short jobs, foreground jobs and cancellations', async () => {
+    const { module, queue, setAppState, advance, stop } = setup();
+
+    // Short
+    setAppState('background');
+    await queue.waitFor(queue.enqueue('/captures/a', {}).id);
+
+    // In the foreground
+    const running = deferred<string>();
+    module.processPhotogrammetry.mockReturnValueOnce(running.promise);
+    const foreground = queue.enqueue('/captures/b', {});
+    advance(120000);
+    setAppState('active');
+    running.reject(new Error('Out of memory'));
+    await queue.waitFor(foreground.id);
+
+    // Cancelled
+    const cancelled = deferred<string>();
+    module.processPhotogrammetry.mockReturnValueOnce(cancelled.promise);
+    module.cancelPhotogrammetry.mockImplementationOnce(async () => {
+      cancelled.reject(new Error('Cancelled'));
+      return true;
+    });
+    const job = queue.enqueue('/captures/c', {});
+    await flush();
+    advance(120000);
+    setAppState('background');
+    await queue.cancel(job.id);
+    await queue.waitFor(job.id);
+
+    expect(module.showLocalNotification).not.toHaveBeenCalled();
+    expect(module.requestNotificationPermission).toHaveBeenCalledTimes(1);
+    stop();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  formatProcessingOptions,
+  normalizeProcessingOptions,
+  ProcessingOptionsError,
+} from '../src/processing/processingOptions';
+import {
+  LAST_PROCESSING_OPTIONS_FILE,
+  loadLastProcessingOptions,
+  saveLastProcessingOptions,
+} from '../src/processing/reconstructionSettings';
+import { ProcessingQueue } from '../src/processing/ProcessingQueue';
+import { createFakeModule } from './helpers/fakeARNativeModule';
+
+const bounds = { min: [-0.2, 0, -0.2], max: [0.2, 0.3, 0.2] } as const;
+
+describe('normalizeProcessingOptions', () => {
+  it('fills in defaults', () => {
+    expect(normalizeProcessingOptions()).toEqual(DEFAULT_PROCESSING_OPTIONS);
+    expect(normalizeProcessingOptions({ detail: 'raw' })).toEqual({
+      ...DEFAULT_PROCESSING_OPTIONS,
+      detail: 'raw',
+    });
+  });
+
+  it('keeps the first of each output format', () => {
+    expect(
+      normalizeProcessingOptions({ outputFormats: ['obj', 'usdz', 'obj'] })
+        .outputFormats,
+    ).toEqual(['obj', 'usdz']);
+  });
+
+  it('rejects unknown values and empty crop boxes', () => {
+    expect(() =>
+      normalizeProcessingOptions({ detail: 'ultra' as any }),
+    ).toThrow(ProcessingOptionsError);
+    expect(() =>
+      normalizeProcessingOptions({ sampleOrdering: 'random' as any }),
+    ).toThrow("Invalid processing option 'sampleOrdering'");
+    expect(() => normalizeProcessingOptions({ outputFormats: [] })).toThrow(
+      'at least one format',
+    );
+    expect(() =>
+      normalizeProcessingOptions({
+        bounds: { min: [0, 0, 0], max: [1, 0, 1] },
+      }),
+    ).toThrow('min must be below max');
+    expect(() =>
+      normalizeProcessingOptions({
+        bounds: { min: [0, 0, NaN], max: [1, 1, 1] },
+      }),
+    ).toThrow(ProcessingOptionsError);
+    expect(() =>
+      normalizeProcessingOptions({ segment: 'side' as any }),
+    ).toThrow("Invalid processing option 'segment'");
+  });
+
+  it('describes options briefly', () => {
+    expect(formatProcessingOptions(DEFAULT_PROCESSING_OPTIONS)).toBe(
+      'Medium · USDZ',
+    );
+    expect(
+      formatProcessingOptions(
+        normalizeProcessingOptions({
+          detail: 'full',
+          outputFormats: ['usdz', 'obj'],
+          featureSensitivity: 'high',
+          objectMasking: false,
+          bounds: { min: [...bounds.min], max: [...bounds.max] },
+        }),
+      ),
+    ).toBe('Full · USDZ, OBJ · high sensitivity · no masking · cropped');
+    expect(
+      formatProcessingOptions(normalizeProcessingOptions({ segment: 'high' })),
+    ).toBe('Medium · USDZ · High orbit only');
+  });
+});
+
+describe('last processing options', () => {
+  it('round-trips through the documents directory', async () => {
+    const { module } = createFakeModule();
+    const options = normalizeProcessingOptions({
+      sampleOrdering: 'sequential',
+      outputFormats: ['obj'],
+    });
+    await saveLastProcessingOptions(options, module);
+    const [path, json] = module.writeTextFile.mock.calls[0];
+    expect(path).toBe(LAST_PROCESSING_OPTIONS_FILE);
+
+    module.readTextFile.mockResolvedValue(json);
+    expect(await loadLastProcessingOptions(module)).toEqual(options);
+
+    // A pass belongs to one capture, so it is not carried over
+    await saveLastProcessingOptions({ ...options, segment: 'mid' }, module);
+    expect(JSON.parse(module.writeTextFile.mock.calls[1][1]).segment).toBe(
+      null,
+    );
+  });
+
+  it('falls back to the defaults', async () => {
+    const { module } = createFakeModule();
+    expect(await loadLastProcessingOptions(module)).toEqual(
+      DEFAULT_PROCESSING_OPTIONS,
+    );
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    module.readTextFile.mockResolvedValue('{"outputFormats":["fbx"]}');
+    expect(await loadLastProcessingOptions(module)).toEqual(
+      DEFAULT_PROCESSING_OPTIONS,
+    );
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('processing with options', () => {
+  it('validates before anything reaches the native module', () => {
+    const { module } = createFakeModule();
+    const queue = new ProcessingQueue(module, null);
+    expect(() =>
+      queue.enqueue('/captures/a', { outputFormats: ['fbx' as any] }),
+    ).toThrow(ProcessingOptionsError);
+    expect(queue.getJobs()).toEqual([]);
+    expect(module.processPhotogrammetry).not.toHaveBeenCalled();
+  });
+
+  it('queues a capture once per distinct set of options', () => {
+    const { module } = createFakeModule();
+    module.processPhotogrammetry.mockReturnValue(new Promise(() => {}));
+    const queue = new ProcessingQueue(module, null);
+    const first = queue.enqueue('/captures/a', { detail: 'full' });
+    expect(
+      queue.enqueue('/captures/a', {
+        ...DEFAULT_PROCESSING_OPTIONS,
+        detail: 'full',
+      }),
+    ).toMatchObject({ id: first.id });
+    expect(
+      queue.enqueue('/captures/a', { detail: 'full', objectMasking: false }),
+    ).not.toMatchObject({ id: first.id });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @format
+ */
+
+import {
+  formatEta,
+  formatStage,
+  ProgressEstimator,
+  stageOf,
+  stageProgress,
+} from '../src/processing/processingProgress';
+
+describe('processing stages', () => {
+  it('uses the reported stage, or the one the progress falls in', () => {
+    expect(stageOf({ status: 'Processing', progress: 0.05 }).stage).toBe(
+      'validating',
+    );
+    expect(stageOf({ status: 'Processing', progress: 0.5 }).stage).toBe(
+      'reconstructing',
+    );
+    expect(stageOf({ status: 'Complete', progress: 1 }).stage).toBe(
+      'exporting',
+    );
+    expect(
+      stageOf({ status: 'Processing', progress: 0.5, stage: 'texturing' })
+        .stage,
+    ).toBe('texturing');
+  });
+
+  it('describes progress through the stage', () => {
+    const progress = { status: 'Processing', progress: 0.4 };
+    expect(stageProgress(progress)).toBeCloseTo(0.5);
+    expect(formatStage(progress)).toBe('Reconstructing geometry (2 of 4)');
+  });
+
+  it('formats the time left', () => {
+    expect(formatEta(20)).toBe('Less than a minute left');
+    expect(formatEta(250)).toBe('About 4 min left');
+    expect(formatEta(3600)).toBe('About 1 h left');
+    expect(formatEta(5400)).toBe('About 1 h 30 min left');
+  });
+});
+
+describe('ProgressEstimator', () => {
+  const createEstimator = () => {
+    let now = 0;
+    const estimator = new ProgressEstimator(
+      { smoothingMs: 30000, minimumHistoryMs: 5000 },
+      () => now,
+    );
+    const add = (at: number, progress: number) => {
+      now = at;
+      return estimator.add({ status: 'Processing', progress }).etaSeconds;
+    };
+    return { add };
+  };
+
+  it('waits for enough history, then estimates from the rate', () => {
+    const { add } = createEstimator();
+    expect(add(0, 0)).toBeNull();
+    expect(add(2000, 0.02)).toBeNull();
+    // 1% a second
+    expect(add(10000, 0.1)).toBe(90);
+    expect(add(20000, 0.2)).toBe(80);
+    expect(add(30000, 1)).toBe(0);
+  });
+
+  it('smooths out a sudden jump in progress', () => {
+    const { add } = createEstimator();
+    add(0, 0);
+    for (let second = 10; second <= 60; second += 10) {
+      add(second * 1000, second / 100);
+    }
+    // A burst of 20% in one second would suggest 2 more seconds
+    const eta = add(61000, 0.8)!;
+    expect(eta).toBeGreaterThan(2);
+    expect(eta).toBeLessThan(20);
+  });
+
+  it('starts again when progress goes backwards', () => {
+    const { add } = createEstimator();
+    add(0, 0);
+    expect(add(10000, 0.5)).toBe(10);
+    expect(add(11000, 0.1)).toBeNull();
+    expect(add(12000, 0.2)).toBeNull();
+  });
+});
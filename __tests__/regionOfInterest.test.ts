@@ -0,0 +1,91 @@
+/**
+ * @format
+ */
+
+import { Matrix4, Vec3 } from '../src/capture/matrix';
+import {
+  frustumForPose,
+  normalizeRegionOfInterest,
+  parseRegionOfInterest,
+  placeRegionOnPlane,
+  regionBounds,
+  regionContainsPoint,
+  regionIntersectsFrustum,
+  regionToWorld,
+  resizeRegion,
+  rotateRegion,
+  worldToRegion,
+} from '../src/capture/regionOfInterest';
+
+// Cameras look down -Z, so an unrotated camera at +Z sees the origin
+const cameraAt = (position: Vec3): Matrix4 => [
+  [1, 0, 0, 0],
+  [0, 1, 0, 0],
+  [0, 0, 1, 0],
+  [...position, 1],
+];
+
+const expectVecClose = (actual: Vec3, expected: Vec3) =>
+  actual.forEach((value, axis) => expect(value).toBeCloseTo(expected[axis]));
+
+describe('region of interest', () => {
+  const box = { center: [0, 0, 0] as Vec3, size: [0.3, 0.3, 0.3] as Vec3 };
+
+  it('validates and wraps the yaw', () => {
+    expect(normalizeRegionOfInterest({ ...box, yaw: -90 }).yaw).toBe(270);
+    expect(() =>
+      normalizeRegionOfInterest({ ...box, yaw: Number.NaN }),
+    ).toThrow("Invalid region of interest 'yaw'");
+    expect(() =>
+      normalizeRegionOfInterest({ ...box, size: [0.3, 0, 0.3], yaw: 0 }),
+    ).toThrow("'size'");
+    expect(parseRegionOfInterest('{"center":[0,0]}')).toBeNull();
+    expect(parseRegionOfInterest('not json')).toBeNull();
+  });
+
+  it('converts between world and box coordinates', () => {
+    const region = { center: [1, 0, 2] as Vec3, size: box.size, yaw: 90 };
+    const world = regionToWorld(region, [0.1, 0.05, 0]);
+    expectVecClose(world, [1, 0.05, 1.9]);
+    expectVecClose(worldToRegion(region, world), [0.1, 0.05, 0]);
+    expect(regionContainsPoint(region, [1.1, 0, 2])).toBe(true);
+    expect(regionContainsPoint(region, [1.2, 0, 2])).toBe(false);
+  });
+
+  it('stands on the plane and keeps its base when resized', () => {
+    const region = placeRegionOnPlane({
+      center: [0, -0.5, 0],
+      extent: { width: 1, length: 0.2 },
+    });
+    expect(region.size).toEqual([0.2, 0.3, 0.2]);
+    expectVecClose(region.center, [0, -0.35, 0]);
+
+    const taller = resizeRegion(region, [0.2, 0.5, 20]);
+    expect(taller.size).toEqual([0.2, 0.5, 10]);
+    expectVecClose(taller.center, [0, -0.25, 0]);
+  });
+
+  it('bounds a turned box with an axis-aligned one', () => {
+    const region = rotateRegion(
+      { center: [0, 0, 0], size: [0.2, 0.2, 0.2], yaw: 0 },
+      45,
+    );
+    const { min, max } = regionBounds(region);
+    const half = Math.SQRT2 * 0.1;
+    expectVecClose(min, [-half, -0.1, -half]);
+    expectVecClose(max, [half, 0.1, half]);
+  });
+
+  it('tells whether a camera looks at the box', () => {
+    const region = { ...box, yaw: 30 };
+    const seenFrom = (position: Vec3) =>
+      regionIntersectsFrustum(region, frustumForPose(cameraAt(position)));
+
+    expect(seenFrom([0, 0, 1])).toBe(true);
+    // Off to the side, but the box is still at the edge of the picture
+    expect(seenFrom([0.5, 0, 1])).toBe(true);
+    expect(seenFrom([0, 0, -1])).toBe(false);
+    expect(seenFrom([3, 0, 1])).toBe(false);
+    expect(seenFrom([0, 0, 8])).toBe(false);
+  });
+});
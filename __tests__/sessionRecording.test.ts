@@ -0,0 +1,371 @@
+/**
+ * @format
+ */
+
+import { ImageCapturedEvent } from '../src/native/ARNativeModule';
+import { RecordingARNativeModule } from '../src/native/RecordingARNativeModule';
+import { ReplayARNativeModule } from '../src/native/ReplayARNativeModule';
+import {
+  loadSessionRecording,
+  restoreSessionRecording,
+  rewritePaths,
+  saveSessionRecording,
+  SessionRecording,
+} from '../src/native/sessionRecording';
+import {
+  SIMULATED_DOCUMENTS_DIRECTORY,
+  SimulatedARNativeModule,
+} from '../src/native/SimulatedARNativeModule';
+
+const DIRECTORY = `${SIMULATED_DOCUMENTS_DIRECTORY}/PhotoCapture_1700000000`;
+
+const createSimulator = () =>
+  new SimulatedARNativeModule({
+    orbit: { frameIntervalMs: null },
+    processingStepMs: null,
+  });
+
+const recordCapture = async (simulator: SimulatedARNativeModule) => {
+  let now = 5000;
+  const recorder = new RecordingARNativeModule(simulator, () => now);
+  const onTrackingStateChange = jest.fn();
+  recorder.attachView!({ onTrackingStateChange });
+
+  now += 100;
+  await recorder.startObjectScan({ maxImageCount: 20 });
+  now += 200;
+  simulator.setTracking({ state: 'limited', reason: 'excessiveMotion' });
+  simulator.captureFrames(1);
+  simulator.setTracking({ state: 'normal', reason: null });
+  now += 300;
+  simulator.captureFrames(12);
+  now += 400;
+  const result = await recorder.stopObjectScan();
+  await expect(recorder.clearScan()).resolves.toBeUndefined();
+  await expect(recorder.stopObjectScan()).rejects.toMatchObject({
+    code: 'NO_ACTIVE_CAPTURE',
+  });
+
+  return { recording: recorder.stop(), result, onTrackingStateChange };
+};
+
+// A processing session written out by hand, with times in milliseconds
+const processingRecording = (): SessionRecording => ({
+  version: 2,
+  platform: 'ios',
+  startedAt: 0,
+  duration: 5000,
+  documentsDirectory: SIMULATED_DOCUMENTS_DIRECTORY,
+  files: [],
+  timeline: [
+    { type: 'call', at: 0, method: 'startObjectScan', args: [], duration: 100 },
+    {
+      type: 'event',
+      at: 100,
+      name: 'onCaptureStarted',
+      payload: { directory: DIRECTORY },
+    },
+    {
+      type: 'view',
+      at: 400,
+      name: 'onTrackingStateChange',
+      payload: { state: 'limited', reason: 'initializing' },
+    },
+    {
+      type: 'event',
+      at: 1000,
+      name: 'onImageCaptured',
+      payload: {
+        index: 0,
+        path: `${DIRECTORY}/image_0000.jpg`,
+        pose: [],
+        timestamp: 1,
+      },
+    },
+    {
+      type: 'call',
+      at: 2000,
+      method: 'processPhotogrammetry',
+      args: [DIRECTORY, 'model', { detail: 'medium' }, null],
+      duration: 2000,
+      result: `${SIMULATED_DOCUMENTS_DIRECTORY}/model.usdz`,
+      progress: [
+        { at: 500, progress: { status: 'Processing', progress: 0.5 } },
+        {
+          at: 1500,
+          progress: { status: 'Complete', progress: 1, stage: 'exporting' },
+        },
+      ],
+    },
+    {
+      type: 'call',
+      at: 4500,
+      method: 'processPhotogrammetry',
+      args: [DIRECTORY, 'model2', { detail: 'full' }, null],
+      duration: 400,
+      error: {
+        code: 'INSUFFICIENT_IMAGES',
+        message: 'Not enough images',
+        nativeCode: 'INSUFFICIENT_IMAGES',
+      },
+    },
+  ],
+});
+
+describe('session recording', () => {
+  it('records session calls, module events and view events', async () => {
+    const simulator = createSimulator();
+    const { recording, result, onTrackingStateChange } = await recordCapture(
+      simulator,
+    );
+
+    expect(onTrackingStateChange).toHaveBeenCalledTimes(2);
+    expect(recording).toMatchObject({ version: 2, duration: 1000 });
+    const calls = recording.timeline.filter(entry => entry.type === 'call');
+    expect(calls).toEqual([
+      expect.objectContaining({
+        method: 'startObjectScan',
+        at: 100,
+        args: [{ maxImageCount: 20 }],
+        result: null,
+      }),
+      expect.objectContaining({ method: 'stopObjectScan', at: 1000, result }),
+      expect.objectContaining({ method: 'clearScan' }),
+      expect.objectContaining({
+        method: 'stopObjectScan',
+        error: expect.objectContaining({
+          code: 'NO_ACTIVE_CAPTURE',
+          nativeCode: 'NO_ACTIVE_CAPTURE',
+        }),
+      }),
+    ]);
+    const names = recording.timeline.map(entry =>
+      entry.type === 'call' ? entry.method : entry.name,
+    );
+    expect(names.slice(0, 6)).toEqual([
+      // The simulated table, reported when the view attaches
+      'onPlaneDetected',
+      'startObjectScan',
+      'onCaptureStarted',
+      'onTrackingStateChange',
+      'onFrameRejected',
+      'onTrackingStateChange',
+    ]);
+    expect(names.filter(name => name === 'onImageCaptured')).toHaveLength(12);
+    expect(names.filter(name => name === 'onFrameCaptured')).toHaveLength(12);
+  });
+
+  it('saves a bundle and restores its capture elsewhere', async () => {
+    const simulator = createSimulator();
+    const { recording, result } = await recordCapture(simulator);
+    await simulator.renameCapture(result.directory!, 'Mug');
+
+    const bundle = await saveSessionRecording(recording, simulator);
+    expect(bundle).toBe('Recordings/Recording_5');
+    const saved = await loadSessionRecording(bundle, simulator);
+    expect(saved.documentsDirectory).toBe(SIMULATED_DOCUMENTS_DIRECTORY);
+    // 12 images with their metadata, and the capture's settings
+    expect(saved.files).toHaveLength(25);
+    expect(saved.files.some(name => name.endsWith('capture.json'))).toBe(false);
+
+    await simulator.deleteCapture(result.directory!);
+    const restored = await restoreSessionRecording(bundle, simulator);
+    expect(restored.timeline).toEqual(saved.timeline);
+    expect(await simulator.getCaptureInfo(result.directory!)).toMatchObject({
+      name: null,
+      imageCount: 12,
+      models: [],
+    });
+    await expect(
+      loadSessionRecording('Recordings/Missing', simulator),
+    ).rejects.toMatchObject({ name: 'SessionRecordingError' });
+  });
+
+  it('rewrites recorded paths for another documents directory', () => {
+    const recording = processingRecording();
+    const moved = rewritePaths(
+      recording,
+      SIMULATED_DOCUMENTS_DIRECTORY,
+      '/data/files',
+    );
+    expect(moved.documentsDirectory).toBe('/data/files');
+    expect(moved.timeline[1]).toMatchObject({
+      payload: { directory: '/data/files/PhotoCapture_1700000000' },
+    });
+    expect(moved.timeline[4]).toMatchObject({
+      args: [
+        '/data/files/PhotoCapture_1700000000',
+        'model',
+        { detail: 'medium' },
+        null,
+      ],
+      result: '/data/files/model.usdz',
+    });
+    expect(recording.timeline[1]).toMatchObject({
+      payload: { directory: DIRECTORY },
+    });
+  });
+
+  it('loads version 1 bundles, which recorded progress as arrays', async () => {
+    const simulator = createSimulator();
+    const recording = processingRecording();
+    const call = recording.timeline[4];
+    await simulator.writeTextFile(
+      'Recordings/Old/timeline.json',
+      JSON.stringify({
+        ...recording,
+        version: 1,
+        timeline: [
+          {
+            ...call,
+            progress: [
+              { at: 500, progress: [{ status: 'Processing', progress: 0.5 }] },
+            ],
+          },
+        ],
+      }),
+    );
+
+    const loaded = await loadSessionRecording('Recordings/Old', simulator);
+    expect(loaded.version).toBe(2);
+    expect(loaded.timeline[0]).toMatchObject({
+      progress: [
+        { at: 500, progress: { status: 'Processing', progress: 0.5 } },
+      ],
+    });
+  });
+});
+
+describe('ReplayARNativeModule', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('replays calls and events at the recorded timing, scaled by speed', async () => {
+    const replay = new ReplayARNativeModule(
+      processingRecording(),
+      createSimulator(),
+      { speed: 2 },
+    );
+    const images: ImageCapturedEvent[] = [];
+    replay.addEventListener('onImageCaptured', event => images.push(event));
+    const onTrackingStateChange = jest.fn();
+    replay.attachView({ onTrackingStateChange });
+
+    const started = jest.fn();
+    replay.startObjectScan().then(started);
+    await jest.advanceTimersByTimeAsync(49);
+    expect(started).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(150);
+    expect(onTrackingStateChange).toHaveBeenCalledWith({
+      state: 'limited',
+      reason: 'initializing',
+    });
+    expect(images).toHaveLength(0);
+    await jest.advanceTimersByTimeAsync(300);
+    expect(images).toEqual([expect.objectContaining({ index: 0 })]);
+
+    const progress = jest.fn();
+    const stages: string[] = [];
+    replay.addEventListener('onProcessingProgress', event =>
+      stages.push(event.stage),
+    );
+    const output = replay.processPhotogrammetry(
+      DIRECTORY,
+      'model',
+      { detail: 'medium' },
+      progress,
+      'job_1',
+    );
+    await jest.advanceTimersByTimeAsync(250);
+    expect(progress).toHaveBeenLastCalledWith({
+      status: 'Processing',
+      progress: 0.5,
+    });
+    replay.setSpeed(Infinity);
+    await jest.runAllTimersAsync();
+    await expect(output).resolves.toBe(
+      `${SIMULATED_DOCUMENTS_DIRECTORY}/model.usdz`,
+    );
+    expect(progress).toHaveBeenCalledTimes(2);
+    // Recorded without a stage, so it comes from the overall progress
+    expect(stages).toEqual(['reconstructing', 'exporting']);
+
+    const failed = replay
+      .processPhotogrammetry(DIRECTORY, 'model2', { detail: 'full' }, () => {})
+      .catch(error => error);
+    await jest.runAllTimersAsync();
+    expect(await failed).toMatchObject({ code: 'INSUFFICIENT_IMAGES' });
+    expect(replay.remainingCalls()).toBe(0);
+    await expect(replay.stopObjectScan()).rejects.toMatchObject({
+      nativeCode: 'REPLAY_EXHAUSTED',
+    });
+  });
+
+  it('plays a recorded capture back through a new session', async () => {
+    const simulator = createSimulator();
+    const { recording, result } = await recordCapture(simulator);
+    const bundle = await saveSessionRecording(recording, simulator);
+    await simulator.deleteCapture(result.directory!);
+
+    const replay = new ReplayARNativeModule(
+      await restoreSessionRecording(bundle, simulator),
+      simulator,
+      { speed: Infinity },
+    );
+    const images: number[] = [];
+    replay.addEventListener('onImageCaptured', event =>
+      images.push(event.index),
+    );
+    const onFrameCaptured = jest.fn();
+    replay.attachView({ onFrameCaptured });
+
+    const started = replay.startObjectScan({ maxImageCount: 20 });
+    await jest.runAllTimersAsync();
+    await started;
+    expect(images).toEqual([...Array(12).keys()]);
+    expect(onFrameCaptured).toHaveBeenCalledTimes(12);
+    const stopped = replay.stopObjectScan();
+    await jest.runAllTimersAsync();
+    expect(await stopped).toEqual(result);
+    const manifest = await replay.readCaptureManifest(result.directory!);
+    expect(manifest.files).toContain('image_0011.json');
+    replay.dispose();
+  });
+
+  it('settles a job as soon as it is cancelled', async () => {
+    const recording = processingRecording();
+    recording.timeline.push({
+      type: 'call',
+      at: 4600,
+      method: 'cancelPhotogrammetry',
+      args: ['job_1'],
+      duration: 0,
+      result: true,
+    });
+    const replay = new ReplayARNativeModule(recording, createSimulator());
+    const progress = jest.fn();
+    const output = replay.processPhotogrammetry(
+      DIRECTORY,
+      'model',
+      { detail: 'medium' },
+      progress,
+      'job_1',
+    );
+    const settled = output.catch(error => error);
+
+    const cancelled = replay.cancelPhotogrammetry('job_1');
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(cancelled).resolves.toBe(true);
+    expect(await settled).toMatchObject({ code: 'PROCESSING_CANCELLED' });
+    await jest.runAllTimersAsync();
+    expect(progress).not.toHaveBeenCalled();
+  });
+});
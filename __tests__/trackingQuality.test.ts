@@ -0,0 +1,96 @@
+/**
+ * @format
+ */
+
+import {
+  coachingFor,
+  formatTrackingSummary,
+  recordTrackingChange,
+  startTrackingTimeline,
+  TRACKING_COACHING,
+  trackingTimeStats,
+} from '../src/capture/trackingQuality';
+
+const NORMAL = { state: 'normal', reason: null } as const;
+
+describe('tracking timeline', () => {
+  it('adds up time in each state and reason', () => {
+    let timeline = startTrackingTimeline(NORMAL, 0);
+    timeline = recordTrackingChange(
+      timeline,
+      { state: 'limited', reason: 'excessiveMotion' },
+      4000,
+    );
+    timeline = recordTrackingChange(
+      timeline,
+      { state: 'limited', reason: 'insufficientFeatures' },
+      5500,
+    );
+    timeline = recordTrackingChange(
+      timeline,
+      { state: 'notAvailable', reason: null },
+      6000,
+    );
+    timeline = recordTrackingChange(timeline, NORMAL, 7000);
+
+    expect(trackingTimeStats(timeline, 10000)).toEqual({
+      normal: 7000,
+      limited: 2000,
+      notAvailable: 1000,
+      limitedByReason: { excessiveMotion: 1500, insufficientFeatures: 500 },
+    });
+    // Closed states are kept separately from the running one
+    expect(timeline.stats.normal).toBe(4000);
+  });
+
+  it('files limited time without a reason under unknown', () => {
+    const timeline = startTrackingTimeline(
+      { state: 'limited', reason: null },
+      0,
+    );
+    expect(trackingTimeStats(timeline, 250).limitedByReason).toEqual({
+      unknown: 250,
+    });
+  });
+});
+
+describe('coachingFor', () => {
+  it('coaches for each reason and stays quiet while normal', () => {
+    expect(coachingFor(NORMAL)).toBeNull();
+    expect(
+      coachingFor({ state: 'limited', reason: 'excessiveMotion' })?.title,
+    ).toBe('Slow down');
+    expect(
+      coachingFor({ state: 'limited', reason: 'insufficientFeatures' })?.title,
+    ).toBe('Add texture or light');
+    expect(coachingFor({ state: 'notAvailable', reason: null })).toBe(
+      TRACKING_COACHING.notAvailable,
+    );
+  });
+});
+
+describe('formatTrackingSummary', () => {
+  it('lists states and the reasons tracking was limited', () => {
+    expect(
+      formatTrackingSummary({
+        normal: 42000,
+        limited: 5200,
+        notAvailable: 0,
+        limitedByReason: { excessiveMotion: 3100, insufficientLight: 2100 },
+      }),
+    ).toBe(
+      'Tracking: 42s normal, 5s limited (3s moving too fast, 2s too dark)',
+    );
+  });
+
+  it('leaves out states that barely happened', () => {
+    expect(
+      formatTrackingSummary({
+        normal: 12000,
+        limited: 100,
+        notAvailable: 0,
+        limitedByReason: { initializing: 100 },
+      }),
+    ).toBe('Tracking: 12s normal');
+  });
+});
@@ -1,20 +1,76 @@
 package com.arinreactnative
 
+import android.Manifest
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.content.Context
+import android.content.pm.PackageManager
+import android.os.Build
+import android.os.PowerManager
+import android.os.StatFs
+import android.util.Base64
+import androidx.core.app.NotificationCompat
+import androidx.core.app.NotificationManagerCompat
+import androidx.core.content.ContextCompat
 import com.facebook.react.bridge.*
+import com.facebook.react.modules.core.DeviceEventManagerModule
+import com.facebook.react.modules.core.PermissionAwareActivity
 import com.google.ar.core.ArCoreApk
+import com.google.ar.core.CameraConfig
+import com.google.ar.core.CameraConfigFilter
 import com.google.ar.core.Config
 import com.google.ar.core.Session
 import com.google.ar.core.exceptions.UnavailableException
+import java.io.File
+import java.io.FileNotFoundException
+import java.io.IOException
+import java.io.RandomAccessFile
+import java.net.HttpURLConnection
+import java.net.URL
+import java.util.EnumSet
 
 class ARNativeModule(reactContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(reactContext) {
 
     private var arSession: Session? = null
 
+    companion object {
+        private const val NOTIFICATION_CHANNEL_ID = "processing"
+        private const val NOTIFICATION_PERMISSION_REQUEST = 4201
+        private var notificationId = 0
+
+        /**
+         * Emit a capture event to JS listeners registered through NativeEventEmitter
+         */
+        fun emit(reactContext: ReactContext, eventName: String, params: WritableMap) {
+            if (!reactContext.hasActiveReactInstance()) return
+            reactContext
+                .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+                .emit(eventName, params)
+        }
+    }
+
     override fun getName(): String {
         return "ARNativeModule"
     }
 
+    /**
+     * Required by NativeEventEmitter; events are emitted regardless of listener count
+     */
+    @ReactMethod
+    fun addListener(eventName: String) {
+        // No-op
+    }
+
+    /**
+     * Required by NativeEventEmitter
+     */
+    @ReactMethod
+    fun removeListeners(count: Int) {
+        // No-op
+    }
+
     /**
      * Check if ARCore is supported and installed on this device
      * @param promise - Resolves with boolean indicating AR support
@@ -47,6 +103,97 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Report what this device can do for capture and processing
+     * @param promise - Resolves with a DeviceCapabilities map, see ARNativeModule.ts
+     */
+    @ReactMethod
+    fun getDeviceCapabilities(promise: Promise) {
+        try {
+            val arSupported = ArCoreApk.getInstance()
+                .checkAvailability(reactApplicationContext).isSupported
+
+            // Depth and camera formats are only known to a session; a
+            // temporary one is opened and closed without touching the camera
+            var depth = false
+            var timeOfFlight = false
+            val videoFormats = Arguments.createArray()
+            if (arSupported) {
+                val session = arSession
+                    ?: try {
+                        Session(reactApplicationContext)
+                    } catch (e: UnavailableException) {
+                        null
+                    }
+                try {
+                    session?.let {
+                        depth = it.isDepthModeSupported(Config.DepthMode.AUTOMATIC)
+                        timeOfFlight = it.getSupportedCameraConfigs(
+                            CameraConfigFilter(it).setDepthSensorUsage(
+                                EnumSet.of(CameraConfig.DepthSensorUsage.REQUIRE_AND_USE)
+                            )
+                        ).isNotEmpty()
+                        it.getSupportedCameraConfigs(CameraConfigFilter(it))
+                            .groupBy { config -> config.imageSize }
+                            .map { (size, configs) ->
+                                Triple(size.width, size.height, configs.maxOf { config -> config.fpsRange.upper })
+                            }
+                            .sortedByDescending { (width, height) -> width * height }
+                            .forEach { (width, height, fps) ->
+                                videoFormats.pushMap(Arguments.createMap().apply {
+                                    putInt("width", width)
+                                    putInt("height", height)
+                                    putInt("fps", fps)
+                                })
+                            }
+                    }
+                } finally {
+                    if (session !== arSession) session?.close()
+                }
+            }
+
+            val storage = StatFs(reactApplicationContext.filesDir.path)
+            val result = Arguments.createMap().apply {
+                putString("platform", "android")
+                putString("model", "${Build.MANUFACTURER} ${Build.MODEL}")
+                putString("osVersion", Build.VERSION.RELEASE)
+                putBoolean("arSupported", arSupported)
+                putBoolean("lidar", timeOfFlight)
+                putBoolean("depth", depth)
+                putBoolean("sceneReconstruction", false)
+                putBoolean("photogrammetry", PhotogrammetryCapture.isPhotogrammetrySupported())
+                putArray("videoFormats", videoFormats)
+                putDouble("freeStorageBytes", storage.availableBytes.toDouble())
+                putDouble("totalStorageBytes", storage.totalBytes.toDouble())
+                val thermalState = thermalStateName()
+                if (thermalState != null) putString("thermalState", thermalState) else putNull("thermalState")
+            }
+            promise.resolve(result)
+        } catch (e: Exception) {
+            promise.reject(
+                "DEVICE_CAPABILITIES_FAILED",
+                "Failed to read device capabilities: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Android's thermal statuses folded into iOS's four levels; null before Android 10
+     */
+    private fun thermalStateName(): String? {
+        if (Build.VERSION.SDK_INT < Build.VERSION_CODES.Q) return null
+        val powerManager = reactApplicationContext
+            .getSystemService(Context.POWER_SERVICE) as PowerManager
+        return when (powerManager.currentThermalStatus) {
+            PowerManager.THERMAL_STATUS_NONE -> "nominal"
+            PowerManager.THERMAL_STATUS_LIGHT,
+            PowerManager.THERMAL_STATUS_MODERATE -> "fair"
+            PowerManager.THERMAL_STATUS_SEVERE -> "serious"
+            else -> "critical"
+        }
+    }
+
     /**
      * Start an ARCore session
      * @param promise - Resolves when session starts successfully, rejects on error
@@ -63,6 +210,14 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
                 return
             }
 
+            if (!hasCameraPermission()) {
+                promise.reject(
+                    "CAMERA_PERMISSION_DENIED",
+                    "Camera permission has not been granted"
+                )
+                return
+            }
+
             // Check ARCore availability
             val availability = ArCoreApk.getInstance().checkAvailability(activity)
             if (!availability.isSupported) {
@@ -168,9 +323,10 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
 
     /**
      * Start object scanning (photogrammetry capture)
+     * @param options Capture options (intervalMs, minTranslation, minRotation, jpegQuality, maxImageCount, saveDepth)
      */
     @ReactMethod
-    fun startObjectScan(promise: Promise) {
+    fun startObjectScan(options: ReadableMap?, promise: Promise) {
         try {
             val arView = ARView.getSharedInstance()
             if (arView == null) {
@@ -181,7 +337,15 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
                 return
             }
 
-            val result = arView.startObjectScan()
+            if (!hasCameraPermission()) {
+                promise.reject(
+                    "CAMERA_PERMISSION_DENIED",
+                    "Camera permission has not been granted"
+                )
+                return
+            }
+
+            val result = arView.startObjectScan(CaptureSettings.fromReadableMap(options))
             if (result["success"] == true) {
                 promise.resolve(null)
             } else {
@@ -192,13 +356,64 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
             }
         } catch (e: Exception) {
             promise.reject(
-                "START_SCAN_ERROR",
+                fileErrorCode(e, "START_SCAN_ERROR"),
                 "Error starting scan: ${e.message}",
                 e
             )
         }
     }
 
+    /**
+     * Continue an interrupted capture in its directory, with the settings it started with
+     * Resolves with the directory, the images already saved, the index of the next frame
+     * and relocalizing, which is always false: ARCore cannot reload the world the capture
+     * started in
+     */
+    @ReactMethod
+    fun resumeObjectScan(directory: String, promise: Promise) {
+        val arView = ARView.getSharedInstance()
+        if (arView == null) {
+            promise.reject(
+                "AR_VIEW_NOT_FOUND",
+                "AR View is not initialized"
+            )
+            return
+        }
+
+        if (!hasCameraPermission()) {
+            promise.reject(
+                "CAMERA_PERMISSION_DENIED",
+                "Camera permission has not been granted"
+            )
+            return
+        }
+
+        val dir = try {
+            CaptureLibrary.captureDirectory(reactApplicationContext.filesDir, directory)
+        } catch (e: Exception) {
+            promise.reject("CAPTURE_NOT_FOUND", "Failed to resume capture: ${e.message}", e)
+            return
+        }
+
+        try {
+            val result = arView.resumeObjectScan(dir)
+            promise.resolve(Arguments.createMap().apply {
+                putString("directory", result["directory"] as String)
+                putInt("imageCount", result["imageCount"] as Int)
+                putInt("nextIndex", result["nextIndex"] as Int)
+                putBoolean("relocalizing", result["relocalizing"] as Boolean)
+            })
+        } catch (e: FileNotFoundException) {
+            promise.reject("CAPTURE_NOT_FOUND", "Failed to resume capture: ${e.message}", e)
+        } catch (e: Exception) {
+            promise.reject(
+                fileErrorCode(e, "START_SCAN_FAILED"),
+                "Failed to resume capture: ${e.message}",
+                e
+            )
+        }
+    }
+
     /**
      * Stop object scanning and get scan data
      */
@@ -214,11 +429,20 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
                 return
             }
 
+            if (arView.getPhotogrammetryCaptureDirectory() == null) {
+                promise.reject(
+                    "NO_ACTIVE_CAPTURE",
+                    "No capture has been started"
+                )
+                return
+            }
+
             val result = arView.stopObjectScan()
             val map = Arguments.createMap().apply {
                 putInt("imageCount", result["imageCount"] as? Int ?: 0)
                 putString("directory", result["directory"] as? String ?: "")
                 putString("scanType", result["scanType"] as? String ?: "photogrammetry")
+                (result["frameStats"] as? FrameQualityStats)?.let { putMap("frameStats", it.toWritableMap()) }
             }
             
             promise.resolve(map)
@@ -257,6 +481,24 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Stop or resume saving frames without ending the capture
+     */
+    @ReactMethod
+    fun setCapturePaused(paused: Boolean, promise: Promise) {
+        val arView = ARView.getSharedInstance()
+        if (arView == null) {
+            promise.reject(
+                "AR_VIEW_NOT_FOUND",
+                "AR View is not initialized"
+            )
+            return
+        }
+
+        arView.setCapturePaused(paused)
+        promise.resolve(null)
+    }
+
     /**
      * Get the directory where photogrammetry images are being captured
      */
@@ -309,6 +551,191 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * List a capture directory and read its per-image metadata
+     * Resolves with { directory, files, metadata } where metadata maps .json file names to contents
+     */
+    @ReactMethod
+    fun readCaptureManifest(directory: String, promise: Promise) {
+        try {
+            val dir = File(directory)
+            val files = dir.list()?.sorted()
+            if (files == null) {
+                promise.reject(
+                    "READ_CAPTURE_FAILED",
+                    "Capture directory not found: $directory"
+                )
+                return
+            }
+
+            val metadata = Arguments.createMap()
+            files.filter { it.endsWith(".json") }.forEach { name ->
+                metadata.putString(name, File(dir, name).readText())
+            }
+
+            val map = Arguments.createMap().apply {
+                putString("directory", directory)
+                putArray("files", Arguments.fromList(files))
+                putMap("metadata", metadata)
+            }
+            promise.resolve(map)
+        } catch (e: Exception) {
+            promise.reject(
+                "READ_CAPTURE_FAILED",
+                "Failed to read capture directory: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Describe every capture directory, newest first
+     */
+    @ReactMethod
+    fun listCaptures(promise: Promise) {
+        try {
+            val captures = Arguments.createArray()
+            CaptureLibrary.listCaptures(reactApplicationContext.filesDir).forEach { captures.pushMap(it) }
+            promise.resolve(captures)
+        } catch (e: Exception) {
+            promise.reject(
+                "LIST_CAPTURES_FAILED",
+                "Failed to list captures: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Describe one capture directory: image count, size, name, processing status and models
+     */
+    @ReactMethod
+    fun getCaptureInfo(directory: String, promise: Promise) {
+        try {
+            val dir = CaptureLibrary.captureDirectory(reactApplicationContext.filesDir, directory)
+            promise.resolve(CaptureLibrary.info(dir))
+        } catch (e: Exception) {
+            promise.reject(
+                "CAPTURE_NOT_FOUND",
+                "Failed to read capture: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Set the display name of a capture; an empty name clears it
+     */
+    @ReactMethod
+    fun renameCapture(directory: String, name: String, promise: Promise) {
+        try {
+            val dir = CaptureLibrary.captureDirectory(reactApplicationContext.filesDir, directory)
+            CaptureLibrary.rename(dir, name)
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject(
+                "RENAME_CAPTURE_FAILED",
+                "Failed to rename capture: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Delete a capture directory and the models generated from it
+     */
+    @ReactMethod
+    fun deleteCapture(directory: String, promise: Promise) {
+        try {
+            val dir = CaptureLibrary.captureDirectory(reactApplicationContext.filesDir, directory)
+            CaptureLibrary.delete(dir)
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject(
+                "DELETE_CAPTURE_FAILED",
+                "Failed to delete capture: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Delete frames from a capture, each image with its metadata and depth
+     */
+    @ReactMethod
+    fun deleteCaptureFrames(directory: String, indices: ReadableArray, promise: Promise) {
+        try {
+            val dir = CaptureLibrary.captureDirectory(reactApplicationContext.filesDir, directory)
+            val wanted = (0 until indices.size()).map { indices.getInt(it) }.toSet()
+            promise.resolve(CaptureLibrary.deleteFrames(dir, wanted))
+        } catch (e: Exception) {
+            promise.reject(
+                "DELETE_FRAMES_FAILED",
+                "Failed to delete frames: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * List the files in a capture directory, for uploading it elsewhere
+     */
+    @ReactMethod
+    fun listCaptureFiles(directory: String, promise: Promise) {
+        try {
+            val dir = CaptureLibrary.captureDirectory(reactApplicationContext.filesDir, directory)
+            promise.resolve(CaptureLibrary.files(dir))
+        } catch (e: Exception) {
+            promise.reject(
+                "CAPTURE_NOT_FOUND",
+                "Failed to list capture files: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Record a processing attempt made on a reconstruction server
+     */
+    @ReactMethod
+    fun recordCaptureProcessing(
+        directory: String,
+        status: String,
+        detail: String,
+        error: String?,
+        promise: Promise
+    ) {
+        try {
+            val dir = CaptureLibrary.captureDirectory(reactApplicationContext.filesDir, directory)
+            CaptureLibrary.recordProcessing(dir, status, detail, error)
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject(
+                "CAPTURE_NOT_FOUND",
+                "Failed to record processing: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Add a model downloaded from a reconstruction server to a capture
+     */
+    @ReactMethod
+    fun recordCaptureModel(directory: String, path: String, detail: String, promise: Promise) {
+        try {
+            val dir = CaptureLibrary.captureDirectory(reactApplicationContext.filesDir, directory)
+            CaptureLibrary.recordModel(dir, path, detail)
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject(
+                "CAPTURE_NOT_FOUND",
+                "Failed to record model: ${e.message}",
+                e
+            )
+        }
+    }
+
     /**
      * Process photogrammetry images
      * Note: Android doesn't have built-in photogrammetry like iOS
@@ -318,8 +745,8 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
     fun processPhotogrammetry(
         inputDirectory: String,
         outputFilename: String,
-        detail: String,
-        progressCallback: Callback,
+        options: ReadableMap,
+        jobId: String,
         promise: Promise
     ) {
         // Android doesn't have built-in photogrammetry processing
@@ -329,4 +756,248 @@ class ARNativeModule(reactContext: ReactApplicationContext) :
             "3D reconstruction is not available on Android. Please use the captured images with external photogrammetry software (e.g., Metashape, RealityCapture, or cloud services like Polycam API)."
         )
     }
+
+    /**
+     * Cancel a running processPhotogrammetry call
+     * Nothing ever runs on Android, so this always resolves false
+     */
+    @ReactMethod
+    fun cancelPhotogrammetry(jobId: String, promise: Promise) {
+        promise.resolve(false)
+    }
+
+    /**
+     * Read a UTF-8 file in the app's files directory
+     * Resolves with null if the file does not exist
+     */
+    @ReactMethod
+    fun readTextFile(path: String, promise: Promise) {
+        try {
+            val file = filesDirFile(path)
+            promise.resolve(if (file.exists()) file.readText() else null)
+        } catch (e: Exception) {
+            promise.reject(
+                "READ_FILE_FAILED",
+                "Failed to read $path: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Write a UTF-8 file in the app's files directory, creating parent directories
+     * Writes to a temporary file first so a crash never leaves a half-written file
+     */
+    @ReactMethod
+    fun writeTextFile(path: String, contents: String, promise: Promise) {
+        try {
+            val file = filesDirFile(path)
+            file.parentFile?.mkdirs()
+            val temp = File(file.parentFile, "${file.name}.tmp")
+            temp.writeText(contents)
+            if (!temp.renameTo(file)) {
+                throw IllegalStateException("Could not replace ${file.absolutePath}")
+            }
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject(
+                fileErrorCode(e, "WRITE_FILE_FAILED"),
+                "Failed to write $path: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Write a binary file in the app's files directory from base64, creating parent directories
+     * Writes to a temporary file first so a crash never leaves a half-written file
+     */
+    @ReactMethod
+    fun writeBase64File(path: String, data: String, promise: Promise) {
+        try {
+            val file = filesDirFile(path)
+            file.parentFile?.mkdirs()
+            val temp = File(file.parentFile, "${file.name}.tmp")
+            temp.writeBytes(Base64.decode(data, Base64.DEFAULT))
+            if (!temp.renameTo(file)) {
+                throw IllegalStateException("Could not replace ${file.absolutePath}")
+            }
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject(
+                fileErrorCode(e, "WRITE_FILE_FAILED"),
+                "Failed to write $path: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Read part of a file in the app's files directory
+     * Resolves with the bytes base64-encoded; empty at end of file
+     */
+    @ReactMethod
+    fun readFileChunk(path: String, offset: Double, length: Double, promise: Promise) {
+        try {
+            val file = filesDirFile(path)
+            val buffer = ByteArray(length.toInt())
+            val read = RandomAccessFile(file, "r").use { input ->
+                input.seek(offset.toLong())
+                input.read(buffer).coerceAtLeast(0)
+            }
+            promise.resolve(Base64.encodeToString(buffer, 0, read, Base64.NO_WRAP))
+        } catch (e: Exception) {
+            promise.reject(
+                "READ_FILE_FAILED",
+                "Failed to read $path: ${e.message}",
+                e
+            )
+        }
+    }
+
+    /**
+     * Download a URL into the app's files directory, replacing any existing file
+     * Resolves with the absolute path of the downloaded file
+     */
+    @ReactMethod
+    fun downloadFile(url: String, path: String, promise: Promise) {
+        Thread {
+            var connection: HttpURLConnection? = null
+            try {
+                val destination = filesDirFile(path)
+                require(url.startsWith("http://") || url.startsWith("https://")) {
+                    "Not an http(s) URL: $url"
+                }
+                connection = (URL(url).openConnection() as HttpURLConnection).apply {
+                    connectTimeout = 15_000
+                    readTimeout = 60_000
+                }
+                val status = connection.responseCode
+                if (status !in 200..299) {
+                    throw IllegalStateException("HTTP $status")
+                }
+                destination.parentFile?.mkdirs()
+                val temp = File(destination.parentFile, "${destination.name}.download")
+                connection.inputStream.use { input ->
+                    temp.outputStream().use { output -> input.copyTo(output) }
+                }
+                if (!temp.renameTo(destination)) {
+                    throw IllegalStateException("Could not replace ${destination.absolutePath}")
+                }
+                promise.resolve(destination.absolutePath)
+            } catch (e: Exception) {
+                promise.reject(
+                    fileErrorCode(e, "DOWNLOAD_FAILED"),
+                    "Failed to download $url: ${e.message}",
+                    e
+                )
+            } finally {
+                connection?.disconnect()
+            }
+        }.start()
+    }
+
+    /**
+     * Ask for POST_NOTIFICATIONS (Android 13+), prompting the first time
+     * @param promise - Resolves with true if notifications may be shown
+     */
+    @ReactMethod
+    fun requestNotificationPermission(promise: Promise) {
+        if (hasNotificationPermission()) {
+            promise.resolve(NotificationManagerCompat.from(reactApplicationContext).areNotificationsEnabled())
+            return
+        }
+        val activity = reactApplicationContext.currentActivity as? PermissionAwareActivity
+        if (activity == null) {
+            promise.resolve(false)
+            return
+        }
+        activity.requestPermissions(
+            arrayOf(Manifest.permission.POST_NOTIFICATIONS),
+            NOTIFICATION_PERMISSION_REQUEST
+        ) { requestCode, _, grantResults ->
+            if (requestCode != NOTIFICATION_PERMISSION_REQUEST) return@requestPermissions false
+            promise.resolve(grantResults.firstOrNull() == PackageManager.PERMISSION_GRANTED)
+            true
+        }
+    }
+
+    /**
+     * Show a notification now, on the processing channel
+     * @param promise - Resolves with false if notifications are not permitted
+     */
+    @ReactMethod
+    fun showLocalNotification(title: String, body: String, promise: Promise) {
+        val context = reactApplicationContext
+        val manager = NotificationManagerCompat.from(context)
+        if (!hasNotificationPermission() || !manager.areNotificationsEnabled()) {
+            promise.resolve(false)
+            return
+        }
+        try {
+            if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+                context.getSystemService(NotificationManager::class.java).createNotificationChannel(
+                    NotificationChannel(
+                        NOTIFICATION_CHANNEL_ID,
+                        "Processing",
+                        NotificationManager.IMPORTANCE_DEFAULT
+                    )
+                )
+            }
+            val launchIntent = context.packageManager.getLaunchIntentForPackage(context.packageName)
+            val notification = NotificationCompat.Builder(context, NOTIFICATION_CHANNEL_ID)
+                .setSmallIcon(context.applicationInfo.icon)
+                .setContentTitle(title)
+                .setContentText(body)
+                .setAutoCancel(true)
+                .apply {
+                    if (launchIntent != null) {
+                        setContentIntent(
+                            PendingIntent.getActivity(
+                                context,
+                                0,
+                                launchIntent,
+                                PendingIntent.FLAG_IMMUTABLE
+                            )
+                        )
+                    }
+                }
+                .build()
+            manager.notify(notificationId++, notification)
+            promise.resolve(true)
+        } catch (e: SecurityException) {
+            promise.resolve(false)
+        }
+    }
+
+    private fun hasNotificationPermission(): Boolean =
+        Build.VERSION.SDK_INT < Build.VERSION_CODES.TIRAMISU ||
+            ContextCompat.checkSelfPermission(reactApplicationContext, Manifest.permission.POST_NOTIFICATIONS) ==
+            PackageManager.PERMISSION_GRANTED
+
+    private fun hasCameraPermission(): Boolean =
+        ContextCompat.checkSelfPermission(reactApplicationContext, Manifest.permission.CAMERA) ==
+            PackageManager.PERMISSION_GRANTED
+
+    /**
+     * Rejection code for a failed write: STORAGE_FULL when the disk is full, so JS can offer cleanup
+     */
+    private fun fileErrorCode(e: Exception, code: String): String {
+        val message = e.message ?: ""
+        val outOfSpace = e is IOException &&
+            (message.contains("ENOSPC") || message.contains("No space left", ignoreCase = true))
+        return if (outOfSpace) "STORAGE_FULL" else code
+    }
+
+    /**
+     * Resolve a JS path, keeping file access inside the files directory
+     */
+    private fun filesDirFile(path: String): File {
+        val root = reactApplicationContext.filesDir.canonicalFile
+        val file = (if (path.startsWith("/")) File(path) else File(root, path)).canonicalFile
+        require(file.path.startsWith(root.path + File.separator)) {
+            "Path is outside the files directory"
+        }
+        return file
+    }
 }
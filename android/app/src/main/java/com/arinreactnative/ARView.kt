@@ -12,6 +12,8 @@ import com.facebook.react.bridge.WritableMap
 import com.facebook.react.uimanager.events.RCTEventEmitter
 import com.google.ar.core.*
 import com.google.ar.core.exceptions.CameraNotAvailableException
+import com.google.ar.core.exceptions.UnavailableException
+import java.io.File
 import javax.microedition.khronos.egl.EGLConfig
 import javax.microedition.khronos.opengles.GL10
 
@@ -27,9 +29,46 @@ class ARView @JvmOverloads constructor(
     private var session: Session? = null
     private val photogrammetryCapture = PhotogrammetryCapture()
     private var isScanning = false
+
+    // Last reported tracking state, so JS only hears about changes
+    private var lastTrackingState: TrackingState? = null
+    private var lastTrackingFailureReason: TrackingFailureReason? = null
+    private var cameraErrorReported = false
+    private val reportedPlanes = HashMap<Plane, String>()
+
+    /**
+     * Display props. The GL renderer does not draw the camera image or any
+     * overlays yet, so these are kept for when it does.
+     */
+    var showFeaturePoints = false
+    var showPlaneOverlays = false
+    var showCaptureFrustums = false
+    var regionOfInterest: RegionOfInterest? = null
+
+    /**
+     * Pause the ARCore session without tearing the view down
+     */
+    var sessionPaused = false
+        set(value) {
+            if (field == value) return
+            field = value
+            if (value) {
+                session?.pause()
+            } else {
+                resumeSession()
+            }
+        }
     
     companion object {
         private const val TAG = "ARView"
+
+        // Direct events exported by ARViewManager
+        val EVENT_NAMES = listOf(
+            "onTrackingStateChange",
+            "onFrameCaptured",
+            "onPlaneDetected",
+            "onSessionError"
+        )
         
         // Store reference for native module access
         private var sharedInstance: ARView? = null
@@ -39,6 +78,37 @@ class ARView @JvmOverloads constructor(
 
     init {
         sharedInstance = this
+
+        photogrammetryCapture.onImageCaptured = { index, imageFile, pose, timestamp ->
+            val event = {
+                Arguments.createMap().apply {
+                    putInt("index", index)
+                    putString("path", imageFile.absolutePath)
+                    putArray("pose", Arguments.createArray().apply {
+                        for (column in 0 until 4) {
+                            pushArray(Arguments.createArray().apply {
+                                for (row in 0 until 4) {
+                                    pushDouble(pose[column * 4 + row].toDouble())
+                                }
+                            })
+                        }
+                    })
+                    putDouble("timestamp", timestamp)
+                }
+            }
+            // A WritableMap can only be sent once
+            emitModuleEvent("onImageCaptured", event())
+            sendEvent("onFrameCaptured", event())
+        }
+
+        photogrammetryCapture.onFrameRejected = { reason, timestamp, exposure, trackingState ->
+            emitModuleEvent("onFrameRejected", Arguments.createMap().apply {
+                putString("reason", reason.value)
+                putDouble("timestamp", timestamp)
+                exposure?.let { putDouble("exposureDuration", it) }
+                putString("trackingState", trackingState)
+            })
+        }
         
         // Configure GLSurfaceView
         preserveEGLContextOnPause = true
@@ -55,6 +125,7 @@ class ARView @JvmOverloads constructor(
         try {
             if (session == null) {
                 session = Session(context)
+                resetReportedState()
                 
                 // Configure session
                 val config = Config(session).apply {
@@ -66,10 +137,22 @@ class ARView @JvmOverloads constructor(
                 session?.configure(config)
             }
             
-            session?.resume()
+            if (!sessionPaused) {
+                session?.resume()
+            }
             Log.d(TAG, "AR session started")
         } catch (e: Exception) {
             Log.e(TAG, "Failed to start session: ${e.message}", e)
+            sendSessionError(e)
+        }
+    }
+
+    private fun resumeSession() {
+        try {
+            session?.resume()
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to resume session: ${e.message}", e)
+            sendSessionError(e)
         }
     }
 
@@ -88,16 +171,23 @@ class ARView @JvmOverloads constructor(
     /**
      * Start photogrammetry scanning
      */
-    fun startObjectScan(): Map<String, Any> {
+    fun startObjectScan(settings: CaptureSettings = CaptureSettings()): Map<String, Any> {
         return try {
+            if (settings.saveDepth) {
+                enableDepth()
+            }
+
             val documentsDir = context.filesDir
-            val captureDir = photogrammetryCapture.startCapture(documentsDir)
+            val captureDir = photogrammetryCapture.startCapture(documentsDir, settings)
             isScanning = true
             
             sendEvent("onScanProgress", mapOf(
                 "status" to "started",
                 "imageCount" to 0
             ))
+            emitModuleEvent("onCaptureStarted", Arguments.createMap().apply {
+                putString("directory", captureDir.absolutePath)
+            })
             
             mapOf(
                 "success" to true,
@@ -112,20 +202,73 @@ class ARView @JvmOverloads constructor(
         }
     }
 
+    /**
+     * Continue an interrupted capture in its directory
+     * ARCore cannot reload a saved world, so new frames are posed in the current
+     * session's world rather than lining up with the saved ones
+     * @throws FileNotFoundException when the directory has no capture settings
+     */
+    fun resumeObjectScan(captureDir: File): Map<String, Any> {
+        val nextIndex = photogrammetryCapture.resumeCapture(captureDir)
+        // Lower than nextIndex when frames were deleted before resuming
+        val imageCount = captureDir.listFiles { file ->
+            Regex("""^image_\d+\.jpg$""").matches(file.name)
+        }?.size ?: 0
+        if (photogrammetryCapture.getCurrentSettings().saveDepth) {
+            enableDepth()
+        }
+        isScanning = true
+
+        sendEvent("onScanProgress", mapOf(
+            "status" to "started",
+            "imageCount" to imageCount
+        ))
+        emitModuleEvent("onCaptureStarted", Arguments.createMap().apply {
+            putString("directory", captureDir.absolutePath)
+        })
+
+        return mapOf(
+            "directory" to captureDir.absolutePath,
+            "imageCount" to imageCount,
+            "nextIndex" to nextIndex,
+            "relocalizing" to false
+        )
+    }
+
+    /**
+     * Turn on the depth API for the running session where the device supports it
+     */
+    private fun enableDepth() {
+        val session = this.session ?: return
+        if (!session.isDepthModeSupported(Config.DepthMode.AUTOMATIC)) {
+            Log.d(TAG, "Depth not supported; capturing images only")
+            return
+        }
+        val config = session.config
+        config.depthMode = Config.DepthMode.AUTOMATIC
+        session.configure(config)
+    }
+
     /**
      * Stop photogrammetry scanning
      */
     fun stopObjectScan(): Map<String, Any> {
         isScanning = false
-        val (directory, imageCount) = photogrammetryCapture.stopCapture()
+        val (directory, imageCount, frameStats) = photogrammetryCapture.stopCapture()
         
         val result = mapOf(
             "imageCount" to imageCount,
             "directory" to (directory?.absolutePath ?: ""),
-            "scanType" to "photogrammetry"
+            "scanType" to "photogrammetry",
+            "frameStats" to frameStats
         )
         
         sendEvent("onScanComplete", result)
+        emitModuleEvent("onCaptureStopped", Arguments.createMap().apply {
+            putString("directory", directory?.absolutePath ?: "")
+            putInt("imageCount", imageCount)
+            putMap("frameStats", frameStats.toWritableMap())
+        })
         Log.d(TAG, "Stopped scan. Images: $imageCount")
         
         return result
@@ -139,6 +282,13 @@ class ARView @JvmOverloads constructor(
         // PhotogrammetryCapture will be reset on next startCapture
     }
 
+    /**
+     * Stop or resume saving frames without ending the capture
+     */
+    fun setCapturePaused(paused: Boolean) {
+        photogrammetryCapture.isPaused = paused
+    }
+
     /**
      * Get current capture directory
      */
@@ -157,7 +307,6 @@ class ARView @JvmOverloads constructor(
      * Send event to React Native
      */
     private fun sendEvent(eventName: String, params: Map<String, Any>) {
-        val reactContext = context as? ReactContext ?: return
         val event = Arguments.createMap()
         
         params.forEach { (key, value) ->
@@ -166,13 +315,115 @@ class ARView @JvmOverloads constructor(
                 is Int -> event.putInt(key, value)
                 is Double -> event.putDouble(key, value)
                 is Boolean -> event.putBoolean(key, value)
+                is FrameQualityStats -> event.putMap(key, value.toWritableMap())
                 else -> event.putString(key, value.toString())
             }
         }
         
-        reactContext
-            .getJSModule(RCTEventEmitter::class.java)
-            .receiveEvent(id, eventName, event)
+        sendEvent(eventName, event)
+    }
+
+    /**
+     * Send a view event to this view's props in React Native
+     * Posted to the main thread since most events start on the GL thread
+     */
+    private fun sendEvent(eventName: String, event: WritableMap) {
+        val reactContext = context as? ReactContext ?: return
+        post {
+            reactContext
+                .getJSModule(RCTEventEmitter::class.java)
+                .receiveEvent(id, eventName, event)
+        }
+    }
+
+    private fun sendSessionError(error: Exception) {
+        val code = when (error) {
+            is UnavailableException -> "AR_UNSUPPORTED"
+            is SecurityException -> "CAMERA_PERMISSION_DENIED"
+            else -> "SESSION_FAILED"
+        }
+        sendEvent("onSessionError", Arguments.createMap().apply {
+            putString("code", code)
+            putString("message", error.message ?: "AR session failed")
+        })
+    }
+
+    private fun resetReportedState() {
+        lastTrackingState = null
+        lastTrackingFailureReason = null
+        cameraErrorReported = false
+        reportedPlanes.clear()
+    }
+
+    /**
+     * Report tracking state in ARKit's terms: TRACKING, PAUSED and STOPPED
+     * become normal, limited and notAvailable
+     */
+    private fun reportTrackingState(camera: Camera) {
+        val state = camera.trackingState
+        val failureReason = camera.trackingFailureReason
+        if (state == lastTrackingState && failureReason == lastTrackingFailureReason) return
+        lastTrackingState = state
+        lastTrackingFailureReason = failureReason
+
+        sendEvent("onTrackingStateChange", Arguments.createMap().apply {
+            putString("state", when (state) {
+                TrackingState.TRACKING -> "normal"
+                TrackingState.PAUSED -> "limited"
+                TrackingState.STOPPED -> "notAvailable"
+            })
+            if (state == TrackingState.PAUSED) {
+                putString("reason", when (failureReason) {
+                    // ARCore pauses without a reason until it has its first pose
+                    TrackingFailureReason.NONE -> "initializing"
+                    TrackingFailureReason.EXCESSIVE_MOTION -> "excessiveMotion"
+                    TrackingFailureReason.INSUFFICIENT_FEATURES -> "insufficientFeatures"
+                    TrackingFailureReason.INSUFFICIENT_LIGHT -> "insufficientLight"
+                    TrackingFailureReason.CAMERA_UNAVAILABLE -> "cameraUnavailable"
+                    else -> "unknown"
+                })
+            } else {
+                putNull("reason")
+            }
+        })
+    }
+
+    /**
+     * Report each plane once, when ARCore first tracks it
+     */
+    private fun reportNewPlanes(frame: Frame) {
+        for (plane in frame.getUpdatedTrackables(Plane::class.java)) {
+            if (plane.trackingState != TrackingState.TRACKING ||
+                plane.subsumedBy != null ||
+                reportedPlanes.containsKey(plane)
+            ) continue
+
+            val planeId = "plane-${reportedPlanes.size + 1}"
+            reportedPlanes[plane] = planeId
+            val center = plane.centerPose
+            sendEvent("onPlaneDetected", Arguments.createMap().apply {
+                putString("id", planeId)
+                putString("alignment", if (plane.type == Plane.Type.VERTICAL) "vertical" else "horizontal")
+                putArray("center", Arguments.createArray().apply {
+                    pushDouble(center.tx().toDouble())
+                    pushDouble(center.ty().toDouble())
+                    pushDouble(center.tz().toDouble())
+                })
+                putMap("extent", Arguments.createMap().apply {
+                    putDouble("width", plane.extentX.toDouble())
+                    putDouble("length", plane.extentZ.toDouble())
+                })
+            })
+        }
+    }
+
+    /**
+     * Send event to NativeEventEmitter listeners of ARNativeModule
+     * Posted to the main thread since frames are captured on the GL thread
+     */
+    private fun emitModuleEvent(eventName: String, params: WritableMap) {
+        val reactContext = context as? ReactContext ?: return
+        post { ARNativeModule.emit(reactContext, eventName, params) }
     }
 
     // GLSurfaceView.Renderer implementation
@@ -195,6 +446,10 @@ class ARView @JvmOverloads constructor(
             // Update session to get latest frame
             session.setCameraTextureName(0)
             val frame = session.update()
+            cameraErrorReported = false
+
+            reportTrackingState(frame.camera)
+            reportNewPlanes(frame)
 
             // Process frame for photogrammetry capture
             if (isScanning) {
@@ -206,6 +461,11 @@ class ARView @JvmOverloads constructor(
             
         } catch (e: CameraNotAvailableException) {
             Log.e(TAG, "Camera not available: ${e.message}", e)
+            // Every frame fails until the camera comes back; report it once
+            if (!cameraErrorReported) {
+                cameraErrorReported = true
+                sendSessionError(e)
+            }
         } catch (e: Exception) {
             Log.e(TAG, "Error in onDrawFrame: ${e.message}", e)
         }
@@ -218,15 +478,17 @@ class ARView @JvmOverloads constructor(
 
     override fun onResume() {
         super.onResume()
-        try {
-            session?.resume()
-        } catch (e: Exception) {
-            Log.e(TAG, "Failed to resume session: ${e.message}", e)
+        if (!sessionPaused) {
+            resumeSession()
         }
     }
 
     override fun onDetachedFromWindow() {
         super.onDetachedFromWindow()
+        if (isScanning) {
+            // Finish an in-flight capture so JS is not left waiting for frames
+            stopObjectScan()
+        }
         session?.close()
         session = null
         sharedInstance = null
@@ -1,8 +1,10 @@
 package com.arinreactnative
 
 import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReadableMap
 import com.facebook.react.uimanager.SimpleViewManager
 import com.facebook.react.uimanager.ThemedReactContext
+import com.facebook.react.uimanager.annotations.ReactProp
 
 /**
  * View manager for ARView component
@@ -13,7 +15,8 @@ class ARViewManager(
 ) : SimpleViewManager<ARView>() {
 
     override fun getName(): String {
-        return "ARViewNative"
+        // Must match requireNativeComponent('ARView') in src/native/ARView.tsx
+        return "ARView"
     }
 
     override fun createViewInstance(reactContext: ThemedReactContext): ARView {
@@ -31,4 +34,33 @@ class ARViewManager(
         super.onDropViewInstance(view)
         view.stopSession()
     }
+
+    @ReactProp(name = "showFeaturePoints", defaultBoolean = false)
+    fun setShowFeaturePoints(view: ARView, value: Boolean) {
+        view.showFeaturePoints = value
+    }
+
+    @ReactProp(name = "showPlaneOverlays", defaultBoolean = false)
+    fun setShowPlaneOverlays(view: ARView, value: Boolean) {
+        view.showPlaneOverlays = value
+    }
+
+    @ReactProp(name = "showCaptureFrustums", defaultBoolean = false)
+    fun setShowCaptureFrustums(view: ARView, value: Boolean) {
+        view.showCaptureFrustums = value
+    }
+
+    @ReactProp(name = "sessionPaused", defaultBoolean = false)
+    fun setSessionPaused(view: ARView, value: Boolean) {
+        view.sessionPaused = value
+    }
+
+    @ReactProp(name = "regionOfInterest")
+    fun setRegionOfInterest(view: ARView, value: ReadableMap?) {
+        view.regionOfInterest = RegionOfInterest.fromReadableMap(value)
+    }
+
+    override fun getExportedCustomDirectEventTypeConstants(): Map<String, Any> {
+        return ARView.EVENT_NAMES.associateWith { mapOf("registrationName" to it) }
+    }
 }
@@ -0,0 +1,186 @@
+package com.arinreactnative
+
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.WritableArray
+import com.facebook.react.bridge.WritableMap
+import org.json.JSONArray
+import org.json.JSONObject
+import java.io.File
+
+/**
+ * Finds, describes and deletes capture directories in the app's files directory
+ *
+ * Per-capture state (name, processing status, generated models) is kept in
+ * capture.json next to the images so it travels with the directory.
+ */
+object CaptureLibrary {
+    private const val INFO_FILENAME = "capture.json"
+    private const val DIRECTORY_PREFIX = "PhotoCapture_"
+    // An image, its metadata or its depth
+    private val FRAME_FILE_PATTERN = Regex("""^image_(\d+)[._]""")
+
+    /**
+     * Describe every capture directory, newest first
+     */
+    fun listCaptures(documentsDir: File): List<WritableMap> {
+        val directories = documentsDir.listFiles { file ->
+            file.isDirectory && file.name.startsWith(DIRECTORY_PREFIX)
+        } ?: return emptyList()
+
+        return directories
+            .sortedByDescending { createdAt(it) }
+            .map { info(it) }
+    }
+
+    /**
+     * Resolve a path from JS, refusing anything that is not a capture directory
+     */
+    fun captureDirectory(documentsDir: File, path: String): File {
+        val directory = File(path).canonicalFile
+        require(
+            directory.parentFile == documentsDir.canonicalFile &&
+                directory.name.startsWith(DIRECTORY_PREFIX) &&
+                directory.isDirectory
+        ) { "Not a capture directory: $path" }
+        return directory
+    }
+
+    fun info(directory: File): WritableMap {
+        val files = directory.listFiles()?.toList() ?: emptyList()
+        val stored = readInfo(directory)
+
+        val models = Arguments.createArray()
+        stored.optJSONArray("models")?.let { array ->
+            for (i in 0 until array.length()) {
+                val model = array.getJSONObject(i)
+                val path = model.optString("path")
+                models.pushMap(Arguments.createMap().apply {
+                    putString("path", path)
+                    putString("detail", model.optString("detail"))
+                    putDouble("createdAt", model.optDouble("createdAt"))
+                    putBoolean("exists", File(path).exists())
+                })
+            }
+        }
+
+        return Arguments.createMap().apply {
+            putString("directory", directory.absolutePath)
+            if (stored.has("name")) putString("name", stored.getString("name")) else putNull("name")
+            putDouble("createdAt", createdAt(directory).toDouble())
+            putInt("imageCount", files.count { it.name.startsWith("image_") && it.name.endsWith(".jpg") })
+            putDouble("sizeBytes", files.sumOf { it.length() }.toDouble())
+            putArray("models", models)
+            val processing = stored.optJSONObject("processing")
+            if (processing != null) {
+                putMap("processing", Arguments.createMap().apply {
+                    putString("status", processing.optString("status"))
+                    putString("detail", processing.optString("detail"))
+                    putDouble("updatedAt", processing.optDouble("updatedAt"))
+                    if (processing.has("error")) putString("error", processing.getString("error"))
+                })
+            } else {
+                putNull("processing")
+            }
+        }
+    }
+
+    /**
+     * Regular files directly in the capture directory, sorted by name
+     */
+    fun files(directory: File): WritableArray {
+        val files = Arguments.createArray()
+        directory.listFiles { file -> file.isFile && !file.name.startsWith(".") }
+            ?.sortedBy { it.name }
+            ?.forEach { file ->
+                files.pushMap(Arguments.createMap().apply {
+                    putString("name", file.name)
+                    putDouble("size", file.length().toDouble())
+                })
+            }
+        return files
+    }
+
+    fun rename(directory: File, name: String) {
+        val stored = readInfo(directory)
+        if (name.isEmpty()) stored.remove("name") else stored.put("name", name)
+        writeInfo(directory, stored)
+    }
+
+    /**
+     * Remove the capture and every model generated from it
+     */
+    fun delete(directory: File) {
+        readInfo(directory).optJSONArray("models")?.let { models ->
+            for (i in 0 until models.length()) {
+                File(models.getJSONObject(i).optString("path")).delete()
+            }
+        }
+        if (!directory.deleteRecursively()) {
+            throw IllegalStateException("Could not delete ${directory.absolutePath}")
+        }
+    }
+
+    /**
+     * Delete frames by index: every image_NNNN file, so no image is left without its
+     * metadata or the reverse
+     * @return Number of frames that had files to delete
+     */
+    fun deleteFrames(directory: File, indices: Set<Int>): Int {
+        val deleted = mutableSetOf<Int>()
+        directory.listFiles()?.forEach { file ->
+            val index = FRAME_FILE_PATTERN.find(file.name)?.groupValues?.get(1)?.toInt()
+            if (index != null && index in indices) {
+                if (!file.delete()) {
+                    throw IllegalStateException("Could not delete ${file.name}")
+                }
+                deleted.add(index)
+            }
+        }
+        return deleted.size
+    }
+
+    /**
+     * Note a processing attempt, e.g. one run on a reconstruction server
+     */
+    fun recordProcessing(directory: File, status: String, detail: String, error: String? = null) {
+        val stored = readInfo(directory)
+        stored.put("processing", JSONObject().apply {
+            put("status", status)
+            put("detail", detail)
+            put("updatedAt", System.currentTimeMillis().toDouble())
+            if (error != null) put("error", error)
+        })
+        writeInfo(directory, stored)
+    }
+
+    fun recordModel(directory: File, path: String, detail: String) {
+        val stored = readInfo(directory)
+        val models = stored.optJSONArray("models") ?: JSONArray()
+        models.put(JSONObject().apply {
+            put("path", path)
+            put("detail", detail)
+            put("createdAt", System.currentTimeMillis().toDouble())
+        })
+        stored.put("models", models)
+        writeInfo(directory, stored)
+    }
+
+    /**
+     * Capture directories are named PhotoCapture_<unix milliseconds>
+     */
+    private fun createdAt(directory: File): Long =
+        directory.name.removePrefix(DIRECTORY_PREFIX).toLongOrNull() ?: directory.lastModified()
+
+    private fun readInfo(directory: File): JSONObject {
+        val file = File(directory, INFO_FILENAME)
+        return try {
+            if (file.exists()) JSONObject(file.readText()) else JSONObject()
+        } catch (e: Exception) {
+            JSONObject()
+        }
+    }
+
+    private fun writeInfo(directory: File, info: JSONObject) {
+        File(directory, INFO_FILENAME).writeText(info.toString(2))
+    }
+}
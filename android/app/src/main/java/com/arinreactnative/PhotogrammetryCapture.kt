@@ -7,15 +7,247 @@ import android.graphics.Rect
 import android.graphics.YuvImage
 import android.media.Image
 import android.util.Log
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.WritableMap
+import com.google.ar.core.Camera
 import com.google.ar.core.Frame
+import com.google.ar.core.ImageMetadata
+import com.google.ar.core.Pose
+import com.google.ar.core.TrackingState
+import com.google.ar.core.exceptions.NotYetAvailableException
 import org.json.JSONArray
 import org.json.JSONObject
 import java.io.ByteArrayOutputStream
 import java.io.File
+import java.io.FileNotFoundException
 import java.io.FileOutputStream
 import java.text.SimpleDateFormat
 import java.util.*
 
+/**
+ * Frame selection settings, normalized on the JS side (see captureOptions.ts)
+ */
+data class CaptureSettings(
+    val captureIntervalMs: Long = 500,
+    val minTranslation: Float = 0f,
+    val minRotationDegrees: Float = 0f,
+    val jpegQuality: Int = 95,
+    val maxImageCount: Int = 0, // 0 means no limit
+    val saveDepth: Boolean = false,
+    val maxExposureMs: Double = 33.0, // 0 means no limit
+    val rejectLimitedTracking: Boolean = true,
+    val regionOfInterest: RegionOfInterest? = null
+) {
+    /**
+     * Options in the bridge's shape, as read by fromJson
+     */
+    fun toJson(): JSONObject = JSONObject().apply {
+        put("intervalMs", captureIntervalMs)
+        put("minTranslation", minTranslation.toDouble())
+        put("minRotation", minRotationDegrees.toDouble())
+        put("jpegQuality", jpegQuality / 100.0)
+        put("maxImageCount", maxImageCount)
+        put("saveDepth", saveDepth)
+        put("maxExposureMs", maxExposureMs)
+        put("rejectLimitedTracking", rejectLimitedTracking)
+        regionOfInterest?.let { put("regionOfInterest", it.toJson()) }
+    }
+
+    companion object {
+        // Written to the capture directory so the capture can be resumed with the same settings
+        const val FILENAME = "capture_settings.json"
+
+        fun fromJson(json: JSONObject): CaptureSettings {
+            val defaults = CaptureSettings()
+            fun double(key: String): Double? = if (json.has(key) && !json.isNull(key)) json.getDouble(key) else null
+
+            return CaptureSettings(
+                captureIntervalMs = double("intervalMs")?.toLong() ?: defaults.captureIntervalMs,
+                minTranslation = double("minTranslation")?.toFloat() ?: defaults.minTranslation,
+                minRotationDegrees = double("minRotation")?.toFloat() ?: defaults.minRotationDegrees,
+                jpegQuality = double("jpegQuality")?.let { (it * 100).toInt() } ?: defaults.jpegQuality,
+                maxImageCount = double("maxImageCount")?.toInt() ?: defaults.maxImageCount,
+                saveDepth = json.optBoolean("saveDepth", defaults.saveDepth),
+                maxExposureMs = double("maxExposureMs") ?: defaults.maxExposureMs,
+                rejectLimitedTracking = json.optBoolean("rejectLimitedTracking", defaults.rejectLimitedTracking),
+                regionOfInterest = json.optJSONObject("regionOfInterest")?.let { RegionOfInterest.fromJson(it) }
+            )
+        }
+
+        fun fromReadableMap(map: ReadableMap?): CaptureSettings {
+            if (map == null) return CaptureSettings()
+            val defaults = CaptureSettings()
+            fun double(key: String): Double? = if (map.hasKey(key) && !map.isNull(key)) map.getDouble(key) else null
+
+            return CaptureSettings(
+                captureIntervalMs = double("intervalMs")?.toLong() ?: defaults.captureIntervalMs,
+                minTranslation = double("minTranslation")?.toFloat() ?: defaults.minTranslation,
+                minRotationDegrees = double("minRotation")?.toFloat() ?: defaults.minRotationDegrees,
+                jpegQuality = double("jpegQuality")?.let { (it * 100).toInt() } ?: defaults.jpegQuality,
+                maxImageCount = double("maxImageCount")?.toInt() ?: defaults.maxImageCount,
+                saveDepth = if (map.hasKey("saveDepth")) map.getBoolean("saveDepth") else defaults.saveDepth,
+                maxExposureMs = double("maxExposureMs") ?: defaults.maxExposureMs,
+                rejectLimitedTracking = if (map.hasKey("rejectLimitedTracking")) {
+                    map.getBoolean("rejectLimitedTracking")
+                } else {
+                    defaults.rejectLimitedTracking
+                },
+                regionOfInterest = if (map.hasKey("regionOfInterest") && !map.isNull("regionOfInterest")) {
+                    RegionOfInterest.fromReadableMap(map.getMap("regionOfInterest"))
+                } else {
+                    null
+                }
+            )
+        }
+    }
+}
+
+/**
+ * Box around the object, placed in AR before capture; validated on the JS side (see regionOfInterest.ts)
+ */
+class RegionOfInterest(
+    val center: FloatArray,
+    val size: FloatArray,
+    val yawDegrees: Float
+) {
+    /**
+     * Box-to-world pose: turned about +Y, centred on the box
+     */
+    val pose: Pose
+        get() {
+            val halfAngle = Math.toRadians(yawDegrees / 2.0)
+            return Pose(center, floatArrayOf(0f, Math.sin(halfAngle).toFloat(), 0f, Math.cos(halfAngle).toFloat()))
+        }
+
+    fun toJson(): JSONObject = JSONObject().apply {
+        put("center", JSONArray(center.map { it.toDouble() }))
+        put("size", JSONArray(size.map { it.toDouble() }))
+        put("yaw", yawDegrees.toDouble())
+    }
+
+    /**
+     * Same separating-plane test as regionIntersectsFrustum in regionOfInterest.ts,
+     * with the same depth range
+     */
+    fun isInView(camera: Camera, near: Float = 0.05f, far: Float = 5f): Boolean {
+        val intrinsics = camera.imageIntrinsics
+        val fx = intrinsics.focalLength[0]
+        val fy = intrinsics.focalLength[1]
+        val cx = intrinsics.principalPoint[0]
+        val cy = intrinsics.principalPoint[1]
+        val width = intrinsics.imageDimensions[0].toFloat()
+        val height = intrinsics.imageDimensions[1].toFloat()
+        val cameraPose = camera.pose
+        val origin = cameraPose.translation
+
+        val box = pose
+        val half = FloatArray(3) { size[it] / 2 }
+        val boxCorners = listOf(-1f, 1f).flatMap { y ->
+            listOf(-1f to -1f, 1f to -1f, 1f to 1f, -1f to 1f).map { (x, z) ->
+                box.transformPoint(floatArrayOf(half[0] * x, half[1] * y, half[2] * z))
+            }
+        }
+
+        // Frustum planes in camera space, facing inwards: dot(normal, p) + offset >= 0
+        val cameraPlanes = listOf(
+            floatArrayOf(fx, 0f, -cx) to 0f,
+            floatArrayOf(-fx, 0f, -(width - cx)) to 0f,
+            floatArrayOf(0f, -fy, -cy) to 0f,
+            floatArrayOf(0f, fy, -(height - cy)) to 0f,
+            floatArrayOf(0f, 0f, -1f) to -near,
+            floatArrayOf(0f, 0f, 1f) to far
+        )
+        for ((cameraNormal, cameraOffset) in cameraPlanes) {
+            val normal = cameraPose.rotateVector(cameraNormal)
+            val offset = cameraOffset - dot(normal, origin)
+            if (boxCorners.all { dot(normal, it) + offset < 0 }) return false
+        }
+
+        val frustumCorners = listOf(near, far).flatMap { depth ->
+            listOf(0f to 0f, width to 0f, width to height, 0f to height).map { (u, v) ->
+                cameraPose.transformPoint(floatArrayOf((u - cx) / fx * depth, -(v - cy) / fy * depth, -depth))
+            }
+        }
+        for (axisIndex in 0..2) {
+            val axis = box.rotateVector(FloatArray(3) { if (it == axisIndex) 1f else 0f })
+            val middle = dot(axis, center)
+            if (frustumCorners.all { dot(axis, it) - middle > half[axisIndex] } ||
+                frustumCorners.all { dot(axis, it) - middle < -half[axisIndex] }) {
+                return false
+            }
+        }
+        return true
+    }
+
+    companion object {
+        const val FILENAME = "region.json"
+
+        fun fromReadableMap(map: ReadableMap?): RegionOfInterest? {
+            if (map == null || !map.hasKey("center") || !map.hasKey("size") || !map.hasKey("yaw")) return null
+            val center = map.getArray("center") ?: return null
+            val size = map.getArray("size") ?: return null
+            if (center.size() != 3 || size.size() != 3) return null
+            return RegionOfInterest(
+                FloatArray(3) { center.getDouble(it).toFloat() },
+                FloatArray(3) { size.getDouble(it).toFloat() },
+                map.getDouble("yaw").toFloat()
+            )
+        }
+
+        fun fromJson(json: JSONObject): RegionOfInterest? {
+            val center = json.optJSONArray("center") ?: return null
+            val size = json.optJSONArray("size") ?: return null
+            if (center.length() != 3 || size.length() != 3 || !json.has("yaw")) return null
+            return RegionOfInterest(
+                FloatArray(3) { center.getDouble(it).toFloat() },
+                FloatArray(3) { size.getDouble(it).toFloat() },
+                json.getDouble("yaw").toFloat()
+            )
+        }
+
+        private fun dot(a: FloatArray, b: FloatArray) = a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+    }
+}
+
+/**
+ * Why a candidate frame was skipped; values match FrameRejectionReason in frameQuality.ts
+ */
+enum class FrameRejectionReason(val value: String) {
+    LIMITED_TRACKING("limitedTracking"),
+    MOTION_BLUR("motionBlur"),
+    OUTSIDE_REGION("outsideRegion"),
+    REDUNDANT_POSE("redundantPose")
+}
+
+/**
+ * Per-session counts of frame-quality decisions
+ */
+class FrameQualityStats {
+    var evaluated = 0
+        private set
+    var accepted = 0
+        private set
+    private val rejected = mutableMapOf<FrameRejectionReason, Int>()
+
+    fun record(reason: FrameRejectionReason?) {
+        evaluated++
+        if (reason == null) {
+            accepted++
+        } else {
+            rejected[reason] = (rejected[reason] ?: 0) + 1
+        }
+    }
+
+    fun toWritableMap(): WritableMap = Arguments.createMap().apply {
+        putInt("evaluated", evaluated)
+        putInt("accepted", accepted)
+        putMap("rejected", Arguments.createMap().apply {
+            FrameRejectionReason.values().forEach { putInt(it.value, rejected[it] ?: 0) }
+        })
+    }
+}
+
 /**
  * Handles photogrammetry image capture from ARCore frames
  * Similar to iOS implementation but without actual 3D reconstruction
@@ -25,8 +257,25 @@ class PhotogrammetryCapture {
     private var captureDirectory: File? = null
     private var imageCount: Int = 0
     private var isCapturing: Boolean = false
+
+    /**
+     * Set while tracking is limited; frames are not considered at all
+     */
+    var isPaused: Boolean = false
     private var lastCaptureTime: Long = 0
-    private val captureIntervalMs: Long = 500 // Capture every 0.5 seconds
+    private var lastCapturePose: Pose? = null
+    private var settings = CaptureSettings()
+    private var frameStats = FrameQualityStats()
+
+    /**
+     * Called after each frame is written: index, image file, column-major 4x4 pose, timestamp (s)
+     */
+    var onImageCaptured: ((Int, File, FloatArray, Double) -> Unit)? = null
+
+    /**
+     * Called when the frame-quality filter skips a frame: reason, timestamp (s), exposure (s) if known, tracking state
+     */
+    var onFrameRejected: ((FrameRejectionReason, Double, Double?, String) -> Unit)? = null
 
     companion object {
         private const val TAG = "PhotogrammetryCapture"
@@ -47,9 +296,10 @@ class PhotogrammetryCapture {
     /**
      * Start capturing images
      * @param documentsDir The app's documents directory
+     * @param settings Frame selection settings for this capture
      * @return The directory where images will be saved
      */
-    fun startCapture(documentsDir: File): File {
+    fun startCapture(documentsDir: File, settings: CaptureSettings = CaptureSettings()): File {
         if (isCapturing) {
             throw IllegalStateException("Already capturing")
         }
@@ -59,26 +309,71 @@ class PhotogrammetryCapture {
         val captureDir = File(documentsDir, "PhotoCapture_$timestamp")
         captureDir.mkdirs()
 
-        this.captureDirectory = captureDir
-        this.imageCount = 0
-        this.isCapturing = true
-        this.lastCaptureTime = 0
+        // Keep the region with the images so coverage and processing can use it later
+        settings.regionOfInterest?.let { region ->
+            File(captureDir, RegionOfInterest.FILENAME).writeText(region.toJson().toString(2))
+        }
+        File(captureDir, CaptureSettings.FILENAME).writeText(settings.toJson().toString(2))
 
+        begin(captureDir, 0, settings)
         Log.d(TAG, "Started capture in: ${captureDir.absolutePath}")
         return captureDir
     }
 
+    /**
+     * Continue an interrupted capture with the settings it started with
+     * @return Images already saved; new frames are numbered from here
+     */
+    fun resumeCapture(captureDir: File): Int {
+        if (isCapturing) {
+            throw IllegalStateException("Already capturing")
+        }
+        val settingsFile = File(captureDir, CaptureSettings.FILENAME)
+        if (!settingsFile.isFile) {
+            throw FileNotFoundException("No resumable capture in ${captureDir.name}")
+        }
+        val settings = CaptureSettings.fromJson(JSONObject(settingsFile.readText()))
+
+        // Number new frames after the last one saved, even if earlier ones were deleted
+        val nextIndex = (captureDir.listFiles()?.toList() ?: emptyList())
+            .mapNotNull { Regex("""^image_(\d+)\.jpg$""").find(it.name)?.groupValues?.get(1)?.toInt() }
+            .maxOrNull()
+            ?.plus(1) ?: 0
+
+        begin(captureDir, nextIndex, settings)
+        Log.d(TAG, "Resumed capture in: ${captureDir.absolutePath} at image $nextIndex")
+        return nextIndex
+    }
+
+    private fun begin(captureDir: File, imageCount: Int, settings: CaptureSettings) {
+        this.captureDirectory = captureDir
+        this.imageCount = imageCount
+        this.isCapturing = true
+        this.isPaused = false
+        this.lastCaptureTime = 0
+        this.lastCapturePose = null
+        this.settings = settings
+        this.frameStats = FrameQualityStats()
+    }
+
     /**
      * Stop capturing and return results
-     * @return Pair of directory and image count
+     * @return Directory, image count and frame-quality stats
      */
-    fun stopCapture(): Pair<File?, Int> {
+    fun stopCapture(): Triple<File?, Int, FrameQualityStats> {
         isCapturing = false
-        val results = Pair(captureDirectory, imageCount)
+        val results = Triple(captureDirectory, imageCount, frameStats)
         Log.d(TAG, "Stopped capture. Total images: $imageCount")
         return results
     }
 
+    /**
+     * Settings of the current or latest capture
+     */
+    fun getCurrentSettings(): CaptureSettings {
+        return settings
+    }
+
     /**
      * Get current image count without stopping capture
      */
@@ -105,28 +400,100 @@ class PhotogrammetryCapture {
      * @param frame The ARCore frame to process
      */
     fun processFrame(frame: Frame) {
-        if (!isCapturing) return
+        if (!isCapturing || isPaused) return
         val captureDir = captureDirectory ?: return
 
+        // Stop saving once the frame limit is reached
+        if (settings.maxImageCount > 0 && imageCount >= settings.maxImageCount) return
+
         val currentTime = System.currentTimeMillis()
         
         // Check if enough time has passed since last capture
-        if (currentTime - lastCaptureTime < captureIntervalMs) return
+        if (currentTime - lastCaptureTime < settings.captureIntervalMs) return
+
+        // Skip untracked, blurred and redundant frames; the next candidate is one interval later
+        val exposure = exposureSeconds(frame)
+        rejectionReason(frame, exposure)?.let { reason ->
+            lastCaptureTime = currentTime
+            frameStats.record(reason)
+            onFrameRejected?.invoke(reason, frame.timestamp / 1_000_000_000.0, exposure, frame.camera.trackingState.name)
+            return
+        }
 
         try {
-            captureImage(frame, captureDir)
+            val index = imageCount
+            val imageFile = captureImage(frame, captureDir)
             lastCaptureTime = currentTime
+            lastCapturePose = frame.camera.pose
             imageCount++
+            frameStats.record(null)
+
+            val pose = FloatArray(16)
+            frame.camera.pose.toMatrix(pose, 0)
+            onImageCaptured?.invoke(index, imageFile, pose, frame.timestamp / 1_000_000_000.0)
             Log.d(TAG, "Captured image $imageCount")
         } catch (e: Exception) {
             Log.e(TAG, "Failed to capture image: ${e.message}", e)
         }
     }
 
+    /**
+     * Same checks, in the same order, as evaluateFrame in frameQuality.ts
+     */
+    private fun rejectionReason(frame: Frame, exposure: Double?): FrameRejectionReason? {
+        if (settings.rejectLimitedTracking && frame.camera.trackingState != TrackingState.TRACKING) {
+            return FrameRejectionReason.LIMITED_TRACKING
+        }
+        if (settings.maxExposureMs > 0 && exposure != null && exposure * 1000 > settings.maxExposureMs) {
+            return FrameRejectionReason.MOTION_BLUR
+        }
+        val region = settings.regionOfInterest
+        if (region != null && !region.isInView(frame.camera)) {
+            return FrameRejectionReason.OUTSIDE_REGION
+        }
+        if (!hasMovedEnough(frame.camera.pose)) {
+            return FrameRejectionReason.REDUNDANT_POSE
+        }
+        return null
+    }
+
+    /**
+     * Sensor exposure time in seconds, or null where the camera does not report it
+     */
+    private fun exposureSeconds(frame: Frame): Double? {
+        return try {
+            frame.imageMetadata.getLong(ImageMetadata.SENSOR_EXPOSURE_TIME) / 1_000_000_000.0
+        } catch (e: Exception) {
+            null
+        }
+    }
+
+    /**
+     * Compare a camera pose against the last saved one
+     */
+    private fun hasMovedEnough(pose: Pose): Boolean {
+        val last = lastCapturePose ?: return true
+        if (settings.minTranslation <= 0f && settings.minRotationDegrees <= 0f) return true
+
+        val dx = pose.tx() - last.tx()
+        val dy = pose.ty() - last.ty()
+        val dz = pose.tz() - last.tz()
+        val translation = Math.sqrt((dx * dx + dy * dy + dz * dz).toDouble())
+
+        // Angle of the relative rotation from the quaternion dot product
+        val a = pose.rotationQuaternion
+        val b = last.rotationQuaternion
+        val dot = Math.abs(a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3]).coerceAtMost(1f)
+        val rotationDegrees = Math.toDegrees(2 * Math.acos(dot.toDouble()))
+
+        return translation >= settings.minTranslation || rotationDegrees >= settings.minRotationDegrees
+    }
+
     /**
      * Capture a single image with metadata from ARCore frame
+     * @return The saved image file
      */
-    private fun captureImage(frame: Frame, directory: File) {
+    private fun captureImage(frame: Frame, directory: File): File {
         // Get camera image
         val cameraImage = frame.acquireCameraImage()
         
@@ -194,6 +561,19 @@ class PhotogrammetryCapture {
                 
                 // Tracking state
                 put("trackingState", frame.camera.trackingState.name)
+
+                // Exposure, where the camera reports it
+                exposureSeconds(frame)?.let { put("exposureDuration", it) }
+            }
+
+            // Save depth as raw 16-bit millimetres when requested and available
+            if (settings.saveDepth) {
+                saveDepth(frame, directory)?.let { (width, height) ->
+                    metadata.put("depthResolution", JSONObject().apply {
+                        put("width", width)
+                        put("height", height)
+                    })
+                }
             }
 
             val metadataFilename = String.format("image_%04d.json", imageCount)
@@ -201,11 +581,45 @@ class PhotogrammetryCapture {
             FileOutputStream(metadataFile).use {
                 it.write(metadata.toString(2).toByteArray())
             }
+
+            return imageFile
         } finally {
             cameraImage.close()
         }
     }
 
+    /**
+     * Write the frame's depth image, if the session produces one
+     * @return Depth image width and height, or null if no depth was available
+     */
+    private fun saveDepth(frame: Frame, directory: File): Pair<Int, Int>? {
+        val depthImage = try {
+            frame.acquireDepthImage16Bits()
+        } catch (e: NotYetAvailableException) {
+            return null
+        } catch (e: IllegalStateException) {
+            // Depth mode is not enabled on this session
+            return null
+        }
+
+        try {
+            val plane = depthImage.planes[0]
+            val rowBytes = depthImage.width * 2
+            val data = ByteArray(rowBytes * depthImage.height)
+            val buffer = plane.buffer
+            for (row in 0 until depthImage.height) {
+                buffer.position(row * plane.rowStride)
+                buffer.get(data, row * rowBytes, rowBytes)
+            }
+
+            val depthFilename = String.format("image_%04d_depth.bin", imageCount)
+            FileOutputStream(File(directory, depthFilename)).use { it.write(data) }
+            return Pair(depthImage.width, depthImage.height)
+        } finally {
+            depthImage.close()
+        }
+    }
+
     /**
      * Convert ARCore Image to JPEG bytes
      */
@@ -227,7 +641,7 @@ class PhotogrammetryCapture {
 
         val yuvImage = YuvImage(nv21, ImageFormat.NV21, image.width, image.height, null)
         val out = ByteArrayOutputStream()
-        yuvImage.compressToJpeg(Rect(0, 0, image.width, image.height), 95, out)
+        yuvImage.compressToJpeg(Rect(0, 0, image.width, image.height), settings.jpegQuality, out)
         
         return out.toByteArray()
     }
@@ -7,11 +7,24 @@
 
 import Foundation
 import ARKit
+import AVFoundation
+import UserNotifications
 
 @objc(ARNativeModule)
-class ARNativeModule: NSObject {
+class ARNativeModule: RCTEventEmitter {
   private var arSession: ARSession?
   private static var sharedARView: ARView?
+  private static weak var sharedEmitter: ARNativeModule?
+  private var hasListeners = false
+  // In-flight photogrammetry jobs keyed by job ID; only touched on the main actor
+  private var processingJobs: [String: PhotogrammetryCapture] = [:]
+  // PhotogrammetrySession fails on fewer images, after a slow setup
+  private static let minimumPhotogrammetryImages = 10
+  
+  override init() {
+    super.init()
+    ARNativeModule.sharedEmitter = self
+  }
   
   @objc
   static func setSharedARView(_ view: ARView) {
@@ -19,10 +32,32 @@ class ARNativeModule: NSObject {
   }
   
   @objc
-  static func requiresMainQueueSetup() -> Bool {
+  override static func requiresMainQueueSetup() -> Bool {
     return true
   }
   
+  // MARK: - Events
+  
+  override func supportedEvents() -> [String]! {
+    return ["onCaptureStarted", "onImageCaptured", "onFrameRejected", "onCaptureStopped", "onProcessingProgress"]
+  }
+  
+  override func startObserving() {
+    hasListeners = true
+  }
+  
+  override func stopObserving() {
+    hasListeners = false
+  }
+  
+  /// Emit an event to JS if anything is subscribed
+  static func emit(_ name: String, body: [String: Any]) {
+    DispatchQueue.main.async {
+      guard let emitter = sharedEmitter, emitter.hasListeners else { return }
+      emitter.sendEvent(withName: name, body: body)
+    }
+  }
+  
   // MARK: - Public API
   
   /// Check if AR is supported on this device
@@ -36,6 +71,64 @@ class ARNativeModule: NSObject {
     resolve(supported)
   }
   
+  /// Report what this device can do for capture and processing
+  /// Returns: Promise<DeviceCapabilities> - see ARNativeModule.ts
+  @objc
+  func getDeviceCapabilities(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    // Scene depth is only offered with a LiDAR scanner
+    let lidar = ARWorldTrackingConfiguration.supportsFrameSemantics(.sceneDepth)
+    let videoFormats = ARWorldTrackingConfiguration.supportedVideoFormats
+      .filter { $0.captureDevicePosition == .back }
+      .sorted { $0.imageResolution.width * $0.imageResolution.height > $1.imageResolution.width * $1.imageResolution.height }
+      .map { format -> [String: Any] in
+        [
+          "width": Int(format.imageResolution.width),
+          "height": Int(format.imageResolution.height),
+          "fps": format.framesPerSecond,
+        ]
+      }
+    
+    // Important-usage capacity counts space iOS would free by purging caches
+    let storage = try? CaptureLibrary.documentsDirectory.resourceValues(forKeys: [
+      .volumeAvailableCapacityForImportantUsageKey,
+      .volumeTotalCapacityKey,
+    ])
+    
+    var systemInfo = utsname()
+    uname(&systemInfo)
+    let model = withUnsafeBytes(of: &systemInfo.machine) { buffer in
+      String(decoding: buffer.prefix(while: { $0 != 0 }), as: UTF8.self)
+    }
+    
+    resolve([
+      "platform": "ios",
+      "model": model,
+      "osVersion": UIDevice.current.systemVersion,
+      "arSupported": ARWorldTrackingConfiguration.isSupported,
+      "lidar": lidar,
+      "depth": lidar,
+      "sceneReconstruction": ARWorldTrackingConfiguration.supportsSceneReconstruction(.mesh),
+      "photogrammetry": PhotogrammetryCapture.isPhotogrammetrySupported(),
+      "videoFormats": videoFormats,
+      "freeStorageBytes": storage?.volumeAvailableCapacityForImportantUsage ?? 0,
+      "totalStorageBytes": storage?.volumeTotalCapacity ?? 0,
+      "thermalState": ARNativeModule.thermalStateName(ProcessInfo.processInfo.thermalState),
+    ])
+  }
+  
+  private static func thermalStateName(_ state: ProcessInfo.ThermalState) -> String {
+    switch state {
+    case .nominal: return "nominal"
+    case .fair: return "fair"
+    case .serious: return "serious"
+    case .critical: return "critical"
+    @unknown default: return "critical"
+    }
+  }
+  
   /// Start an AR session with world tracking configuration
   /// Returns: Promise<void> - resolves when session starts, rejects on error
   @objc
@@ -92,9 +185,12 @@ class ARNativeModule: NSObject {
   
   // MARK: - Object Scanning Methods
   
+  /// Start capturing images
+  /// @param options: Capture options (intervalMs, minTranslation, minRotation, jpegQuality, maxImageCount, saveDepth)
   @objc
   func startObjectScan(
-    _ resolve: @escaping RCTPromiseResolveBlock,
+    _ options: NSDictionary?,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
     rejecter reject: @escaping RCTPromiseRejectBlock
   ) {
     guard let arView = ARNativeModule.sharedARView else {
@@ -106,9 +202,84 @@ class ARNativeModule: NSObject {
       return
     }
     
+    switch AVCaptureDevice.authorizationStatus(for: .video) {
+    case .denied, .restricted:
+      reject(
+        "CAMERA_PERMISSION_DENIED",
+        "Camera access is denied",
+        NSError(domain: "ARNativeModule", code: 9, userInfo: nil)
+      )
+      return
+    default:
+      break
+    }
+    
+    let settings = CaptureSettings(dictionary: options as? [String: Any])
+    
     DispatchQueue.main.async {
-      arView.startObjectScan()
-      resolve(nil)
+      do {
+        try arView.startObjectScan(settings: settings)
+        resolve(nil)
+      } catch {
+        reject(
+          ARNativeModule.fileErrorCode(error, default: "START_SCAN_FAILED"),
+          "Failed to start capture: \(error.localizedDescription)",
+          error as NSError
+        )
+      }
+    }
+  }
+  
+  /// Continue an interrupted capture in its directory, with the settings it started with
+  /// Returns: Promise<ResumedObjectScan> - directory, images already saved, index of the next frame and whether a world map was loaded
+  @objc
+  func resumeObjectScan(
+    _ directory: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    guard let arView = ARNativeModule.sharedARView else {
+      reject(
+        "AR_VIEW_NOT_FOUND",
+        "AR View is not initialized",
+        NSError(domain: "ARNativeModule", code: 2, userInfo: nil)
+      )
+      return
+    }
+    
+    switch AVCaptureDevice.authorizationStatus(for: .video) {
+    case .denied, .restricted:
+      reject(
+        "CAMERA_PERMISSION_DENIED",
+        "Camera access is denied",
+        NSError(domain: "ARNativeModule", code: 9, userInfo: nil)
+      )
+      return
+    default:
+      break
+    }
+    
+    let captureURL: URL
+    do {
+      captureURL = try CaptureLibrary.captureURL(directory)
+    } catch {
+      reject("CAPTURE_NOT_FOUND", "Failed to resume capture: \(error.localizedDescription)", error as NSError)
+      return
+    }
+    
+    DispatchQueue.main.async {
+      do {
+        resolve(try arView.resumeObjectScan(directory: captureURL))
+      } catch {
+        let nsError = error as NSError
+        // Code 7: the directory has no capture settings to resume with
+        let notFound = nsError.domain == "PhotogrammetryCapture" && nsError.code == 7
+        reject(
+          notFound ? "CAPTURE_NOT_FOUND" : "START_SCAN_FAILED",
+          "Failed to resume capture: \(error.localizedDescription)",
+          nsError
+        )
+      }
     }
   }
   
@@ -127,6 +298,14 @@ class ARNativeModule: NSObject {
     }
     
     DispatchQueue.main.async {
+      guard arView.getPhotogrammetryCaptureDirectory() != nil else {
+        reject(
+          "NO_ACTIVE_CAPTURE",
+          "No capture has been started",
+          NSError(domain: "ARNativeModule", code: 10, userInfo: nil)
+        )
+        return
+      }
       let scanData = arView.stopObjectScan()
       resolve(scanData)
     }
@@ -152,6 +331,29 @@ class ARNativeModule: NSObject {
     }
   }
   
+  /// Stop or resume saving frames without ending the capture
+  /// Frames are processed on the main thread, so the flag is set there too
+  @objc
+  func setCapturePaused(
+    _ paused: Bool,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    guard let arView = ARNativeModule.sharedARView else {
+      reject(
+        "AR_VIEW_NOT_FOUND",
+        "AR View is not initialized",
+        NSError(domain: "ARNativeModule", code: 2, userInfo: nil)
+      )
+      return
+    }
+    
+    DispatchQueue.main.async {
+      arView.setCapturePaused(paused)
+      resolve(nil)
+    }
+  }
+  
   // MARK: - Photogrammetry Methods
   
   /// Check if photogrammetry is supported on this device
@@ -167,15 +369,16 @@ class ARNativeModule: NSObject {
   
   /// Process captured images with PhotogrammetrySession
   /// @param inputDirectory: Path to directory containing captured images
-  /// @param outputFilename: Name for output USDZ file (without extension)
-  /// @param detail: Quality level - "reduced", "medium", "full", or "raw"
-  /// @param progressCallback: RCTResponseSenderBlock for progress updates
+  /// @param outputFilename: Name for the model files (without extension)
+  /// @param options: ProcessingOptions from processingOptions.ts, already validated
+  /// @param jobId: Key for cancelPhotogrammetry and for onProcessingProgress events
+  /// Progress is sent as onProcessingProgress events: a callback can only be invoked once
   @objc
   func processPhotogrammetry(
     _ inputDirectory: String,
     outputFilename: String,
-    detail: String,
-    progressCallback: @escaping RCTResponseSenderBlock,
+    options: NSDictionary,
+    jobId: String,
     resolver resolve: @escaping RCTPromiseResolveBlock,
     rejecter reject: @escaping RCTPromiseRejectBlock
   ) {
@@ -189,54 +392,117 @@ class ARNativeModule: NSObject {
       return
     }
     
-    // Stop AR session before processing
-    guard let arView = ARNativeModule.sharedARView else {
+    let settings = ProcessingSettings(dictionary: options as? [String: Any])
+    let imageCount = PhotogrammetryCapture.imageURLs(
+      in: URL(fileURLWithPath: inputDirectory),
+      segment: settings.segment
+    ).count
+    guard imageCount >= ARNativeModule.minimumPhotogrammetryImages else {
       reject(
-        "AR_VIEW_NOT_FOUND",
-        "AR View is not initialized",
-        NSError(domain: "ARNativeModule", code: 2, userInfo: nil)
+        "INSUFFICIENT_IMAGES",
+        "Reconstruction needs at least \(ARNativeModule.minimumPhotogrammetryImages) images, found \(imageCount)",
+        NSError(domain: "ARNativeModule", code: 11, userInfo: nil)
       )
       return
     }
     
+    let detail = settings.detailName
+    
+    // Stop AR session before processing; there is none when processing from the library
+    let arView = ARNativeModule.sharedARView
+    
     DispatchQueue.main.async {
-      arView.stopSession()
+      arView?.stopSession()
       
       Task { @MainActor in
+        let inputURL = URL(fileURLWithPath: inputDirectory)
+        let photogrammetry = PhotogrammetryCapture()
+        self.processingJobs[jobId] = photogrammetry
+        CaptureLibrary.recordProcessing(inputURL, status: "processing", detail: detail)
+        
+        // Ask for time to finish if the app is backgrounded mid-job
+        var backgroundTask = UIBackgroundTaskIdentifier.invalid
+        backgroundTask = UIApplication.shared.beginBackgroundTask(withName: "Photogrammetry \(jobId)") {
+          UIApplication.shared.endBackgroundTask(backgroundTask)
+          backgroundTask = .invalid
+        }
+        defer {
+          if backgroundTask != .invalid {
+            UIApplication.shared.endBackgroundTask(backgroundTask)
+          }
+        }
+        
         do {
-          let photogrammetry = PhotogrammetryCapture()
-          let inputURL = URL(fileURLWithPath: inputDirectory)
-          
-          let outputURL = try await photogrammetry.processWithPhotogrammetrySession(
+          let outputURLs = try await photogrammetry.processWithPhotogrammetrySession(
             inputDirectory: inputURL,
             outputFilename: outputFilename,
-            detail: detail
-          ) { status, progress in
-            // Send progress updates
-            progressCallback([[
+            settings: settings
+          ) { stage, status, progress in
+            ARNativeModule.emit("onProcessingProgress", body: [
+              "jobId": jobId,
+              "stage": stage,
               "status": status,
               "progress": progress
-            ]])
+            ])
+          }
+          
+          self.processingJobs[jobId] = nil
+          for outputURL in outputURLs {
+            CaptureLibrary.recordModel(inputURL, path: outputURL.path, detail: detail)
           }
+          CaptureLibrary.recordProcessing(inputURL, status: "completed", detail: detail)
           
           // Restart AR session after processing
-          arView.startSession()
+          arView?.startSession()
           
-          resolve(outputURL.path)
+          resolve(outputURLs.first?.path)
         } catch {
+          self.processingJobs[jobId] = nil
+          let nsError = error as NSError
+          let cancelled = nsError.domain == "PhotogrammetryCapture"
+            && nsError.code == PhotogrammetryCapture.cancelledErrorCode
+          CaptureLibrary.recordProcessing(
+            inputURL,
+            status: cancelled ? "cancelled" : "failed",
+            detail: detail,
+            error: cancelled ? nil : error.localizedDescription
+          )
+          
           // Restart AR session even on error
-          arView.startSession()
+          arView?.startSession()
           
-          reject(
-            "PHOTOGRAMMETRY_FAILED",
-            "Failed to process photogrammetry: \(error.localizedDescription)",
-            error as NSError
-          )
+          if cancelled {
+            reject("PROCESSING_CANCELLED", "Processing was cancelled", nsError)
+          } else {
+            reject(
+              "PHOTOGRAMMETRY_FAILED",
+              "Failed to process photogrammetry: \(error.localizedDescription)",
+              nsError
+            )
+          }
         }
       }
     }
   }
   
+  /// Cancel a running processPhotogrammetry call; its promise rejects with PROCESSING_CANCELLED
+  /// Returns: Promise<boolean> - false if no job with that ID is running
+  @objc
+  func cancelPhotogrammetry(
+    _ jobId: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      guard let photogrammetry = self.processingJobs[jobId] else {
+        resolve(false)
+        return
+      }
+      photogrammetry.cancelProcessing()
+      resolve(true)
+    }
+  }
+  
   /// Get the directory where photogrammetry images are being captured
   @objc
   func getPhotogrammetryCaptureDirectory(
@@ -282,6 +548,429 @@ class ARNativeModule: NSObject {
     }
   }
   
+  // MARK: - Capture Datasets
+  
+  /// List a capture directory and read its per-image metadata
+  /// Returns: Promise<{ directory, files, metadata }> - metadata maps .json file names to contents
+  @objc
+  func readCaptureManifest(
+    _ directory: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      let directoryURL = URL(fileURLWithPath: directory)
+      do {
+        let files = try FileManager.default.contentsOfDirectory(atPath: directory).sorted()
+        var metadata: [String: String] = [:]
+        for file in files where file.hasSuffix(".json") {
+          let contents = try? String(contentsOf: directoryURL.appendingPathComponent(file), encoding: .utf8)
+          metadata[file] = contents ?? ""
+        }
+        resolve([
+          "directory": directory,
+          "files": files,
+          "metadata": metadata
+        ])
+      } catch {
+        reject(
+          "READ_CAPTURE_FAILED",
+          "Failed to read capture directory: \(error.localizedDescription)",
+          error as NSError
+        )
+      }
+    }
+  }
+  
+  // MARK: - Files
+  
+  /// Read a UTF-8 file in the app's documents directory
+  /// @param path: Absolute path inside Documents, or a path relative to it
+  /// Returns: Promise<string | null> - null if the file does not exist
+  @objc
+  func readTextFile(
+    _ path: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let url = try ARNativeModule.documentsFileURL(path)
+        guard FileManager.default.fileExists(atPath: url.path) else {
+          resolve(NSNull())
+          return
+        }
+        resolve(try String(contentsOf: url, encoding: .utf8))
+      } catch {
+        reject("READ_FILE_FAILED", "Failed to read \(path): \(error.localizedDescription)", error as NSError)
+      }
+    }
+  }
+  
+  /// Atomically write a UTF-8 file in the app's documents directory, creating parent directories
+  /// @param path: Absolute path inside Documents, or a path relative to it
+  @objc
+  func writeTextFile(
+    _ path: String,
+    contents: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let url = try ARNativeModule.documentsFileURL(path)
+        try FileManager.default.createDirectory(
+          at: url.deletingLastPathComponent(),
+          withIntermediateDirectories: true
+        )
+        try contents.write(to: url, atomically: true, encoding: .utf8)
+        resolve(nil)
+      } catch {
+        reject(ARNativeModule.fileErrorCode(error, default: "WRITE_FILE_FAILED"), "Failed to write \(path): \(error.localizedDescription)", error as NSError)
+      }
+    }
+  }
+  
+  /// Atomically write a binary file in the app's documents directory, creating parent directories
+  /// @param data: File contents, base64-encoded
+  @objc
+  func writeBase64File(
+    _ path: String,
+    data: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        guard let bytes = Data(base64Encoded: data) else {
+          reject("WRITE_FILE_FAILED", "Failed to write \(path): data is not base64", nil)
+          return
+        }
+        let url = try ARNativeModule.documentsFileURL(path)
+        try FileManager.default.createDirectory(
+          at: url.deletingLastPathComponent(),
+          withIntermediateDirectories: true
+        )
+        try bytes.write(to: url, options: .atomic)
+        resolve(nil)
+      } catch {
+        reject(ARNativeModule.fileErrorCode(error, default: "WRITE_FILE_FAILED"), "Failed to write \(path): \(error.localizedDescription)", error as NSError)
+      }
+    }
+  }
+  
+  /// Read part of a file in the app's documents directory
+  /// @param offset: Byte offset to start at
+  /// @param length: Maximum number of bytes to read
+  /// Returns: Promise<string> - the bytes, base64-encoded; empty at end of file
+  @objc
+  func readFileChunk(
+    _ path: String,
+    offset: NSNumber,
+    length: NSNumber,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let handle = try FileHandle(forReadingFrom: ARNativeModule.documentsFileURL(path))
+        defer { try? handle.close() }
+        try handle.seek(toOffset: offset.uint64Value)
+        let data = try handle.read(upToCount: length.intValue) ?? Data()
+        resolve(data.base64EncodedString())
+      } catch {
+        reject("READ_FILE_FAILED", "Failed to read \(path): \(error.localizedDescription)", error as NSError)
+      }
+    }
+  }
+  
+  /// Download a URL into the app's documents directory, replacing any existing file
+  /// Returns: Promise<string> - absolute path of the downloaded file
+  @objc
+  func downloadFile(
+    _ urlString: String,
+    path: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    let destination: URL
+    do {
+      destination = try ARNativeModule.documentsFileURL(path)
+    } catch {
+      reject("DOWNLOAD_FAILED", error.localizedDescription, error as NSError)
+      return
+    }
+    guard let url = URL(string: urlString), ["http", "https"].contains(url.scheme?.lowercased()) else {
+      reject("DOWNLOAD_FAILED", "Not an http(s) URL: \(urlString)", nil)
+      return
+    }
+    
+    URLSession.shared.downloadTask(with: url) { location, response, error in
+      if let error = error {
+        reject("DOWNLOAD_FAILED", "Failed to download \(urlString): \(error.localizedDescription)", error as NSError)
+        return
+      }
+      let status = (response as? HTTPURLResponse)?.statusCode ?? 0
+      guard let location = location, (200..<300).contains(status) else {
+        reject("DOWNLOAD_FAILED", "Failed to download \(urlString): HTTP \(status)", nil)
+        return
+      }
+      do {
+        let fileManager = FileManager.default
+        try fileManager.createDirectory(
+          at: destination.deletingLastPathComponent(),
+          withIntermediateDirectories: true
+        )
+        try? fileManager.removeItem(at: destination)
+        try fileManager.moveItem(at: location, to: destination)
+        resolve(destination.path)
+      } catch {
+        reject(ARNativeModule.fileErrorCode(error, default: "DOWNLOAD_FAILED"), "Failed to save \(path): \(error.localizedDescription)", error as NSError)
+      }
+    }.resume()
+  }
+  
+  /// Rejection code for a failed write: STORAGE_FULL when the disk is full, so JS can offer cleanup
+  private static func fileErrorCode(_ error: Error, default code: String) -> String {
+    let nsError = error as NSError
+    let outOfSpace = (nsError.domain == NSCocoaErrorDomain && nsError.code == NSFileWriteOutOfSpaceError)
+      || (nsError.domain == NSPOSIXErrorDomain && nsError.code == Int(ENOSPC))
+    return outOfSpace ? "STORAGE_FULL" : code
+  }
+  
+  // Keep JS file access inside Documents
+  private static func documentsFileURL(_ path: String) throws -> URL {
+    let documents = CaptureLibrary.documentsDirectory.standardizedFileURL
+    let url = (path.hasPrefix("/")
+      ? URL(fileURLWithPath: path)
+      : documents.appendingPathComponent(path)).standardizedFileURL
+    guard url.path.hasPrefix(documents.path + "/") else {
+      throw NSError(domain: "ARNativeModule", code: 8,
+                   userInfo: [NSLocalizedDescriptionKey: "Path is outside the documents directory"])
+    }
+    return url
+  }
+  
+  // MARK: - Capture Library
+  
+  /// Describe every capture directory in Documents, newest first
+  /// Returns: Promise<CaptureInfo[]>
+  @objc
+  func listCaptures(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        resolve(try CaptureLibrary.listCaptures())
+      } catch {
+        reject(
+          "LIST_CAPTURES_FAILED",
+          "Failed to list captures: \(error.localizedDescription)",
+          error as NSError
+        )
+      }
+    }
+  }
+  
+  /// Describe one capture directory
+  /// Returns: Promise<CaptureInfo> - image count, size, name, processing status and models
+  @objc
+  func getCaptureInfo(
+    _ directory: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        resolve(try CaptureLibrary.info(for: CaptureLibrary.captureURL(directory)))
+      } catch {
+        reject(
+          "CAPTURE_NOT_FOUND",
+          "Failed to read capture: \(error.localizedDescription)",
+          error as NSError
+        )
+      }
+    }
+  }
+  
+  /// Set the display name of a capture; an empty name clears it
+  @objc
+  func renameCapture(
+    _ directory: String,
+    name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        try CaptureLibrary.rename(CaptureLibrary.captureURL(directory), to: name)
+        resolve(nil)
+      } catch {
+        reject(
+          "RENAME_CAPTURE_FAILED",
+          "Failed to rename capture: \(error.localizedDescription)",
+          error as NSError
+        )
+      }
+    }
+  }
+  
+  /// Delete a capture directory and the models generated from it
+  @objc
+  func deleteCapture(
+    _ directory: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        try CaptureLibrary.delete(CaptureLibrary.captureURL(directory))
+        resolve(nil)
+      } catch {
+        reject(
+          "DELETE_CAPTURE_FAILED",
+          "Failed to delete capture: \(error.localizedDescription)",
+          error as NSError
+        )
+      }
+    }
+  }
+  
+  /// Delete frames from a capture, each image with its metadata and depth
+  /// Returns: Promise<number> - frames that had files to delete
+  @objc
+  func deleteCaptureFrames(
+    _ directory: String,
+    indices: [NSNumber],
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let url = try CaptureLibrary.captureURL(directory)
+        resolve(try CaptureLibrary.deleteFrames(url, indices: Set(indices.map { $0.intValue })))
+      } catch {
+        reject(
+          "DELETE_FRAMES_FAILED",
+          "Failed to delete frames: \(error.localizedDescription)",
+          error as NSError
+        )
+      }
+    }
+  }
+  
+  /// List the files in a capture directory, for uploading it elsewhere
+  /// Returns: Promise<{ name, size }[]> sorted by name
+  @objc
+  func listCaptureFiles(
+    _ directory: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        resolve(try CaptureLibrary.files(in: CaptureLibrary.captureURL(directory)))
+      } catch {
+        reject(
+          "CAPTURE_NOT_FOUND",
+          "Failed to list capture files: \(error.localizedDescription)",
+          error as NSError
+        )
+      }
+    }
+  }
+  
+  /// Record a processing attempt made outside processPhotogrammetry, e.g. on a server
+  /// @param error: Failure message, or nil
+  @objc
+  func recordCaptureProcessing(
+    _ directory: String,
+    status: String,
+    detail: String,
+    error: String?,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let url = try CaptureLibrary.captureURL(directory)
+        CaptureLibrary.recordProcessing(url, status: status, detail: detail, error: error)
+        resolve(nil)
+      } catch let failure {
+        reject("CAPTURE_NOT_FOUND", "Failed to record processing: \(failure.localizedDescription)", failure as NSError)
+      }
+    }
+  }
+  
+  /// Add a model produced outside processPhotogrammetry to a capture
+  @objc
+  func recordCaptureModel(
+    _ directory: String,
+    path: String,
+    detail: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let url = try CaptureLibrary.captureURL(directory)
+        CaptureLibrary.recordModel(url, path: path, detail: detail)
+        resolve(nil)
+      } catch {
+        reject("CAPTURE_NOT_FOUND", "Failed to record model: \(error.localizedDescription)", error as NSError)
+      }
+    }
+  }
+  
+  // MARK: - Notifications
+  
+  /// Ask for permission to show alerts, prompting the first time
+  /// Returns: Promise<boolean> - true if notifications may be shown
+  @objc
+  func requestNotificationPermission(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    UNUserNotificationCenter.current().requestAuthorization(options: [.alert, .sound]) { granted, error in
+      if let error = error {
+        reject("NOTIFICATION_FAILED", "Failed to request notification permission: \(error.localizedDescription)", error as NSError)
+      } else {
+        resolve(granted)
+      }
+    }
+  }
+  
+  /// Show a notification now
+  /// Returns: Promise<boolean> - false if notifications are not permitted
+  @objc
+  func showLocalNotification(
+    _ title: String,
+    body: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    let center = UNUserNotificationCenter.current()
+    center.getNotificationSettings { settings in
+      guard settings.authorizationStatus == .authorized || settings.authorizationStatus == .provisional else {
+        resolve(false)
+        return
+      }
+      let content = UNMutableNotificationContent()
+      content.title = title
+      content.body = body
+      content.sound = .default
+      let request = UNNotificationRequest(identifier: UUID().uuidString, content: content, trigger: nil)
+      center.add(request) { error in
+        if let error = error {
+          reject("NOTIFICATION_FAILED", "Failed to show notification: \(error.localizedDescription)", error as NSError)
+        } else {
+          resolve(true)
+        }
+      }
+    }
+  }
+  
   // MARK: - Cleanup
   
   deinit {
@@ -18,6 +18,59 @@ class ARView: UIView, ARSCNViewDelegate, ARSessionDelegate {
   var onScanComplete: (([String: Any]) -> Void)?
   var onScanProgress: (([String: Any]) -> Void)?
   
+  // View events, exported by ARViewManager
+  @objc var onTrackingStateChange: RCTDirectEventBlock?
+  @objc var onFrameCaptured: RCTDirectEventBlock?
+  @objc var onPlaneDetected: RCTDirectEventBlock?
+  @objc var onSessionError: RCTDirectEventBlock?
+  
+  // Plane overlays keyed by anchor, one frustum per captured frame, and the region of interest
+  private var planeNodes: [UUID: SCNNode] = [:]
+  private let frustumsNode = SCNNode()
+  private let regionNode = SCNNode()
+  
+  // Saved with the capture so an interrupted one can relocalize when resumed
+  static let worldMapFilename = "worldmap.arkit"
+  private static let worldMapInterval = 10
+  
+  // MARK: - Props
+  
+  @objc var showFeaturePoints: Bool = false {
+    didSet {
+      sceneView.debugOptions = showFeaturePoints ? [.showFeaturePoints] : []
+    }
+  }
+  
+  @objc var showPlaneOverlays: Bool = false {
+    didSet {
+      planeNodes.values.forEach { $0.isHidden = !showPlaneOverlays }
+    }
+  }
+  
+  @objc var showCaptureFrustums: Bool = false {
+    didSet {
+      frustumsNode.isHidden = !showCaptureFrustums
+    }
+  }
+  
+  @objc var regionOfInterest: NSDictionary? = nil {
+    didSet {
+      updateRegionOverlay(RegionOfInterest(dictionary: regionOfInterest as? [String: Any]))
+    }
+  }
+  
+  @objc var sessionPaused: Bool = false {
+    didSet {
+      guard sessionPaused != oldValue else { return }
+      if sessionPaused {
+        sceneView.session.pause()
+      } else {
+        // Resume the paused configuration so tracking and anchors carry on
+        sceneView.session.run(sceneView.session.configuration ?? makeConfiguration(sceneDepth: false))
+      }
+    }
+  }
+  
   deinit {
     cleanup()
   }
@@ -49,8 +102,12 @@ class ARView: UIView, ARSCNViewDelegate, ARSessionDelegate {
     
     addSubview(sceneView)
     
+    frustumsNode.isHidden = true
+    sceneView.scene.rootNode.addChildNode(frustumsNode)
+    sceneView.scene.rootNode.addChildNode(regionNode)
+    
     // Initialize photogrammetry capture
-    photogrammetryCapture = PhotogrammetryCapture()
+    photogrammetryCapture = makePhotogrammetryCapture()
     
     // Auto-start the AR session
     startSession()
@@ -63,14 +120,24 @@ class ARView: UIView, ARSCNViewDelegate, ARSessionDelegate {
   
   func startSession() {
     guard ARWorldTrackingConfiguration.isSupported else {
+      onSessionError?(["code": "AR_UNSUPPORTED", "message": "ARKit world tracking is not supported on this device"])
       return
     }
     
+    sceneView.session.run(makeConfiguration(sceneDepth: false), options: [.resetTracking, .removeExistingAnchors])
+  }
+  
+  private func makeConfiguration(sceneDepth: Bool, sceneMesh: Bool = false) -> ARWorldTrackingConfiguration {
     let configuration = ARWorldTrackingConfiguration()
     configuration.planeDetection = [.horizontal, .vertical]
     configuration.isLightEstimationEnabled = true
-    
-    sceneView.session.run(configuration, options: [.resetTracking, .removeExistingAnchors])
+    if sceneDepth && ARWorldTrackingConfiguration.supportsFrameSemantics(.sceneDepth) {
+      configuration.frameSemantics.insert(.sceneDepth)
+    }
+    if sceneMesh && ARWorldTrackingConfiguration.supportsSceneReconstruction(.mesh) {
+      configuration.sceneReconstruction = .mesh
+    }
+    return configuration
   }
   
   func stopSession() {
@@ -78,7 +145,44 @@ class ARView: UIView, ARSCNViewDelegate, ARSessionDelegate {
     cleanup()
   }
   
+  private func makePhotogrammetryCapture() -> PhotogrammetryCapture {
+    let capture = PhotogrammetryCapture()
+    capture.onImageCaptured = { [weak self] index, imageURL, transform, timestamp in
+      let body: [String: Any] = [
+        "index": index,
+        "path": imageURL.path,
+        "pose": transform,
+        "timestamp": timestamp
+      ]
+      ARNativeModule.emit("onImageCaptured", body: body)
+      self?.onFrameCaptured?(body)
+      self?.addCaptureFrustum(pose: transform)
+      if (index + 1) % ARView.worldMapInterval == 0 {
+        self?.saveWorldMap()
+      }
+    }
+    capture.onFrameRejected = { reason, timestamp, exposureDuration, trackingState in
+      ARNativeModule.emit("onFrameRejected", body: [
+        "reason": reason.rawValue,
+        "timestamp": timestamp,
+        "exposureDuration": exposureDuration,
+        "trackingState": trackingState
+      ])
+    }
+    return capture
+  }
+  
   private func cleanup() {
+    // Stop an in-flight capture so JS does not keep waiting for frames
+    if let capture = photogrammetryCapture, capture.isCurrentlyCapturing() {
+      let result = capture.stopCapture()
+      ARNativeModule.emit("onCaptureStopped", body: [
+        "directory": result.directory?.path ?? "",
+        "imageCount": result.imageCount,
+        "frameStats": result.frameStats.toDictionary()
+      ])
+    }
+    
     // Remove all delegates to prevent retain cycles
     sceneView?.session.delegate = nil
     sceneView?.delegate = nil
@@ -90,14 +194,68 @@ class ARView: UIView, ARSCNViewDelegate, ARSessionDelegate {
   
   // MARK: - Photogrammetry Scanning
   
-  func startObjectScan() {
+  func startObjectScan(settings: CaptureSettings = CaptureSettings()) throws {
+    // Keep tracking; only add depth and, on LiDAR devices, the scene mesh
+    // to the running configuration
+    sceneView.session.run(makeConfiguration(sceneDepth: settings.saveDepth, sceneMesh: true))
+    
+    clearCaptureFrustums()
+    
     do {
-      let captureDir = try photogrammetryCapture?.startCapture()
+      let captureDir = try photogrammetryCapture?.startCapture(settings: settings)
       onScanProgress?(["status": "started", "imageCount": 0])
+      ARNativeModule.emit("onCaptureStarted", body: ["directory": captureDir?.path ?? ""])
       print("[ARView] Started photogrammetry capture at: \(captureDir?.path ?? "unknown")")
     } catch {
       print("[ARView] Failed to start capture: \(error)")
       onScanProgress?(["status": "error", "message": error.localizedDescription])
+      throw error
+    }
+  }
+  
+  /// Continue an interrupted capture in its directory
+  /// The world map saved with it, if any, is loaded so new frames line up with the
+  /// saved ones once ARKit relocalizes; tracking stays limited until then
+  func resumeObjectScan(directory: URL) throws -> [String: Any] {
+    guard let capture = photogrammetryCapture else {
+      throw NSError(domain: "ARView", code: 1, userInfo: [NSLocalizedDescriptionKey: "Capture not ready"])
+    }
+    let nextIndex = try capture.resumeCapture(in: directory)
+    // Lower than nextIndex when frames were deleted before resuming
+    let imageCount = PhotogrammetryCapture.imageURLs(in: directory).count
+    
+    let configuration = makeConfiguration(sceneDepth: capture.getCurrentSettings().saveDepth, sceneMesh: true)
+    var relocalizing = false
+    if let data = try? Data(contentsOf: directory.appendingPathComponent(ARView.worldMapFilename)),
+       let worldMap = try? NSKeyedUnarchiver.unarchivedObject(ofClass: ARWorldMap.self, from: data) {
+      configuration.initialWorldMap = worldMap
+      relocalizing = true
+    }
+    sceneView.session.run(configuration, options: relocalizing ? [.resetTracking, .removeExistingAnchors] : [])
+    
+    clearCaptureFrustums()
+    onScanProgress?(["status": "started", "imageCount": imageCount])
+    ARNativeModule.emit("onCaptureStarted", body: ["directory": directory.path])
+    print("[ARView] Resumed photogrammetry capture at: \(directory.path), relocalizing: \(relocalizing)")
+    
+    return ["directory": directory.path, "imageCount": imageCount, "nextIndex": nextIndex, "relocalizing": relocalizing]
+  }
+  
+  /// Archive the session's world map into the capture directory
+  private func saveWorldMap() {
+    guard let capture = photogrammetryCapture, capture.isCurrentlyCapturing(),
+          let directory = capture.getCurrentCaptureDirectory() else { return }
+    sceneView.session.getCurrentWorldMap { worldMap, error in
+      guard let worldMap = worldMap else {
+        print("[ARView] Could not get world map: \(error?.localizedDescription ?? "unknown error")")
+        return
+      }
+      do {
+        let data = try NSKeyedArchiver.archivedData(withRootObject: worldMap, requiringSecureCoding: true)
+        try data.write(to: directory.appendingPathComponent(ARView.worldMapFilename), options: .atomic)
+      } catch {
+        print("[ARView] Could not save world map: \(error)")
+      }
     }
   }
   
@@ -108,21 +266,91 @@ class ARView: UIView, ARSCNViewDelegate, ARSessionDelegate {
     
     let result = capture.stopCapture()
     
-    let scanData: [String: Any] = [
+    var scanData: [String: Any] = [
       "imageCount": result.imageCount,
       "directory": result.directory?.path ?? "",
-      "scanType": "photogrammetry"
+      "scanType": "photogrammetry",
+      "frameStats": result.frameStats.toDictionary()
     ]
+    if let meshData = sceneMeshData() {
+      scanData.merge(meshData) { _, mesh in mesh }
+    }
+    // Scene reconstruction is costly; only run it while capturing
+    sceneView.session.run(makeConfiguration(sceneDepth: false))
     
     onScanComplete?(scanData)
+    ARNativeModule.emit("onCaptureStopped", body: [
+      "directory": result.directory?.path ?? "",
+      "imageCount": result.imageCount,
+      "frameStats": result.frameStats.toDictionary()
+    ])
     print("[ARView] Stopped capture. Images: \(result.imageCount)")
     
     return scanData
   }
   
+  /// LiDAR scene mesh gathered during the capture, merged into one world-space mesh
+  /// Returns nil on devices without scene reconstruction
+  private func sceneMeshData() -> [String: Any]? {
+    let meshAnchors = sceneView.session.currentFrame?.anchors.compactMap { $0 as? ARMeshAnchor } ?? []
+    guard !meshAnchors.isEmpty else { return nil }
+    
+    var vertices: [[Float]] = []
+    var faces: [[Int]] = []
+    var minimum = SIMD3<Float>(repeating: .greatestFiniteMagnitude)
+    var maximum = SIMD3<Float>(repeating: -.greatestFiniteMagnitude)
+    
+    for meshAnchor in meshAnchors {
+      let geometry = meshAnchor.geometry
+      let offset = vertices.count
+      
+      // Vertices are relative to the anchor; move them to world space
+      let vertexBuffer = geometry.vertices.buffer.contents()
+      for i in 0..<geometry.vertices.count {
+        let pointer = vertexBuffer.advanced(by: geometry.vertices.offset + i * geometry.vertices.stride)
+        let vertex = pointer.assumingMemoryBound(to: SIMD3<Float>.self).pointee
+        let world = simd_mul(meshAnchor.transform, SIMD4<Float>(vertex, 1))
+        let position = SIMD3<Float>(world.x, world.y, world.z)
+        minimum = simd_min(minimum, position)
+        maximum = simd_max(maximum, position)
+        vertices.append([position.x, position.y, position.z])
+      }
+      
+      let faceBuffer = geometry.faces.buffer.contents()
+      let bytesPerIndex = geometry.faces.bytesPerIndex
+      let indicesPerFace = geometry.faces.indexCountPerPrimitive
+      for i in 0..<geometry.faces.count {
+        let pointer = faceBuffer.advanced(by: i * indicesPerFace * bytesPerIndex)
+        faces.append((0..<indicesPerFace).map { j in
+          let index = bytesPerIndex == 2
+            ? Int(pointer.assumingMemoryBound(to: UInt16.self)[j])
+            : Int(pointer.assumingMemoryBound(to: UInt32.self)[j])
+          return index + offset
+        })
+      }
+    }
+    
+    return [
+      "vertices": vertices,
+      "faces": faces,
+      "vertexCount": vertices.count,
+      "faceCount": faces.count,
+      "meshCount": meshAnchors.count,
+      "boundingBox": [
+        "min": [minimum.x, minimum.y, minimum.z],
+        "max": [maximum.x, maximum.y, maximum.z]
+      ]
+    ]
+  }
+  
   func clearScan() {
     // Reset photogrammetry capture
-    photogrammetryCapture = PhotogrammetryCapture()
+    photogrammetryCapture = makePhotogrammetryCapture()
+    clearCaptureFrustums()
+  }
+  
+  func setCapturePaused(_ paused: Bool) {
+    photogrammetryCapture?.isPaused = paused
   }
   
   func getPhotogrammetryCaptureDirectory() -> String? {
@@ -133,6 +361,106 @@ class ARView: UIView, ARSCNViewDelegate, ARSessionDelegate {
     return photogrammetryCapture?.getCurrentImageCount() ?? 0
   }
   
+  // MARK: - Overlays
+  
+  /// Small wireframe pyramid with its apex at the camera, opening along -Z
+  private func addCaptureFrustum(pose: [[Float]]) {
+    guard pose.count == 4, pose.allSatisfy({ $0.count == 4 }) else { return }
+    let transform = simd_float4x4(columns: (
+      SIMD4<Float>(pose[0]), SIMD4<Float>(pose[1]), SIMD4<Float>(pose[2]), SIMD4<Float>(pose[3])
+    ))
+    
+    let depth: Float = 0.04
+    let pyramid = SCNPyramid(width: 0.048, height: CGFloat(depth), length: 0.036)
+    pyramid.firstMaterial?.diffuse.contents = UIColor(red: 0, green: 0.74, blue: 0.83, alpha: 1)
+    pyramid.firstMaterial?.fillMode = .lines
+    pyramid.firstMaterial?.isDoubleSided = true
+    
+    let pyramidNode = SCNNode(geometry: pyramid)
+    // Put the apex at the origin, then turn the base from -Y to -Z
+    pyramidNode.pivot = SCNMatrix4MakeTranslation(0, depth, 0)
+    pyramidNode.eulerAngles.x = .pi / 2
+    
+    let cameraNode = SCNNode()
+    cameraNode.simdTransform = transform
+    cameraNode.addChildNode(pyramidNode)
+    frustumsNode.addChildNode(cameraNode)
+  }
+  
+  private func clearCaptureFrustums() {
+    frustumsNode.childNodes.forEach { $0.removeFromParentNode() }
+  }
+  
+  /// Wireframe box for the region of interest, or nothing without one
+  private func updateRegionOverlay(_ region: RegionOfInterest?) {
+    regionNode.childNodes.forEach { $0.removeFromParentNode() }
+    guard let region = region else { return }
+    
+    let box = SCNBox(
+      width: CGFloat(region.size.x),
+      height: CGFloat(region.size.y),
+      length: CGFloat(region.size.z),
+      chamferRadius: 0
+    )
+    box.firstMaterial?.diffuse.contents = UIColor(red: 1, green: 0.6, blue: 0, alpha: 1)
+    box.firstMaterial?.fillMode = .lines
+    box.firstMaterial?.isDoubleSided = true
+    
+    let boxNode = SCNNode(geometry: box)
+    boxNode.simdTransform = region.transform
+    regionNode.addChildNode(boxNode)
+  }
+  
+  private func updatePlaneOverlay(_ node: SCNNode, for anchor: ARPlaneAnchor) {
+    guard let plane = node.geometry as? SCNPlane else { return }
+    plane.width = CGFloat(anchor.extent.x)
+    plane.height = CGFloat(anchor.extent.z)
+    node.simdPosition = anchor.center
+  }
+  
+  // MARK: - ARSCNViewDelegate
+  
+  func renderer(_ renderer: SCNSceneRenderer, didAdd node: SCNNode, for anchor: ARAnchor) {
+    guard let planeAnchor = anchor as? ARPlaneAnchor else { return }
+    
+    let plane = SCNPlane(width: 0, height: 0)
+    plane.firstMaterial?.diffuse.contents = UIColor(red: 0, green: 0.74, blue: 0.83, alpha: 0.3)
+    plane.firstMaterial?.isDoubleSided = true
+    let overlay = SCNNode(geometry: plane)
+    // SCNPlane stands upright; lay it along the anchor's x-z plane
+    overlay.eulerAngles.x = -.pi / 2
+    updatePlaneOverlay(overlay, for: planeAnchor)
+    node.addChildNode(overlay)
+    
+    let center = simd_mul(planeAnchor.transform, SIMD4<Float>(planeAnchor.center, 1))
+    let body: [String: Any] = [
+      "id": planeAnchor.identifier.uuidString,
+      "alignment": planeAnchor.alignment == .vertical ? "vertical" : "horizontal",
+      "center": [center.x, center.y, center.z],
+      "extent": ["width": planeAnchor.extent.x, "length": planeAnchor.extent.z]
+    ]
+    
+    // SceneKit calls this on its rendering thread
+    DispatchQueue.main.async { [weak self] in
+      guard let self = self else { return }
+      overlay.isHidden = !self.showPlaneOverlays
+      self.planeNodes[planeAnchor.identifier] = overlay
+      self.onPlaneDetected?(body)
+    }
+  }
+  
+  func renderer(_ renderer: SCNSceneRenderer, didUpdate node: SCNNode, for anchor: ARAnchor) {
+    guard let planeAnchor = anchor as? ARPlaneAnchor,
+          let overlay = node.childNodes.first(where: { $0.geometry is SCNPlane }) else { return }
+    updatePlaneOverlay(overlay, for: planeAnchor)
+  }
+  
+  func renderer(_ renderer: SCNSceneRenderer, didRemove node: SCNNode, for anchor: ARAnchor) {
+    DispatchQueue.main.async { [weak self] in
+      self?.planeNodes.removeValue(forKey: anchor.identifier)
+    }
+  }
+  
   // MARK: - ARSessionDelegate
   
   func session(_ session: ARSession, didUpdate frame: ARFrame) {
@@ -140,17 +468,56 @@ class ARView: UIView, ARSCNViewDelegate, ARSessionDelegate {
     photogrammetryCapture?.processFrame(frame, currentTime: frame.timestamp)
   }
   
+  func session(_ session: ARSession, cameraDidChangeTrackingState camera: ARCamera) {
+    var body: [String: Any] = ["reason": NSNull()]
+    switch camera.trackingState {
+    case .normal:
+      body["state"] = "normal"
+    case .notAvailable:
+      body["state"] = "notAvailable"
+    case .limited(let reason):
+      body["state"] = "limited"
+      switch reason {
+      case .initializing: body["reason"] = "initializing"
+      case .relocalizing: body["reason"] = "relocalizing"
+      case .excessiveMotion: body["reason"] = "excessiveMotion"
+      case .insufficientFeatures: body["reason"] = "insufficientFeatures"
+      @unknown default: body["reason"] = "unknown"
+      }
+    }
+    onTrackingStateChange?(body)
+  }
+  
   func session(_ session: ARSession, didFailWithError error: Error) {
     print("[ARView] AR Session failed: \(error.localizedDescription)")
+    
+    var code = "SESSION_FAILED"
+    if let arError = error as? ARError {
+      switch arError.code {
+      case .cameraUnauthorized: code = "CAMERA_PERMISSION_DENIED"
+      case .unsupportedConfiguration: code = "AR_UNSUPPORTED"
+      default: break
+      }
+    }
+    onSessionError?(["code": code, "message": error.localizedDescription])
   }
   
   func sessionWasInterrupted(_ session: ARSession) {
     print("[ARView] AR Session was interrupted")
+    // The app may not come back; keep the latest map for resuming
+    saveWorldMap()
   }
   
   func sessionInterruptionEnded(_ session: ARSession) {
     print("[ARView] AR Session interruption ended")
-    // Restart session
+    // Restart session unless JS has paused it
+    guard !sessionPaused else { return }
+    // Mid-capture, let ARKit relocalize instead of starting a new world
+    guard photogrammetryCapture?.isCurrentlyCapturing() != true else { return }
     startSession()
   }
+  
+  func sessionShouldAttemptRelocalization(_ session: ARSession) -> Bool {
+    return photogrammetryCapture?.isCurrentlyCapturing() == true
+  }
 }
@@ -9,4 +9,15 @@
 
 @interface RCT_EXTERN_MODULE(ARView, RCTViewManager)
 
+RCT_EXPORT_VIEW_PROPERTY(showFeaturePoints, BOOL)
+RCT_EXPORT_VIEW_PROPERTY(showPlaneOverlays, BOOL)
+RCT_EXPORT_VIEW_PROPERTY(showCaptureFrustums, BOOL)
+RCT_EXPORT_VIEW_PROPERTY(sessionPaused, BOOL)
+RCT_EXPORT_VIEW_PROPERTY(regionOfInterest, NSDictionary)
+
+RCT_EXPORT_VIEW_PROPERTY(onTrackingStateChange, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onFrameCaptured, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onPlaneDetected, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onSessionError, RCTDirectEventBlock)
+
 @end
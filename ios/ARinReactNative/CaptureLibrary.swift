@@ -0,0 +1,186 @@
+//
+//  CaptureLibrary.swift
+//  ARinReactNative
+//
+//  Finds, describes and deletes capture directories in Documents
+//
+
+import Foundation
+
+// Per-capture state (name, processing status, generated models) is kept in
+// capture.json next to the images so it travels with the directory.
+enum CaptureLibrary {
+    static let infoFilename = "capture.json"
+    static let directoryPrefix = "PhotoCapture_"
+
+    static var documentsDirectory: URL {
+        return FileManager.default.urls(for: .documentDirectory, in: .userDomainMask)[0]
+    }
+
+    // Describe every capture directory, newest first
+    static func listCaptures() throws -> [[String: Any]] {
+        let urls = try FileManager.default.contentsOfDirectory(
+            at: documentsDirectory,
+            includingPropertiesForKeys: [.isDirectoryKey]
+        )
+        return urls
+            .filter { $0.lastPathComponent.hasPrefix(directoryPrefix) && isDirectory($0) }
+            .compactMap { try? info(for: $0) }
+            .sorted { ($0["createdAt"] as? Double ?? 0) > ($1["createdAt"] as? Double ?? 0) }
+    }
+
+    // Resolve a path from JS, refusing anything that is not a capture directory in Documents
+    static func captureURL(_ path: String) throws -> URL {
+        let url = URL(fileURLWithPath: path).standardizedFileURL
+        guard url.deletingLastPathComponent().path == documentsDirectory.standardizedFileURL.path,
+              url.lastPathComponent.hasPrefix(directoryPrefix),
+              isDirectory(url) else {
+            throw NSError(domain: "CaptureLibrary", code: 1,
+                         userInfo: [NSLocalizedDescriptionKey: "Not a capture directory: \(path)"])
+        }
+        return url
+    }
+
+    static func info(for directory: URL) throws -> [String: Any] {
+        let files = try FileManager.default.contentsOfDirectory(atPath: directory.path)
+        let imageCount = files.filter { $0.hasPrefix("image_") && $0.hasSuffix(".jpg") }.count
+        let sizeBytes = files.reduce(0) { total, file in
+            let attributes = try? FileManager.default.attributesOfItem(
+                atPath: directory.appendingPathComponent(file).path
+            )
+            return total + ((attributes?[.size] as? NSNumber)?.intValue ?? 0)
+        }
+
+        let stored = readInfo(directory)
+        let models = (stored["models"] as? [[String: Any]] ?? []).map { model -> [String: Any] in
+            var model = model
+            let path = model["path"] as? String ?? ""
+            model["exists"] = FileManager.default.fileExists(atPath: path)
+            return model
+        }
+
+        return [
+            "directory": directory.path,
+            "name": stored["name"] ?? NSNull(),
+            "createdAt": createdAt(of: directory),
+            "imageCount": imageCount,
+            "sizeBytes": sizeBytes,
+            "models": models,
+            "processing": stored["processing"] ?? NSNull()
+        ]
+    }
+
+    // Regular files directly in the capture directory, sorted by name
+    static func files(in directory: URL) throws -> [[String: Any]] {
+        let urls = try FileManager.default.contentsOfDirectory(
+            at: directory,
+            includingPropertiesForKeys: [.isRegularFileKey, .fileSizeKey],
+            options: [.skipsHiddenFiles]
+        )
+        return try urls
+            .filter { try $0.resourceValues(forKeys: [.isRegularFileKey]).isRegularFile == true }
+            .sorted { $0.lastPathComponent < $1.lastPathComponent }
+            .map { url in
+                [
+                    "name": url.lastPathComponent,
+                    "size": try url.resourceValues(forKeys: [.fileSizeKey]).fileSize ?? 0
+                ]
+            }
+    }
+
+    static func rename(_ directory: URL, to name: String) throws {
+        var stored = readInfo(directory)
+        stored["name"] = name.isEmpty ? nil : name
+        try writeInfo(stored, to: directory)
+    }
+
+    // Remove the capture and every model generated from it
+    static func delete(_ directory: URL) throws {
+        let models = readInfo(directory)["models"] as? [[String: Any]] ?? []
+        for model in models {
+            if let path = model["path"] as? String {
+                try? FileManager.default.removeItem(atPath: path)
+            }
+        }
+        try FileManager.default.removeItem(at: directory)
+    }
+
+    // Delete frames by index: every image_NNNN file, so no image is left without its metadata or the reverse
+    // Returns the number of frames that had files to delete
+    static func deleteFrames(_ directory: URL, indices: Set<Int>) throws -> Int {
+        let files = try FileManager.default.contentsOfDirectory(at: directory, includingPropertiesForKeys: nil)
+        var deleted = Set<Int>()
+        for file in files where file.lastPathComponent.hasPrefix("image_") {
+            let digits = file.lastPathComponent.dropFirst("image_".count).prefix { $0.isNumber }
+            guard let index = Int(digits), indices.contains(index) else { continue }
+            try FileManager.default.removeItem(at: file)
+            deleted.insert(index)
+        }
+        return deleted.count
+    }
+    
+    // Note a processing attempt; failures to write are logged, not thrown, so they never fail processing
+    static func recordProcessing(_ directory: URL, status: String, detail: String, error: String? = nil) {
+        var stored = readInfo(directory)
+        var processing: [String: Any] = [
+            "status": status,
+            "detail": detail,
+            "updatedAt": Date().timeIntervalSince1970 * 1000
+        ]
+        if let error = error {
+            processing["error"] = error
+        }
+        stored["processing"] = processing
+        do {
+            try writeInfo(stored, to: directory)
+        } catch {
+            print("[CaptureLibrary] Failed to record processing: \(error)")
+        }
+    }
+
+    static func recordModel(_ directory: URL, path: String, detail: String) {
+        var stored = readInfo(directory)
+        var models = stored["models"] as? [[String: Any]] ?? []
+        models.append([
+            "path": path,
+            "detail": detail,
+            "createdAt": Date().timeIntervalSince1970 * 1000
+        ])
+        stored["models"] = models
+        do {
+            try writeInfo(stored, to: directory)
+        } catch {
+            print("[CaptureLibrary] Failed to record model: \(error)")
+        }
+    }
+
+    // Capture directories are named PhotoCapture_<unix seconds>
+    private static func createdAt(of directory: URL) -> Double {
+        let suffix = directory.lastPathComponent.dropFirst(directoryPrefix.count)
+        if let seconds = Double(suffix) {
+            return seconds * 1000
+        }
+        let attributes = try? FileManager.default.attributesOfItem(atPath: directory.path)
+        let date = attributes?[.creationDate] as? Date ?? Date()
+        return date.timeIntervalSince1970 * 1000
+    }
+
+    private static func isDirectory(_ url: URL) -> Bool {
+        var isDirectory: ObjCBool = false
+        return FileManager.default.fileExists(atPath: url.path, isDirectory: &isDirectory) && isDirectory.boolValue
+    }
+
+    private static func readInfo(_ directory: URL) -> [String: Any] {
+        let url = directory.appendingPathComponent(infoFilename)
+        guard let data = try? Data(contentsOf: url),
+              let object = try? JSONSerialization.jsonObject(with: data) as? [String: Any] else {
+            return [:]
+        }
+        return object
+    }
+
+    private static func writeInfo(_ info: [String: Any], to directory: URL) throws {
+        let data = try JSONSerialization.data(withJSONObject: info, options: .prettyPrinted)
+        try data.write(to: directory.appendingPathComponent(infoFilename), options: .atomic)
+    }
+}
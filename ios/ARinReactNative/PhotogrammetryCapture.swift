@@ -10,23 +10,247 @@ import ARKit
 import RealityKit
 import UIKit
 
+// Frame selection settings, normalized on the JS side (see captureOptions.ts)
+struct CaptureSettings {
+    // Written to the capture directory so the capture can be resumed with the same settings
+    static let filename = "capture_settings.json"
+    
+    var captureInterval: TimeInterval = 0.5
+    var minTranslation: Float = 0
+    var minRotationDegrees: Float = 0
+    var jpegQuality: CGFloat = 0.95
+    var maxImageCount: Int = 0 // 0 means no limit
+    var saveDepth: Bool = false
+    var maxExposureDuration: TimeInterval = 0.033 // 0 means no limit
+    var rejectLimitedTracking: Bool = true
+    var regionOfInterest: RegionOfInterest? = nil
+    // Options as they came over the bridge
+    var dictionary: [String: Any] = [:]
+    
+    init() {}
+    
+    init(dictionary: [String: Any]?) {
+        guard let dictionary = dictionary else { return }
+        self.dictionary = dictionary
+        if let intervalMs = dictionary["intervalMs"] as? Double { captureInterval = intervalMs / 1000 }
+        if let value = dictionary["minTranslation"] as? Double { minTranslation = Float(value) }
+        if let value = dictionary["minRotation"] as? Double { minRotationDegrees = Float(value) }
+        if let value = dictionary["jpegQuality"] as? Double { jpegQuality = CGFloat(value) }
+        if let value = dictionary["maxImageCount"] as? Int { maxImageCount = value }
+        if let value = dictionary["saveDepth"] as? Bool { saveDepth = value }
+        if let value = dictionary["maxExposureMs"] as? Double { maxExposureDuration = value / 1000 }
+        if let value = dictionary["rejectLimitedTracking"] as? Bool { rejectLimitedTracking = value }
+        regionOfInterest = RegionOfInterest(dictionary: dictionary["regionOfInterest"] as? [String: Any])
+    }
+}
+
+// Box around the object, placed in AR before capture; validated on the JS side (see regionOfInterest.ts)
+struct RegionOfInterest {
+    static let filename = "region.json"
+    
+    var center: SIMD3<Float>
+    var size: SIMD3<Float>
+    var yawDegrees: Float
+    
+    init?(dictionary: [String: Any]?) {
+        guard let dictionary = dictionary,
+              let center = dictionary["center"] as? [Double], center.count == 3,
+              let size = dictionary["size"] as? [Double], size.count == 3,
+              let yaw = dictionary["yaw"] as? Double else { return nil }
+        self.center = SIMD3<Float>(Float(center[0]), Float(center[1]), Float(center[2]))
+        self.size = SIMD3<Float>(Float(size[0]), Float(size[1]), Float(size[2]))
+        self.yawDegrees = Float(yaw)
+    }
+    
+    var dictionary: [String: Any] {
+        return [
+            "center": [center.x, center.y, center.z],
+            "size": [size.x, size.y, size.z],
+            "yaw": yawDegrees
+        ]
+    }
+    
+    // Box-to-world transform: turned about +Y, centred on the box
+    var transform: simd_float4x4 {
+        var transform = simd_float4x4(simd_quatf(angle: yawDegrees * .pi / 180, axis: SIMD3<Float>(0, 1, 0)))
+        transform.columns.3 = SIMD4<Float>(center, 1)
+        return transform
+    }
+    
+    var corners: [SIMD3<Float>] {
+        let half = size / 2
+        let box = transform
+        return [Float(-1), 1].flatMap { y in
+            [(Float(-1), Float(-1)), (1, -1), (1, 1), (-1, 1)].map { x, z in
+                simd_make_float3(box * SIMD4<Float>(half.x * x, half.y * y, half.z * z, 1))
+            }
+        }
+    }
+    
+    // Same separating-plane test as regionIntersectsFrustum in regionOfInterest.ts,
+    // with the same depth range
+    func isInView(of camera: ARCamera, near: Float = 0.05, far: Float = 5) -> Bool {
+        let k = camera.intrinsics
+        let fx = k[0][0], fy = k[1][1], cx = k[2][0], cy = k[2][1]
+        let width = Float(camera.imageResolution.width)
+        let height = Float(camera.imageResolution.height)
+        let rotation = simd_float3x3(
+            simd_make_float3(camera.transform.columns.0),
+            simd_make_float3(camera.transform.columns.1),
+            simd_make_float3(camera.transform.columns.2)
+        )
+        let origin = simd_make_float3(camera.transform.columns.3)
+        
+        // Frustum planes in camera space, facing inwards: dot(normal, p) + offset >= 0
+        let cameraPlanes: [(normal: SIMD3<Float>, offset: Float)] = [
+            (SIMD3<Float>(fx, 0, -cx), 0),
+            (SIMD3<Float>(-fx, 0, -(width - cx)), 0),
+            (SIMD3<Float>(0, -fy, -cy), 0),
+            (SIMD3<Float>(0, fy, -(height - cy)), 0),
+            (SIMD3<Float>(0, 0, -1), -near),
+            (SIMD3<Float>(0, 0, 1), far)
+        ]
+        let boxCorners = corners
+        for plane in cameraPlanes {
+            let normal = rotation * plane.normal
+            let offset = plane.offset - simd_dot(normal, origin)
+            if boxCorners.allSatisfy({ simd_dot(normal, $0) + offset < 0 }) { return false }
+        }
+        
+        var frustumCorners: [SIMD3<Float>] = []
+        for depth in [near, far] {
+            for (u, v) in [(Float(0), Float(0)), (width, 0), (width, height), (0, height)] {
+                frustumCorners.append(origin + rotation * SIMD3<Float>((u - cx) / fx * depth, -(v - cy) / fy * depth, -depth))
+            }
+        }
+        let box = transform
+        for axisIndex in 0..<3 {
+            let axis = simd_make_float3(box[axisIndex])
+            let half = size[axisIndex] / 2
+            let middle = simd_dot(axis, center)
+            if frustumCorners.allSatisfy({ simd_dot(axis, $0) - middle > half })
+                || frustumCorners.allSatisfy({ simd_dot(axis, $0) - middle < -half }) {
+                return false
+            }
+        }
+        return true
+    }
+}
+
+// Reconstruction settings, normalized on the JS side (see processingOptions.ts)
+struct ProcessingSettings {
+    var detailName: String = "medium"
+    var sampleOrdering: PhotogrammetrySession.Configuration.SampleOrdering = .unordered
+    var featureSensitivity: PhotogrammetrySession.Configuration.FeatureSensitivity = .normal
+    var isObjectMaskingEnabled: Bool = true
+    var outputFormats: [String] = ["usdz"]
+    var bounds: BoundingBox? = nil
+    var segment: String? = nil // One guided-capture pass, see guidedCapture.ts
+    
+    init() {}
+    
+    init(dictionary: [String: Any]?) {
+        guard let dictionary = dictionary else { return }
+        if let value = dictionary["detail"] as? String { detailName = value }
+        if let value = dictionary["sampleOrdering"] as? String {
+            sampleOrdering = value == "sequential" ? .sequential : .unordered
+        }
+        if let value = dictionary["featureSensitivity"] as? String {
+            featureSensitivity = value == "high" ? .high : .normal
+        }
+        if let value = dictionary["objectMasking"] as? Bool { isObjectMaskingEnabled = value }
+        if let value = dictionary["outputFormats"] as? [String], !value.isEmpty { outputFormats = value }
+        if let box = dictionary["bounds"] as? [String: Any],
+           let min = box["min"] as? [Double], min.count == 3,
+           let max = box["max"] as? [Double], max.count == 3 {
+            bounds = BoundingBox(
+                min: SIMD3<Float>(Float(min[0]), Float(min[1]), Float(min[2])),
+                max: SIMD3<Float>(Float(max[0]), Float(max[1]), Float(max[2]))
+            )
+        }
+        segment = dictionary["segment"] as? String
+    }
+    
+    var detail: PhotogrammetrySession.Request.Detail {
+        switch detailName {
+        case "reduced": return .reduced
+        case "full": return .full
+        case "raw": return .raw
+        default: return .medium
+        }
+    }
+    
+    var configuration: PhotogrammetrySession.Configuration {
+        var configuration = PhotogrammetrySession.Configuration()
+        configuration.sampleOrdering = sampleOrdering
+        configuration.featureSensitivity = featureSensitivity
+        configuration.isObjectMaskingEnabled = isObjectMaskingEnabled
+        return configuration
+    }
+}
+
+// Why a candidate frame was skipped; raw values match FrameRejectionReason in frameQuality.ts
+enum FrameRejectionReason: String, CaseIterable {
+    case limitedTracking
+    case motionBlur
+    case outsideRegion
+    case redundantPose
+}
+
+// Per-session counts of frame-quality decisions
+struct FrameQualityStats {
+    var evaluated = 0
+    var accepted = 0
+    var rejected: [FrameRejectionReason: Int] = [:]
+    
+    mutating func record(_ reason: FrameRejectionReason?) {
+        evaluated += 1
+        if let reason = reason {
+            rejected[reason, default: 0] += 1
+        } else {
+            accepted += 1
+        }
+    }
+    
+    func toDictionary() -> [String: Any] {
+        var rejectedCounts: [String: Int] = [:]
+        for reason in FrameRejectionReason.allCases {
+            rejectedCounts[reason.rawValue] = rejected[reason, default: 0]
+        }
+        return ["evaluated": evaluated, "accepted": accepted, "rejected": rejectedCounts]
+    }
+}
+
 class PhotogrammetryCapture {
+    static let cancelledErrorCode = 5
+    
     private var captureDirectory: URL?
     private var imageCount: Int = 0
     private var isCapturing: Bool = false
+    // Set while tracking is limited; frames are not considered at all
+    var isPaused: Bool = false
     private var lastCaptureTime: TimeInterval = 0
-    private let captureInterval: TimeInterval = 0.5 // Capture every 0.5 seconds
+    private var lastCaptureTransform: simd_float4x4?
+    private var settings = CaptureSettings()
+    private var frameStats = FrameQualityStats()
+    private var processingSession: PhotogrammetrySession?
     
     // Callbacks for progress updates
     var onProgress: ((String, Float) -> Void)?
     
+    // Called after each frame is written: index, image URL, camera transform, timestamp
+    var onImageCaptured: ((Int, URL, [[Float]], TimeInterval) -> Void)?
+    
+    // Called when the frame-quality filter skips a frame: reason, timestamp, exposure, tracking state
+    var onFrameRejected: ((FrameRejectionReason, TimeInterval, TimeInterval, String) -> Void)?
+    
     // Check if photogrammetry is supported on this device
     static func isPhotogrammetrySupported() -> Bool {
         return PhotogrammetrySession.isSupported
     }
     
     // Start capturing images
-    func startCapture() throws -> URL {
+    func startCapture(settings: CaptureSettings = CaptureSettings()) throws -> URL {
         guard !isCapturing else {
             throw NSError(domain: "PhotogrammetryCapture", code: 1, 
                          userInfo: [NSLocalizedDescriptionKey: "Already capturing"])
@@ -39,19 +263,63 @@ class PhotogrammetryCapture {
         
         try FileManager.default.createDirectory(at: captureDir, withIntermediateDirectories: true)
         
-        self.captureDirectory = captureDir
-        self.imageCount = 0
-        self.isCapturing = true
-        self.lastCaptureTime = 0
+        // Keep the region with the images so coverage and processing can use it later
+        if let region = settings.regionOfInterest {
+            let regionData = try JSONSerialization.data(withJSONObject: region.dictionary, options: .prettyPrinted)
+            try regionData.write(to: captureDir.appendingPathComponent(RegionOfInterest.filename))
+        }
+        
+        let settingsData = try JSONSerialization.data(withJSONObject: settings.dictionary, options: .prettyPrinted)
+        try settingsData.write(to: captureDir.appendingPathComponent(CaptureSettings.filename))
         
+        begin(in: captureDir, imageCount: 0, settings: settings)
         print("[PhotogrammetryCapture] Started capture in: \(captureDir.path)")
         return captureDir
     }
     
+    // Continue an interrupted capture with the settings it started with; returns the number of images already saved
+    func resumeCapture(in directory: URL) throws -> Int {
+        guard !isCapturing else {
+            throw NSError(domain: "PhotogrammetryCapture", code: 1,
+                         userInfo: [NSLocalizedDescriptionKey: "Already capturing"])
+        }
+        guard let data = try? Data(contentsOf: directory.appendingPathComponent(CaptureSettings.filename)),
+              let dictionary = (try? JSONSerialization.jsonObject(with: data)) as? [String: Any] else {
+            throw NSError(domain: "PhotogrammetryCapture", code: 7,
+                         userInfo: [NSLocalizedDescriptionKey: "No resumable capture in \(directory.lastPathComponent)"])
+        }
+        
+        // New frames are numbered after the last one saved, even if earlier ones were deleted
+        let nextIndex = PhotogrammetryCapture.imageURLs(in: directory)
+            .compactMap { Int($0.deletingPathExtension().lastPathComponent.dropFirst("image_".count)) }
+            .max()
+            .map { $0 + 1 } ?? 0
+        
+        begin(in: directory, imageCount: nextIndex, settings: CaptureSettings(dictionary: dictionary))
+        print("[PhotogrammetryCapture] Resumed capture in: \(directory.path) at image \(nextIndex)")
+        return nextIndex
+    }
+    
+    private func begin(in directory: URL, imageCount: Int, settings: CaptureSettings) {
+        self.captureDirectory = directory
+        self.imageCount = imageCount
+        self.isCapturing = true
+        self.isPaused = false
+        self.lastCaptureTime = 0
+        self.lastCaptureTransform = nil
+        self.settings = settings
+        self.frameStats = FrameQualityStats()
+    }
+    
+    // Settings of the current or latest capture
+    func getCurrentSettings() -> CaptureSettings {
+        return settings
+    }
+    
     // Stop capturing and return results
-    func stopCapture() -> (directory: URL?, imageCount: Int) {
+    func stopCapture() -> (directory: URL?, imageCount: Int, frameStats: FrameQualityStats) {
         isCapturing = false
-        let results = (directory: captureDirectory, imageCount: imageCount)
+        let results = (directory: captureDirectory, imageCount: imageCount, frameStats: frameStats)
         print("[PhotogrammetryCapture] Stopped capture. Total images: \(imageCount)")
         return results
     }
@@ -73,19 +341,34 @@ class PhotogrammetryCapture {
     
     // Process an AR frame and capture if needed
     func processFrame(_ frame: ARFrame, currentTime: TimeInterval) {
-        guard isCapturing else { return }
+        guard isCapturing, !isPaused else { return }
         guard let captureDir = captureDirectory else { return }
         
+        // Stop saving once the frame limit is reached
+        if settings.maxImageCount > 0 && imageCount >= settings.maxImageCount { return }
+        
         // Check if enough time has passed since last capture
-        guard currentTime - lastCaptureTime >= captureInterval else { return }
+        guard currentTime - lastCaptureTime >= settings.captureInterval else { return }
+        
+        // Skip untracked, blurred and redundant frames; the next candidate is one interval later
+        if let reason = rejectionReason(for: frame) {
+            lastCaptureTime = currentTime
+            frameStats.record(reason)
+            onFrameRejected?(reason, frame.timestamp, frame.camera.exposureDuration, trackingStateName(frame.camera.trackingState))
+            return
+        }
         
         // Use autoreleasepool to manage memory for image conversion
         autoreleasepool {
             do {
-                try captureImage(frame: frame, to: captureDir)
+                let index = imageCount
+                let imageURL = try captureImage(frame: frame, to: captureDir)
                 lastCaptureTime = currentTime
+                lastCaptureTransform = frame.camera.transform
                 imageCount += 1
+                frameStats.record(nil)
                 
+                onImageCaptured?(index, imageURL, matrixToArray(frame.camera.transform), frame.timestamp)
                 print("[PhotogrammetryCapture] Captured image \(imageCount)")
             } catch {
                 print("[PhotogrammetryCapture] Failed to capture image: \(error)")
@@ -93,8 +376,48 @@ class PhotogrammetryCapture {
         }
     }
     
-    // Capture a single image with metadata
-    private func captureImage(frame: ARFrame, to directory: URL) throws {
+    // Same checks, in the same order, as evaluateFrame in frameQuality.ts
+    private func rejectionReason(for frame: ARFrame) -> FrameRejectionReason? {
+        if settings.rejectLimitedTracking && trackingStateName(frame.camera.trackingState) != "normal" {
+            return .limitedTracking
+        }
+        if settings.maxExposureDuration > 0 && frame.camera.exposureDuration > settings.maxExposureDuration {
+            return .motionBlur
+        }
+        if let region = settings.regionOfInterest, !region.isInView(of: frame.camera) {
+            return .outsideRegion
+        }
+        if !hasMovedEnough(frame.camera.transform) {
+            return .redundantPose
+        }
+        return nil
+    }
+    
+    private func trackingStateName(_ state: ARCamera.TrackingState) -> String {
+        switch state {
+        case .normal: return "normal"
+        case .limited: return "limited"
+        case .notAvailable: return "notAvailable"
+        }
+    }
+    
+    // Compare a camera transform against the last saved one
+    private func hasMovedEnough(_ transform: simd_float4x4) -> Bool {
+        guard let last = lastCaptureTransform else { return true }
+        if settings.minTranslation <= 0 && settings.minRotationDegrees <= 0 { return true }
+        
+        let translation = simd_distance(
+            simd_make_float3(transform.columns.3),
+            simd_make_float3(last.columns.3)
+        )
+        let relative = simd_quatf(simd_mul(simd_inverse(last), transform))
+        let rotationDegrees = relative.angle * 180 / .pi
+        
+        return translation >= settings.minTranslation || rotationDegrees >= settings.minRotationDegrees
+    }
+    
+    // Capture a single image with metadata, returning the saved image URL
+    private func captureImage(frame: ARFrame, to directory: URL) throws -> URL {
         // Convert ARFrame's CVPixelBuffer to UIImage
         let pixelBuffer = frame.capturedImage
         let ciImage = CIImage(cvPixelBuffer: pixelBuffer)
@@ -108,7 +431,7 @@ class PhotogrammetryCapture {
         let uiImage = UIImage(cgImage: cgImage)
         
         // Save image as JPEG
-        guard let imageData = uiImage.jpegData(compressionQuality: 0.95) else {
+        guard let imageData = uiImage.jpegData(compressionQuality: settings.jpegQuality) else {
             throw NSError(domain: "PhotogrammetryCapture", code: 3,
                          userInfo: [NSLocalizedDescriptionKey: "Failed to convert to JPEG"])
         }
@@ -118,7 +441,7 @@ class PhotogrammetryCapture {
         try imageData.write(to: imageURL)
         
         // Save camera metadata
-        let metadata: [String: Any] = [
+        var metadata: [String: Any] = [
             "transform": matrixToArray(frame.camera.transform),
             "intrinsics": matrixToArray3x3(frame.camera.intrinsics),
             "imageResolution": [
@@ -126,95 +449,196 @@ class PhotogrammetryCapture {
                 "height": ciImage.extent.height
             ],
             "exposureDuration": frame.camera.exposureDuration,
-            "timestamp": frame.timestamp
+            "timestamp": frame.timestamp,
+            "trackingState": trackingStateName(frame.camera.trackingState)
         ]
         
+        // Save depth as raw 32-bit floats when requested and available (LiDAR devices)
+        if settings.saveDepth, let depthMap = frame.sceneDepth?.depthMap {
+            let depthFilename = String(format: "image_%04d_depth.bin", imageCount)
+            try depthData(from: depthMap).write(to: directory.appendingPathComponent(depthFilename))
+            metadata["depthResolution"] = [
+                "width": CVPixelBufferGetWidth(depthMap),
+                "height": CVPixelBufferGetHeight(depthMap)
+            ]
+        }
+        
         let metadataFilename = String(format: "image_%04d.json", imageCount)
         let metadataURL = directory.appendingPathComponent(metadataFilename)
         let jsonData = try JSONSerialization.data(withJSONObject: metadata, options: .prettyPrinted)
         try jsonData.write(to: metadataURL)
+        
+        return imageURL
+    }
+    
+    // Images to reconstruct from: all of them, or those of one pass listed in
+    // segments.json (image indices firstIndex to lastIndex, see guidedCapture.ts)
+    static func imageURLs(in directory: URL, segment: String? = nil) -> [URL] {
+        let images = ((try? FileManager.default.contentsOfDirectory(at: directory, includingPropertiesForKeys: nil)) ?? [])
+            .filter { $0.lastPathComponent.hasPrefix("image_") && $0.pathExtension == "jpg" }
+        guard let segment = segment else { return images }
+        guard let data = try? Data(contentsOf: directory.appendingPathComponent("segments.json")),
+              let segments = (try? JSONSerialization.jsonObject(with: data)) as? [[String: Any]],
+              let entry = segments.first(where: { $0["id"] as? String == segment }),
+              let first = entry["firstIndex"] as? Int,
+              let last = entry["lastIndex"] as? Int,
+              first <= last else { return [] }
+        return images.filter { url in
+            let digits = url.deletingPathExtension().lastPathComponent.dropFirst("image_".count)
+            return Int(digits).map { (first...last).contains($0) } ?? false
+        }
+    }
+    
+    // Stage names from processingProgress.ts for the session's own stages
+    private static func stageName(_ stage: PhotogrammetrySession.Output.ProcessingStage) -> String {
+        switch stage {
+        case .preProcessing:
+            return "validating"
+        case .imageAlignment, .pointCloudGeneration, .meshGeneration:
+            return "reconstructing"
+        case .textureMapping:
+            return "texturing"
+        case .optimization:
+            return "exporting"
+        @unknown default:
+            return "reconstructing"
+        }
     }
     
     // Process captured images with PhotogrammetrySession
+    // Reports progress as (stage, status, overall fraction)
+    // Returns one model URL per requested format, in the order requested
     @MainActor
     func processWithPhotogrammetrySession(
         inputDirectory: URL,
         outputFilename: String,
-        detail: String = "medium",
-        progressCallback: @escaping (String, Float) -> Void
-    ) async throws -> URL {
+        settings: ProcessingSettings = ProcessingSettings(),
+        progressCallback: @escaping (String, String, Float) -> Void
+    ) async throws -> [URL] {
         // Check if photogrammetry is supported
         guard PhotogrammetrySession.isSupported else {
             throw NSError(domain: "PhotogrammetryCapture", code: 4,
                          userInfo: [NSLocalizedDescriptionKey: "Photogrammetry is not supported on this device. Requires Mac with 4GB+ GPU and ray tracing, or iOS device with LiDAR."])
         }
         
-        // Map detail level
-        let detailLevel: PhotogrammetrySession.Request.Detail = .reduced
-        
-        // Create output URL
+        // A .usdz URL gets a single file; a directory URL gets OBJ, MTL and textures
         let documentsPath = FileManager.default.urls(for: .documentDirectory, in: .userDomainMask)[0]
-        let outputURL = documentsPath.appendingPathComponent("\(outputFilename).usdz")
+        let outputURLs = settings.outputFormats.map { format -> URL in
+            format == "obj"
+                ? documentsPath.appendingPathComponent("\(outputFilename)_obj", isDirectory: true)
+                : documentsPath.appendingPathComponent("\(outputFilename).\(format)")
+        }
         
-        // Remove existing file if present
-        try? FileManager.default.removeItem(at: outputURL)
+        // Remove existing output if present
+        for url in outputURLs {
+            try? FileManager.default.removeItem(at: url)
+        }
+        if let objURL = outputURLs.first(where: { $0.hasDirectoryPath }) {
+            try FileManager.default.createDirectory(at: objURL, withIntermediateDirectories: true)
+        }
         
         print("[PhotogrammetryCapture] Starting PhotogrammetrySession")
         print("[PhotogrammetryCapture] Input: \(inputDirectory.path)")
-        print("[PhotogrammetryCapture] Output: \(outputURL.path)")
-        print("[PhotogrammetryCapture] Detail level: \(detail)")
+        print("[PhotogrammetryCapture] Output: \(outputURLs.map { $0.path })")
+        print("[PhotogrammetryCapture] Detail level: \(settings.detailName)")
+        
+        // A single pass is read from a folder of links to its images
+        var input = inputDirectory
+        if let segment = settings.segment {
+            input = FileManager.default.temporaryDirectory
+                .appendingPathComponent("segment_\(UUID().uuidString)", isDirectory: true)
+            try FileManager.default.createDirectory(at: input, withIntermediateDirectories: true)
+            for url in PhotogrammetryCapture.imageURLs(in: inputDirectory, segment: segment) {
+                let link = input.appendingPathComponent(url.lastPathComponent)
+                do {
+                    try FileManager.default.linkItem(at: url, to: link)
+                } catch {
+                    try FileManager.default.copyItem(at: url, to: link)
+                }
+            }
+            print("[PhotogrammetryCapture] Segment: \(segment)")
+        }
+        defer {
+            if input != inputDirectory {
+                try? FileManager.default.removeItem(at: input)
+            }
+        }
         
         // Create photogrammetry session
-        let session = try PhotogrammetrySession(input: inputDirectory)
+        let session = try PhotogrammetrySession(input: input, configuration: settings.configuration)
+        processingSession = session
+        defer { processingSession = nil }
         
-        // Create request
-        let request = PhotogrammetrySession.Request.modelFile(
-            url: outputURL,
-            detail: detailLevel
-        )
+        // One request per format, cropped to the bounds if there are any
+        let geometry = settings.bounds.map { PhotogrammetrySession.Request.Geometry(bounds: $0) }
+        let requests = outputURLs.map { url in
+            PhotogrammetrySession.Request.modelFile(url: url, detail: settings.detail, geometry: geometry)
+        }
         
         // Start processing
-        try session.process(requests: [request])
+        try session.process(requests: requests)
+        
+        // Overall progress is the mean over requests; the stage comes from
+        // requestProgressInfo
+        var fractions = [Double](repeating: 0, count: requests.count)
+        var stage = "validating"
+        let requestIndex = { (request: PhotogrammetrySession.Request) -> Int? in
+            guard case .modelFile(let url, _, _) = request else { return nil }
+            return outputURLs.firstIndex(of: url)
+        }
         
         // Monitor progress
         for try await output in session.outputs {
             switch output {
             case .processingComplete:
                 await MainActor.run {
-                    progressCallback("Complete", 1.0)
+                    progressCallback("exporting", "Complete", 1.0)
                 }
                 print("[PhotogrammetryCapture] Processing complete!")
-                return outputURL
+                return try outputURLs.map(resolveModelURL)
                 
-            case .requestError(let request, let error):
+            case .requestError(_, let error):
                 await MainActor.run {
-                    progressCallback("Error: \(error.localizedDescription)", 0.0)
+                    progressCallback(stage, "Error: \(error.localizedDescription)", 0.0)
                 }
                 throw error
                 
             case .requestProgress(let request, let fractionComplete):
+                if let index = requestIndex(request) {
+                    fractions[index] = fractionComplete
+                }
+                let overall = fractions.reduce(0, +) / Double(fractions.count)
                 await MainActor.run {
-                    progressCallback("Processing", Float(fractionComplete))
+                    progressCallback(stage, "Processing", Float(overall))
+                }
+                print("[PhotogrammetryCapture] Progress: \(Int(overall * 100))%")
+                
+            case .requestProgressInfo(_, let info):
+                if let processingStage = info.processingStage {
+                    stage = PhotogrammetryCapture.stageName(processingStage)
                 }
-                print("[PhotogrammetryCapture] Progress: \(Int(fractionComplete * 100))%")
                 
             case .inputComplete:
                 await MainActor.run {
-                    progressCallback("Input validated", 0.1)
+                    progressCallback("validating", "Input validated", 0.1)
                 }
+                stage = "reconstructing"
                 print("[PhotogrammetryCapture] Input complete")
                 
             case .requestComplete(let request, let result):
+                if let index = requestIndex(request) {
+                    fractions[index] = 1
+                }
                 await MainActor.run {
-                    progressCallback("Request complete", 0.95)
+                    progressCallback("exporting", "Request complete", 0.95)
                 }
                 print("[PhotogrammetryCapture] Request complete: \(result)")
                 
             case .processingCancelled:
                 await MainActor.run {
-                    progressCallback("Cancelled", 0.0)
+                    progressCallback(stage, "Cancelled", 0.0)
                 }
-                throw NSError(domain: "PhotogrammetryCapture", code: 5,
+                throw NSError(domain: "PhotogrammetryCapture", code: PhotogrammetryCapture.cancelledErrorCode,
                              userInfo: [NSLocalizedDescriptionKey: "Processing was cancelled"])
                 
             @unknown default:
@@ -227,6 +651,41 @@ class PhotogrammetryCapture {
                      userInfo: [NSLocalizedDescriptionKey: "Processing completed without generating output file"])
     }
     
+    // Helper: The model file inside an OBJ output directory, or the URL itself
+    private func resolveModelURL(_ url: URL) throws -> URL {
+        guard url.hasDirectoryPath else { return url }
+        let contents = try FileManager.default.contentsOfDirectory(at: url, includingPropertiesForKeys: nil)
+        guard let model = contents.first(where: { $0.pathExtension.lowercased() == "obj" }) else {
+            throw NSError(domain: "PhotogrammetryCapture", code: 6,
+                         userInfo: [NSLocalizedDescriptionKey: "Processing completed without generating an OBJ file"])
+        }
+        return model
+    }
+    
+    // Cancel an in-flight processWithPhotogrammetrySession; it then throws PhotogrammetryCapture.cancelledErrorCode
+    func cancelProcessing() {
+        processingSession?.cancel()
+    }
+    
+    // Helper: Copy a Float32 depth buffer row by row, dropping row padding
+    private func depthData(from depthMap: CVPixelBuffer) -> Data {
+        CVPixelBufferLockBaseAddress(depthMap, .readOnly)
+        defer { CVPixelBufferUnlockBaseAddress(depthMap, .readOnly) }
+        
+        let width = CVPixelBufferGetWidth(depthMap)
+        let height = CVPixelBufferGetHeight(depthMap)
+        let bytesPerRow = CVPixelBufferGetBytesPerRow(depthMap)
+        var data = Data(capacity: width * height * MemoryLayout<Float32>.size)
+        
+        if let base = CVPixelBufferGetBaseAddress(depthMap) {
+            for row in 0..<height {
+                data.append(base.advanced(by: row * bytesPerRow).assumingMemoryBound(to: UInt8.self),
+                            count: width * MemoryLayout<Float32>.size)
+            }
+        }
+        return data
+    }
+    
     // Helper: Convert 4x4 matrix to array
     private func matrixToArray(_ matrix: simd_float4x4) -> [[Float]] {
         return [
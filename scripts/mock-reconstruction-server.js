@@ -0,0 +1,190 @@
+/**
+ * Minimal reconstruction server implementing the protocol in
+ * RECONSTRUCTION_SERVER.md, for trying the remote provider on a LAN and for
+ * tests. Uploads are kept in memory and "processing" only waits, then serves
+ * a placeholder OBJ.
+ *
+ * Usage: node scripts/mock-reconstruction-server.js [port]
+ */
+const { Buffer } = require('buffer');
+const http = require('http');
+
+const PLACEHOLDER_MODEL = [
+  '# Placeholder model from mock-reconstruction-server',
+  'v 0 0 0',
+  'v 1 0 0',
+  'v 0 1 0',
+  'v 0 0 1',
+  'f 1 3 2',
+  'f 1 2 4',
+  'f 1 4 3',
+  'f 2 3 4',
+  '',
+].join('\n');
+
+/**
+ * @param {{ processingMs?: number, log?: (line: string) => void }} options
+ */
+const createMockReconstructionServer = ({
+  processingMs = 3000,
+  log = () => {},
+} = {}) => {
+  const jobs = new Map();
+  let nextId = 1;
+
+  const describe = job => {
+    if (job.status === 'queued' || job.status === 'processing') {
+      const progress = Math.min((Date.now() - job.startedAt) / processingMs, 1);
+      job.status = progress >= 1 ? 'completed' : 'processing';
+      job.progress = progress;
+      job.message = progress < 0.7 ? 'Reconstructing...' : 'Texturing...';
+    }
+    return {
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      message: job.message,
+      files: Object.fromEntries(
+        [...job.files].map(([name, file]) => [name, file.received]),
+      ),
+      modelFormat: 'obj',
+    };
+  };
+
+  const send = (res, status, body) => {
+    const payload = typeof body === 'string' ? body : JSON.stringify(body);
+    res.writeHead(status, {
+      'Content-Type':
+        typeof body === 'string' ? 'text/plain' : 'application/json',
+    });
+    res.end(payload);
+  };
+
+  const readBody = req =>
+    new Promise((resolve, reject) => {
+      const chunks = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        try {
+          resolve(text ? JSON.parse(text) : {});
+        } catch (error) {
+          reject(error);
+        }
+      });
+      req.on('error', reject);
+    });
+
+  const handle = async (req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const parts = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    log(`${req.method} ${url.pathname}`);
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      return send(res, 200, { status: 'ok' });
+    }
+    if (parts[0] !== 'jobs') {
+      return send(res, 404, 'Not found');
+    }
+
+    if (req.method === 'POST' && parts.length === 1) {
+      const body = await readBody(req);
+      if (!Array.isArray(body.files)) {
+        return send(res, 400, 'files is required');
+      }
+      const job = {
+        id: String(nextId++),
+        status: 'uploading',
+        progress: 0,
+        message: undefined,
+        startedAt: 0,
+        metadata: body,
+        files: new Map(
+          body.files.map(file => [
+            file.name,
+            { size: file.size, received: 0, chunks: [] },
+          ]),
+        ),
+      };
+      jobs.set(job.id, job);
+      return send(res, 201, describe(job));
+    }
+
+    const job = jobs.get(parts[1]);
+    if (!job) {
+      return send(res, 404, 'Unknown job');
+    }
+
+    if (req.method === 'GET' && parts.length === 2) {
+      return send(res, 200, describe(job));
+    }
+
+    if (req.method === 'PUT' && parts[2] === 'files' && parts.length === 4) {
+      const file = job.files.get(parts[3]);
+      if (!file) {
+        return send(res, 404, 'Unknown file');
+      }
+      const { offset, data } = await readBody(req);
+      if (offset !== file.received) {
+        return send(res, 409, { received: file.received });
+      }
+      const chunk = Buffer.from(data, 'base64');
+      if (file.received + chunk.length > file.size) {
+        return send(res, 400, 'Chunk runs past the declared file size');
+      }
+      file.chunks.push(chunk);
+      file.received += chunk.length;
+      return send(res, 200, { received: file.received });
+    }
+
+    if (req.method === 'POST' && parts[2] === 'start') {
+      const incomplete = [...job.files.values()].some(
+        file => file.received < file.size,
+      );
+      if (incomplete) {
+        return send(res, 409, 'Upload is incomplete');
+      }
+      if (job.status === 'uploading') {
+        job.status = 'queued';
+        job.startedAt = Date.now();
+      }
+      return send(res, 200, describe(job));
+    }
+
+    if (req.method === 'POST' && parts[2] === 'cancel') {
+      job.status = 'cancelled';
+      return send(res, 200, describe(job));
+    }
+
+    if (req.method === 'GET' && parts[2] === 'model') {
+      if (describe(job).status !== 'completed') {
+        return send(res, 404, 'Model is not ready');
+      }
+      res.writeHead(200, { 'Content-Type': 'model/obj' });
+      return res.end(PLACEHOLDER_MODEL);
+    }
+
+    return send(res, 404, 'Not found');
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => send(res, 400, String(error)));
+  });
+
+  return { server, jobs };
+};
+
+module.exports = { createMockReconstructionServer, PLACEHOLDER_MODEL };
+
+if (require.main === module) {
+  const port = Number(process.argv[2]) || 8080;
+  const { server } = createMockReconstructionServer({
+    log: line => console.log(line),
+  });
+  server.listen(port, '0.0.0.0', () => {
+    console.log(`Mock reconstruction server listening on port ${port}`);
+  });
+}
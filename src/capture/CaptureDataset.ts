@@ -0,0 +1,362 @@
+import {
+  ARNativeModule,
+  ARNativeModuleType,
+  CaptureManifest,
+} from '../native/ARNativeModule';
+import { isSquareMatrix, Matrix3, Matrix4, poseToMatrix4 } from './matrix';
+import {
+  parseRegionOfInterest,
+  REGION_OF_INTEREST_FILE,
+  RegionOfInterest,
+} from './regionOfInterest';
+
+/**
+ * Per-image metadata written next to each image_NNNN.jpg
+ */
+export interface CaptureFrameMetadata {
+  /** Camera-to-world transform, columns of 4 */
+  transform: Matrix4;
+  /** Pinhole intrinsics in pixels, columns of 3 */
+  intrinsics: Matrix3;
+  imageResolution: { width: number; height: number };
+  /** Seconds; absent on Android captures */
+  exposureDuration?: number;
+  /** Seconds since device boot */
+  timestamp: number;
+  /** ARCore tracking state; absent on iOS captures */
+  trackingState?: string;
+}
+
+export interface CaptureFrame {
+  /** Index parsed from the file name */
+  index: number;
+  imagePath: string;
+  metadataPath: string;
+  metadata: CaptureFrameMetadata;
+}
+
+export interface CaptureDataset {
+  directory: string;
+  /** Frames with a readable image/metadata pair, ordered by index */
+  frames: CaptureFrame[];
+  /** Box placed around the object before capture, or null if there was none */
+  region: RegionOfInterest | null;
+}
+
+export type DatasetIssueCode =
+  | 'EMPTY_DATASET'
+  | 'MISSING_METADATA'
+  | 'MISSING_IMAGE'
+  | 'MALFORMED_METADATA'
+  | 'MALFORMED_TRANSFORM'
+  | 'MALFORMED_INTRINSICS'
+  | 'NON_MONOTONIC_TIMESTAMP'
+  | 'RESOLUTION_CHANGED';
+
+export interface DatasetIssue {
+  code: DatasetIssueCode;
+  severity: 'error' | 'warning';
+  /** Frame the issue refers to, if any */
+  frameIndex?: number;
+  message: string;
+}
+
+export interface DatasetValidationReport {
+  /** True when there are no errors; warnings are allowed */
+  valid: boolean;
+  frameCount: number;
+  errorCount: number;
+  warningCount: number;
+  issues: DatasetIssue[];
+}
+
+export interface CaptureDatasetReadResult {
+  dataset: CaptureDataset;
+  report: DatasetValidationReport;
+}
+
+const FRAME_FILE_PATTERN = /^image_(\d+)\.(jpg|json)$/;
+
+const joinPath = (directory: string, name: string) =>
+  directory.endsWith('/') ? `${directory}${name}` : `${directory}/${name}`;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+class MetadataError extends Error {
+  constructor(readonly code: DatasetIssueCode, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Normalize a transform to a 4x4 matrix
+ * iOS writes the matrix directly; Android writes [translation, quaternion].
+ */
+const parseTransform = (value: unknown): Matrix4 => {
+  if (isSquareMatrix(value, 4)) {
+    const matrix = value as Matrix4;
+    const bottomRow = matrix.map(column => column[3]);
+    const affine =
+      Math.abs(bottomRow[0]) < 1e-4 &&
+      Math.abs(bottomRow[1]) < 1e-4 &&
+      Math.abs(bottomRow[2]) < 1e-4 &&
+      Math.abs(bottomRow[3] - 1) < 1e-4;
+    if (!affine) {
+      throw new MetadataError(
+        'MALFORMED_TRANSFORM',
+        'Transform is not an affine 4x4 matrix',
+      );
+    }
+    return matrix;
+  }
+
+  if (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    Array.isArray(value[0]) &&
+    value[0].length === 3 &&
+    Array.isArray(value[1]) &&
+    value[1].length === 4 &&
+    [...value[0], ...value[1]].every(Number.isFinite)
+  ) {
+    return poseToMatrix4(value[0], value[1]);
+  }
+
+  throw new MetadataError(
+    'MALFORMED_TRANSFORM',
+    'Transform must be a 4x4 matrix or [translation, quaternion]',
+  );
+};
+
+/**
+ * Normalize intrinsics to a 3x3 matrix
+ * iOS writes the matrix directly; Android writes focal length and principal point.
+ */
+const parseIntrinsics = (value: unknown): Matrix3 => {
+  let matrix: Matrix3 | null = null;
+
+  if (isSquareMatrix(value, 3)) {
+    matrix = value as Matrix3;
+  } else if (
+    isRecord(value) &&
+    Array.isArray(value.focalLength) &&
+    Array.isArray(value.principalPoint)
+  ) {
+    const [fx, fy] = value.focalLength;
+    const [cx, cy] = value.principalPoint;
+    matrix = [
+      [fx, 0, 0],
+      [0, fy, 0],
+      [cx, cy, 1],
+    ];
+  }
+
+  if (
+    !matrix ||
+    !isSquareMatrix(matrix, 3) ||
+    !isPositive(matrix[0][0]) ||
+    !isPositive(matrix[1][1]) ||
+    Math.abs(matrix[2][2] - 1) > 1e-4
+  ) {
+    throw new MetadataError(
+      'MALFORMED_INTRINSICS',
+      'Intrinsics must be a 3x3 pinhole matrix with positive focal lengths',
+    );
+  }
+  return matrix;
+};
+
+/**
+ * Parse the JSON contents of an image_NNNN.json file
+ * @throws Error with a dataset issue code when the metadata is unusable
+ */
+export const parseFrameMetadata = (json: string): CaptureFrameMetadata => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new MetadataError('MALFORMED_METADATA', 'Metadata is not valid JSON');
+  }
+  if (!isRecord(raw)) {
+    throw new MetadataError('MALFORMED_METADATA', 'Metadata is not an object');
+  }
+
+  const transform = parseTransform(raw.transform);
+  const intrinsics = parseIntrinsics(raw.intrinsics);
+
+  const resolution = raw.imageResolution;
+  if (
+    !isRecord(resolution) ||
+    !isPositive(resolution.width) ||
+    !isPositive(resolution.height)
+  ) {
+    throw new MetadataError(
+      'MALFORMED_METADATA',
+      'imageResolution must have a positive width and height',
+    );
+  }
+
+  if (typeof raw.timestamp !== 'number' || !Number.isFinite(raw.timestamp)) {
+    throw new MetadataError('MALFORMED_METADATA', 'timestamp is missing');
+  }
+
+  // Android captures store nanoseconds; they are the ones with object intrinsics
+  const timestamp = isRecord(raw.intrinsics)
+    ? raw.timestamp / 1e9
+    : raw.timestamp;
+
+  return {
+    transform,
+    intrinsics,
+    imageResolution: { width: resolution.width, height: resolution.height },
+    exposureDuration:
+      typeof raw.exposureDuration === 'number'
+        ? raw.exposureDuration
+        : undefined,
+    timestamp,
+    trackingState:
+      typeof raw.trackingState === 'string' ? raw.trackingState : undefined,
+  };
+};
+
+/**
+ * Check ordering and consistency across frames
+ */
+export const validateCaptureDataset = (
+  dataset: CaptureDataset,
+  issues: DatasetIssue[] = [],
+): DatasetValidationReport => {
+  const allIssues = [...issues];
+  const { frames } = dataset;
+
+  if (frames.length === 0) {
+    allIssues.push({
+      code: 'EMPTY_DATASET',
+      severity: 'error',
+      message: 'No usable frames in capture directory',
+    });
+  }
+
+  const first = frames[0]?.metadata.imageResolution;
+  frames.forEach((frame, i) => {
+    const previous = frames[i - 1];
+    if (previous && frame.metadata.timestamp <= previous.metadata.timestamp) {
+      allIssues.push({
+        code: 'NON_MONOTONIC_TIMESTAMP',
+        severity: 'error',
+        frameIndex: frame.index,
+        message: `Timestamp does not increase after frame ${previous.index}`,
+      });
+    }
+
+    const { width, height } = frame.metadata.imageResolution;
+    if (first && (width !== first.width || height !== first.height)) {
+      allIssues.push({
+        code: 'RESOLUTION_CHANGED',
+        severity: 'warning',
+        frameIndex: frame.index,
+        message: `Resolution ${width}x${height} differs from ${first.width}x${first.height}`,
+      });
+    }
+  });
+
+  const errorCount = allIssues.filter(
+    issue => issue.severity === 'error',
+  ).length;
+  return {
+    valid: errorCount === 0,
+    frameCount: frames.length,
+    errorCount,
+    warningCount: allIssues.length - errorCount,
+    issues: allIssues,
+  };
+};
+
+/**
+ * Pair images with their metadata and validate the result
+ */
+export const readCaptureDataset = (
+  manifest: CaptureManifest,
+): CaptureDatasetReadResult => {
+  const images = new Map<number, string>();
+  const metadataFiles = new Map<number, string>();
+
+  manifest.files.forEach(name => {
+    const match = FRAME_FILE_PATTERN.exec(name);
+    if (!match) {
+      return;
+    }
+    const index = parseInt(match[1], 10);
+    (match[2] === 'jpg' ? images : metadataFiles).set(index, name);
+  });
+
+  const issues: DatasetIssue[] = [];
+  const frames: CaptureFrame[] = [];
+  const indices = [...new Set([...images.keys(), ...metadataFiles.keys()])];
+
+  indices
+    .sort((a, b) => a - b)
+    .forEach(index => {
+      const imageName = images.get(index);
+      const metadataName = metadataFiles.get(index);
+
+      if (!imageName) {
+        issues.push({
+          code: 'MISSING_IMAGE',
+          severity: 'error',
+          frameIndex: index,
+          message: `${metadataName} has no matching image`,
+        });
+        return;
+      }
+      if (!metadataName) {
+        issues.push({
+          code: 'MISSING_METADATA',
+          severity: 'error',
+          frameIndex: index,
+          message: `${imageName} has no matching metadata`,
+        });
+        return;
+      }
+
+      try {
+        frames.push({
+          index,
+          imagePath: joinPath(manifest.directory, imageName),
+          metadataPath: joinPath(manifest.directory, metadataName),
+          metadata: parseFrameMetadata(manifest.metadata[metadataName] ?? ''),
+        });
+      } catch (error) {
+        issues.push({
+          code:
+            error instanceof MetadataError ? error.code : 'MALFORMED_METADATA',
+          severity: 'error',
+          frameIndex: index,
+          message: `${metadataName}: ${(error as Error).message}`,
+        });
+      }
+    });
+
+  const regionJson = manifest.metadata[REGION_OF_INTEREST_FILE];
+  const dataset = {
+    directory: manifest.directory,
+    frames,
+    region: regionJson ? parseRegionOfInterest(regionJson) : null,
+  };
+  return { dataset, report: validateCaptureDataset(dataset, issues) };
+};
+
+/**
+ * Load and validate a capture directory
+ * @param directory Directory created by startObjectScan
+ * @param module Native module to read the directory with
+ */
+export const loadCaptureDataset = async (
+  directory: string,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<CaptureDatasetReadResult> =>
+  readCaptureDataset(await module.readCaptureManifest(directory));
@@ -0,0 +1,516 @@
+import {
+  ARNativeModule,
+  ARNativeModuleType,
+  ARNativeSubscription,
+} from '../native/ARNativeModule';
+import { createARError } from '../native/ARError';
+import type { TrackingStateChangeEvent } from '../native/ARView';
+import {
+  ProcessingQueue,
+  processingQueue,
+} from '../processing/ProcessingQueue';
+import type { ProcessingOptions } from '../processing/processingOptions';
+import type { ProcessingStage } from '../processing/processingProgress';
+import { CaptureOptions } from './captureOptions';
+import {
+  EMPTY_FRAME_QUALITY_STATS,
+  FrameQualityStats,
+  recordFrameDecision,
+} from './frameQuality';
+import { hasScanMesh, ScanMeshData } from './meshExport';
+import {
+  isTrackingLimited,
+  recordTrackingChange,
+  startTrackingTimeline,
+  TrackingTimeline,
+  TrackingTimeStats,
+  trackingTimeStats,
+} from './trackingQuality';
+
+export type CapturePhase =
+  | 'idle'
+  | 'starting'
+  | 'capturing'
+  | 'stopping'
+  | 'captured'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type ProcessingDetail = 'reduced' | 'medium' | 'full' | 'raw';
+
+export interface ProcessingProgress {
+  status: string;
+  /** Overall progress, 0-1 */
+  progress: number;
+  /** Step the backend is on, where it reports one */
+  stage?: ProcessingStage;
+  /** Estimated time left in seconds, or null until there is enough history */
+  etaSeconds?: number | null;
+}
+
+export interface CaptureSessionState {
+  phase: CapturePhase;
+  directory: string | null;
+  imageCount: number;
+  /** Frame-quality filter decisions for the current capture */
+  frameStats: FrameQualityStats | null;
+  /** Scene mesh returned by stopObjectScan, where the device builds one */
+  mesh: ScanMeshData | null;
+  /** Latest tracking state reported by the AR view */
+  tracking: TrackingStateChangeEvent | null;
+  /** Frames are not being saved because tracking is limited or capture is held */
+  capturePaused: boolean;
+  /** Saving was held by holdCapture(), e.g. while the object is turned over */
+  captureHeld: boolean;
+  /** Time spent in each tracking state during the current capture */
+  trackingStats: TrackingTimeStats | null;
+  /** Options of the latest processing run, validated */
+  options: ProcessingOptions | null;
+  /** Processing queue job for the current capture */
+  jobId: string | null;
+  progress: ProcessingProgress | null;
+  outputPath: string | null;
+  error: Error | null;
+}
+
+export type CaptureSessionListener = (state: CaptureSessionState) => void;
+
+/**
+ * Phases reachable from each phase. Anything not listed is rejected.
+ */
+const TRANSITIONS: Record<CapturePhase, CapturePhase[]> = {
+  idle: ['starting', 'captured'],
+  starting: ['capturing', 'failed'],
+  capturing: ['stopping', 'captured'],
+  stopping: ['captured', 'failed'],
+  captured: ['processing', 'starting', 'cancelled', 'idle'],
+  processing: ['completed', 'failed', 'captured'],
+  completed: ['starting', 'processing', 'idle'],
+  failed: ['starting', 'processing', 'idle'],
+  cancelled: ['starting', 'idle'],
+};
+
+export const INITIAL_CAPTURE_SESSION_STATE: CaptureSessionState = {
+  phase: 'idle',
+  directory: null,
+  imageCount: 0,
+  frameStats: null,
+  mesh: null,
+  tracking: null,
+  capturePaused: false,
+  captureHeld: false,
+  trackingStats: null,
+  options: null,
+  jobId: null,
+  progress: null,
+  outputPath: null,
+  error: null,
+};
+
+export const canTransition = (from: CapturePhase, to: CapturePhase) =>
+  TRANSITIONS[from].includes(to);
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Owns the capture → processing lifecycle for one AR screen
+ *
+ * Every native call goes through a guarded transition, so a second tap while a
+ * call is in flight is ignored instead of issuing a duplicate native request.
+ * Methods that reach the native module rethrow its errors after moving to
+ * `failed`, leaving presentation to the caller.
+ *
+ * While tracking is limited during a capture, saving is paused natively and
+ * resumed once tracking is normal again. Callers can hold saving for their
+ * own reasons with holdCapture().
+ */
+export class CaptureSessionController {
+  private state: CaptureSessionState = INITIAL_CAPTURE_SESSION_STATE;
+  private listeners = new Set<CaptureSessionListener>();
+  private trackingTimeline: TrackingTimeline | null = null;
+  // Frame indices with no image, left by frames deleted before a resume.
+  // Native counts and indices include them.
+  private missingIndices = 0;
+
+  /**
+   * @param queue Queue that runs processing; controllers over a custom module
+   * get a private in-memory queue so they never touch the shared one
+   * @param now Clock for tracking times, in milliseconds
+   */
+  constructor(
+    private readonly module: ARNativeModuleType = ARNativeModule,
+    private readonly queue: ProcessingQueue = module === ARNativeModule
+      ? processingQueue
+      : new ProcessingQueue(module, null),
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  getState = (): CaptureSessionState => this.state;
+
+  subscribe = (listener: CaptureSessionListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  canTransition(to: CapturePhase): boolean {
+    return canTransition(this.state.phase, to);
+  }
+
+  /**
+   * Listen for native capture events
+   * @returns Function that removes the subscriptions
+   */
+  attach(): () => void {
+    const subscriptions: ARNativeSubscription[] = [
+      this.module.addEventListener('onCaptureStarted', event => {
+        if (this.state.phase === 'starting' || this.isCapturing()) {
+          this.update({ directory: event.directory });
+        }
+      }),
+      this.module.addEventListener('onImageCaptured', event => {
+        if (this.isCapturing()) {
+          this.update({
+            imageCount: Math.max(
+              this.state.imageCount,
+              event.index + 1 - this.missingIndices,
+            ),
+            frameStats: recordFrameDecision(this.currentFrameStats(), {
+              accepted: true,
+            }),
+          });
+        }
+      }),
+      this.module.addEventListener('onFrameRejected', event => {
+        if (this.isCapturing()) {
+          this.update({
+            frameStats: recordFrameDecision(this.currentFrameStats(), {
+              accepted: false,
+              reason: event.reason,
+            }),
+          });
+        }
+      }),
+      this.module.addEventListener('onCaptureStopped', event => {
+        // Native stopped on its own (e.g. the AR view was torn down)
+        if (this.state.phase === 'capturing') {
+          this.transition('captured', {
+            directory: event.directory || this.state.directory,
+            imageCount: event.imageCount - this.missingIndices,
+            frameStats: event.frameStats ?? this.state.frameStats,
+            ...this.finishTrackingTimeline(),
+          });
+        }
+      }),
+    ];
+
+    return () => {
+      subscriptions.forEach(subscription => subscription.remove());
+    };
+  }
+
+  /**
+   * Start capturing images
+   * @param options Capture options passed through to the native module
+   * @returns false if a capture cannot start from the current phase
+   */
+  start(options?: Partial<CaptureOptions>): Promise<boolean> {
+    return this.begin(async () => {
+      await this.module.startObjectScan(options);
+      return {};
+    });
+  }
+
+  /**
+   * Continue an interrupted capture, adding frames to its directory
+   *
+   * Saving stays paused while tracking relocalizes against the capture's
+   * saved world map, as for any other limited tracking.
+   * @returns false if a capture cannot start from the current phase
+   */
+  resume(directory: string): Promise<boolean> {
+    return this.begin(async () => {
+      const resumed = await this.module.resumeObjectScan(directory);
+      this.missingIndices = resumed.nextIndex - resumed.imageCount;
+      return {
+        directory: resumed.directory || directory,
+        imageCount: resumed.imageCount,
+      };
+    });
+  }
+
+  /**
+   * Start or resume a native capture and track it
+   * @param scan Native call; resolves with what it learned about the capture
+   */
+  private async begin(
+    scan: () => Promise<Partial<CaptureSessionState>>,
+  ): Promise<boolean> {
+    if (
+      !this.transition('starting', {
+        imageCount: 0,
+        directory: null,
+        frameStats: null,
+        mesh: null,
+        capturePaused: false,
+        captureHeld: false,
+        trackingStats: null,
+      })
+    ) {
+      return false;
+    }
+
+    this.missingIndices = 0;
+    try {
+      const patch = await scan();
+      // Until the view reports otherwise, assume tracking is fine
+      this.trackingTimeline = startTrackingTimeline(
+        this.state.tracking ?? { state: 'normal', reason: null },
+        this.now(),
+      );
+      this.transition('capturing', {
+        ...patch,
+        options: null,
+        progress: null,
+        outputPath: null,
+        error: null,
+        trackingStats: trackingTimeStats(this.trackingTimeline, this.now()),
+      });
+      this.syncCapturePause();
+      return true;
+    } catch (error) {
+      this.fail(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop capturing images
+   * @returns false if there is no capture to stop
+   */
+  async stop(): Promise<boolean> {
+    if (!this.transition('stopping', this.finishTrackingTimeline())) {
+      return false;
+    }
+
+    try {
+      const scanData = await this.module.stopObjectScan();
+      this.transition('captured', {
+        directory: scanData.directory || this.state.directory,
+        imageCount:
+          scanData.imageCount !== undefined
+            ? scanData.imageCount - this.missingIndices
+            : this.state.imageCount,
+        // Native counts are authoritative; events may still be in flight
+        frameStats: scanData.frameStats ?? this.state.frameStats,
+        mesh: hasScanMesh(scanData)
+          ? { vertices: scanData.vertices, faces: scanData.faces }
+          : null,
+      });
+      return true;
+    } catch (error) {
+      this.fail(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pick up an earlier capture, e.g. one opened from the library, so it can be processed
+   * @returns false if a capture is already in progress
+   */
+  load(directory: string, imageCount: number): boolean {
+    return this.transition('captured', {
+      ...INITIAL_CAPTURE_SESSION_STATE,
+      // The view keeps tracking; only capture results are cleared
+      tracking: this.state.tracking,
+      directory,
+      imageCount,
+    });
+  }
+
+  /**
+   * Reconstruct a model from the captured images
+   *
+   * Runs through the processing queue, so the job carries on if the calling
+   * screen goes away. Cancelling returns the session to `captured`.
+   * @param options Unset options take their defaults
+   * @returns Path to the generated model, or null if processing cannot start or was cancelled
+   * @throws ProcessingOptionsError if the options are invalid, before anything is queued
+   */
+  async process(options: Partial<ProcessingOptions>): Promise<string | null> {
+    const { directory } = this.state;
+    if (!directory || !this.canTransition('processing')) {
+      return null;
+    }
+
+    const job = this.queue.enqueue(directory, options);
+    this.transition('processing', {
+      options: job.options,
+      jobId: job.id,
+      progress: { status: 'Queued', progress: 0 },
+      outputPath: null,
+      error: null,
+    });
+
+    const unsubscribe = this.queue.subscribe(() => {
+      const progress = this.queue.getJob(job.id)?.progress;
+      if (this.state.phase === 'processing' && progress) {
+        this.update({ progress });
+      }
+    });
+
+    try {
+      const settled = await this.queue.waitFor(job.id);
+      if (settled.status === 'cancelled') {
+        this.transition('captured', { progress: null, jobId: null });
+        return null;
+      }
+      if (settled.status !== 'completed' || !settled.outputPath) {
+        throw createARError(
+          settled.errorCode ?? 'UNKNOWN',
+          settled.error ?? 'Processing failed',
+        );
+      }
+      this.transition('completed', {
+        progress: null,
+        outputPath: settled.outputPath,
+      });
+      return settled.outputPath;
+    } catch (error) {
+      this.fail(error);
+      throw error;
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  /**
+   * Cancel processing started by process()
+   * @returns false if nothing is processing
+   */
+  async cancelProcessing(): Promise<boolean> {
+    const { phase, jobId } = this.state;
+    if (phase !== 'processing' || !jobId) {
+      return false;
+    }
+    return this.queue.cancel(jobId);
+  }
+
+  /**
+   * Discard the current capture
+   */
+  async cancel(): Promise<boolean> {
+    if (!this.transition('cancelled')) {
+      return false;
+    }
+    await this.module.clearScan();
+    return true;
+  }
+
+  /**
+   * Return to idle from a settled phase
+   */
+  reset(): boolean {
+    return this.transition('idle', {
+      ...INITIAL_CAPTURE_SESSION_STATE,
+      tracking: this.state.tracking,
+    });
+  }
+
+  /**
+   * Record a tracking state change reported by the AR view
+   */
+  updateTracking = (event: TrackingStateChangeEvent) => {
+    const patch: Partial<CaptureSessionState> = { tracking: event };
+    if (this.trackingTimeline && this.state.phase === 'capturing') {
+      const now = this.now();
+      this.trackingTimeline = recordTrackingChange(
+        this.trackingTimeline,
+        event,
+        now,
+      );
+      patch.trackingStats = trackingTimeStats(this.trackingTimeline, now);
+    }
+    this.update(patch);
+    this.syncCapturePause();
+  };
+
+  /**
+   * Stop saving frames until released, whatever the tracking state
+   * @returns false if there is no capture running
+   */
+  holdCapture(held: boolean): boolean {
+    if (this.state.phase !== 'capturing') {
+      return false;
+    }
+    this.update({ captureHeld: held });
+    this.syncCapturePause();
+    return true;
+  }
+
+  /**
+   * Stop saving frames while tracking is limited or capture is held, and
+   * resume once neither is the case
+   */
+  private syncCapturePause() {
+    const { phase, tracking, capturePaused, captureHeld } = this.state;
+    const paused =
+      phase === 'capturing' &&
+      (captureHeld || (tracking !== null && isTrackingLimited(tracking)));
+    if (paused === capturePaused) {
+      return;
+    }
+    this.update({ capturePaused: paused });
+    this.module
+      .setCapturePaused(paused)
+      .catch(error => console.warn('Could not pause capture:', error));
+  }
+
+  /**
+   * Final tracking times for a capture that is ending
+   */
+  private finishTrackingTimeline(): Partial<CaptureSessionState> {
+    const timeline = this.trackingTimeline;
+    if (!timeline || !this.isCapturing()) {
+      return {};
+    }
+    this.trackingTimeline = null;
+    return {
+      capturePaused: false,
+      captureHeld: false,
+      trackingStats: trackingTimeStats(timeline, this.now()),
+    };
+  }
+
+  private currentFrameStats() {
+    return this.state.frameStats ?? EMPTY_FRAME_QUALITY_STATS;
+  }
+
+  private isCapturing() {
+    return this.state.phase === 'capturing' || this.state.phase === 'stopping';
+  }
+
+  private transition(
+    to: CapturePhase,
+    patch: Partial<CaptureSessionState> = {},
+  ): boolean {
+    if (!this.canTransition(to)) {
+      return false;
+    }
+    this.update({ ...patch, phase: to });
+    return true;
+  }
+
+  private fail(error: unknown) {
+    this.transition('failed', { progress: null, error: toError(error) });
+  }
+
+  private update(patch: Partial<CaptureSessionState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
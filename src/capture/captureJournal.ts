@@ -0,0 +1,138 @@
+import { ARError } from '../native/ARError';
+import {
+  ARNativeModule,
+  ARNativeModuleType,
+  CaptureInfo,
+} from '../native/ARNativeModule';
+import type { CaptureSessionController } from './CaptureSessionController';
+
+/**
+ * Capture journal: a note of the capture in progress, kept in the documents
+ * directory so a capture cut short by a crash, by the system ending the app
+ * in the background or by the AR screen closing can be resumed or discarded
+ * later.
+ *
+ * The journal is written when a capture starts or resumes and cleared when
+ * the user stops it. One that outlives its capture marks an interruption.
+ */
+
+/**
+ * Where the journal is kept, relative to the documents directory
+ */
+export const CAPTURE_JOURNAL_FILE = 'capture_journal.json';
+
+export interface CaptureJournal {
+  /** Directory of the capture in progress */
+  directory: string;
+}
+
+/**
+ * A capture that stopped without the user stopping it
+ */
+export interface InterruptedCapture {
+  directory: string;
+  /** The capture as it is on disk */
+  info: CaptureInfo;
+}
+
+/**
+ * @returns null for an empty journal or one that cannot be read
+ */
+export const parseCaptureJournal = (json: string): CaptureJournal | null => {
+  try {
+    const parsed = JSON.parse(json);
+    return typeof parsed?.directory === 'string' && parsed.directory
+      ? { directory: parsed.directory }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadCaptureJournal = async (
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<CaptureJournal | null> => {
+  const json = await module.readTextFile(CAPTURE_JOURNAL_FILE);
+  return json ? parseCaptureJournal(json) : null;
+};
+
+/**
+ * @param journal Capture in progress, or null once none is
+ */
+export const saveCaptureJournal = (
+  journal: CaptureJournal | null,
+  module: ARNativeModuleType = ARNativeModule,
+) => module.writeTextFile(CAPTURE_JOURNAL_FILE, JSON.stringify(journal));
+
+/**
+ * The capture the journal was left pointing at, if it is still on disk
+ *
+ * Call it only while no capture is running, e.g. at launch or when the AR
+ * screen opens. A journal for a capture that has since been deleted is
+ * cleared.
+ */
+export const findInterruptedCapture = async (
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<InterruptedCapture | null> => {
+  const journal = await loadCaptureJournal(module);
+  if (!journal) {
+    return null;
+  }
+  try {
+    const info = await module.getCaptureInfo(journal.directory);
+    return { directory: journal.directory, info };
+  } catch (error) {
+    if (
+      !(error instanceof ARError) ||
+      error.nativeCode !== 'CAPTURE_NOT_FOUND'
+    ) {
+      throw error;
+    }
+    await saveCaptureJournal(null, module);
+    return null;
+  }
+};
+
+/**
+ * Delete an interrupted capture and forget it
+ */
+export const discardInterruptedCapture = async (
+  capture: InterruptedCapture,
+  module: ARNativeModuleType = ARNativeModule,
+) => {
+  await module.deleteCapture(capture.directory);
+  await saveCaptureJournal(null, module);
+};
+
+/**
+ * Keep the journal in step with a capture session
+ *
+ * A capture is journaled once it is running, and the journal is cleared
+ * when the user stops it. A capture that ends any other way, e.g. because
+ * the AR view went away, stays journaled.
+ * @returns Function that stops watching
+ */
+export const watchCaptureJournal = (
+  controller: CaptureSessionController,
+  module: ARNativeModuleType = ARNativeModule,
+): (() => void) => {
+  let previous = controller.getState();
+  const write = (journal: CaptureJournal | null) =>
+    saveCaptureJournal(journal, module).catch(error =>
+      console.warn('Could not update the capture journal:', error),
+    );
+
+  return controller.subscribe(state => {
+    const last = previous;
+    previous = state;
+    if (
+      state.phase === 'capturing' &&
+      state.directory &&
+      (last.phase !== 'capturing' || last.directory !== state.directory)
+    ) {
+      write({ directory: state.directory });
+    } else if (last.phase === 'stopping' && state.phase === 'captured') {
+      write(null);
+    }
+  });
+};
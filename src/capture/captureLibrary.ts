@@ -0,0 +1,107 @@
+import { CaptureInfo, CaptureModelInfo } from '../native/ARNativeModule';
+import { ProcessingJob } from '../processing/ProcessingQueue';
+import { formatEta, formatStage } from '../processing/processingProgress';
+
+export type CaptureStatus =
+  | 'unprocessed'
+  | 'processing'
+  | 'processed'
+  | 'failed';
+
+export const CAPTURE_STATUS_LABELS: Record<CaptureStatus, string> = {
+  unprocessed: 'Not processed',
+  processing: 'Processing',
+  processed: 'Processed',
+  failed: 'Processing failed',
+};
+
+export const MAX_CAPTURE_NAME_LENGTH = 60;
+
+/**
+ * Where a capture stands, from its last processing attempt and its models
+ */
+export const getCaptureStatus = (info: CaptureInfo): CaptureStatus => {
+  switch (info.processing?.status) {
+    case 'processing':
+      return 'processing';
+    case 'failed':
+      return 'failed';
+    default:
+      return availableModels(info).length > 0 ? 'processed' : 'unprocessed';
+  }
+};
+
+/**
+ * Models whose files are still on disk, newest first
+ */
+export const availableModels = (info: CaptureInfo): CaptureModelInfo[] =>
+  info.models
+    .filter(model => model.exists)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+export const formatCaptureDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString();
+
+/**
+ * Name shown for a capture; falls back to its date
+ */
+export const getCaptureTitle = (info: CaptureInfo) =>
+  info.name ?? `Scan ${formatCaptureDate(info.createdAt)}`;
+
+/**
+ * Trim and collapse whitespace; an empty result clears the name
+ */
+export const normalizeCaptureName = (name: string) =>
+  name.trim().replace(/\s+/g, ' ').slice(0, MAX_CAPTURE_NAME_LENGTH);
+
+export const formatByteSize = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * One-line description for list rows, e.g. "84 images · 212.4 MB · 2 models"
+ */
+export const formatCaptureSummary = (info: CaptureInfo) => {
+  const models = availableModels(info).length;
+  return [
+    `${info.imageCount} ${info.imageCount === 1 ? 'image' : 'images'}`,
+    formatByteSize(info.sizeBytes),
+    models > 0 && `${models} ${models === 1 ? 'model' : 'models'}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+/**
+ * Short status line for a processing job, e.g.
+ * "Texturing (3 of 4) 75% · About 2 min left" or "Failed: ..."
+ */
+export const formatJobStatus = (job: ProcessingJob) => {
+  switch (job.status) {
+    case 'queued':
+      return 'Queued';
+    case 'running': {
+      if (!job.progress) {
+        return 'Starting...';
+      }
+      const { stage, status, progress, etaSeconds } = job.progress;
+      const line = `${stage ? formatStage(job.progress) : status} ${Math.round(
+        progress * 100,
+      )}%`;
+      return etaSeconds ? `${line} · ${formatEta(etaSeconds)}` : line;
+    }
+    case 'completed':
+      return 'Completed';
+    case 'failed':
+      return job.error ? `Failed: ${job.error}` : 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
@@ -0,0 +1,178 @@
+import { withDefaults } from './optionDefaults';
+import {
+  normalizeRegionOfInterest,
+  RegionOfInterest,
+} from './regionOfInterest';
+
+/**
+ * Options controlling which frames a capture keeps
+ */
+export interface CaptureOptions {
+  /** Minimum time between saved frames, in milliseconds */
+  intervalMs: number;
+  /** Minimum camera movement since the last saved frame, in metres */
+  minTranslation: number;
+  /** Minimum camera rotation since the last saved frame, in degrees */
+  minRotation: number;
+  /** JPEG quality, 0-1 */
+  jpegQuality: number;
+  /** Stop saving after this many frames; null for no limit */
+  maxImageCount: number | null;
+  /** Save a depth map next to each image where the device provides one */
+  saveDepth: boolean;
+  /** Skip frames exposed for longer than this, in milliseconds; null to keep them */
+  maxExposureMs: number | null;
+  /** Skip frames taken while tracking is limited or lost */
+  rejectLimitedTracking: boolean;
+  /** Skip frames that do not look at this box, and save it with the capture; null to keep every view */
+  regionOfInterest: RegionOfInterest | null;
+}
+
+/**
+ * Same timer as before options existed, but skipping frames where the camera
+ * is standing still, the exposure is long enough to blur, or tracking is poor
+ */
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+  intervalMs: 500,
+  minTranslation: 0.01,
+  minRotation: 2,
+  jpegQuality: 0.95,
+  maxImageCount: null,
+  saveDepth: false,
+  maxExposureMs: 33,
+  rejectLimitedTracking: true,
+  regionOfInterest: null,
+};
+
+export type CapturePresetName = 'smallObject' | 'largeObject' | 'quickTest';
+
+export interface CapturePreset {
+  label: string;
+  description: string;
+  options: Partial<CaptureOptions>;
+}
+
+export const CAPTURE_PRESETS: Record<CapturePresetName, CapturePreset> = {
+  smallObject: {
+    label: 'Small object',
+    description: 'Dense capture for objects that fit on a table',
+    options: {
+      intervalMs: 400,
+      minTranslation: 0.02,
+      minRotation: 4,
+      jpegQuality: 0.95,
+      maxImageCount: 150,
+    },
+  },
+  largeObject: {
+    label: 'Large object',
+    description: 'Sparser capture for furniture-sized objects',
+    options: {
+      intervalMs: 700,
+      minTranslation: 0.1,
+      minRotation: 6,
+      jpegQuality: 0.9,
+      maxImageCount: 300,
+    },
+  },
+  quickTest: {
+    label: 'Quick test',
+    description: 'A handful of frames to check the pipeline end to end',
+    options: {
+      intervalMs: 1000,
+      minTranslation: 0.05,
+      minRotation: 10,
+      jpegQuality: 0.8,
+      maxImageCount: 20,
+    },
+  },
+};
+
+/**
+ * Thrown when a capture option is outside its valid range
+ */
+export class CaptureOptionsError extends Error {
+  constructor(readonly field: keyof CaptureOptions, message: string) {
+    super(`Invalid capture option '${field}': ${message}`);
+    this.name = 'CaptureOptionsError';
+  }
+}
+
+const requireNumber = (
+  field: keyof CaptureOptions,
+  value: unknown,
+  min: number,
+  max = Infinity,
+): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new CaptureOptionsError(field, 'must be a finite number');
+  }
+  if (value < min || value > max) {
+    throw new CaptureOptionsError(
+      field,
+      max === Infinity
+        ? `must be at least ${min}`
+        : `must be between ${min} and ${max}`,
+    );
+  }
+  return value;
+};
+
+const requireRegion = (value: unknown): RegionOfInterest => {
+  try {
+    return normalizeRegionOfInterest(value);
+  } catch (error) {
+    throw new CaptureOptionsError('regionOfInterest', (error as Error).message);
+  }
+};
+
+/**
+ * Fill in defaults and validate
+ * @throws CaptureOptionsError for out-of-range values
+ */
+export const normalizeCaptureOptions = (
+  options: Partial<CaptureOptions> = {},
+): CaptureOptions => {
+  const merged = withDefaults(DEFAULT_CAPTURE_OPTIONS, options);
+
+  return {
+    intervalMs: Math.round(requireNumber('intervalMs', merged.intervalMs, 50)),
+    minTranslation: requireNumber(
+      'minTranslation',
+      merged.minTranslation,
+      0,
+      10,
+    ),
+    minRotation: requireNumber('minRotation', merged.minRotation, 0, 180),
+    jpegQuality: requireNumber('jpegQuality', merged.jpegQuality, 0.1, 1),
+    maxImageCount:
+      merged.maxImageCount === null
+        ? null
+        : Math.floor(requireNumber('maxImageCount', merged.maxImageCount, 1)),
+    saveDepth: Boolean(merged.saveDepth),
+    maxExposureMs:
+      merged.maxExposureMs === null
+        ? null
+        : requireNumber('maxExposureMs', merged.maxExposureMs, 1, 1000),
+    rejectLimitedTracking: Boolean(merged.rejectLimitedTracking),
+    regionOfInterest:
+      merged.regionOfInterest === null
+        ? null
+        : requireRegion(merged.regionOfInterest),
+  };
+};
+
+/**
+ * Shape sent over the bridge; a maxImageCount or maxExposureMs of 0 means no limit
+ */
+export const toNativeCaptureOptions = (options: CaptureOptions) => ({
+  ...options,
+  maxImageCount: options.maxImageCount ?? 0,
+  maxExposureMs: options.maxExposureMs ?? 0,
+});
+
+/**
+ * Options a capture was started with, in the bridge's shape; kept in its
+ * directory so the capture can be resumed
+ */
+export const CAPTURE_SETTINGS_FILE = 'capture_settings.json';
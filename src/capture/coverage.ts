@@ -0,0 +1,396 @@
+import {
+  ARNativeModule,
+  ARNativeModuleType,
+  ObjectScanResult,
+} from '../native/ARNativeModule';
+import { CaptureDataset, loadCaptureDataset } from './CaptureDataset';
+import {
+  add,
+  getForward,
+  getTranslation,
+  Matrix4,
+  normalize,
+  scale,
+  subtract,
+  Vec3,
+} from './matrix';
+import {
+  frustumForPose,
+  RegionOfInterest,
+  regionIntersectsFrustum,
+} from './regionOfInterest';
+
+export interface CoverageOptions {
+  /** Number of azimuth sectors around the object */
+  azimuthBins: number;
+  /** Number of elevation bands between min and max elevation */
+  elevationBins: number;
+  /** Lowest elevation considered reachable, in degrees */
+  minElevation: number;
+  /** Highest elevation, in degrees */
+  maxElevation: number;
+  /** A cell is redundant once it holds this many times the mean covered-cell count */
+  redundancyFactor: number;
+  /**
+   * Box around the object: its centre is the orbit centre, and frames that
+   * do not look at it count for nothing. Null to estimate the centre from
+   * where the cameras look.
+   */
+  region: RegionOfInterest | null;
+}
+
+export const DEFAULT_COVERAGE_OPTIONS: CoverageOptions = {
+  azimuthBins: 12,
+  elevationBins: 4,
+  minElevation: -30,
+  maxElevation: 90,
+  redundancyFactor: 2.5,
+  region: null,
+};
+
+export interface CoverageCell {
+  azimuthIndex: number;
+  elevationIndex: number;
+  /** Degrees, [start, end) */
+  azimuthRange: [number, number];
+  elevationRange: [number, number];
+  /** Indices (into the input pose list) of frames viewing from this cell */
+  frames: number[];
+}
+
+export interface CoverageGap {
+  /** Uncovered cells in one connected region, azimuth wraps around */
+  cells: CoverageCell[];
+  /** Share of all cells, 0-1 */
+  fraction: number;
+}
+
+export interface CoverageReport {
+  center: Vec3;
+  frameCount: number;
+  /** Frames that did not look at the region of interest, if there is one */
+  framesOutsideRegion: number;
+  /** Covered cells / total cells, 0-1 */
+  coverage: number;
+  /** All cells, indexed [elevationIndex][azimuthIndex] */
+  cells: CoverageCell[][];
+  /** Uncovered regions, largest first */
+  gaps: CoverageGap[];
+  /** Cells holding far more frames than the rest, busiest first */
+  redundantCells: CoverageCell[];
+}
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Estimate the point the cameras were looking at
+ *
+ * Least-squares intersection of the camera viewing rays. Falls back to the
+ * camera centroid when the rays are (nearly) parallel.
+ */
+export const estimateObjectCenter = (transforms: Matrix4[]): Vec3 => {
+  // Accumulate sum(I - d*d^T) and sum((I - d*d^T) * c)
+  const a = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const b: Vec3 = [0, 0, 0];
+  let centroid: Vec3 = [0, 0, 0];
+
+  transforms.forEach(transform => {
+    const c = getTranslation(transform);
+    const d = getForward(transform);
+    centroid = add(centroid, c);
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        const m = (i === j ? 1 : 0) - d[i] * d[j];
+        a[i][j] += m;
+        b[i] += m * c[j];
+      }
+    }
+  });
+
+  if (transforms.length === 0) {
+    return [0, 0, 0];
+  }
+  centroid = scale(centroid, 1 / transforms.length);
+
+  const det =
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+
+  if (Math.abs(det) < 1e-6 * transforms.length ** 3) {
+    return centroid;
+  }
+
+  // Cramer's rule
+  const solveFor = (column: number) => {
+    const m = a.map((row, i) =>
+      row.map((value, j) => (j === column ? b[i] : value)),
+    );
+    return (
+      (m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+        m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+        m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])) /
+      det
+    );
+  };
+  return [solveFor(0), solveFor(1), solveFor(2)];
+};
+
+/**
+ * Azimuth and elevation (degrees) of a camera as seen from the object centre
+ * Azimuth is measured in the horizontal plane, elevation from it (Y is up).
+ */
+export const viewingAngles = (
+  transform: Matrix4,
+  center: Vec3,
+): { azimuth: number; elevation: number } => {
+  const [x, y, z] = normalize(subtract(getTranslation(transform), center));
+  const azimuth = (Math.atan2(x, z) * RAD_TO_DEG + 360) % 360;
+  const elevation = Math.asin(Math.max(-1, Math.min(1, y))) * RAD_TO_DEG;
+  return { azimuth, elevation };
+};
+
+/**
+ * Cell a viewing direction falls into, or null when outside the elevation range
+ */
+export const cellIndexFor = (
+  azimuth: number,
+  elevation: number,
+  options: CoverageOptions = DEFAULT_COVERAGE_OPTIONS,
+): { azimuthIndex: number; elevationIndex: number } | null => {
+  const { azimuthBins, elevationBins, minElevation, maxElevation } = options;
+  if (elevation < minElevation || elevation > maxElevation) {
+    return null;
+  }
+  const bandHeight = (maxElevation - minElevation) / elevationBins;
+  return {
+    azimuthIndex: Math.floor(azimuth / (360 / azimuthBins)) % azimuthBins,
+    elevationIndex: Math.min(
+      elevationBins - 1,
+      Math.floor((elevation - minElevation) / bandHeight),
+    ),
+  };
+};
+
+const createCells = (options: CoverageOptions): CoverageCell[][] => {
+  const sector = 360 / options.azimuthBins;
+  const band =
+    (options.maxElevation - options.minElevation) / options.elevationBins;
+  return Array.from({ length: options.elevationBins }, (_, e) =>
+    Array.from({ length: options.azimuthBins }, (__, a) => ({
+      azimuthIndex: a,
+      elevationIndex: e,
+      azimuthRange: [a * sector, (a + 1) * sector] as [number, number],
+      elevationRange: [
+        options.minElevation + e * band,
+        options.minElevation + (e + 1) * band,
+      ] as [number, number],
+      frames: [],
+    })),
+  );
+};
+
+const findGaps = (cells: CoverageCell[][], totalCells: number) => {
+  const visited = new Set<CoverageCell>();
+  const gaps: CoverageGap[] = [];
+  const rows = cells.length;
+  const columns = cells[0]?.length ?? 0;
+
+  cells.flat().forEach(start => {
+    if (start.frames.length > 0 || visited.has(start)) {
+      return;
+    }
+    const region: CoverageCell[] = [];
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const cell = queue.shift()!;
+      region.push(cell);
+      const { elevationIndex: e, azimuthIndex: a } = cell;
+      const neighbours = [
+        cells[e][(a + 1) % columns],
+        cells[e][(a - 1 + columns) % columns],
+        e + 1 < rows ? cells[e + 1][a] : undefined,
+        e > 0 ? cells[e - 1][a] : undefined,
+      ];
+      neighbours.forEach(next => {
+        if (next && next.frames.length === 0 && !visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    gaps.push({ cells: region, fraction: region.length / totalCells });
+  });
+
+  return gaps.sort((x, y) => y.cells.length - x.cells.length);
+};
+
+/**
+ * Analyse how well a set of camera poses orbits the object
+ * @param transforms Camera-to-world transforms, one per frame
+ */
+export const analyzeCoverage = (
+  transforms: Matrix4[],
+  options: Partial<CoverageOptions> = {},
+): CoverageReport => {
+  const resolved = { ...DEFAULT_COVERAGE_OPTIONS, ...options };
+  const { region } = resolved;
+  const center = region ? region.center : estimateObjectCenter(transforms);
+  const cells = createCells(resolved);
+  let framesOutsideRegion = 0;
+
+  transforms.forEach((transform, frameIndex) => {
+    if (region && !regionIntersectsFrustum(region, frustumForPose(transform))) {
+      framesOutsideRegion += 1;
+      return;
+    }
+    const { azimuth, elevation } = viewingAngles(transform, center);
+    const index = cellIndexFor(azimuth, elevation, resolved);
+    if (index) {
+      cells[index.elevationIndex][index.azimuthIndex].frames.push(frameIndex);
+    }
+  });
+
+  const allCells = cells.flat();
+  const covered = allCells.filter(cell => cell.frames.length > 0);
+  const meanCount =
+    covered.reduce((sum, cell) => sum + cell.frames.length, 0) /
+    Math.max(1, covered.length);
+
+  return {
+    center,
+    frameCount: transforms.length,
+    framesOutsideRegion,
+    coverage: covered.length / allCells.length,
+    cells,
+    gaps: findGaps(cells, allCells.length),
+    redundantCells: covered
+      .filter(
+        cell =>
+          covered.length > 1 &&
+          cell.frames.length > 1 &&
+          cell.frames.length >= meanCount * resolved.redundancyFactor,
+      )
+      .sort((x, y) => y.frames.length - x.frames.length),
+  };
+};
+
+/**
+ * Coverage of a loaded capture dataset, around its region of interest if it
+ * has one
+ */
+export const analyzeDatasetCoverage = (
+  dataset: CaptureDataset,
+  options?: Partial<CoverageOptions>,
+) =>
+  analyzeCoverage(
+    dataset.frames.map(frame => frame.metadata.transform),
+    { region: dataset.region, ...options },
+  );
+
+/**
+ * Coverage of a finished capture, read back from its directory
+ * @param source stopObjectScan result or capture directory path
+ */
+export const analyzeCaptureCoverage = async (
+  source: ObjectScanResult | string,
+  options?: Partial<CoverageOptions>,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<CoverageReport> => {
+  const directory = typeof source === 'string' ? source : source.directory;
+  if (!directory) {
+    throw new Error('Scan result has no capture directory');
+  }
+  const { dataset } = await loadCaptureDataset(directory, module);
+  return analyzeDatasetCoverage(dataset, options);
+};
+
+const formatRange = ([start, end]: [number, number]) =>
+  `${Math.round(start)}°–${Math.round(end)}°`;
+
+/**
+ * Short human-readable summary for dialogs
+ */
+export const formatCoverageSummary = (report: CoverageReport): string => {
+  const lines = [`Viewpoint coverage: ${Math.round(report.coverage * 100)}%`];
+
+  const largestGap = report.gaps[0];
+  if (largestGap) {
+    const azimuths = largestGap.cells.map(cell => cell.azimuthIndex);
+    const elevations = largestGap.cells.map(cell => cell.elevationRange);
+    const sectors = new Set(azimuths).size;
+    const sectorWidth =
+      largestGap.cells[0].azimuthRange[1] - largestGap.cells[0].azimuthRange[0];
+    lines.push(
+      `Largest gap: ${Math.round(sectors * sectorWidth)}° around, ` +
+        `elevation ${formatRange([
+          Math.min(...elevations.map(range => range[0])),
+          Math.max(...elevations.map(range => range[1])),
+        ])}`,
+    );
+  }
+
+  if (report.redundantCells.length > 0) {
+    const frames = report.redundantCells.reduce(
+      (sum, cell) => sum + cell.frames.length,
+      0,
+    );
+    lines.push(
+      `${report.redundantCells.length} over-captured viewpoint(s) holding ${frames} frames`,
+    );
+  }
+
+  if (report.framesOutsideRegion > 0) {
+    lines.push(
+      `${report.framesOutsideRegion} frame(s) did not look at the object`,
+    );
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Uncovered cell closest to where the camera currently is
+ *
+ * Staying in the current elevation band is preferred over changing height,
+ * so the user is led around the object before being asked to go up or down.
+ * @returns null once every cell is covered
+ */
+export const nextCellToCapture = (
+  report: CoverageReport,
+  currentTransform: Matrix4,
+  options: Partial<CoverageOptions> = {},
+): CoverageCell | null => {
+  const resolved = { ...DEFAULT_COVERAGE_OPTIONS, ...options };
+  const { azimuth, elevation } = viewingAngles(currentTransform, report.center);
+  const current = cellIndexFor(
+    azimuth,
+    Math.max(resolved.minElevation, Math.min(resolved.maxElevation, elevation)),
+    resolved,
+  );
+  if (!current) {
+    return null;
+  }
+
+  let best: CoverageCell | null = null;
+  let bestScore = Infinity;
+  report.cells.flat().forEach(cell => {
+    if (cell.frames.length > 0) {
+      return;
+    }
+    const sectorDistance = Math.abs(cell.azimuthIndex - current.azimuthIndex);
+    const score =
+      Math.min(sectorDistance, resolved.azimuthBins - sectorDistance) +
+      2 * Math.abs(cell.elevationIndex - current.elevationIndex);
+    if (score < bestScore) {
+      best = cell;
+      bestScore = score;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,317 @@
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import {
+  CaptureDataset,
+  CaptureFrame,
+  loadCaptureDataset,
+} from './CaptureDataset';
+import { getTranslation, Matrix3, Matrix4 } from './matrix';
+
+/**
+ * Conversions from a capture dataset to the layouts external reconstruction
+ * tools read.
+ *
+ * ARKit and ARCore both report camera-to-world poses with the camera looking
+ * down -Z, +Y up and +X right (the OpenGL convention), in a gravity-aligned
+ * world with +Y up, relative to the sensor's native image orientation, which
+ * is how the images and intrinsics are saved.
+ *
+ * - COLMAP wants world-to-camera poses with the camera looking down +Z and +Y
+ *   pointing down the image (the OpenCV convention). The world is kept as is.
+ * - NeRF transforms.json (instant-ngp, nerfstudio) wants camera-to-world
+ *   matrices, row-major, with OpenGL camera axes in a Z-up world, the layout
+ *   of the Blender synthetic scenes. The world is turned +90° about X.
+ */
+
+export type DatasetExportFormat = 'colmap' | 'nerf';
+
+export const DATASET_EXPORT_FORMATS: DatasetExportFormat[] = ['colmap', 'nerf'];
+
+export interface ColmapModel {
+  cameras: string;
+  images: string;
+  points3D: string;
+}
+
+export interface NerfIntrinsics {
+  fl_x: number;
+  fl_y: number;
+  cx: number;
+  cy: number;
+  w: number;
+  h: number;
+}
+
+export interface NerfFrame extends Partial<NerfIntrinsics> {
+  /** Image path relative to transforms.json */
+  file_path: string;
+  /** Camera-to-world, row-major, OpenGL camera axes, Z-up world */
+  transform_matrix: number[][];
+}
+
+export type NerfTransforms = Partial<NerfIntrinsics> & {
+  camera_model: 'PINHOLE';
+  frames: NerfFrame[];
+};
+
+/**
+ * Where exported files go, relative to the capture directory
+ */
+export const COLMAP_EXPORT_DIRECTORY = 'colmap';
+export const NERF_TRANSFORMS_FILE = 'transforms.json';
+
+/**
+ * Thrown when a capture has nothing to export
+ */
+export class DatasetExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetExportError';
+  }
+}
+
+// Digits kept in text output; well below ARKit's float precision
+const PRECISION = 9;
+
+const formatNumber = (value: number) => {
+  const rounded = Number(value.toFixed(PRECISION));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+
+const roundNumber = (value: number) => Number(formatNumber(value));
+
+const fileName = (path: string) => path.split('/').pop() ?? path;
+
+/**
+ * Camera-to-world rotation columns and camera position of an ARKit pose,
+ * re-expressed with OpenCV camera axes (Y and Z flipped)
+ */
+const toOpenCvCameraToWorld = (transform: Matrix4) => {
+  const [x, y, z] = transform;
+  return {
+    axes: [
+      [x[0], x[1], x[2]],
+      [-y[0], -y[1], -y[2]],
+      [-z[0], -z[1], -z[2]],
+    ],
+    position: getTranslation(transform),
+  };
+};
+
+/**
+ * World-to-camera rotation (row-major) and translation in COLMAP's convention
+ */
+export const toColmapPose = (
+  transform: Matrix4,
+): { rotation: number[][]; translation: number[] } => {
+  const { axes, position } = toOpenCvCameraToWorld(transform);
+  // The inverse of a rotation is its transpose: the camera axes become rows
+  const rotation = axes;
+  const translation = rotation.map(
+    row =>
+      -(row[0] * position[0] + row[1] * position[1] + row[2] * position[2]),
+  );
+  return { rotation, translation };
+};
+
+/**
+ * Unit quaternion (w, x, y, z) of a row-major rotation matrix, with w >= 0
+ */
+export const rotationToQuaternion = (r: number[][]): number[] => {
+  const trace = r[0][0] + r[1][1] + r[2][2];
+  let q: number[];
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1) * 2;
+    q = [
+      s / 4,
+      (r[2][1] - r[1][2]) / s,
+      (r[0][2] - r[2][0]) / s,
+      (r[1][0] - r[0][1]) / s,
+    ];
+  } else if (r[0][0] > r[1][1] && r[0][0] > r[2][2]) {
+    const s = Math.sqrt(1 + r[0][0] - r[1][1] - r[2][2]) * 2;
+    q = [
+      (r[2][1] - r[1][2]) / s,
+      s / 4,
+      (r[0][1] + r[1][0]) / s,
+      (r[0][2] + r[2][0]) / s,
+    ];
+  } else if (r[1][1] > r[2][2]) {
+    const s = Math.sqrt(1 + r[1][1] - r[0][0] - r[2][2]) * 2;
+    q = [
+      (r[0][2] - r[2][0]) / s,
+      (r[0][1] + r[1][0]) / s,
+      s / 4,
+      (r[1][2] + r[2][1]) / s,
+    ];
+  } else {
+    const s = Math.sqrt(1 + r[2][2] - r[0][0] - r[1][1]) * 2;
+    q = [
+      (r[1][0] - r[0][1]) / s,
+      (r[0][2] + r[2][0]) / s,
+      (r[1][2] + r[2][1]) / s,
+      s / 4,
+    ];
+  }
+  const norm = Math.hypot(...q);
+  return q.map(value => (q[0] < 0 ? -value : value) / norm);
+};
+
+const pinhole = (intrinsics: Matrix3) => ({
+  fx: intrinsics[0][0],
+  fy: intrinsics[1][1],
+  cx: intrinsics[2][0],
+  cy: intrinsics[2][1],
+});
+
+const nerfIntrinsics = (frame: CaptureFrame): NerfIntrinsics => {
+  const { fx, fy, cx, cy } = pinhole(frame.metadata.intrinsics);
+  const { width, height } = frame.metadata.imageResolution;
+  return {
+    fl_x: roundNumber(fx),
+    fl_y: roundNumber(fy),
+    cx: roundNumber(cx),
+    cy: roundNumber(cy),
+    w: width,
+    h: height,
+  };
+};
+
+/**
+ * COLMAP text model with known poses and no points, ready for
+ * `colmap point_triangulator` with the capture directory as image path
+ */
+export const toColmapModel = (dataset: CaptureDataset): ColmapModel => {
+  // Frames with identical intrinsics and resolution share a camera
+  const cameraIds = new Map<string, number>();
+  const cameraLines: string[] = [];
+  const imageLines: string[] = [];
+
+  dataset.frames.forEach((frame, i) => {
+    const { fx, fy, cx, cy } = pinhole(frame.metadata.intrinsics);
+    const { width, height } = frame.metadata.imageResolution;
+    const params = [width, height, fx, fy, cx, cy].map(formatNumber).join(' ');
+    let cameraId = cameraIds.get(params);
+    if (cameraId === undefined) {
+      cameraId = cameraIds.size + 1;
+      cameraIds.set(params, cameraId);
+      cameraLines.push(`${cameraId} PINHOLE ${params}`);
+    }
+
+    const { rotation, translation } = toColmapPose(frame.metadata.transform);
+    const pose = [...rotationToQuaternion(rotation), ...translation]
+      .map(formatNumber)
+      .join(' ');
+    // Second line holds 2D observations; there are none
+    imageLines.push(
+      `${i + 1} ${pose} ${cameraId} ${fileName(frame.imagePath)}`,
+      '',
+    );
+  });
+
+  return {
+    cameras: [
+      '# Camera list with one line of data per camera:',
+      '#   CAMERA_ID, MODEL, WIDTH, HEIGHT, PARAMS[]',
+      `# Number of cameras: ${cameraLines.length}`,
+      ...cameraLines,
+      '',
+    ].join('\n'),
+    images: [
+      '# Image list with two lines of data per image:',
+      '#   IMAGE_ID, QW, QX, QY, QZ, TX, TY, TZ, CAMERA_ID, NAME',
+      '#   POINTS2D[] as (X, Y, POINT3D_ID)',
+      `# Number of images: ${dataset.frames.length}, mean observations per image: 0`,
+      ...imageLines,
+    ].join('\n'),
+    points3D: [
+      '# 3D point list with one line of data per point:',
+      '#   POINT3D_ID, X, Y, Z, R, G, B, ERROR, TRACK[] as (IMAGE_ID, POINT2D_IDX)',
+      '# Number of points: 0, mean track length: 0',
+      '',
+    ].join('\n'),
+  };
+};
+
+/**
+ * Camera-to-world matrix for transforms.json: the ARKit pose with the world
+ * turned from Y-up to Z-up, written row by row
+ */
+export const toNerfTransformMatrix = (transform: Matrix4): number[][] => {
+  // (x, y, z) -> (x, -z, y) maps ARKit's +Y up onto +Z
+  const rows = [0, 1, 2, 3].map(row => transform.map(column => column[row]));
+  return [rows[0], rows[2].map(value => -value), rows[1], rows[3]].map(row =>
+    row.map(roundNumber),
+  );
+};
+
+/**
+ * NeRF-style transforms.json; intrinsics sit at the top level when every
+ * frame shares them and on each frame otherwise
+ */
+export const toNerfTransforms = (dataset: CaptureDataset): NerfTransforms => {
+  const intrinsics = dataset.frames.map(nerfIntrinsics);
+  const shared = intrinsics.every(
+    value => JSON.stringify(value) === JSON.stringify(intrinsics[0]),
+  );
+
+  return {
+    camera_model: 'PINHOLE',
+    ...(shared ? intrinsics[0] : {}),
+    frames: dataset.frames.map((frame, i) => ({
+      file_path: fileName(frame.imagePath),
+      ...(shared ? {} : intrinsics[i]),
+      transform_matrix: toNerfTransformMatrix(frame.metadata.transform),
+    })),
+  };
+};
+
+const joinPath = (...parts: string[]) =>
+  parts.map((part, i) => (i === 0 ? part.replace(/\/+$/, '') : part)).join('/');
+
+/**
+ * Write COLMAP and/or NeRF files into a capture directory
+ * @returns Paths of the files written
+ * @throws DatasetExportError if the capture has no usable frames
+ */
+export const exportCaptureDataset = async (
+  directory: string,
+  formats: DatasetExportFormat[] = DATASET_EXPORT_FORMATS,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<string[]> => {
+  const { dataset } = await loadCaptureDataset(directory, module);
+  if (dataset.frames.length === 0) {
+    throw new DatasetExportError(
+      'This capture has no frames with camera poses',
+    );
+  }
+
+  const files: [string, string][] = [];
+  if (formats.includes('colmap')) {
+    const model = toColmapModel(dataset);
+    files.push(
+      [
+        joinPath(directory, COLMAP_EXPORT_DIRECTORY, 'cameras.txt'),
+        model.cameras,
+      ],
+      [
+        joinPath(directory, COLMAP_EXPORT_DIRECTORY, 'images.txt'),
+        model.images,
+      ],
+      [
+        joinPath(directory, COLMAP_EXPORT_DIRECTORY, 'points3D.txt'),
+        model.points3D,
+      ],
+    );
+  }
+  if (formats.includes('nerf')) {
+    files.push([
+      joinPath(directory, NERF_TRANSFORMS_FILE),
+      `${JSON.stringify(toNerfTransforms(dataset), null, 2)}\n`,
+    ]);
+  }
+
+  for (const [path, contents] of files) {
+    await module.writeTextFile(path, contents);
+  }
+  return files.map(([path]) => path);
+};
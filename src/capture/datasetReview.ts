@@ -0,0 +1,156 @@
+import { CaptureDatasetReadResult, CaptureFrame } from './CaptureDataset';
+import { isTrackingNormal } from './frameQuality';
+import {
+  getTranslation,
+  length,
+  Matrix4,
+  rotationAngleBetween,
+  subtract,
+} from './matrix';
+
+/**
+ * Dataset review: a look over a finished capture for frames to delete
+ * before processing. One bad burst, e.g. a blurred sweep or a few seconds
+ * of standing still, can ruin a whole reconstruction.
+ */
+
+/**
+ * Why a saved frame looks suspicious
+ * - longExposure: the exposure was long enough that the image may be blurred
+ * - nearDuplicate: the camera had barely moved since the previous frame
+ * - limitedTracking: the pose may be wrong
+ */
+export type FrameFlag = 'longExposure' | 'nearDuplicate' | 'limitedTracking';
+
+export const FRAME_FLAG_LABELS: Record<FrameFlag, string> = {
+  longExposure: 'Long exposure',
+  nearDuplicate: 'Near duplicate',
+  limitedTracking: 'Limited tracking',
+};
+
+export interface FrameReviewThresholds {
+  /** Exposures longer than this, in milliseconds, are flagged */
+  maxExposureMs: number;
+  /** Frames closer than both of these to the previous one are near duplicates, in metres and degrees */
+  duplicateTranslation: number;
+  duplicateRotation: number;
+}
+
+// Stricter than the capture filter's defaults, which every saved frame passed
+export const DEFAULT_FRAME_REVIEW_THRESHOLDS: FrameReviewThresholds = {
+  maxExposureMs: 20,
+  duplicateTranslation: 0.005,
+  duplicateRotation: 1,
+};
+
+export interface FrameReview {
+  frame: CaptureFrame;
+  /** Empty for a frame that looks fine */
+  flags: FrameFlag[];
+}
+
+/**
+ * Flag suspicious frames
+ *
+ * Each frame is compared with the last frame that was not itself a near
+ * duplicate, so a run of still frames is flagged after its first frame
+ * rather than alternately.
+ * @param frames Frames in capture order
+ */
+export const reviewCaptureFrames = (
+  frames: CaptureFrame[],
+  thresholds: FrameReviewThresholds = DEFAULT_FRAME_REVIEW_THRESHOLDS,
+): FrameReview[] => {
+  let reference: Matrix4 | null = null;
+
+  return frames.map(frame => {
+    const { transform, exposureDuration, trackingState } = frame.metadata;
+    const flags: FrameFlag[] = [];
+
+    if (
+      exposureDuration !== undefined &&
+      exposureDuration * 1000 > thresholds.maxExposureMs
+    ) {
+      flags.push('longExposure');
+    }
+
+    const duplicate =
+      reference !== null &&
+      length(subtract(getTranslation(transform), getTranslation(reference))) <
+        thresholds.duplicateTranslation &&
+      (rotationAngleBetween(reference, transform) * 180) / Math.PI <
+        thresholds.duplicateRotation;
+    if (duplicate) {
+      flags.push('nearDuplicate');
+    } else {
+      reference = transform;
+    }
+
+    if (!isTrackingNormal(trackingState)) {
+      flags.push('limitedTracking');
+    }
+
+    return { frame, flags };
+  });
+};
+
+/**
+ * Image indices of the flagged frames
+ */
+export const flaggedFrameIndices = (reviews: FrameReview[]) =>
+  reviews
+    .filter(review => review.flags.length > 0)
+    .map(review => review.frame.index);
+
+/**
+ * Indices of image_NNNN files that do not make a usable frame, e.g. an image
+ * without its metadata; reconstruction tools would otherwise still pick up
+ * the image
+ */
+export const unpairedFrameIndices = ({
+  dataset,
+  report,
+}: CaptureDatasetReadResult) => {
+  const paired = new Set(dataset.frames.map(frame => frame.index));
+  const indices = report.issues
+    .map(issue => issue.frameIndex)
+    .filter(
+      (index): index is number => index !== undefined && !paired.has(index),
+    );
+  return [...new Set(indices)];
+};
+
+/**
+ * e.g. "+12.4 s · 18 ms · TRACKING"; exposure and tracking state are left
+ * out where the platform does not record them
+ * @param startTimestamp Timestamp of the first frame, in seconds
+ */
+export const formatFrameDetails = (
+  frame: CaptureFrame,
+  startTimestamp: number,
+) => {
+  const { timestamp, exposureDuration, trackingState } = frame.metadata;
+  return [
+    `+${(timestamp - startTimestamp).toFixed(1)} s`,
+    exposureDuration !== undefined &&
+      `${Math.round(exposureDuration * 1000)} ms`,
+    trackingState,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+/**
+ * e.g. "48 frames · 5 flagged · 3 selected"
+ */
+export const formatReviewSummary = (
+  reviews: FrameReview[],
+  selectedCount: number,
+) =>
+  [
+    `${reviews.length} frames`,
+    `${flaggedFrameIndices(reviews).length} flagged`,
+    selectedCount > 0 && `${selectedCount} selected`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,198 @@
+import {
+  CameraVideoFormat,
+  DeviceCapabilities,
+  ThermalState,
+} from '../native/ARNativeModule';
+import { formatByteSize } from './captureLibrary';
+import { CaptureOptions } from './captureOptions';
+
+/**
+ * Device capabilities: turning the native capability report into capture
+ * defaults, warnings and the diagnostics text attached to bug reports.
+ */
+
+/**
+ * Rough size of one saved frame, in bytes: a high-quality JPEG at 1920x1440
+ * and its metadata, plus a 256x192 float depth map and confidence map
+ */
+export const estimateFrameBytes = (saveDepth: boolean) =>
+  1.2e6 + (saveDepth ? 0.25e6 : 0);
+
+/**
+ * Space kept free for the models built from a capture and for the OS
+ */
+export const STORAGE_RESERVE_BYTES = 500e6;
+
+/**
+ * Captures with no frame limit are warned about when there is not room for
+ * this many frames
+ */
+export const LOW_STORAGE_FRAME_COUNT = 100;
+
+/**
+ * How many frames fit in the free space, leaving the reserve
+ */
+export const storageRoomForFrames = (
+  capabilities: DeviceCapabilities,
+  saveDepth: boolean,
+) =>
+  Math.max(
+    0,
+    Math.floor(
+      (capabilities.freeStorageBytes - STORAGE_RESERVE_BYTES) /
+        estimateFrameBytes(saveDepth),
+    ),
+  );
+
+/**
+ * Depth is saved by default only with a LiDAR scanner; depth estimated from
+ * camera motion is too coarse to be worth the space
+ */
+export const defaultSaveDepth = (capabilities: DeviceCapabilities) =>
+  capabilities.lidar;
+
+/**
+ * Options as they can run on this device: depth is dropped where the device
+ * has none, and the frame limit is lowered to what fits in the free space.
+ * A capture with no limit is only given one once space is low.
+ * @param capabilities null while the report is loading; options are unchanged
+ */
+export const adaptCaptureOptions = (
+  options: CaptureOptions,
+  capabilities: DeviceCapabilities | null,
+): CaptureOptions => {
+  if (!capabilities) {
+    return options;
+  }
+  const saveDepth = options.saveDepth && capabilities.depth;
+  const room = Math.max(1, storageRoomForFrames(capabilities, saveDepth));
+  return {
+    ...options,
+    saveDepth,
+    maxImageCount:
+      options.maxImageCount !== null
+        ? Math.min(options.maxImageCount, room)
+        : room < LOW_STORAGE_FRAME_COUNT
+        ? room
+        : null,
+  };
+};
+
+/**
+ * @param options As chosen, before adaptCaptureOptions
+ * @returns null when the capture fits comfortably
+ */
+export const storageWarning = (
+  capabilities: DeviceCapabilities,
+  options: Pick<CaptureOptions, 'saveDepth' | 'maxImageCount'>,
+): string | null => {
+  const room = storageRoomForFrames(
+    capabilities,
+    options.saveDepth && capabilities.depth,
+  );
+  const free = formatByteSize(capabilities.freeStorageBytes);
+  if (room === 0) {
+    return `Storage is almost full (${free} free). Delete old captures before starting a new one.`;
+  }
+  const wanted = options.maxImageCount ?? LOW_STORAGE_FRAME_COUNT;
+  if (room < wanted) {
+    return `Only ${free} free, room for about ${room} images. The capture will stop there.`;
+  }
+  return null;
+};
+
+/**
+ * @returns null below the levels where the OS starts throttling the camera
+ */
+export const thermalWarning = (state: ThermalState | null): string | null => {
+  switch (state) {
+    case 'serious':
+      return 'The device is hot. Tracking and frame rate may suffer; let it cool down if you can.';
+    case 'critical':
+      return 'The device is overheating and may stop the camera. Let it cool down before capturing.';
+    default:
+      return null;
+  }
+};
+
+/**
+ * What the capture will make use of, for the home screen
+ */
+export const capabilityHighlights = (
+  capabilities: DeviceCapabilities,
+): string[] =>
+  [
+    capabilities.lidar
+      ? 'LiDAR depth is saved with each image'
+      : capabilities.depth
+      ? 'Estimated depth can be saved with each image'
+      : 'Images are captured without depth',
+    capabilities.sceneReconstruction &&
+      'Export LiDAR meshes as OBJ, PLY or GLB',
+    capabilities.photogrammetry
+      ? 'Build 3D models on this device'
+      : 'Build 3D models with a remote service',
+  ].filter((line): line is string => Boolean(line));
+
+/**
+ * e.g. "1920×1440 @ 60 fps"
+ */
+export const formatVideoFormat = ({ width, height, fps }: CameraVideoFormat) =>
+  `${width}×${height} @ ${fps} fps`;
+
+const THERMAL_STATE_LABELS: Record<ThermalState, string> = {
+  nominal: 'Normal',
+  fair: 'Warm',
+  serious: 'Hot',
+  critical: 'Overheating',
+};
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+/**
+ * Label and value pairs for the diagnostics screen
+ */
+export const capabilityRows = (
+  capabilities: DeviceCapabilities,
+): [string, string][] => [
+  [
+    'Device',
+    `${capabilities.model} (${
+      capabilities.platform === 'ios' ? 'iOS' : 'Android'
+    } ${capabilities.osVersion})`,
+  ],
+  ['AR supported', yesNo(capabilities.arSupported)],
+  ['LiDAR', yesNo(capabilities.lidar)],
+  ['Depth', yesNo(capabilities.depth)],
+  ['Scene reconstruction', yesNo(capabilities.sceneReconstruction)],
+  ['On-device photogrammetry', yesNo(capabilities.photogrammetry)],
+  [
+    'Storage',
+    `${formatByteSize(capabilities.freeStorageBytes)} free of ${formatByteSize(
+      capabilities.totalStorageBytes,
+    )}`,
+  ],
+  [
+    'Thermal state',
+    capabilities.thermalState
+      ? THERMAL_STATE_LABELS[capabilities.thermalState]
+      : 'Unknown',
+  ],
+];
+
+/**
+ * Plain-text report to paste into a bug report
+ */
+export const formatCapabilityReport = (capabilities: DeviceCapabilities) =>
+  [
+    'Device capabilities',
+    ...capabilityRows(capabilities).map(
+      ([label, value]) => `${label}: ${value}`,
+    ),
+    'Video formats:',
+    ...(capabilities.videoFormats.length > 0
+      ? capabilities.videoFormats.map(
+          format => `  ${formatVideoFormat(format)}`,
+        )
+      : ['  None reported']),
+  ].join('\n');
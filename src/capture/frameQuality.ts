@@ -0,0 +1,229 @@
+import { CaptureFrame } from './CaptureDataset';
+import { CaptureOptions } from './captureOptions';
+import {
+  getTranslation,
+  length,
+  Matrix3,
+  Matrix4,
+  rotationAngleBetween,
+  subtract,
+} from './matrix';
+import {
+  frustumForFrame,
+  frustumForPose,
+  regionIntersectsFrustum,
+} from './regionOfInterest';
+
+/**
+ * Why a candidate frame was not saved
+ * - limitedTracking: the pose was not reliable when the frame was taken
+ * - motionBlur: the exposure was long enough to smear the image
+ * - outsideRegion: the region of interest was not in view
+ * - redundantPose: the camera had not moved or turned enough since the last kept frame
+ */
+export type FrameRejectionReason =
+  | 'limitedTracking'
+  | 'motionBlur'
+  | 'outsideRegion'
+  | 'redundantPose';
+
+export const FRAME_REJECTION_REASONS: FrameRejectionReason[] = [
+  'limitedTracking',
+  'motionBlur',
+  'outsideRegion',
+  'redundantPose',
+];
+
+export type FrameDecision =
+  | { accepted: true }
+  | { accepted: false; reason: FrameRejectionReason };
+
+/**
+ * What the filter needs to know about a candidate frame
+ */
+export interface FrameCandidate {
+  transform: Matrix4;
+  /** Exposure time in seconds, where the platform reports it */
+  exposureDuration?: number;
+  /** Platform tracking state string, e.g. 'normal' (ARKit) or 'TRACKING' (ARCore) */
+  trackingState?: string;
+  /** Camera intrinsics and image size; a typical phone camera is assumed without them */
+  intrinsics?: Matrix3;
+  imageResolution?: { width: number; height: number };
+}
+
+export type FrameQualityThresholds = Pick<
+  CaptureOptions,
+  | 'minTranslation'
+  | 'minRotation'
+  | 'maxExposureMs'
+  | 'rejectLimitedTracking'
+  | 'regionOfInterest'
+>;
+
+/**
+ * Per-session counts of frame decisions
+ */
+export interface FrameQualityStats {
+  /** Candidate frames considered, one per capture interval */
+  evaluated: number;
+  accepted: number;
+  rejected: Record<FrameRejectionReason, number>;
+}
+
+export const EMPTY_FRAME_QUALITY_STATS: FrameQualityStats = {
+  evaluated: 0,
+  accepted: 0,
+  rejected: {
+    limitedTracking: 0,
+    motionBlur: 0,
+    outsideRegion: 0,
+    redundantPose: 0,
+  },
+};
+
+const REJECTION_LABELS: Record<FrameRejectionReason, string> = {
+  limitedTracking: 'limited tracking',
+  motionBlur: 'motion blur',
+  outsideRegion: 'not facing the object',
+  redundantPose: 'too similar',
+};
+
+const NORMAL_TRACKING_STATES = ['normal', 'TRACKING'];
+
+/**
+ * Whether a tracking state string means the pose can be trusted
+ * Frames without a recorded state (older captures) are treated as tracked.
+ */
+export const isTrackingNormal = (trackingState?: string) =>
+  trackingState === undefined || NORMAL_TRACKING_STATES.includes(trackingState);
+
+/**
+ * Decide whether to keep a frame
+ *
+ * This is the reference for the filters in the native capture loops, which
+ * apply the same checks in the same order: tracking, exposure, region of
+ * interest, then pose delta against the last kept frame.
+ * @param lastKept Transform of the last accepted frame, or null for the first
+ */
+export const evaluateFrame = (
+  frame: FrameCandidate,
+  lastKept: Matrix4 | null,
+  thresholds: FrameQualityThresholds,
+): FrameDecision => {
+  if (
+    thresholds.rejectLimitedTracking &&
+    !isTrackingNormal(frame.trackingState)
+  ) {
+    return { accepted: false, reason: 'limitedTracking' };
+  }
+
+  if (
+    thresholds.maxExposureMs !== null &&
+    frame.exposureDuration !== undefined &&
+    frame.exposureDuration * 1000 > thresholds.maxExposureMs
+  ) {
+    return { accepted: false, reason: 'motionBlur' };
+  }
+
+  if (
+    thresholds.regionOfInterest &&
+    !regionIntersectsFrustum(
+      thresholds.regionOfInterest,
+      frame.intrinsics && frame.imageResolution
+        ? frustumForFrame({
+            transform: frame.transform,
+            intrinsics: frame.intrinsics,
+            imageResolution: frame.imageResolution,
+          })
+        : frustumForPose(frame.transform),
+    )
+  ) {
+    return { accepted: false, reason: 'outsideRegion' };
+  }
+
+  if (
+    lastKept &&
+    (thresholds.minTranslation > 0 || thresholds.minRotation > 0)
+  ) {
+    const translation = length(
+      subtract(getTranslation(frame.transform), getTranslation(lastKept)),
+    );
+    const rotation =
+      (rotationAngleBetween(lastKept, frame.transform) * 180) / Math.PI;
+    if (
+      translation < thresholds.minTranslation &&
+      rotation < thresholds.minRotation
+    ) {
+      return { accepted: false, reason: 'redundantPose' };
+    }
+  }
+
+  return { accepted: true };
+};
+
+/**
+ * Add one decision to the running stats
+ */
+export const recordFrameDecision = (
+  stats: FrameQualityStats,
+  decision: FrameDecision,
+): FrameQualityStats => ({
+  evaluated: stats.evaluated + 1,
+  accepted: stats.accepted + (decision.accepted ? 1 : 0),
+  rejected: decision.accepted
+    ? stats.rejected
+    : {
+        ...stats.rejected,
+        [decision.reason]: (stats.rejected[decision.reason] ?? 0) + 1,
+      },
+});
+
+// Stats recorded before a reason existed have no count for it
+export const rejectedFrameCount = (stats: FrameQualityStats) =>
+  FRAME_REJECTION_REASONS.reduce(
+    (total, reason) => total + (stats.rejected[reason] ?? 0),
+    0,
+  );
+
+/**
+ * Run the filter over frames that were saved without it, e.g. older captures
+ * @returns The frames to keep and the decision for every frame, in order
+ */
+export const filterCaptureFrames = (
+  frames: CaptureFrame[],
+  thresholds: FrameQualityThresholds,
+) => {
+  let lastKept: Matrix4 | null = null;
+  let stats = EMPTY_FRAME_QUALITY_STATS;
+  const kept: CaptureFrame[] = [];
+
+  const decisions = frames.map(frame => {
+    const decision = evaluateFrame(frame.metadata, lastKept, thresholds);
+    stats = recordFrameDecision(stats, decision);
+    if (decision.accepted) {
+      kept.push(frame);
+      lastKept = frame.metadata.transform;
+    }
+    return decision;
+  });
+
+  return { kept, decisions, stats };
+};
+
+/**
+ * Short human-readable description of the stats
+ */
+export const formatFrameQualitySummary = (stats: FrameQualityStats): string => {
+  const rejected = rejectedFrameCount(stats);
+  if (rejected === 0) {
+    return `Kept all ${stats.accepted} candidate frames`;
+  }
+
+  const reasons = FRAME_REJECTION_REASONS.filter(
+    reason => stats.rejected[reason] > 0,
+  )
+    .map(reason => `${stats.rejected[reason]} ${REJECTION_LABELS[reason]}`)
+    .join(', ');
+  return `Kept ${stats.accepted} of ${stats.evaluated} frames (skipped ${reasons})`;
+};
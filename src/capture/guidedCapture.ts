@@ -0,0 +1,385 @@
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import { viewingAngles } from './coverage';
+import { getForward, Matrix4, Vec3 } from './matrix';
+
+/**
+ * Guided capture: a scripted sequence of orbits at rising heights, and
+ * optionally one more after the object is turned over to show its bottom.
+ *
+ * The sequence is driven by the poses of saved frames. Each frame counts
+ * towards the current pass when the camera is within the pass's elevation
+ * band; once a pass has its frames the sequence moves on by itself. Every
+ * frame saved during a pass belongs to its segment, which is written to
+ * segments.json so the passes can be processed together or one at a time.
+ */
+
+export type GuidedPassId = 'low' | 'mid' | 'high' | 'flip';
+
+export interface GuidedPass {
+  id: GuidedPassId;
+  label: string;
+  /** Camera elevation above the object, in degrees */
+  minElevation: number;
+  maxElevation: number;
+  /** Frames within the band before the pass is complete */
+  frameTarget: number;
+  /** Shown while the pass runs */
+  instruction: string;
+  /** The object is turned over first; capture waits until the user says so */
+  flipFirst: boolean;
+}
+
+export const GUIDED_PASSES: Record<GuidedPassId, GuidedPass> = {
+  low: {
+    id: 'low',
+    label: 'Low orbit',
+    minElevation: -10,
+    maxElevation: 20,
+    frameTarget: 24,
+    instruction:
+      'Hold the phone level with the object and walk all the way around',
+    flipFirst: false,
+  },
+  mid: {
+    id: 'mid',
+    label: 'Mid orbit',
+    minElevation: 20,
+    maxElevation: 45,
+    frameTarget: 24,
+    instruction:
+      'Raise the phone, tilt it down at the object and walk around again',
+    flipFirst: false,
+  },
+  high: {
+    id: 'high',
+    label: 'High orbit',
+    minElevation: 45,
+    maxElevation: 80,
+    frameTarget: 16,
+    instruction:
+      'Hold the phone high, looking down on the object, and walk around',
+    flipFirst: false,
+  },
+  flip: {
+    id: 'flip',
+    label: 'Bottom',
+    minElevation: -10,
+    maxElevation: 45,
+    frameTarget: 24,
+    instruction: 'Walk around the object once more, low down',
+    flipFirst: true,
+  },
+};
+
+/**
+ * Passes in the order they run
+ * @param includeFlip Finish by turning the object over to capture its bottom
+ */
+export const guidedPassSequence = (includeFlip: boolean): GuidedPass[] => [
+  GUIDED_PASSES.low,
+  GUIDED_PASSES.mid,
+  GUIDED_PASSES.high,
+  ...(includeFlip ? [GUIDED_PASSES.flip] : []),
+];
+
+/**
+ * Frames saved during one pass: image indices firstIndex to lastIndex,
+ * inclusive
+ */
+export interface CaptureSegment {
+  id: GuidedPassId;
+  firstIndex: number;
+  lastIndex: number;
+}
+
+/**
+ * Segments of a guided capture, in its directory
+ */
+export const CAPTURE_SEGMENTS_FILE = 'segments.json';
+
+export type GuidedCaptureStatus = 'capturing' | 'waitingForFlip' | 'complete';
+
+export interface GuidedCaptureState {
+  status: GuidedCaptureStatus;
+  /** Index into the pass sequence; the last pass once complete */
+  passIndex: number;
+  pass: GuidedPass;
+  passCount: number;
+  /** Frames within the current pass's band */
+  passFrames: number;
+  /** Camera elevation of the latest frame, in degrees */
+  elevation: number | null;
+  /** What the user should do now */
+  prompt: string;
+  segments: CaptureSegment[];
+}
+
+/**
+ * Elevation of a camera above the object, in degrees
+ * @param center Object centre; without one the camera's downward tilt is
+ * used, which matches the elevation while it looks at the object
+ */
+export const cameraElevation = (
+  transform: Matrix4,
+  center: Vec3 | null,
+): number => {
+  if (center) {
+    return viewingAngles(transform, center).elevation;
+  }
+  const [, y] = getForward(transform);
+  return (-Math.asin(Math.max(-1, Math.min(1, y))) * 180) / Math.PI;
+};
+
+const promptFor = (
+  status: GuidedCaptureStatus,
+  pass: GuidedPass,
+  elevation: number | null,
+) => {
+  if (status === 'complete') {
+    return 'All passes captured';
+  }
+  if (status === 'waitingForFlip') {
+    return 'Turn the object over onto its side or top, then continue';
+  }
+  if (elevation !== null && elevation < pass.minElevation) {
+    return 'Raise the phone a little';
+  }
+  if (elevation !== null && elevation > pass.maxElevation) {
+    return 'Lower the phone a little';
+  }
+  return pass.instruction;
+};
+
+/**
+ * Steps through the passes of a guided capture as frames are saved
+ *
+ * Pure state: the caller feeds it saved frames and acts on the status,
+ * e.g. holding capture while waiting for the flip and stopping once complete.
+ */
+export class GuidedCaptureSequence {
+  private state: GuidedCaptureState;
+
+  /**
+   * @param center Object centre, e.g. of the region of interest; null to
+   * judge height by the camera's tilt
+   */
+  constructor(
+    private readonly passes: GuidedPass[],
+    private readonly center: Vec3 | null = null,
+  ) {
+    if (passes.length === 0) {
+      throw new Error('A guided capture needs at least one pass');
+    }
+    this.state = this.enterPass(0, [], null);
+  }
+
+  getState = (): GuidedCaptureState => this.state;
+
+  /**
+   * Count a saved frame towards the current pass, moving on once the pass
+   * has its frames. Frames are ignored while waiting for the flip or once
+   * complete.
+   */
+  addFrame(index: number, transform: Matrix4): GuidedCaptureState {
+    const { status, pass, passIndex, segments } = this.state;
+    if (status !== 'capturing') {
+      return this.state;
+    }
+
+    const elevation = cameraElevation(transform, this.center);
+    const inBand =
+      elevation >= pass.minElevation && elevation <= pass.maxElevation;
+    const passFrames = this.state.passFrames + (inBand ? 1 : 0);
+    const current = segments[segments.length - 1];
+    const updated =
+      current?.id === pass.id
+        ? [...segments.slice(0, -1), { ...current, lastIndex: index }]
+        : [...segments, { id: pass.id, firstIndex: index, lastIndex: index }];
+
+    if (passFrames < pass.frameTarget) {
+      this.state = {
+        ...this.state,
+        passFrames,
+        elevation,
+        prompt: promptFor(status, pass, elevation),
+        segments: updated,
+      };
+    } else {
+      this.state = this.enterPass(passIndex + 1, updated, elevation);
+    }
+    return this.state;
+  }
+
+  /**
+   * The object has been turned over; start the pass that waited for it
+   */
+  confirmFlip(): GuidedCaptureState {
+    if (this.state.status === 'waitingForFlip') {
+      this.state = {
+        ...this.state,
+        status: 'capturing',
+        prompt: this.state.pass.instruction,
+      };
+    }
+    return this.state;
+  }
+
+  /**
+   * Move on without waiting for the rest of the current pass's frames
+   */
+  skipPass(): GuidedCaptureState {
+    if (this.state.status !== 'complete') {
+      this.state = this.enterPass(
+        this.state.passIndex + 1,
+        this.state.segments,
+        this.state.elevation,
+      );
+    }
+    return this.state;
+  }
+
+  private enterPass(
+    passIndex: number,
+    segments: CaptureSegment[],
+    elevation: number | null,
+  ): GuidedCaptureState {
+    const complete = passIndex >= this.passes.length;
+    const index = complete ? this.passes.length - 1 : passIndex;
+    const pass = this.passes[index];
+    const status: GuidedCaptureStatus = complete
+      ? 'complete'
+      : pass.flipFirst
+      ? 'waitingForFlip'
+      : 'capturing';
+    return {
+      status,
+      passIndex: index,
+      pass,
+      passCount: this.passes.length,
+      passFrames: 0,
+      elevation,
+      prompt: promptFor(status, pass, null),
+      segments,
+    };
+  }
+}
+
+/**
+ * Progress line for the capture overlay, e.g. "Mid orbit (2 of 3): 10/24"
+ */
+export const formatGuidedProgress = (state: GuidedCaptureState) =>
+  `${state.pass.label} (${state.passIndex + 1} of ${
+    state.passCount
+  }): ${Math.min(state.passFrames, state.pass.frameTarget)}/${
+    state.pass.frameTarget
+  }`;
+
+/**
+ * Segment of an image or its metadata, by file name
+ */
+export const segmentOfFile = (
+  segments: CaptureSegment[],
+  name: string,
+): CaptureSegment | null => {
+  const match = /^image_(\d+)[._]/.exec(name);
+  if (!match) {
+    return null;
+  }
+  const index = parseInt(match[1], 10);
+  return (
+    segments.find(
+      segment => index >= segment.firstIndex && index <= segment.lastIndex,
+    ) ?? null
+  );
+};
+
+/**
+ * Whether a capture file belongs in a reconstruction of one segment: its
+ * own frames, and anything that is not a frame
+ */
+export const isFileInSegment = (
+  segments: CaptureSegment[],
+  segmentId: GuidedPassId,
+  name: string,
+) =>
+  !/^image_\d+[._]/.test(name) ||
+  segmentOfFile(segments, name)?.id === segmentId;
+
+const isSegment = (value: unknown): value is CaptureSegment => {
+  const { id, firstIndex, lastIndex } = (value ?? {}) as CaptureSegment;
+  return (
+    typeof id === 'string' &&
+    id in GUIDED_PASSES &&
+    Number.isInteger(firstIndex) &&
+    Number.isInteger(lastIndex) &&
+    firstIndex <= lastIndex
+  );
+};
+
+/**
+ * Segments from segments.json; malformed entries are dropped
+ */
+export const parseCaptureSegments = (json: string): CaptureSegment[] => {
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter(isSegment) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Segments of a capture; empty for a capture that was not guided
+ */
+export const loadCaptureSegments = async (
+  directory: string,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<CaptureSegment[]> => {
+  const json = await module.readTextFile(
+    `${directory}/${CAPTURE_SEGMENTS_FILE}`,
+  );
+  return json ? parseCaptureSegments(json) : [];
+};
+
+export const saveCaptureSegments = (
+  directory: string,
+  segments: CaptureSegment[],
+  module: ARNativeModuleType = ARNativeModule,
+) =>
+  module.writeTextFile(
+    `${directory}/${CAPTURE_SEGMENTS_FILE}`,
+    JSON.stringify(segments),
+  );
+
+/**
+ * Frames left in a segment's range
+ * @param frameIndices Image indices still in the capture; without them every
+ * index in the range is counted, which holds until frames are deleted
+ */
+export const countSegmentFrames = (
+  segment: CaptureSegment,
+  frameIndices?: number[],
+) =>
+  frameIndices
+    ? frameIndices.filter(
+        index => index >= segment.firstIndex && index <= segment.lastIndex,
+      ).length
+    : segment.lastIndex - segment.firstIndex + 1;
+
+/**
+ * e.g. "Low orbit: 24 images · Mid orbit: 26 images"
+ * @param frameIndices Image indices still in the capture, see countSegmentFrames
+ */
+export const formatSegmentSummary = (
+  segments: CaptureSegment[],
+  frameIndices?: number[],
+) =>
+  segments
+    .map(
+      segment =>
+        `${GUIDED_PASSES[segment.id].label}: ${countSegmentFrames(
+          segment,
+          frameIndices,
+        )} images`,
+    )
+    .join(' · ');
@@ -0,0 +1,106 @@
+/**
+ * Small linear algebra helpers for camera poses
+ *
+ * Matrices are stored the way the native side serializes simd types: an array
+ * of columns, so `m[3]` is the translation column of a 4x4 transform.
+ */
+
+export type Vec3 = [number, number, number];
+export type Matrix3 = number[][];
+export type Matrix4 = number[][];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check that a value is `size` columns of `size` finite numbers
+ */
+export const isSquareMatrix = (value: unknown, size: number): boolean =>
+  Array.isArray(value) &&
+  value.length === size &&
+  value.every(
+    column =>
+      Array.isArray(column) &&
+      column.length === size &&
+      column.every(isFiniteNumber),
+  );
+
+/**
+ * Build a column-major 4x4 transform from a translation and unit quaternion (x, y, z, w)
+ */
+export const poseToMatrix4 = (
+  translation: number[],
+  quaternion: number[],
+): Matrix4 => {
+  const [x, y, z, w] = quaternion;
+  return [
+    [1 - 2 * (y * y + z * z), 2 * (x * y + z * w), 2 * (x * z - y * w), 0],
+    [2 * (x * y - z * w), 1 - 2 * (x * x + z * z), 2 * (y * z + x * w), 0],
+    [2 * (x * z + y * w), 2 * (y * z - x * w), 1 - 2 * (x * x + y * y), 0],
+    [translation[0], translation[1], translation[2], 1],
+  ];
+};
+
+/**
+ * Camera position (translation column) of a camera-to-world transform
+ */
+export const getTranslation = (transform: Matrix4): Vec3 => [
+  transform[3][0],
+  transform[3][1],
+  transform[3][2],
+];
+
+/**
+ * Viewing direction of a camera-to-world transform (ARKit cameras look down -Z)
+ */
+export const getForward = (transform: Matrix4): Vec3 =>
+  normalize([-transform[2][0], -transform[2][1], -transform[2][2]]);
+
+export const add = (a: Vec3, b: Vec3): Vec3 => [
+  a[0] + b[0],
+  a[1] + b[1],
+  a[2] + b[2],
+];
+
+export const subtract = (a: Vec3, b: Vec3): Vec3 => [
+  a[0] - b[0],
+  a[1] - b[1],
+  a[2] - b[2],
+];
+
+export const scale = (v: Vec3, s: number): Vec3 => [
+  v[0] * s,
+  v[1] * s,
+  v[2] * s,
+];
+
+export const dot = (a: Vec3, b: Vec3) =>
+  a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+export const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+export const length = (v: Vec3) => Math.sqrt(dot(v, v));
+
+export const normalize = (v: Vec3): Vec3 => {
+  const len = length(v);
+  return len > 0 ? scale(v, 1 / len) : [0, 0, 0];
+};
+
+/**
+ * Angle between the rotation parts of two transforms, in radians
+ */
+export const rotationAngleBetween = (a: Matrix4, b: Matrix4): number => {
+  // trace(Ra^T * Rb) = sum of dot products of matching columns
+  let trace = 0;
+  for (let column = 0; column < 3; column++) {
+    for (let row = 0; row < 3; row++) {
+      trace += a[column][row] * b[column][row];
+    }
+  }
+  const cosine = Math.min(1, Math.max(-1, (trace - 1) / 2));
+  return Math.acos(cosine);
+};
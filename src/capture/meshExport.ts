@@ -0,0 +1,438 @@
+import {
+  ARNativeModule,
+  ARNativeModuleType,
+  ObjectScanResult,
+} from '../native/ARNativeModule';
+import { add, cross, length, scale, subtract, Vec3 } from './matrix';
+import {
+  MeasurementMetadata,
+  measureMesh,
+  toMeasurementMetadata,
+} from './meshMeasurements';
+
+/**
+ * Serialization of the scan mesh from stopObjectScan to OBJ, PLY and binary
+ * glTF. Positions are metric world coordinates with +Y up, which is also
+ * glTF's convention, so they are written unchanged.
+ */
+
+export type MeshFormat = 'obj' | 'ply' | 'ply-binary' | 'glb';
+
+export const MESH_FORMATS: Record<
+  MeshFormat,
+  { label: string; extension: string }
+> = {
+  obj: { label: 'OBJ', extension: 'obj' },
+  ply: { label: 'PLY (ASCII)', extension: 'ply' },
+  'ply-binary': { label: 'PLY (Binary)', extension: 'ply' },
+  glb: { label: 'glTF Binary (GLB)', extension: 'glb' },
+};
+
+/**
+ * The parts of a scan result that describe its mesh
+ */
+export type ScanMeshData = Pick<ObjectScanResult, 'vertices' | 'faces'>;
+
+/**
+ * A validated triangle mesh with one unit normal per vertex
+ */
+export interface TriangleMesh {
+  positions: Vec3[];
+  triangles: [number, number, number][];
+  normals: Vec3[];
+}
+
+export type MeshErrorCode = 'EMPTY_MESH' | 'INVALID_VERTEX' | 'INVALID_FACE';
+
+/**
+ * Thrown when a scan mesh cannot be exported
+ */
+export class MeshError extends Error {
+  constructor(public code: MeshErrorCode, message: string) {
+    super(message);
+    this.name = 'MeshError';
+  }
+}
+
+/**
+ * Whether a scan result carries a mesh worth exporting
+ */
+export const hasScanMesh = (data: Partial<ScanMeshData>): boolean =>
+  Array.isArray(data.vertices) &&
+  Array.isArray(data.faces) &&
+  data.vertices.length > 0 &&
+  data.faces.length > 0;
+
+/**
+ * Area-weighted vertex normals; vertices on no face point up
+ */
+export const computeVertexNormals = (
+  positions: Vec3[],
+  triangles: [number, number, number][],
+): Vec3[] => {
+  const sums: Vec3[] = positions.map(() => [0, 0, 0]);
+  triangles.forEach(([a, b, c]) => {
+    // Cross product length is twice the area, which weights the sum
+    const normal = cross(
+      subtract(positions[b], positions[a]),
+      subtract(positions[c], positions[a]),
+    );
+    sums[a] = add(sums[a], normal);
+    sums[b] = add(sums[b], normal);
+    sums[c] = add(sums[c], normal);
+  });
+  return sums.map(sum => {
+    const size = length(sum);
+    return size > 0 ? scale(sum, 1 / size) : [0, 1, 0];
+  });
+};
+
+/**
+ * Check a scan mesh, split polygons into triangles and compute normals
+ * @throws MeshError if it is empty or a face refers to a missing vertex
+ */
+export const buildTriangleMesh = (data: ScanMeshData): TriangleMesh => {
+  if (!hasScanMesh(data)) {
+    throw new MeshError('EMPTY_MESH', 'The scan has no mesh to export');
+  }
+
+  const positions = data.vertices.map((vertex, i) => {
+    if (vertex.length !== 3 || !vertex.every(Number.isFinite)) {
+      throw new MeshError(
+        'INVALID_VERTEX',
+        `Vertex ${i} is not a finite 3D point`,
+      );
+    }
+    return [vertex[0], vertex[1], vertex[2]] as Vec3;
+  });
+
+  const triangles: [number, number, number][] = [];
+  data.faces.forEach((face, i) => {
+    if (face.length < 3) {
+      throw new MeshError(
+        'INVALID_FACE',
+        `Face ${i} has ${face.length} vertices`,
+      );
+    }
+    face.forEach(index => {
+      if (!Number.isInteger(index) || index < 0 || index >= positions.length) {
+        throw new MeshError(
+          'INVALID_FACE',
+          `Face ${i} refers to vertex ${index}, but there are ${positions.length}`,
+        );
+      }
+    });
+    // Fan out polygons; ARKit only produces triangles
+    for (let j = 1; j < face.length - 1; j++) {
+      triangles.push([face[0], face[j], face[j + 1]]);
+    }
+  });
+
+  return {
+    positions,
+    triangles,
+    normals: computeVertexNormals(positions, triangles),
+  };
+};
+
+// Micrometre precision for metric coordinates
+const formatNumber = (value: number) => {
+  const rounded = Number(value.toFixed(6));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+
+const formatVector = (vector: number[]) => vector.map(formatNumber).join(' ');
+
+const HEADER_COMMENT = 'Scanned with ARinReactNative';
+
+/**
+ * Extra information written into exported files
+ */
+export interface MeshFileMetadata {
+  measurements?: MeasurementMetadata;
+}
+
+// One comment line per entry, as JSON, so tools can read it back
+const metadataComments = (metadata: MeshFileMetadata) =>
+  Object.entries(metadata).map(
+    ([key, value]) => `${key} ${JSON.stringify(value)}`,
+  );
+
+export const toObj = (
+  mesh: TriangleMesh,
+  metadata: MeshFileMetadata = {},
+): string =>
+  [
+    `# ${HEADER_COMMENT}`,
+    `# ${mesh.positions.length} vertices, ${mesh.triangles.length} faces`,
+    ...metadataComments(metadata).map(comment => `# ${comment}`),
+    ...mesh.positions.map(position => `v ${formatVector(position)}`),
+    ...mesh.normals.map(normal => `vn ${formatVector(normal)}`),
+    // OBJ indices are 1-based; each vertex has the normal of the same index
+    ...mesh.triangles.map(
+      triangle => `f ${triangle.map(i => `${i + 1}//${i + 1}`).join(' ')}`,
+    ),
+    '',
+  ].join('\n');
+
+const plyHeader = (
+  mesh: TriangleMesh,
+  format: string,
+  metadata: MeshFileMetadata,
+) =>
+  [
+    'ply',
+    `format ${format} 1.0`,
+    `comment ${HEADER_COMMENT}`,
+    ...metadataComments(metadata).map(comment => `comment ${comment}`),
+    `element vertex ${mesh.positions.length}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property float nx',
+    'property float ny',
+    'property float nz',
+    `element face ${mesh.triangles.length}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+    '',
+  ].join('\n');
+
+export const toAsciiPly = (
+  mesh: TriangleMesh,
+  metadata: MeshFileMetadata = {},
+): string =>
+  plyHeader(mesh, 'ascii', metadata) +
+  [
+    ...mesh.positions.map(
+      (position, i) =>
+        `${formatVector(position)} ${formatVector(mesh.normals[i])}`,
+    ),
+    ...mesh.triangles.map(triangle => `3 ${triangle.join(' ')}`),
+    '',
+  ].join('\n');
+
+// Headers and glTF JSON are ASCII, so one byte per character
+const asciiBytes = (text: string): Uint8Array =>
+  Uint8Array.from(text, character => character.charCodeAt(0));
+
+export const toBinaryPly = (
+  mesh: TriangleMesh,
+  metadata: MeshFileMetadata = {},
+): Uint8Array => {
+  const header = asciiBytes(plyHeader(mesh, 'binary_little_endian', metadata));
+  const bytes = new Uint8Array(
+    header.length + mesh.positions.length * 24 + mesh.triangles.length * 13,
+  );
+  bytes.set(header);
+  const view = new DataView(bytes.buffer);
+  let offset = header.length;
+
+  mesh.positions.forEach((position, i) => {
+    [...position, ...mesh.normals[i]].forEach(value => {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    });
+  });
+  mesh.triangles.forEach(triangle => {
+    view.setUint8(offset, 3);
+    offset += 1;
+    triangle.forEach(index => {
+      view.setInt32(offset, index, true);
+      offset += 4;
+    });
+  });
+  return bytes;
+};
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_CHUNK_JSON = 0x4e4f534a; // "JSON"
+const GLB_CHUNK_BIN = 0x004e4942; // "BIN\0"
+const GL_FLOAT = 5126;
+const GL_UNSIGNED_INT = 5125;
+const GL_ARRAY_BUFFER = 34962;
+const GL_ELEMENT_ARRAY_BUFFER = 34963;
+const GL_TRIANGLES = 4;
+
+const padTo4 = (size: number) => Math.ceil(size / 4) * 4;
+
+/**
+ * Single-mesh glTF 2.0 binary with positions, normals and 32-bit indices
+ */
+export const toGlb = (
+  mesh: TriangleMesh,
+  metadata: MeshFileMetadata = {},
+): Uint8Array => {
+  const vertexCount = mesh.positions.length;
+  const indexCount = mesh.triangles.length * 3;
+  const attributeBytes = vertexCount * 12;
+  const binLength = attributeBytes * 2 + indexCount * 4;
+
+  // Bounds of the stored 32-bit floats; spreading large meshes into
+  // Math.min would overflow the stack
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  mesh.positions.forEach(position =>
+    position.forEach((value, axis) => {
+      min[axis] = Math.min(min[axis], Math.fround(value));
+      max[axis] = Math.max(max[axis], Math.fround(value));
+    }),
+  );
+
+  const json = JSON.stringify({
+    asset: { version: '2.0', generator: HEADER_COMMENT },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name: 'Scan', extras: metadata }],
+    meshes: [
+      {
+        primitives: [
+          {
+            attributes: { POSITION: 0, NORMAL: 1 },
+            indices: 2,
+            mode: GL_TRIANGLES,
+          },
+        ],
+      },
+    ],
+    buffers: [{ byteLength: binLength }],
+    bufferViews: [
+      {
+        buffer: 0,
+        byteOffset: 0,
+        byteLength: attributeBytes,
+        target: GL_ARRAY_BUFFER,
+      },
+      {
+        buffer: 0,
+        byteOffset: attributeBytes,
+        byteLength: attributeBytes,
+        target: GL_ARRAY_BUFFER,
+      },
+      {
+        buffer: 0,
+        byteOffset: attributeBytes * 2,
+        byteLength: indexCount * 4,
+        target: GL_ELEMENT_ARRAY_BUFFER,
+      },
+    ],
+    accessors: [
+      {
+        bufferView: 0,
+        componentType: GL_FLOAT,
+        count: vertexCount,
+        type: 'VEC3',
+        min,
+        max,
+      },
+      {
+        bufferView: 1,
+        componentType: GL_FLOAT,
+        count: vertexCount,
+        type: 'VEC3',
+      },
+      {
+        bufferView: 2,
+        componentType: GL_UNSIGNED_INT,
+        count: indexCount,
+        type: 'SCALAR',
+      },
+    ],
+  });
+
+  // The JSON chunk is padded with spaces, the binary chunk with zeros
+  const jsonLength = padTo4(json.length);
+  const jsonBytes = asciiBytes(json.padEnd(jsonLength, ' '));
+  const totalLength = 12 + 8 + jsonLength + 8 + binLength;
+  const bytes = new Uint8Array(totalLength);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, GLB_CHUNK_JSON, true);
+  bytes.set(jsonBytes, 20);
+
+  let offset = 20 + jsonLength;
+  view.setUint32(offset, binLength, true);
+  view.setUint32(offset + 4, GLB_CHUNK_BIN, true);
+  offset += 8;
+  [mesh.positions, mesh.normals].forEach(vectors =>
+    vectors.forEach(vector =>
+      vector.forEach(value => {
+        view.setFloat32(offset, value, true);
+        offset += 4;
+      }),
+    ),
+  );
+  mesh.triangles.forEach(triangle =>
+    triangle.forEach(index => {
+      view.setUint32(offset, index, true);
+      offset += 4;
+    }),
+  );
+  return bytes;
+};
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Base64 for handing binary files to the native side
+ */
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    const [a, b = 0, c = 0] = [bytes[i], bytes[i + 1], bytes[i + 2]];
+    // Three bytes make four 6-bit digits; missing bytes become padding
+    const triple = a * 65536 + b * 256 + c;
+    const digits = [262144, 4096, 64, 1].map((place, digit) =>
+      digit <= bytes.length - i
+        ? BASE64_ALPHABET[Math.floor(triple / place) % 64]
+        : '=',
+    );
+    parts.push(digits.join(''));
+  }
+  return parts.join('');
+};
+
+/**
+ * Write a scan mesh to a file, with its measurements embedded
+ * @param data Mesh from stopObjectScan
+ * @param path Destination without extension, inside the documents directory
+ * @returns Path of the written file
+ * @throws MeshError if the mesh is empty or malformed
+ */
+export const exportScanMesh = async (
+  data: ScanMeshData,
+  format: MeshFormat,
+  path: string,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<string> => {
+  const mesh = buildTriangleMesh(data);
+  const metadata = { measurements: toMeasurementMetadata(measureMesh(mesh)) };
+  const filePath = `${path}.${MESH_FORMATS[format].extension}`;
+
+  switch (format) {
+    case 'obj':
+      await module.writeTextFile(filePath, toObj(mesh, metadata));
+      break;
+    case 'ply':
+      await module.writeTextFile(filePath, toAsciiPly(mesh, metadata));
+      break;
+    case 'ply-binary':
+      await module.writeBase64File(
+        filePath,
+        encodeBase64(toBinaryPly(mesh, metadata)),
+      );
+      break;
+    case 'glb':
+      await module.writeBase64File(
+        filePath,
+        encodeBase64(toGlb(mesh, metadata)),
+      );
+      break;
+  }
+  return filePath;
+};
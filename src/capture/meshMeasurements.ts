@@ -0,0 +1,288 @@
+import { cross, dot, length, subtract, Vec3 } from './matrix';
+import type { TriangleMesh } from './meshExport';
+
+/**
+ * Real-world measurements of a scan mesh. Inputs are metric ARKit/ARCore
+ * world coordinates with +Y up; every result is in metres.
+ */
+
+export type MeasurementUnit = 'mm' | 'cm' | 'in';
+
+export const MEASUREMENT_UNITS: Record<
+  MeasurementUnit,
+  { label: string; perMetre: number; decimals: number }
+> = {
+  mm: { label: 'mm', perMetre: 1000, decimals: 1 },
+  cm: { label: 'cm', perMetre: 100, decimals: 2 },
+  in: { label: 'in', perMetre: 1 / 0.0254, decimals: 2 },
+};
+
+export interface BoxDimensions {
+  /** Extent along the box's first horizontal axis */
+  width: number;
+  /** Vertical extent */
+  height: number;
+  /** Extent along the box's second horizontal axis */
+  depth: number;
+}
+
+export interface AxisAlignedBox extends BoxDimensions {
+  min: Vec3;
+  max: Vec3;
+}
+
+/**
+ * Smallest box that stays upright: height is measured along gravity and the
+ * footprint is the minimum-area rectangle around the mesh seen from above.
+ * Width is the longer side of the footprint.
+ */
+export interface OrientedBox extends BoxDimensions {
+  center: Vec3;
+  /** Unit world directions of width, height and depth */
+  axes: [Vec3, Vec3, Vec3];
+}
+
+export interface MeshMeasurements {
+  axisAligned: AxisAlignedBox;
+  oriented: OrientedBox;
+  /** Square metres */
+  surfaceArea: number;
+  /** Every edge is shared by exactly two consistently wound triangles */
+  watertight: boolean;
+  /** Cubic metres, or null when the mesh is not watertight */
+  volume: number | null;
+}
+
+const axisAlignedBox = (positions: Vec3[]): AxisAlignedBox => {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  positions.forEach(position =>
+    position.forEach((value, axis) => {
+      min[axis] = Math.min(min[axis], value);
+      max[axis] = Math.max(max[axis], value);
+    }),
+  );
+  return {
+    min,
+    max,
+    width: max[0] - min[0],
+    height: max[1] - min[1],
+    depth: max[2] - min[2],
+  };
+};
+
+type Point2 = [number, number];
+
+const turn = (o: Point2, a: Point2, b: Point2) =>
+  (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+/**
+ * Convex hull of the mesh seen from above (x, z), counter-clockwise
+ */
+const footprintHull = (positions: Vec3[]): Point2[] => {
+  const points = positions
+    .map(([x, , z]): Point2 => [x, z])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  // Andrew's monotone chain
+  const half = (sorted: Point2[]) => {
+    const chain: Point2[] = [];
+    sorted.forEach(point => {
+      while (
+        chain.length >= 2 &&
+        turn(chain[chain.length - 2], chain[chain.length - 1], point) <= 0
+      ) {
+        chain.pop();
+      }
+      chain.push(point);
+    });
+    chain.pop();
+    return chain;
+  };
+  const hull = [...half(points), ...half([...points].reverse())];
+  return hull.length > 0 ? hull : points.slice(0, 1);
+};
+
+const orientedBox = (
+  positions: Vec3[],
+  bounds: AxisAlignedBox,
+): OrientedBox => {
+  const hull = footprintHull(positions);
+  let best = {
+    area: Infinity,
+    u: [1, 0] as Point2,
+    range: [0, 0, 0, 0],
+  };
+
+  // The minimum-area rectangle has a side along one of the hull's edges
+  hull.forEach((point, i) => {
+    const next = hull[(i + 1) % hull.length];
+    const edge = Math.hypot(next[0] - point[0], next[1] - point[1]);
+    // Only a single-point footprint has no edge to align with
+    const u: Point2 =
+      edge > 0
+        ? [(next[0] - point[0]) / edge, (next[1] - point[1]) / edge]
+        : [1, 0];
+    const range = [Infinity, -Infinity, Infinity, -Infinity];
+    hull.forEach(([x, z]) => {
+      const along = x * u[0] + z * u[1];
+      const across = -x * u[1] + z * u[0];
+      range[0] = Math.min(range[0], along);
+      range[1] = Math.max(range[1], along);
+      range[2] = Math.min(range[2], across);
+      range[3] = Math.max(range[3], across);
+    });
+    const area = (range[1] - range[0]) * (range[3] - range[2]);
+    if (area < best.area) {
+      best = { area, u, range };
+    }
+  });
+
+  const { u, range } = best;
+  let sides: [number, number] = [range[1] - range[0], range[3] - range[2]];
+  let horizontal: [Vec3, Vec3] = [
+    [u[0], 0, u[1]],
+    [-u[1], 0, u[0]],
+  ];
+  if (sides[1] > sides[0]) {
+    sides = [sides[1], sides[0]];
+    horizontal = [horizontal[1], [-horizontal[0][0], 0, -horizontal[0][2]]];
+  }
+
+  const along = (range[0] + range[1]) / 2;
+  const across = (range[2] + range[3]) / 2;
+  return {
+    width: sides[0],
+    height: bounds.height,
+    depth: sides[1],
+    center: [
+      along * u[0] - across * u[1],
+      (bounds.min[1] + bounds.max[1]) / 2,
+      along * u[1] + across * u[0],
+    ],
+    axes: [horizontal[0], [0, 1, 0], horizontal[1]],
+  };
+};
+
+/**
+ * Whether each directed edge is matched by exactly one edge running the
+ * other way, so the surface is closed and consistently oriented
+ */
+export const isWatertight = (
+  triangles: [number, number, number][],
+): boolean => {
+  const edges = new Map<string, number>();
+  triangles.forEach(([a, b, c]) =>
+    [
+      [a, b],
+      [b, c],
+      [c, a],
+    ].forEach(([from, to]) => {
+      const key = `${from},${to}`;
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }),
+  );
+  return (
+    edges.size > 0 &&
+    [...edges].every(([key, count]) => {
+      const [from, to] = key.split(',');
+      return count === 1 && edges.get(`${to},${from}`) === 1;
+    })
+  );
+};
+
+/**
+ * Measure a validated scan mesh
+ */
+export const measureMesh = (mesh: TriangleMesh): MeshMeasurements => {
+  const { positions, triangles } = mesh;
+  let surfaceArea = 0;
+  let signedVolume = 0;
+
+  // Tetrahedra are taken from a point on the mesh rather than the world
+  // origin, which may be metres away, to keep the sums precise
+  const reference = positions[0];
+  triangles.forEach(([a, b, c]) => {
+    const [p, q, r] = [a, b, c].map(i => subtract(positions[i], reference));
+    surfaceArea += length(cross(subtract(q, p), subtract(r, p))) / 2;
+    // Signed tetrahedron volumes sum to the enclosed volume when the
+    // surface is closed
+    signedVolume += dot(p, cross(q, r)) / 6;
+  });
+
+  const axisAligned = axisAlignedBox(positions);
+  const watertight = isWatertight(triangles);
+  return {
+    axisAligned,
+    oriented: orientedBox(positions, axisAligned),
+    surfaceArea,
+    watertight,
+    volume: watertight ? Math.abs(signedVolume) : null,
+  };
+};
+
+const round = (value: number) => {
+  const rounded = Number(value.toFixed(6));
+  return Object.is(rounded, -0) ? 0 : rounded;
+};
+
+const roundVector = (vector: Vec3) => vector.map(round);
+
+/**
+ * Measurements as plain JSON for embedding in exported files, in metres
+ */
+export const toMeasurementMetadata = (measurements: MeshMeasurements) => {
+  const { axisAligned, oriented } = measurements;
+  return {
+    units: 'm',
+    axisAlignedBox: {
+      width: round(axisAligned.width),
+      height: round(axisAligned.height),
+      depth: round(axisAligned.depth),
+      min: roundVector(axisAligned.min),
+      max: roundVector(axisAligned.max),
+    },
+    orientedBox: {
+      width: round(oriented.width),
+      height: round(oriented.height),
+      depth: round(oriented.depth),
+      center: roundVector(oriented.center),
+      axes: oriented.axes.map(roundVector),
+    },
+    surfaceArea: round(measurements.surfaceArea),
+    watertight: measurements.watertight,
+    volume: measurements.volume === null ? null : round(measurements.volume),
+  };
+};
+
+export type MeasurementMetadata = ReturnType<typeof toMeasurementMetadata>;
+
+/**
+ * Format a length, area or volume given in metres
+ * @param dimension 1 for lengths, 2 for areas, 3 for volumes
+ */
+export const formatMeasurement = (
+  metres: number,
+  unit: MeasurementUnit,
+  dimension: 1 | 2 | 3 = 1,
+): string => {
+  const { label, perMetre, decimals } = MEASUREMENT_UNITS[unit];
+  const value = metres * perMetre ** dimension;
+  const suffix = dimension === 1 ? '' : dimension === 2 ? '²' : '³';
+  return `${value.toFixed(
+    Math.max(decimals - dimension + 1, 0),
+  )} ${label}${suffix}`;
+};
+
+/**
+ * Width × height × depth in one unit
+ */
+export const formatDimensions = (
+  box: BoxDimensions,
+  unit: MeasurementUnit,
+): string => {
+  const { label, perMetre, decimals } = MEASUREMENT_UNITS[unit];
+  return `${[box.width, box.height, box.depth]
+    .map(value => (value * perMetre).toFixed(decimals))
+    .join(' × ')} ${label}`;
+};
@@ -0,0 +1,15 @@
+/**
+ * Options over their defaults, where an option left undefined keeps its
+ * default rather than replacing it
+ */
+export const withDefaults = <T extends object>(
+  defaults: T,
+  options: Partial<T>,
+): T => ({
+  ...defaults,
+  ...(Object.fromEntries(
+    (Object.keys(options) as (keyof T)[])
+      .filter(key => options[key] !== undefined)
+      .map(key => [key, options[key]]),
+  ) as Partial<T>),
+});
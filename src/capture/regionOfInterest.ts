@@ -0,0 +1,431 @@
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import type { PlaneDetectedEvent } from '../native/ARView';
+import type { ProcessingBounds } from '../processing/processingOptions';
+import type { CaptureFrameMetadata } from './CaptureDataset';
+import {
+  add,
+  dot,
+  getTranslation,
+  Matrix3,
+  Matrix4,
+  scale,
+  subtract,
+  Vec3,
+} from './matrix';
+
+/**
+ * Box around the object being captured, placed in AR before capture
+ *
+ * The box stands upright on a detected plane: it can turn about the world's
+ * +Y axis but not tilt. World coordinates are the AR session's, in metres,
+ * the same space as the frame transforms.
+ */
+export interface RegionOfInterest {
+  /** Box centre in world coordinates */
+  center: Vec3;
+  /** Width (x), height (y) and depth (z) along the box's own axes */
+  size: Vec3;
+  /** Turn about +Y, in degrees, [0, 360) */
+  yaw: number;
+}
+
+/**
+ * Where the region is stored, relative to the capture directory
+ */
+export const REGION_OF_INTEREST_FILE = 'region.json';
+
+/**
+ * Edge used when a box is first placed, in metres; shrunk to fit the plane
+ */
+export const DEFAULT_REGION_SIZE = 0.3;
+
+export const MIN_REGION_SIZE = 0.02;
+export const MAX_REGION_SIZE = 10;
+
+/**
+ * Thrown when a region is missing a field or has an unusable value
+ */
+export class RegionOfInterestError extends Error {
+  constructor(readonly field: keyof RegionOfInterest, message: string) {
+    super(`Invalid region of interest '${field}': ${message}`);
+    this.name = 'RegionOfInterestError';
+  }
+}
+
+const DEG_TO_RAD = Math.PI / 180;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const requireVec3 = (field: keyof RegionOfInterest, value: unknown): Vec3 => {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 3 ||
+    !value.every(isFiniteNumber)
+  ) {
+    throw new RegionOfInterestError(field, 'must be 3 finite numbers');
+  }
+  return [value[0], value[1], value[2]];
+};
+
+const wrapDegrees = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+const clampSize = (size: number) =>
+  Math.min(MAX_REGION_SIZE, Math.max(MIN_REGION_SIZE, size));
+
+/**
+ * Validate a region, e.g. one read back from disk
+ * @throws RegionOfInterestError for missing or out-of-range values
+ */
+export const normalizeRegionOfInterest = (value: unknown): RegionOfInterest => {
+  const { center, size, yaw } = (value ?? {}) as Partial<RegionOfInterest>;
+  const sides = requireVec3('size', size);
+  if (sides.some(side => side < MIN_REGION_SIZE || side > MAX_REGION_SIZE)) {
+    throw new RegionOfInterestError(
+      'size',
+      `each side must be between ${MIN_REGION_SIZE} and ${MAX_REGION_SIZE}`,
+    );
+  }
+  if (!isFiniteNumber(yaw)) {
+    throw new RegionOfInterestError('yaw', 'must be a finite number');
+  }
+  return {
+    center: requireVec3('center', center),
+    size: sides,
+    yaw: wrapDegrees(yaw),
+  };
+};
+
+/**
+ * Box-to-world transform: the box's own axes, with its centre as translation
+ */
+export const regionTransform = (region: RegionOfInterest): Matrix4 => {
+  const angle = region.yaw * DEG_TO_RAD;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    [cos, 0, -sin, 0],
+    [0, 1, 0, 0],
+    [sin, 0, cos, 0],
+    [...region.center, 1],
+  ];
+};
+
+/**
+ * The box's x, y and z axes in world coordinates
+ */
+const regionAxes = (region: RegionOfInterest): [Vec3, Vec3, Vec3] => {
+  const [x, y, z] = regionTransform(region);
+  return [
+    [x[0], x[1], x[2]],
+    [y[0], y[1], y[2]],
+    [z[0], z[1], z[2]],
+  ];
+};
+
+/**
+ * A world point in the box's own coordinates, relative to its centre
+ */
+export const worldToRegion = (region: RegionOfInterest, point: Vec3): Vec3 => {
+  const offset = subtract(point, region.center);
+  const [x, y, z] = regionAxes(region);
+  return [dot(offset, x), dot(offset, y), dot(offset, z)];
+};
+
+/**
+ * A point in the box's own coordinates, in world coordinates
+ */
+export const regionToWorld = (region: RegionOfInterest, local: Vec3): Vec3 => {
+  const [x, y, z] = regionAxes(region);
+  return add(
+    region.center,
+    add(scale(x, local[0]), add(scale(y, local[1]), scale(z, local[2]))),
+  );
+};
+
+export const regionContainsPoint = (region: RegionOfInterest, point: Vec3) =>
+  worldToRegion(region, point).every(
+    (value, axis) => Math.abs(value) <= region.size[axis] / 2,
+  );
+
+/**
+ * The 8 corners in world coordinates, bottom face first
+ */
+export const regionCorners = (region: RegionOfInterest): Vec3[] => {
+  const [w, h, d] = region.size.map(side => side / 2);
+  return [-h, h].flatMap(y =>
+    [
+      [-w, y, -d],
+      [w, y, -d],
+      [w, y, d],
+      [-w, y, d],
+    ].map(corner => regionToWorld(region, corner as Vec3)),
+  );
+};
+
+/**
+ * Crop box for processPhotogrammetry: the axis-aligned box around the
+ * region, in world coordinates
+ */
+export const regionBounds = (region: RegionOfInterest): ProcessingBounds => {
+  const corners = regionCorners(region);
+  const along = (axis: number) => corners.map(corner => corner[axis]);
+  return {
+    min: [0, 1, 2].map(axis => Math.min(...along(axis))) as Vec3,
+    max: [0, 1, 2].map(axis => Math.max(...along(axis))) as Vec3,
+  };
+};
+
+/**
+ * A box resting on a detected plane, at its centre
+ * @param size Box size; by default a DEFAULT_REGION_SIZE cube, shrunk to fit the plane
+ */
+export const placeRegionOnPlane = (
+  plane: Pick<PlaneDetectedEvent, 'center' | 'extent'>,
+  size?: Vec3,
+): RegionOfInterest => {
+  const footprint = Math.min(
+    DEFAULT_REGION_SIZE,
+    plane.extent.width,
+    plane.extent.length,
+  );
+  const sides: Vec3 = (size ?? [footprint, DEFAULT_REGION_SIZE, footprint]).map(
+    clampSize,
+  ) as Vec3;
+  return {
+    center: add(plane.center, [0, sides[1] / 2, 0]),
+    size: sides,
+    yaw: 0,
+  };
+};
+
+/**
+ * Change the box size, keeping its base where it is so it stays on the plane
+ */
+export const resizeRegion = (
+  region: RegionOfInterest,
+  size: Vec3,
+): RegionOfInterest => {
+  const sides = size.map(clampSize) as Vec3;
+  return {
+    ...region,
+    center: add(region.center, [0, (sides[1] - region.size[1]) / 2, 0]),
+    size: sides,
+  };
+};
+
+export const rotateRegion = (
+  region: RegionOfInterest,
+  degrees: number,
+): RegionOfInterest => ({ ...region, yaw: wrapDegrees(region.yaw + degrees) });
+
+export const moveRegion = (
+  region: RegionOfInterest,
+  offset: Vec3,
+): RegionOfInterest => ({ ...region, center: add(region.center, offset) });
+
+/**
+ * What a camera sees: a pinhole camera limited to a depth range
+ */
+export interface CameraFrustum {
+  /** Camera-to-world transform (ARKit convention: looking down -Z, +Y up) */
+  transform: Matrix4;
+  /** Pinhole intrinsics in pixels, columns of 3 */
+  intrinsics: Matrix3;
+  imageResolution: { width: number; height: number };
+  /** Depth range in metres */
+  near: number;
+  far: number;
+}
+
+/**
+ * Depth range that counts as looking at the box; further away the object
+ * covers too few pixels to help the reconstruction
+ */
+export const DEFAULT_FRUSTUM_NEAR = 0.05;
+export const DEFAULT_FRUSTUM_FAR = 5;
+
+// A phone's main camera in landscape, like the frames the platforms save,
+// for poses that arrive without intrinsics
+const DEFAULT_IMAGE_RESOLUTION = { width: 1920, height: 1440 };
+const DEFAULT_FOCAL_LENGTH = 1450;
+
+/**
+ * Frustum of a saved frame
+ */
+export const frustumForFrame = (
+  metadata: Pick<
+    CaptureFrameMetadata,
+    'transform' | 'intrinsics' | 'imageResolution'
+  >,
+): CameraFrustum => ({
+  transform: metadata.transform,
+  intrinsics: metadata.intrinsics,
+  imageResolution: metadata.imageResolution,
+  near: DEFAULT_FRUSTUM_NEAR,
+  far: DEFAULT_FRUSTUM_FAR,
+});
+
+/**
+ * Frustum for a bare pose, e.g. a live onImageCaptured event, assuming a
+ * typical phone camera
+ */
+export const frustumForPose = (transform: Matrix4): CameraFrustum => {
+  const { width, height } = DEFAULT_IMAGE_RESOLUTION;
+  return frustumForFrame({
+    transform,
+    intrinsics: [
+      [DEFAULT_FOCAL_LENGTH, 0, 0],
+      [0, DEFAULT_FOCAL_LENGTH, 0],
+      [width / 2, height / 2, 1],
+    ],
+    imageResolution: DEFAULT_IMAGE_RESOLUTION,
+  });
+};
+
+/**
+ * Half-space `dot(normal, p) + offset >= 0`
+ */
+export interface Plane {
+  normal: Vec3;
+  offset: number;
+}
+
+// A camera-space direction in world space
+const rotate = (transform: Matrix4, v: Vec3): Vec3 =>
+  [0, 1, 2].map(
+    row =>
+      transform[0][row] * v[0] +
+      transform[1][row] * v[1] +
+      transform[2][row] * v[2],
+  ) as Vec3;
+
+/**
+ * The 6 planes bounding a frustum, in world coordinates, facing inwards
+ *
+ * In camera space a point (x, y, z) projects to u = cx + fx·x/-z and
+ * v = cy - fy·y/-z (image rows run down, camera +Y runs up), so each image
+ * edge is a plane through the camera centre.
+ */
+export const frustumPlanes = (frustum: CameraFrustum): Plane[] => {
+  const { intrinsics, imageResolution, near, far, transform } = frustum;
+  const fx = intrinsics[0][0];
+  const fy = intrinsics[1][1];
+  const cx = intrinsics[2][0];
+  const cy = intrinsics[2][1];
+  const { width, height } = imageResolution;
+
+  const cameraPlanes: Plane[] = [
+    { normal: [fx, 0, -cx], offset: 0 },
+    { normal: [-fx, 0, -(width - cx)], offset: 0 },
+    { normal: [0, -fy, -cy], offset: 0 },
+    { normal: [0, fy, -(height - cy)], offset: 0 },
+    { normal: [0, 0, -1], offset: -near },
+    { normal: [0, 0, 1], offset: far },
+  ];
+
+  // p_camera = R^T (p - t), so n · p_camera = (R n) · p - (R n) · t
+  const origin = getTranslation(transform);
+  return cameraPlanes.map(({ normal, offset }) => {
+    const world = rotate(transform, normal);
+    return { normal: world, offset: offset - dot(world, origin) };
+  });
+};
+
+/**
+ * The 8 corners of a frustum in world coordinates, near face first
+ */
+export const frustumCorners = (frustum: CameraFrustum): Vec3[] => {
+  const { intrinsics, imageResolution, near, far, transform } = frustum;
+  const fx = intrinsics[0][0];
+  const fy = intrinsics[1][1];
+  const cx = intrinsics[2][0];
+  const cy = intrinsics[2][1];
+  const { width, height } = imageResolution;
+  const origin = getTranslation(transform);
+
+  return [near, far].flatMap(depth =>
+    [
+      [0, 0],
+      [width, 0],
+      [width, height],
+      [0, height],
+    ].map(([u, v]) =>
+      add(
+        origin,
+        rotate(transform, [
+          ((u - cx) / fx) * depth,
+          (-(v - cy) / fy) * depth,
+          -depth,
+        ]),
+      ),
+    ),
+  );
+};
+
+const allOutside = (plane: Plane, points: Vec3[]) =>
+  points.every(point => dot(plane.normal, point) + plane.offset < 0);
+
+/**
+ * Whether any part of the box can be in view
+ *
+ * Separating-plane test on the faces of both shapes: the box is out of view
+ * if it lies wholly outside one frustum plane, or the frustum wholly outside
+ * one box face. A box just past a frustum edge can still pass, which only
+ * ever keeps a frame that could have been dropped.
+ */
+export const regionIntersectsFrustum = (
+  region: RegionOfInterest,
+  frustum: CameraFrustum,
+): boolean => {
+  const boxCorners = regionCorners(region);
+  if (frustumPlanes(frustum).some(plane => allOutside(plane, boxCorners))) {
+    return false;
+  }
+
+  const corners = frustumCorners(frustum);
+  const axes = regionAxes(region);
+  return !axes.some((axis, index) => {
+    const half = region.size[index] / 2;
+    const centre = dot(axis, region.center);
+    const faces: Plane[] = [
+      { normal: axis, offset: half - centre },
+      { normal: [-axis[0], -axis[1], -axis[2]], offset: half + centre },
+    ];
+    return faces.some(face => allOutside(face, corners));
+  });
+};
+
+/**
+ * Parse the contents of a region.json file
+ * @returns null if the file does not hold a usable region
+ */
+export const parseRegionOfInterest = (
+  json: string,
+): RegionOfInterest | null => {
+  try {
+    return normalizeRegionOfInterest(JSON.parse(json));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Region placed before a capture, read from its directory
+ * @returns null if the capture was made without one
+ */
+export const loadCaptureRegion = async (
+  directory: string,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<RegionOfInterest | null> => {
+  const json = await module.readTextFile(
+    `${directory}/${REGION_OF_INTEREST_FILE}`,
+  );
+  return json ? parseRegionOfInterest(json) : null;
+};
+
+/**
+ * Short description of a region for labels, e.g. "30 × 20 × 30 cm"
+ */
+export const formatRegionSize = (region: RegionOfInterest) =>
+  `${region.size.map(side => Math.round(side * 100)).join(' × ')} cm`;
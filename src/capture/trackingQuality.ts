@@ -0,0 +1,193 @@
+import type {
+  ARTrackingReason,
+  ARTrackingState,
+  TrackingStateChangeEvent,
+} from '../native/ARView';
+
+/**
+ * Time spent in each tracking state during a capture, in milliseconds
+ */
+export interface TrackingTimeStats {
+  normal: number;
+  limited: number;
+  notAvailable: number;
+  /** Limited time broken down by reason */
+  limitedByReason: Partial<Record<ARTrackingReason, number>>;
+}
+
+export const EMPTY_TRACKING_TIME_STATS: TrackingTimeStats = {
+  normal: 0,
+  limited: 0,
+  notAvailable: 0,
+  limitedByReason: {},
+};
+
+/**
+ * Running record of tracking state, started when capture starts
+ */
+export interface TrackingTimeline {
+  current: TrackingStateChangeEvent;
+  /** When the current state was entered, in milliseconds */
+  since: number;
+  /** Totals for states already left */
+  stats: TrackingTimeStats;
+}
+
+/**
+ * Whether frames taken in this state would have an unreliable pose
+ */
+export const isTrackingLimited = (event: TrackingStateChangeEvent) =>
+  event.state !== 'normal';
+
+export const startTrackingTimeline = (
+  current: TrackingStateChangeEvent,
+  now: number,
+): TrackingTimeline => ({
+  current,
+  since: now,
+  stats: EMPTY_TRACKING_TIME_STATS,
+});
+
+const addTime = (
+  stats: TrackingTimeStats,
+  event: TrackingStateChangeEvent,
+  elapsed: number,
+): TrackingTimeStats => {
+  const next = { ...stats, [event.state]: stats[event.state] + elapsed };
+  if (event.state === 'limited') {
+    const reason = event.reason ?? 'unknown';
+    next.limitedByReason = {
+      ...stats.limitedByReason,
+      [reason]: (stats.limitedByReason[reason] ?? 0) + elapsed,
+    };
+  }
+  return next;
+};
+
+/**
+ * Close the current state and enter a new one
+ */
+export const recordTrackingChange = (
+  timeline: TrackingTimeline,
+  event: TrackingStateChangeEvent,
+  now: number,
+): TrackingTimeline => ({
+  current: event,
+  since: now,
+  stats: addTime(
+    timeline.stats,
+    timeline.current,
+    Math.max(now - timeline.since, 0),
+  ),
+});
+
+/**
+ * Totals including time spent so far in the current state
+ */
+export const trackingTimeStats = (
+  timeline: TrackingTimeline,
+  now: number,
+): TrackingTimeStats =>
+  addTime(timeline.stats, timeline.current, Math.max(now - timeline.since, 0));
+
+export interface TrackingCoaching {
+  title: string;
+  instruction: string;
+}
+
+/**
+ * What to tell the user for each reason tracking is limited or lost
+ */
+export const TRACKING_COACHING: Record<
+  ARTrackingReason | 'notAvailable',
+  TrackingCoaching
+> = {
+  initializing: {
+    title: 'Getting ready',
+    instruction: 'Move the device slowly from side to side',
+  },
+  relocalizing: {
+    title: 'Finding your place',
+    instruction: 'Return to where you were when tracking was lost',
+  },
+  excessiveMotion: {
+    title: 'Slow down',
+    instruction: 'Move the camera more slowly around the object',
+  },
+  insufficientFeatures: {
+    title: 'Add texture or light',
+    instruction: 'Point at a detailed, well-lit surface',
+  },
+  insufficientLight: {
+    title: 'Too dark',
+    instruction: 'Turn on more lights or move somewhere brighter',
+  },
+  cameraUnavailable: {
+    title: 'Camera unavailable',
+    instruction: 'Close other apps that are using the camera',
+  },
+  unknown: {
+    title: 'Tracking limited',
+    instruction: 'Hold steady and keep the object in view',
+  },
+  notAvailable: {
+    title: 'Tracking lost',
+    instruction: 'Point back at the area you were scanning',
+  },
+};
+
+/**
+ * Coaching for the current state, or null while tracking is normal
+ */
+export const coachingFor = (
+  event: TrackingStateChangeEvent,
+): TrackingCoaching | null => {
+  if (!isTrackingLimited(event)) {
+    return null;
+  }
+  return event.state === 'notAvailable'
+    ? TRACKING_COACHING.notAvailable
+    : TRACKING_COACHING[event.reason ?? 'unknown'];
+};
+
+const STATE_LABELS: Record<ARTrackingState, string> = {
+  normal: 'normal',
+  limited: 'limited',
+  notAvailable: 'lost',
+};
+
+const REASON_LABELS: Record<ARTrackingReason, string> = {
+  initializing: 'starting up',
+  relocalizing: 'relocalizing',
+  excessiveMotion: 'moving too fast',
+  insufficientFeatures: 'too little detail',
+  insufficientLight: 'too dark',
+  cameraUnavailable: 'camera unavailable',
+  unknown: 'other',
+};
+
+const formatSeconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+
+/**
+ * Short human-readable description of the stats
+ */
+export const formatTrackingSummary = (stats: TrackingTimeStats): string => {
+  const states = (['normal', 'limited', 'notAvailable'] as ARTrackingState[])
+    .filter(state => state === 'normal' || stats[state] >= 500)
+    .map(state => {
+      const label = `${formatSeconds(stats[state])} ${STATE_LABELS[state]}`;
+      if (state !== 'limited') {
+        return label;
+      }
+      const reasons = (Object.keys(REASON_LABELS) as ARTrackingReason[])
+        .filter(reason => (stats.limitedByReason[reason] ?? 0) >= 500)
+        .map(
+          reason =>
+            `${formatSeconds(stats.limitedByReason[reason]!)} ${
+              REASON_LABELS[reason]
+            }`,
+        );
+      return reasons.length > 0 ? `${label} (${reasons.join(', ')})` : label;
+    });
+  return `Tracking: ${states.join(', ')}`;
+};
@@ -0,0 +1,141 @@
+import { Alert, Linking } from 'react-native';
+import { ARErrorCode, toARError } from '../native/ARError';
+
+/**
+ * What the user can do about a failure. openSettings works anywhere; the
+ * others need a handler from the screen showing the alert.
+ */
+export type ARErrorRecovery =
+  | 'goBack'
+  | 'openSettings'
+  | 'retry'
+  | 'newCapture'
+  | 'useServer'
+  | 'manageScans';
+
+export interface ARErrorGuidance {
+  /** Null to use the caller's title */
+  title: string | null;
+  /** Explanation shown instead of the raw native message */
+  hint: string | null;
+  recovery: ARErrorRecovery | null;
+  actionLabel: string;
+}
+
+export const AR_ERROR_GUIDANCE: Record<ARErrorCode, ARErrorGuidance> = {
+  NOT_LINKED: {
+    title: 'AR Module Missing',
+    hint: 'This build does not include the AR module. Rebuild the app after installing its native dependencies.',
+    recovery: 'goBack',
+    actionLabel: 'Go Back',
+  },
+  AR_UNSUPPORTED: {
+    title: 'AR Not Supported',
+    hint: 'This device cannot run an AR session, or ARCore needs to be installed or updated.',
+    recovery: 'goBack',
+    actionLabel: 'Go Back',
+  },
+  CAMERA_PERMISSION_DENIED: {
+    title: 'Camera Access Needed',
+    hint: 'Allow camera access in Settings to capture images.',
+    recovery: 'openSettings',
+    actionLabel: 'Open Settings',
+  },
+  SESSION_FAILED: {
+    title: 'AR Session Failed',
+    hint: 'The AR session could not run. Make sure no other app is using the camera.',
+    recovery: 'retry',
+    actionLabel: 'Try Again',
+  },
+  NO_ACTIVE_CAPTURE: {
+    title: 'No Capture',
+    hint: 'There is no capture to work with. Start a new one first.',
+    recovery: 'newCapture',
+    actionLabel: 'Start Capture',
+  },
+  INSUFFICIENT_IMAGES: {
+    title: 'Not Enough Images',
+    hint: 'Reconstruction needs more photos. Capture again, circling the whole object.',
+    recovery: 'newCapture',
+    actionLabel: 'Capture Again',
+  },
+  PHOTOGRAMMETRY_UNSUPPORTED: {
+    title: 'Processing Not Available',
+    hint: "This device can't build 3D models itself. Set up a reconstruction server to process captures.",
+    recovery: 'useServer',
+    actionLabel: 'Set Up Server',
+  },
+  PROCESSING_CANCELLED: {
+    title: 'Processing Cancelled',
+    hint: 'Processing stopped before the model was finished.',
+    recovery: 'retry',
+    actionLabel: 'Process Again',
+  },
+  STORAGE_FULL: {
+    title: 'Storage Full',
+    hint: 'The device is out of space. Delete old scans to make room.',
+    recovery: 'manageScans',
+    actionLabel: 'Manage Scans',
+  },
+  UNKNOWN: {
+    title: null,
+    hint: null,
+    recovery: 'retry',
+    actionLabel: 'Try Again',
+  },
+};
+
+/**
+ * Guidance for one failure, with the caller's fallbacks filled in
+ */
+export interface RecoveryGuidance {
+  title: string;
+  message: string;
+  recovery: ARErrorRecovery | null;
+  actionLabel: string;
+}
+
+/**
+ * What to tell the user about a failure, for screens that show it in place
+ * rather than in an alert
+ * @param fallback Title and message for failures with no specific cause
+ */
+export const getRecoveryGuidance = (
+  error: unknown,
+  fallback: { title: string; message: string },
+): RecoveryGuidance => {
+  const arError = toARError(error);
+  const { title, hint, recovery, actionLabel } =
+    AR_ERROR_GUIDANCE[arError.code];
+  return {
+    title: title ?? fallback.title,
+    message: hint ?? (arError.message || fallback.message),
+    recovery,
+    actionLabel,
+  };
+};
+
+/**
+ * Explain a failure and offer its recovery action when the caller can perform it
+ * @param fallback Title and message for failures with no specific cause
+ * @param handlers Recovery actions this screen supports
+ */
+export const showARErrorAlert = (
+  error: unknown,
+  fallback: { title: string; message: string },
+  handlers: Partial<Record<ARErrorRecovery, () => void>> = {},
+) => {
+  const { title, message, recovery, actionLabel } = getRecoveryGuidance(
+    error,
+    fallback,
+  );
+  const handler =
+    recovery === 'openSettings'
+      ? handlers.openSettings ?? (() => Linking.openSettings())
+      : recovery && handlers[recovery];
+
+  Alert.alert(title, message, [
+    { text: handler ? 'Cancel' : 'OK', style: 'cancel' },
+    ...(handler ? [{ text: actionLabel, onPress: handler }] : []),
+  ]);
+};
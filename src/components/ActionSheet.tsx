@@ -0,0 +1,141 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+} from 'react-native';
+
+export type ActionSheetAction = {
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+};
+
+/**
+ * What an ActionSheet shows
+ */
+export type ActionSheetContent = {
+  title: string;
+  message?: string;
+  actions: ActionSheetAction[];
+  /** Label of the button that only closes the sheet */
+  cancelLabel?: string;
+};
+
+type ActionSheetProps = {
+  /** Null hides the sheet */
+  content: ActionSheetContent | null;
+  onClose: () => void;
+};
+
+/**
+ * Bottom sheet listing any number of actions
+ *
+ * Used where a choice can have more buttons than Android's Alert.alert shows,
+ * which is three. Choosing an action closes the sheet first, so the action
+ * can open another sheet in its place.
+ */
+export const ActionSheet: React.FC<ActionSheetProps> = ({
+  content,
+  onClose,
+}) => (
+  <Modal
+    visible={!!content}
+    transparent
+    animationType="slide"
+    onRequestClose={onClose}
+  >
+    {content ? (
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{content.title}</Text>
+          {content.message ? (
+            <ScrollView style={styles.messageBox}>
+              <Text style={styles.message}>{content.message}</Text>
+            </ScrollView>
+          ) : null}
+          {content.actions.map(action => (
+            <TouchableOpacity
+              key={action.label}
+              style={styles.action}
+              onPress={() => {
+                onClose();
+                action.onPress();
+              }}
+            >
+              <Text
+                style={[
+                  styles.actionText,
+                  action.destructive && styles.destructiveText,
+                ]}
+              >
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelText}>
+              {content.cancelLabel ?? 'Cancel'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    ) : null}
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    padding: 20,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  messageBox: {
+    maxHeight: 200,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666',
+  },
+  action: {
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  actionText: {
+    fontSize: 17,
+    color: '#007AFF',
+    textAlign: 'center',
+  },
+  destructiveText: {
+    color: '#F44336',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,92 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CAPTURE_PRESETS, CapturePresetName } from '../capture/captureOptions';
+
+type CapturePresetPickerProps = {
+  /** Selected preset, or null for the default capture options */
+  value: CapturePresetName | null;
+  onChange: (preset: CapturePresetName | null) => void;
+};
+
+const OPTIONS: { name: CapturePresetName | null; label: string }[] = [
+  { name: null, label: 'Default' },
+  ...(Object.keys(CAPTURE_PRESETS) as CapturePresetName[]).map(name => ({
+    name,
+    label: CAPTURE_PRESETS[name].label,
+  })),
+];
+
+/**
+ * Row of chips for choosing a capture preset before starting
+ */
+export const CapturePresetPicker: React.FC<CapturePresetPickerProps> = ({
+  value,
+  onChange,
+}) => {
+  const description = value
+    ? CAPTURE_PRESETS[value].description
+    : 'Every 0.5 s until you stop';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chips}>
+        {OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, option.name === value && styles.chipSelected]}
+            onPress={() => onChange(option.name)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                option.name === value && styles.chipTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.description}>{description}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    margin: 4,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderWidth: 1,
+    borderColor: '#00BCD4',
+  },
+  chipSelected: {
+    backgroundColor: '#00BCD4',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#00BCD4',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  description: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#fff',
+    textShadowColor: '#000',
+    textShadowRadius: 2,
+  },
+});
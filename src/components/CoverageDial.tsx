@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import {
+  CoverageCell,
+  CoverageReport,
+  DEFAULT_COVERAGE_OPTIONS,
+} from '../capture/coverage';
+
+type CoverageDialProps = {
+  report: CoverageReport | null;
+  nextCell: CoverageCell | null;
+  /** Coverage target (0-1) shown under the percentage */
+  target?: number;
+  size?: number;
+};
+
+const DOT_SIZE = 10;
+
+/**
+ * Hemisphere seen from above: one ring per elevation band, the top of the
+ * object in the middle and the lowest band outermost. Each dot is an azimuth
+ * sector that fills in once a frame has viewed the object from there.
+ */
+export const CoverageDial: React.FC<CoverageDialProps> = ({
+  report,
+  nextCell,
+  target,
+  size = 120,
+}) => {
+  const elevationBins =
+    report?.cells.length ?? DEFAULT_COVERAGE_OPTIONS.elevationBins;
+  const azimuthBins =
+    report?.cells[0]?.length ?? DEFAULT_COVERAGE_OPTIONS.azimuthBins;
+  const center = size / 2;
+  const ringSpacing = (center - DOT_SIZE) / elevationBins;
+
+  const dots = [];
+  for (let e = 0; e < elevationBins; e++) {
+    const radius = center - DOT_SIZE / 2 - e * ringSpacing;
+    for (let a = 0; a < azimuthBins; a++) {
+      const angle = ((a + 0.5) / azimuthBins) * 2 * Math.PI;
+      const cell = report?.cells[e][a];
+      const isNext =
+        nextCell?.elevationIndex === e && nextCell?.azimuthIndex === a;
+      dots.push(
+        <View
+          key={`${e}-${a}`}
+          style={[
+            styles.dot,
+            {
+              left: center + radius * Math.sin(angle) - DOT_SIZE / 2,
+              top: center - radius * Math.cos(angle) - DOT_SIZE / 2,
+            },
+            cell && cell.frames.length > 0 && styles.dotCovered,
+            isNext && styles.dotNext,
+          ]}
+        />,
+      );
+    }
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.dial, { width: size, height: size }]}>{dots}</View>
+      <View style={styles.legend}>
+        <Text style={styles.percentText}>
+          {report ? `${Math.round(report.coverage * 100)}%` : '--'}
+        </Text>
+        <Text style={styles.legendText}>covered</Text>
+        {target !== undefined && (
+          <Text style={styles.legendText}>
+            target {Math.round(target * 100)}%
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  dial: {
+    position: 'relative',
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  dotCovered: {
+    backgroundColor: '#00BCD4',
+  },
+  dotNext: {
+    backgroundColor: '#FFC107',
+    transform: [{ scale: 1.4 }],
+  },
+  legend: {
+    marginLeft: 20,
+  },
+  percentText: {
+    fontSize: 28,
+    color: '#fff',
+    fontWeight: '700',
+  },
+  legendText: {
+    fontSize: 13,
+    color: '#AAA',
+  },
+});
@@ -0,0 +1,50 @@
+import { Alert } from 'react-native';
+import {
+  discardInterruptedCapture,
+  InterruptedCapture,
+  saveCaptureJournal,
+} from '../capture/captureJournal';
+import { getCaptureTitle } from '../capture/captureLibrary';
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+
+/**
+ * Offer to resume a capture that was cut short, keep its images as they are,
+ * or delete it. Keeping or discarding clears the journal, so the capture is
+ * not offered again.
+ * @param onResume Continue the capture; the caller resumes it natively
+ */
+export const showInterruptedCaptureAlert = (
+  capture: InterruptedCapture,
+  onResume: () => void,
+  module: ARNativeModuleType = ARNativeModule,
+) => {
+  const { info } = capture;
+  Alert.alert(
+    'Capture Interrupted',
+    `${getCaptureTitle(info)} stopped after ${
+      info.imageCount
+    } images before it was finished. Resume it to add more images, keep the images as they are, or discard them.`,
+    [
+      {
+        text: 'Keep Images',
+        style: 'cancel',
+        onPress: () => {
+          saveCaptureJournal(null, module).catch(error =>
+            console.warn('Could not update the capture journal:', error),
+          );
+        },
+      },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: () => {
+          discardInterruptedCapture(capture, module).catch(error => {
+            console.error('Error discarding capture:', error);
+            Alert.alert('Error', 'Failed to discard the capture');
+          });
+        },
+      },
+      { text: 'Resume', onPress: onResume },
+    ],
+  );
+};
@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  formatDimensions,
+  formatMeasurement,
+  MEASUREMENT_UNITS,
+  MeasurementUnit,
+  MeshMeasurements,
+} from '../capture/meshMeasurements';
+
+type MeasurementPanelProps = {
+  measurements: MeshMeasurements;
+  unit: MeasurementUnit;
+  onUnitChange: (unit: MeasurementUnit) => void;
+  onClose: () => void;
+};
+
+const UNITS = Object.keys(MEASUREMENT_UNITS) as MeasurementUnit[];
+
+/**
+ * Size, area and volume of a scanned mesh, in a unit of the user's choosing
+ */
+export const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
+  measurements,
+  unit,
+  onUnitChange,
+  onClose,
+}) => {
+  const rows: [string, string][] = [
+    ['Fitted box (W × H × D)', formatDimensions(measurements.oriented, unit)],
+    [
+      'Axis-aligned (X × Y × Z)',
+      formatDimensions(measurements.axisAligned, unit),
+    ],
+    ['Surface area', formatMeasurement(measurements.surfaceArea, unit, 2)],
+    [
+      'Volume',
+      measurements.volume === null
+        ? 'Mesh is not closed'
+        : formatMeasurement(measurements.volume, unit, 3),
+    ],
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Measurements</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.close}>Close</Text>
+        </TouchableOpacity>
+      </View>
+      {rows.map(([label, value]) => (
+        <View key={label} style={styles.row}>
+          <Text style={styles.label}>{label}</Text>
+          <Text style={styles.value}>{value}</Text>
+        </View>
+      ))}
+      <View style={styles.units}>
+        {UNITS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, option === unit && styles.chipSelected]}
+            onPress={() => onUnitChange(option)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                option === unit && styles.chipTextSelected,
+              ]}
+            >
+              {MEASUREMENT_UNITS[option].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 60,
+    left: 20,
+    right: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    borderRadius: 12,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    color: '#fff',
+    fontWeight: '700',
+  },
+  close: {
+    fontSize: 14,
+    color: '#00BCD4',
+    fontWeight: '600',
+  },
+  row: {
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 12,
+    color: '#AAA',
+  },
+  value: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  units: {
+    flexDirection: 'row',
+    marginTop: 14,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginRight: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#00BCD4',
+  },
+  chipSelected: {
+    backgroundColor: '#00BCD4',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#00BCD4',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+});
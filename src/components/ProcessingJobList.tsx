@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ProcessingJob, isJobSettled } from '../processing/ProcessingQueue';
+import { formatJobStatus } from '../capture/captureLibrary';
+import { formatProcessingOptions } from '../processing/processingOptions';
+
+type ProcessingJobListProps = {
+  jobs: ProcessingJob[];
+  /** Display name for the capture a job belongs to */
+  getTitle: (job: ProcessingJob) => string;
+  onOpen: (job: ProcessingJob) => void;
+  onCancel: (job: ProcessingJob) => void;
+  onRetry: (job: ProcessingJob) => void;
+  onDismiss: (job: ProcessingJob) => void;
+};
+
+/**
+ * Processing queue summary, newest job first; renders nothing when empty
+ */
+export const ProcessingJobList: React.FC<ProcessingJobListProps> = ({
+  jobs,
+  getTitle,
+  onOpen,
+  onCancel,
+  onRetry,
+  onDismiss,
+}) => {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Processing</Text>
+      {[...jobs].reverse().map(job => {
+        const settled = isJobSettled(job);
+        const canRetry = job.status === 'failed' || job.status === 'cancelled';
+        return (
+          <TouchableOpacity
+            key={job.id}
+            style={styles.row}
+            onPress={() => onOpen(job)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.rowText}>
+              <Text style={styles.title} numberOfLines={1}>
+                {getTitle(job)}
+              </Text>
+              <Text
+                style={[styles.status, job.status === 'failed' && styles.error]}
+                numberOfLines={2}
+              >
+                {formatProcessingOptions(job.options)}
+                {job.provider === 'remote' ? ' · on server' : ''} ·{' '}
+                {formatJobStatus(job)}
+              </Text>
+            </View>
+            {!settled && (
+              <TouchableOpacity onPress={() => onCancel(job)}>
+                <Text style={[styles.action, styles.error]}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            {canRetry && (
+              <TouchableOpacity onPress={() => onRetry(job)}>
+                <Text style={styles.action}>Retry</Text>
+              </TouchableOpacity>
+            )}
+            {settled && (
+              <TouchableOpacity onPress={() => onDismiss(job)}>
+                <Text style={[styles.action, styles.dismiss]}>Dismiss</Text>
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  status: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  error: {
+    color: '#F44336',
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 12,
+  },
+  dismiss: {
+    color: '#999',
+  },
+});
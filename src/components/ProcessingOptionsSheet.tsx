@@ -0,0 +1,451 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Switch,
+  TextInput,
+  Alert,
+} from 'react-native';
+import {
+  FEATURE_SENSITIVITIES,
+  MODEL_FORMATS,
+  normalizeProcessingOptions,
+  PROCESSING_DETAILS,
+  ProcessingBounds,
+  ProcessingOptions,
+  SAMPLE_ORDERINGS,
+  Vector3,
+} from '../processing/processingOptions';
+import {
+  formatRegionSize,
+  RegionOfInterest,
+  regionBounds,
+} from '../capture/regionOfInterest';
+import {
+  CaptureSegment,
+  formatSegmentSummary,
+  GUIDED_PASSES,
+  GuidedPassId,
+} from '../capture/guidedCapture';
+import {
+  loadLastProcessingOptions,
+  saveLastProcessingOptions,
+} from '../processing/reconstructionSettings';
+
+type ProcessingOptionsSheetProps = {
+  visible: boolean;
+  /** Options to start from; the last-used options if omitted */
+  initialOptions?: ProcessingOptions;
+  /** Shown under the title, e.g. where the images will be processed */
+  message?: string;
+  /** Box placed around the object before capture; cropping starts from it */
+  region?: RegionOfInterest | null;
+  /** Passes of a guided capture, which can be processed one at a time */
+  segments?: CaptureSegment[];
+  /** Image indices still in the capture, to count each pass after frames were deleted */
+  frameIndices?: number[];
+  confirmLabel?: string;
+  /** Called with validated options, which are remembered for next time */
+  onConfirm: (options: ProcessingOptions) => void;
+  onCancel: () => void;
+};
+
+type ChipOption<T> = { value: T; label: string };
+
+const NO_SEGMENTS: CaptureSegment[] = [];
+
+// Crop box edge used when cropping is first switched on, in metres
+const DEFAULT_CROP_SIZE = 0.5;
+
+const AXES = ['Width', 'Height', 'Depth'];
+
+const boxSize = (bounds: ProcessingBounds) =>
+  bounds.min.map((low, axis) => String(+(bounds.max[axis] - low).toFixed(3)));
+
+const Chips = <T extends string>({
+  options,
+  selected,
+  onSelect,
+}: {
+  options: ChipOption<T>[];
+  selected: (value: T) => boolean;
+  onSelect: (value: T) => void;
+}) => (
+  <View style={styles.chips}>
+    {options.map(option => (
+      <TouchableOpacity
+        key={option.value}
+        style={[styles.chip, selected(option.value) && styles.chipSelected]}
+        onPress={() => onSelect(option.value)}
+      >
+        <Text
+          style={[
+            styles.chipText,
+            selected(option.value) && styles.chipTextSelected,
+          ]}
+        >
+          {option.label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+/**
+ * Bottom sheet for choosing how a capture is reconstructed
+ *
+ * The crop box is edited as a size around its centre, which is the model
+ * origin for a new box. A capture with a region of interest starts cropped
+ * to it, unless the starting options were given with a box of their own.
+ * A guided capture can be processed whole or one pass at a time.
+ */
+export const ProcessingOptionsSheet: React.FC<ProcessingOptionsSheetProps> = ({
+  visible,
+  initialOptions,
+  message,
+  region = null,
+  segments = NO_SEGMENTS,
+  frameIndices,
+  confirmLabel = 'Process',
+  onConfirm,
+  onCancel,
+}) => {
+  const [options, setOptions] = useState<ProcessingOptions | null>(null);
+  const [cropSize, setCropSize] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!visible) {
+      setOptions(null);
+      return;
+    }
+    let active = true;
+    const open = (initial: ProcessingOptions) => {
+      const cropped =
+        region && !initialOptions?.bounds
+          ? { ...initial, bounds: regionBounds(region) }
+          : initial;
+      // A pass this capture does not have falls back to every image
+      const start = segments.some(segment => segment.id === cropped.segment)
+        ? cropped
+        : { ...cropped, segment: null };
+      if (active) {
+        setOptions(start);
+        setCropSize(
+          start.bounds
+            ? boxSize(start.bounds)
+            : AXES.map(() => String(DEFAULT_CROP_SIZE)),
+        );
+      }
+    };
+    if (initialOptions) {
+      open(initialOptions);
+    } else {
+      loadLastProcessingOptions().then(open);
+    }
+    return () => {
+      active = false;
+    };
+  }, [visible, initialOptions, region, segments]);
+
+  if (!options) {
+    return null;
+  }
+
+  const update = (patch: Partial<ProcessingOptions>) =>
+    setOptions({ ...options, ...patch });
+
+  const toggleFormat = (format: ProcessingOptions['outputFormats'][number]) =>
+    update({
+      outputFormats: options.outputFormats.includes(format)
+        ? options.outputFormats.filter(other => other !== format)
+        : [...options.outputFormats, format],
+    });
+
+  // The box keeps its centre as its size changes
+  const croppedBounds = (): ProcessingBounds | null => {
+    if (!options.bounds) {
+      return null;
+    }
+    const { min, max } = options.bounds;
+    const centre = min.map((low, axis) => (low + max[axis]) / 2);
+    const half = cropSize.map(size => Number(size) / 2);
+    return {
+      min: centre.map((mid, axis) => mid - half[axis]) as Vector3,
+      max: centre.map((mid, axis) => mid + half[axis]) as Vector3,
+    };
+  };
+
+  const toggleCrop = (enabled: boolean) => {
+    const half = DEFAULT_CROP_SIZE / 2;
+    const bounds: ProcessingBounds | null = !enabled
+      ? null
+      : region
+      ? regionBounds(region)
+      : { min: [-half, -half, -half], max: [half, half, half] };
+    setCropSize(
+      bounds ? boxSize(bounds) : AXES.map(() => String(DEFAULT_CROP_SIZE)),
+    );
+    update({ bounds });
+  };
+
+  const confirm = () => {
+    let validated: ProcessingOptions;
+    try {
+      validated = normalizeProcessingOptions({
+        ...options,
+        bounds: croppedBounds(),
+      });
+    } catch (error) {
+      Alert.alert(
+        'Invalid Options',
+        error instanceof Error ? error.message : String(error),
+      );
+      return;
+    }
+    saveLastProcessingOptions(validated).catch(error =>
+      console.warn('Could not save processing options:', error),
+    );
+    onConfirm(validated);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Processing Options</Text>
+          {message ? <Text style={styles.message}>{message}</Text> : null}
+          <ScrollView style={styles.body}>
+            {segments.length > 0 ? (
+              <>
+                <Text style={styles.label}>Images</Text>
+                <Chips<GuidedPassId | 'all'>
+                  options={[
+                    { value: 'all', label: 'All passes' },
+                    ...segments.map(segment => ({
+                      value: segment.id,
+                      label: GUIDED_PASSES[segment.id].label,
+                    })),
+                  ]}
+                  selected={value => value === (options.segment ?? 'all')}
+                  onSelect={value =>
+                    update({ segment: value === 'all' ? null : value })
+                  }
+                />
+                <Text style={styles.hint}>
+                  {formatSegmentSummary(segments, frameIndices)}
+                </Text>
+              </>
+            ) : null}
+
+            <Text style={styles.label}>Detail</Text>
+            <Chips
+              options={PROCESSING_DETAILS.map(option => ({
+                value: option.detail,
+                label: option.label,
+              }))}
+              selected={value => value === options.detail}
+              onSelect={detail => update({ detail })}
+            />
+
+            <Text style={styles.label}>Image order</Text>
+            <Chips
+              options={SAMPLE_ORDERINGS}
+              selected={value => value === options.sampleOrdering}
+              onSelect={sampleOrdering => update({ sampleOrdering })}
+            />
+
+            <Text style={styles.label}>Feature sensitivity</Text>
+            <Chips
+              options={FEATURE_SENSITIVITIES}
+              selected={value => value === options.featureSensitivity}
+              onSelect={featureSensitivity => update({ featureSensitivity })}
+            />
+
+            <Text style={styles.label}>Formats</Text>
+            <Chips
+              options={MODEL_FORMATS}
+              selected={value => options.outputFormats.includes(value)}
+              onSelect={toggleFormat}
+            />
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Mask out background</Text>
+              <Switch
+                value={options.objectMasking}
+                onValueChange={objectMasking => update({ objectMasking })}
+              />
+            </View>
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Crop to box</Text>
+              <Switch value={!!options.bounds} onValueChange={toggleCrop} />
+            </View>
+            {region ? (
+              <Text style={styles.hint}>
+                Starts from the {formatRegionSize(region)} box placed before
+                capture
+              </Text>
+            ) : null}
+            {options.bounds ? (
+              <View style={styles.cropRow}>
+                {AXES.map((axis, index) => (
+                  <View key={axis} style={styles.cropField}>
+                    <Text style={styles.cropLabel}>{axis} (m)</Text>
+                    <TextInput
+                      style={styles.cropInput}
+                      value={cropSize[index]}
+                      onChangeText={text =>
+                        setCropSize(
+                          cropSize.map((size, other) =>
+                            other === index ? text : size,
+                          ),
+                        )
+                      }
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                ))}
+              </View>
+            ) : null}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={styles.button}
+            onPress={confirm}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.buttonText}>{confirmLabel}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    padding: 20,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  message: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  body: {
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  cropRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  cropField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  cropLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  cropInput: {
+    fontSize: 16,
+    color: '#333',
+    borderBottomWidth: 1,
+    borderBottomColor: '#007AFF',
+    paddingVertical: 4,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
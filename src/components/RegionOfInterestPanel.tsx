@@ -0,0 +1,153 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  formatRegionSize,
+  RegionOfInterest,
+  resizeRegion,
+  rotateRegion,
+} from '../capture/regionOfInterest';
+import { Vec3 } from '../capture/matrix';
+
+type RegionOfInterestPanelProps = {
+  /** Placed box, or null before one is placed */
+  region: RegionOfInterest | null;
+  /** Whether a surface has been found to place the box on */
+  canPlace: boolean;
+  onPlace: () => void;
+  onChange: (region: RegionOfInterest) => void;
+  onClear: () => void;
+};
+
+// Change per tap, in metres and degrees
+const SIZE_STEP = 0.05;
+const ROTATION_STEP = 15;
+
+const AXES = ['Width', 'Height', 'Depth'];
+
+/**
+ * Controls for placing a box around the object before capture, and for
+ * resizing and turning it once placed
+ */
+export const RegionOfInterestPanel: React.FC<RegionOfInterestPanelProps> = ({
+  region,
+  canPlace,
+  onPlace,
+  onChange,
+  onClear,
+}) => {
+  if (!region) {
+    return (
+      <View style={styles.container}>
+        <TouchableOpacity
+          style={[styles.chip, !canPlace && styles.chipDisabled]}
+          onPress={onPlace}
+          disabled={!canPlace}
+        >
+          <Text style={styles.chipText}>Place Box Around Object</Text>
+        </TouchableOpacity>
+        <Text style={styles.description}>
+          {canPlace
+            ? 'Optional: limits capture and the model to the box'
+            : 'Point at the surface the object stands on'}
+        </Text>
+      </View>
+    );
+  }
+
+  const resize = (axis: number, step: number) =>
+    onChange(
+      resizeRegion(
+        region,
+        region.size.map((side, other) =>
+          other === axis ? side + step : side,
+        ) as Vec3,
+      ),
+    );
+
+  return (
+    <View style={styles.container}>
+      {AXES.map((label, axis) => (
+        <View key={label} style={styles.row}>
+          <Text style={styles.rowLabel}>{label}</Text>
+          <TouchableOpacity
+            style={styles.stepper}
+            onPress={() => resize(axis, -SIZE_STEP)}
+          >
+            <Text style={styles.chipText}>−</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.stepper}
+            onPress={() => resize(axis, SIZE_STEP)}
+          >
+            <Text style={styles.chipText}>+</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={styles.chip}
+          onPress={() => onChange(rotateRegion(region, ROTATION_STEP))}
+        >
+          <Text style={styles.chipText}>Rotate {ROTATION_STEP}°</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.chip} onPress={onClear}>
+          <Text style={styles.chipText}>Remove Box</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.description}>Box: {formatRegionSize(region)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowLabel: {
+    width: 56,
+    fontSize: 13,
+    color: '#fff',
+    textShadowColor: '#000',
+    textShadowRadius: 2,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    margin: 4,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderWidth: 1,
+    borderColor: '#FF9800',
+  },
+  chipDisabled: {
+    opacity: 0.5,
+  },
+  stepper: {
+    width: 36,
+    paddingVertical: 4,
+    margin: 3,
+    alignItems: 'center',
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderWidth: 1,
+    borderColor: '#FF9800',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#FF9800',
+    fontWeight: '600',
+  },
+  description: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#fff',
+    textShadowColor: '#000',
+    textShadowRadius: 2,
+  },
+});
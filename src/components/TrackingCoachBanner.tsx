@@ -0,0 +1,61 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { coachingFor } from '../capture/trackingQuality';
+import type { TrackingStateChangeEvent } from '../native/ARView';
+
+type TrackingCoachBannerProps = {
+  tracking: TrackingStateChangeEvent | null;
+  /** Whether frame saving is paused until tracking recovers */
+  paused: boolean;
+};
+
+/**
+ * Tells the user how to get tracking back; renders nothing while it is normal
+ */
+export const TrackingCoachBanner: React.FC<TrackingCoachBannerProps> = ({
+  tracking,
+  paused,
+}) => {
+  const coaching = tracking && coachingFor(tracking);
+  if (!coaching) {
+    return null;
+  }
+
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.title}>{coaching.title}</Text>
+      <Text style={styles.instruction}>{coaching.instruction}</Text>
+      {paused && (
+        <Text style={styles.paused}>
+          Capture is paused until tracking recovers
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: 'rgba(255, 152, 0, 0.9)',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '700',
+  },
+  instruction: {
+    fontSize: 14,
+    color: '#fff',
+    marginTop: 2,
+  },
+  paused: {
+    fontSize: 12,
+    color: '#fff',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import {
+  ARNativeEventMap,
+  ARNativeEventName,
+  ARNativeModule,
+  ARNativeModuleType,
+  ARNativeSubscription,
+} from '../native/ARNativeModule';
+
+export type CaptureEventHandlers = {
+  [K in ARNativeEventName]?: (event: ARNativeEventMap[K]) => void;
+};
+
+const EVENT_NAMES: ARNativeEventName[] = [
+  'onCaptureStarted',
+  'onImageCaptured',
+  'onFrameRejected',
+  'onCaptureStopped',
+];
+
+/**
+ * Subscribe to native capture events for the lifetime of the calling component
+ *
+ * Handlers are read through a ref, so passing a new object on every render does
+ * not resubscribe. All subscriptions are removed on unmount.
+ */
+export const useCaptureEvents = (
+  handlers: CaptureEventHandlers,
+  module: ARNativeModuleType = ARNativeModule,
+) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const subscribe = <K extends ARNativeEventName>(eventName: K) =>
+      module.addEventListener(eventName, (event: ARNativeEventMap[K]) =>
+        handlersRef.current[eventName]?.(event),
+      );
+    const subscriptions: ARNativeSubscription[] = EVENT_NAMES.map(subscribe);
+
+    return () => {
+      subscriptions.forEach(subscription => subscription.remove());
+    };
+  }, [module]);
+};
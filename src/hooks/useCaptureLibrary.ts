@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ARNativeModule,
+  ARNativeModuleType,
+  CaptureInfo,
+} from '../native/ARNativeModule';
+
+export interface CaptureLibrary {
+  captures: CaptureInfo[];
+  loading: boolean;
+  error: Error | null;
+  /** Re-read the capture list from disk */
+  refresh: () => Promise<void>;
+  /** Delete a capture and drop it from the list */
+  remove: (directory: string) => Promise<void>;
+}
+
+/**
+ * List the captures stored on the device
+ * Loads on mount; call refresh when returning to the screen.
+ */
+export const useCaptureLibrary = (
+  module: ARNativeModuleType = ARNativeModule,
+): CaptureLibrary => {
+  const [captures, setCaptures] = useState<CaptureInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const list = await module.listCaptures();
+      if (mountedRef.current) {
+        setCaptures(list);
+        setError(null);
+      }
+    } catch (e) {
+      if (mountedRef.current) {
+        setError(e instanceof Error ? e : new Error(String(e)));
+      }
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [module]);
+
+  const remove = useCallback(
+    async (directory: string) => {
+      await module.deleteCapture(directory);
+      if (mountedRef.current) {
+        setCaptures(list =>
+          list.filter(capture => capture.directory !== directory),
+        );
+      }
+    },
+    [module],
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { captures, loading, error, refresh, remove };
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  CaptureSessionController,
+  CaptureSessionState,
+} from '../capture/CaptureSessionController';
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+
+/**
+ * Create a capture session controller bound to the calling component
+ * @returns The current session state and the controller driving it
+ */
+export const useCaptureSession = (
+  module: ARNativeModuleType = ARNativeModule,
+): [CaptureSessionState, CaptureSessionController] => {
+  const [controller] = useState(() => new CaptureSessionController(module));
+
+  useEffect(() => controller.attach(), [controller]);
+
+  const state = useSyncExternalStore(controller.subscribe, controller.getState);
+
+  return [state, controller];
+};
@@ -0,0 +1,115 @@
+import { useRef, useState } from 'react';
+import {
+  GuidedCaptureSequence,
+  GuidedCaptureState,
+  GuidedPass,
+  saveCaptureSegments,
+} from '../capture/guidedCapture';
+import { Vec3 } from '../capture/matrix';
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import { useCaptureEvents } from './useCaptureEvents';
+
+export interface GuidedCaptureHandlers {
+  /** Saving should stop (true) or resume (false), e.g. around the flip */
+  onHoldChange?: (held: boolean) => void;
+  /** Every pass has its frames */
+  onComplete?: (state: GuidedCaptureState) => void;
+}
+
+export interface GuidedCapture {
+  /** Sequence of the current or latest guided capture; null for a free capture */
+  state: GuidedCaptureState | null;
+  /** Latest state, for callbacks that run before the next render */
+  getState: () => GuidedCaptureState | null;
+  /** Guide the next capture through these passes; call before starting it */
+  prepare: (passes: GuidedPass[], center?: Vec3 | null) => void;
+  /** Capture freely next time */
+  clear: () => void;
+  confirmFlip: () => void;
+  skipPass: () => void;
+}
+
+const isHeld = (state: GuidedCaptureState) => state.status === 'waitingForFlip';
+
+/**
+ * Drive a guided capture from the frames it saves
+ *
+ * Segments are written to the capture directory whenever a pass ends and
+ * when the capture stops.
+ */
+export const useGuidedCapture = (
+  handlers: GuidedCaptureHandlers = {},
+  module: ARNativeModuleType = ARNativeModule,
+): GuidedCapture => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const sequenceRef = useRef<GuidedCaptureSequence | null>(null);
+  const directoryRef = useRef<string | null>(null);
+  const [state, setState] = useState<GuidedCaptureState | null>(null);
+
+  const saveSegments = (next: GuidedCaptureState) => {
+    const directory = directoryRef.current;
+    if (directory && next.segments.length > 0) {
+      saveCaptureSegments(directory, next.segments, module).catch(error =>
+        console.warn('Could not save capture segments:', error),
+      );
+    }
+  };
+
+  // Act on what changed between two states of the sequence
+  const apply = (previous: GuidedCaptureState, next: GuidedCaptureState) => {
+    setState(next);
+    if (next.passIndex !== previous.passIndex || next.status === 'complete') {
+      saveSegments(next);
+    }
+    if (isHeld(next) !== isHeld(previous)) {
+      handlersRef.current.onHoldChange?.(isHeld(next));
+    }
+    if (next.status === 'complete' && previous.status !== 'complete') {
+      handlersRef.current.onComplete?.(next);
+    }
+  };
+
+  const step = (change: (sequence: GuidedCaptureSequence) => void) => {
+    const sequence = sequenceRef.current;
+    if (sequence) {
+      const previous = sequence.getState();
+      change(sequence);
+      apply(previous, sequence.getState());
+    }
+  };
+
+  useCaptureEvents(
+    {
+      onCaptureStarted: event => {
+        directoryRef.current = event.directory;
+      },
+      onImageCaptured: event =>
+        step(sequence => sequence.addFrame(event.index, event.pose)),
+      onCaptureStopped: () => {
+        const sequence = sequenceRef.current;
+        if (sequence) {
+          saveSegments(sequence.getState());
+        }
+      },
+    },
+    module,
+  );
+
+  return {
+    state,
+    getState: () => sequenceRef.current?.getState() ?? null,
+    prepare: (passes, center = null) => {
+      const sequence = new GuidedCaptureSequence(passes, center);
+      sequenceRef.current = sequence;
+      directoryRef.current = null;
+      setState(sequence.getState());
+    },
+    clear: () => {
+      sequenceRef.current = null;
+      setState(null);
+    },
+    confirmFlip: () => step(sequence => sequence.confirmFlip()),
+    skipPass: () => step(sequence => sequence.skipPass()),
+  };
+};
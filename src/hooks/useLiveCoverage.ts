@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react';
+import {
+  analyzeCoverage,
+  CoverageCell,
+  CoverageOptions,
+  CoverageReport,
+  nextCellToCapture,
+} from '../capture/coverage';
+import { Matrix4 } from '../capture/matrix';
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import { useCaptureEvents } from './useCaptureEvents';
+
+// The object centre is unreliable until a few viewing rays converge
+const MIN_FRAMES_FOR_COVERAGE = 3;
+
+export interface LiveCoverageOptions {
+  /** Coverage (0-1) at which onTargetReached fires */
+  target?: number;
+  /** Called once per capture when coverage first reaches the target */
+  onTargetReached?: (report: CoverageReport) => void;
+  coverage?: Partial<CoverageOptions>;
+}
+
+export interface LiveCoverage {
+  report: CoverageReport | null;
+  /** Uncovered cell to guide the user towards */
+  nextCell: CoverageCell | null;
+}
+
+/**
+ * Track orbit coverage from frame poses as they are captured
+ * Resets whenever a new capture starts.
+ */
+export const useLiveCoverage = (
+  options: LiveCoverageOptions = {},
+  module: ARNativeModuleType = ARNativeModule,
+): LiveCoverage => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const posesRef = useRef<Matrix4[]>([]);
+  const targetReachedRef = useRef(false);
+  const [coverage, setCoverage] = useState<LiveCoverage>({
+    report: null,
+    nextCell: null,
+  });
+
+  useCaptureEvents(
+    {
+      onCaptureStarted: () => {
+        posesRef.current = [];
+        targetReachedRef.current = false;
+        setCoverage({ report: null, nextCell: null });
+      },
+      onImageCaptured: event => {
+        const poses = [...posesRef.current, event.pose];
+        posesRef.current = poses;
+        if (poses.length < MIN_FRAMES_FOR_COVERAGE) {
+          return;
+        }
+
+        const {
+          target,
+          onTargetReached,
+          coverage: coverageOptions,
+        } = optionsRef.current;
+        const report = analyzeCoverage(poses, coverageOptions);
+        setCoverage({
+          report,
+          nextCell: nextCellToCapture(report, event.pose, coverageOptions),
+        });
+
+        if (
+          target !== undefined &&
+          report.coverage >= target &&
+          !targetReachedRef.current
+        ) {
+          targetReachedRef.current = true;
+          onTargetReached?.(report);
+        }
+      },
+    },
+    module,
+  );
+
+  return coverage;
+};
@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+import {
+  ProcessingJob,
+  ProcessingQueue,
+  processingQueue,
+} from '../processing/ProcessingQueue';
+
+/**
+ * Observe the processing queue from any screen
+ * @returns Every job, oldest first, and the queue to act on them
+ */
+export const useProcessingJobs = (
+  queue: ProcessingQueue = processingQueue,
+): [ProcessingJob[], ProcessingQueue] => {
+  const jobs = useSyncExternalStore(queue.subscribe, queue.getJobs);
+
+  return [jobs, queue];
+};
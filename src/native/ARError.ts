@@ -0,0 +1,184 @@
+/**
+ * Stable causes for failures of the AR native bridge, for showing the right
+ * recovery and for counting failures by cause
+ */
+export type ARErrorCode =
+  | 'NOT_LINKED'
+  | 'AR_UNSUPPORTED'
+  | 'CAMERA_PERMISSION_DENIED'
+  | 'SESSION_FAILED'
+  | 'NO_ACTIVE_CAPTURE'
+  | 'INSUFFICIENT_IMAGES'
+  | 'PHOTOGRAMMETRY_UNSUPPORTED'
+  | 'PROCESSING_CANCELLED'
+  | 'STORAGE_FULL'
+  /** A native failure with no specific cause, e.g. an unreadable file */
+  | 'UNKNOWN';
+
+export const AR_ERROR_CODES: ARErrorCode[] = [
+  'NOT_LINKED',
+  'AR_UNSUPPORTED',
+  'CAMERA_PERMISSION_DENIED',
+  'SESSION_FAILED',
+  'NO_ACTIVE_CAPTURE',
+  'INSUFFICIENT_IMAGES',
+  'PHOTOGRAMMETRY_UNSUPPORTED',
+  'PROCESSING_CANCELLED',
+  'STORAGE_FULL',
+  'UNKNOWN',
+];
+
+/**
+ * Base class for every error the AR bridge rejects with
+ */
+export class ARError extends Error {
+  /**
+   * @param nativeCode Rejection code from the native module, kept for
+   * diagnostics; null for errors raised in TypeScript
+   */
+  constructor(
+    readonly code: ARErrorCode,
+    message: string,
+    readonly nativeCode: string | null = null,
+  ) {
+    super(message);
+    this.name = 'ARError';
+  }
+}
+
+/**
+ * The device or app cannot do what was asked
+ */
+export class ARAvailabilityError extends ARError {
+  constructor(
+    code:
+      | 'NOT_LINKED'
+      | 'AR_UNSUPPORTED'
+      | 'CAMERA_PERMISSION_DENIED'
+      | 'PHOTOGRAMMETRY_UNSUPPORTED',
+    message: string,
+    nativeCode: string | null = null,
+  ) {
+    super(code, message, nativeCode);
+    this.name = 'ARAvailabilityError';
+  }
+}
+
+/**
+ * The AR session or capture is not in a usable state
+ */
+export class ARSessionError extends ARError {
+  constructor(
+    code: 'SESSION_FAILED' | 'NO_ACTIVE_CAPTURE',
+    message: string,
+    nativeCode: string | null = null,
+  ) {
+    super(code, message, nativeCode);
+    this.name = 'ARSessionError';
+  }
+}
+
+/**
+ * Reconstruction could not produce a model
+ */
+export class ARProcessingError extends ARError {
+  constructor(
+    code: 'INSUFFICIENT_IMAGES' | 'PROCESSING_CANCELLED',
+    message: string,
+    nativeCode: string | null = null,
+  ) {
+    super(code, message, nativeCode);
+    this.name = 'ARProcessingError';
+  }
+}
+
+/**
+ * The device ran out of space while writing
+ */
+export class ARStorageError extends ARError {
+  constructor(message: string, nativeCode: string | null = null) {
+    super('STORAGE_FULL', message, nativeCode);
+    this.name = 'ARStorageError';
+  }
+}
+
+/**
+ * Create the error class that matches a code
+ */
+export const createARError = (
+  code: ARErrorCode,
+  message: string,
+  nativeCode: string | null = null,
+): ARError => {
+  switch (code) {
+    case 'NOT_LINKED':
+    case 'AR_UNSUPPORTED':
+    case 'CAMERA_PERMISSION_DENIED':
+    case 'PHOTOGRAMMETRY_UNSUPPORTED':
+      return new ARAvailabilityError(code, message, nativeCode);
+    case 'SESSION_FAILED':
+    case 'NO_ACTIVE_CAPTURE':
+      return new ARSessionError(code, message, nativeCode);
+    case 'INSUFFICIENT_IMAGES':
+    case 'PROCESSING_CANCELLED':
+      return new ARProcessingError(code, message, nativeCode);
+    case 'STORAGE_FULL':
+      return new ARStorageError(message, nativeCode);
+    case 'UNKNOWN':
+      return new ARError(code, message, nativeCode);
+  }
+};
+
+/**
+ * Rejection codes used by the iOS and Android modules and the AR view
+ */
+const NATIVE_CODES: Record<string, ARErrorCode> = {
+  AR_NOT_SUPPORTED: 'AR_UNSUPPORTED',
+  AR_UNAVAILABLE: 'AR_UNSUPPORTED',
+  AR_UNSUPPORTED: 'AR_UNSUPPORTED',
+  ARCORE_NOT_INSTALLED: 'AR_UNSUPPORTED',
+  CAMERA_PERMISSION_DENIED: 'CAMERA_PERMISSION_DENIED',
+  AR_VIEW_NOT_FOUND: 'SESSION_FAILED',
+  NO_ACTIVITY: 'SESSION_FAILED',
+  SESSION_FAILED: 'SESSION_FAILED',
+  START_SESSION_FAILED: 'SESSION_FAILED',
+  STOP_SESSION_FAILED: 'SESSION_FAILED',
+  START_SCAN_FAILED: 'SESSION_FAILED',
+  START_SCAN_ERROR: 'SESSION_FAILED',
+  STOP_SCAN_ERROR: 'SESSION_FAILED',
+  NO_ACTIVE_CAPTURE: 'NO_ACTIVE_CAPTURE',
+  INSUFFICIENT_IMAGES: 'INSUFFICIENT_IMAGES',
+  PHOTOGRAMMETRY_NOT_SUPPORTED: 'PHOTOGRAMMETRY_UNSUPPORTED',
+  // Android has no on-device reconstruction
+  NOT_IMPLEMENTED: 'PHOTOGRAMMETRY_UNSUPPORTED',
+  PROCESSING_CANCELLED: 'PROCESSING_CANCELLED',
+  STORAGE_FULL: 'STORAGE_FULL',
+};
+
+// Out-of-space failures that surface with a generic code
+const STORAGE_FULL_MESSAGE =
+  /ENOSPC|no space left|out of space|not enough space/i;
+
+/**
+ * Map a native promise rejection, or anything else thrown, onto an ARError
+ * ARErrors pass through unchanged.
+ */
+export const toARError = (error: unknown): ARError => {
+  if (error instanceof ARError) {
+    return error;
+  }
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+  };
+  const nativeCode = typeof code === 'string' ? code : null;
+  const text = typeof message === 'string' && message ? message : String(error);
+
+  const mapped =
+    (nativeCode && NATIVE_CODES[nativeCode]) ||
+    (STORAGE_FULL_MESSAGE.test(text) ? 'STORAGE_FULL' : 'UNKNOWN');
+  return createARError(mapped, text, nativeCode);
+};
+
+export const isARError = (error: unknown, code?: ARErrorCode) =>
+  error instanceof ARError && (code === undefined || error.code === code);
@@ -1,4 +1,20 @@
-import { NativeModules, Platform } from 'react-native';
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+import {
+  CaptureOptions,
+  normalizeCaptureOptions,
+  toNativeCaptureOptions,
+} from '../capture/captureOptions';
+import {
+  FrameQualityStats,
+  FrameRejectionReason,
+} from '../capture/frameQuality';
+import {
+  normalizeProcessingOptions,
+  ProcessingOptions,
+} from '../processing/processingOptions';
+import type { ProcessingStage } from '../processing/processingProgress';
+import { createARError, toARError } from './ARError';
 
 const LINKING_ERROR =
   `The package 'ARNativeModule' doesn't seem to be linked. Make sure: \n\n` +
@@ -6,6 +22,235 @@ const LINKING_ERROR =
   '- You rebuilt the app after installing the package\n' +
   '- You are not using Expo Go\n';
 
+/**
+ * Emitted once the native side has created the capture directory
+ */
+export interface CaptureStartedEvent {
+  directory: string;
+}
+
+/**
+ * Emitted every time a frame has been written to the capture directory
+ */
+export interface ImageCapturedEvent {
+  /** Zero-based frame index, matching image_NNNN.jpg */
+  index: number;
+  /** Absolute path of the saved JPEG */
+  path: string;
+  /** Camera-to-world transform as 4 columns of 4 (ARKit convention) */
+  pose: number[][];
+  /** Frame timestamp in seconds */
+  timestamp: number;
+}
+
+/**
+ * Emitted when a candidate frame is skipped by the frame-quality filter
+ */
+export interface FrameRejectedEvent {
+  reason: FrameRejectionReason;
+  /** Frame timestamp in seconds */
+  timestamp: number;
+  /** Exposure time in seconds, where the platform reports it */
+  exposureDuration?: number;
+  trackingState?: string;
+}
+
+/**
+ * Emitted when capture stops, including when the AR view is torn down mid-capture
+ */
+export interface CaptureStoppedEvent {
+  directory: string;
+  imageCount: number;
+  frameStats?: FrameQualityStats;
+}
+
+/**
+ * Emitted as a processPhotogrammetry job moves through its stages
+ */
+export interface ProcessingProgressEvent {
+  /** The jobId passed to processPhotogrammetry */
+  jobId: string;
+  stage: ProcessingStage;
+  /** Overall progress, 0-1 */
+  progress: number;
+  status: string;
+}
+
+/**
+ * Native events keyed by name
+ */
+export interface ARNativeEventMap {
+  onCaptureStarted: CaptureStartedEvent;
+  onImageCaptured: ImageCapturedEvent;
+  onFrameRejected: FrameRejectedEvent;
+  onCaptureStopped: CaptureStoppedEvent;
+  onProcessingProgress: ProcessingProgressEvent;
+}
+
+export type ARNativeEventName = keyof ARNativeEventMap;
+
+/**
+ * Listeners for each event, for modules that emit events themselves
+ */
+export type ARNativeEventListeners = {
+  [K in ARNativeEventName]: Set<(event: ARNativeEventMap[K]) => void>;
+};
+
+/**
+ * An empty set of listeners for every event
+ */
+export const createEventListeners = (): ARNativeEventListeners => ({
+  onCaptureStarted: new Set(),
+  onImageCaptured: new Set(),
+  onFrameRejected: new Set(),
+  onCaptureStopped: new Set(),
+  onProcessingProgress: new Set(),
+});
+
+export interface ARNativeSubscription {
+  remove(): void;
+}
+
+/**
+ * Data returned by stopObjectScan
+ */
+export interface ObjectScanResult {
+  vertices: number[][];
+  faces: number[][];
+  vertexCount: number;
+  faceCount: number;
+  meshCount: number;
+  boundingBox?: {
+    min: number[];
+    max: number[];
+  };
+  /** Directory holding the captured images (photogrammetry scans) */
+  directory?: string;
+  /** Number of captured images (photogrammetry scans) */
+  imageCount?: number;
+  /** Frame-quality filter decisions for the capture (photogrammetry scans) */
+  frameStats?: FrameQualityStats;
+  scanType?: string;
+}
+
+/**
+ * Data returned by resumeObjectScan
+ */
+export interface ResumedObjectScan {
+  directory: string;
+  /** Images already in the directory */
+  imageCount: number;
+  /**
+   * Index the next frame is saved under: one past the last image. Above
+   * imageCount when frames were deleted, and native counts include the gap.
+   */
+  nextIndex: number;
+  /** A world map saved with the capture was loaded, and tracking is relocalizing against it */
+  relocalizing: boolean;
+}
+
+/**
+ * Raw listing of a capture directory
+ */
+export interface CaptureManifest {
+  directory: string;
+  /** File names in the directory (not paths) */
+  files: string[];
+  /** Contents of each .json file, keyed by file name */
+  metadata: Record<string, string>;
+}
+
+/**
+ * A regular file directly inside a capture directory
+ */
+export interface CaptureFileInfo {
+  /** File name (not a path) */
+  name: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/**
+ * A model generated from a capture
+ */
+export interface CaptureModelInfo {
+  path: string;
+  detail: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  /** False if the model file has been removed outside the app */
+  exists: boolean;
+}
+
+/**
+ * Last processing attempt recorded for a capture
+ */
+export interface CaptureProcessingRecord {
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
+  detail: string;
+  /** Milliseconds since the epoch */
+  updatedAt: number;
+  error?: string;
+}
+
+/**
+ * Summary of a capture directory and what has been made from it
+ */
+export interface CaptureInfo {
+  directory: string;
+  /** User-given name, or null if never renamed */
+  name: string | null;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  imageCount: number;
+  sizeBytes: number;
+  models: CaptureModelInfo[];
+  processing: CaptureProcessingRecord | null;
+}
+
+/**
+ * How hot the device is running, as iOS reports it
+ * Android's thermal statuses are folded into the same four levels.
+ */
+export type ThermalState = 'nominal' | 'fair' | 'serious' | 'critical';
+
+/**
+ * A camera format the AR session can run at
+ */
+export interface CameraVideoFormat {
+  width: number;
+  height: number;
+  /** Highest frame rate at this size */
+  fps: number;
+}
+
+/**
+ * What this device can do for capture and processing
+ */
+export interface DeviceCapabilities {
+  platform: 'ios' | 'android';
+  /** e.g. "iPhone15,3" or "Pixel 8 Pro" */
+  model: string;
+  osVersion: string;
+  /** World tracking is available: ARKit, or ARCore, which may still need installing or updating */
+  arSupported: boolean;
+  /** A LiDAR scanner, or a time-of-flight sensor on Android */
+  lidar: boolean;
+  /** Depth maps can be saved with each image: ARKit scene depth or the ARCore Depth API */
+  depth: boolean;
+  /** A live scene mesh is built while capturing (ARKit scene reconstruction) */
+  sceneReconstruction: boolean;
+  /** Models can be built on the device (RealityKit PhotogrammetrySession) */
+  photogrammetry: boolean;
+  /** Formats the back camera can run the AR session at, largest first */
+  videoFormats: CameraVideoFormat[];
+  /** Space left for captures and models, in bytes */
+  freeStorageBytes: number;
+  totalStorageBytes: number;
+  /** null where the OS does not report it (Android before 10) */
+  thermalState: ThermalState | null;
+}
+
 export interface ARNativeModuleType {
   /**
    * Check if AR is supported on this device
@@ -13,6 +258,14 @@ export interface ARNativeModuleType {
    */
   isSupported(): Promise<boolean>;
 
+  /**
+   * Describe what this device can do, for choosing capture defaults and
+   * for diagnostics
+   * Storage and thermal state are read on every call.
+   * @returns Promise with the device's capabilities
+   */
+  getDeviceCapabilities(): Promise<DeviceCapabilities>;
+
   /**
    * Start an AR session with world tracking
    * @returns Promise that resolves when session starts successfully
@@ -28,25 +281,28 @@ export interface ARNativeModuleType {
 
   /**
    * Start object scanning
+   * @param options Capture options; unset fields use DEFAULT_CAPTURE_OPTIONS
    * @returns Promise that resolves when scanning starts
+   * @throws CaptureOptionsError if an option is out of range
    */
-  startObjectScan(): Promise<void>;
+  startObjectScan(options?: Partial<CaptureOptions>): Promise<void>;
 
   /**
    * Stop object scanning and get scan data
    * @returns Promise with scan data (vertices, faces, counts, etc.)
    */
-  stopObjectScan(): Promise<{
-    vertices: number[][];
-    faces: number[][];
-    vertexCount: number;
-    faceCount: number;
-    meshCount: number;
-    boundingBox?: {
-      min: number[];
-      max: number[];
-    };
-  }>;
+  stopObjectScan(): Promise<ObjectScanResult>;
+
+  /**
+   * Continue an interrupted capture, adding frames to its directory with the
+   * options it was started with
+   * Where a world map was saved with the capture (iOS), tracking relocalizes
+   * against it, so new poses share the earlier frames' coordinates.
+   * @param directory Capture directory path
+   * @returns Promise with the images already captured and whether tracking is relocalizing
+   * @throws Error if the directory holds no capture that can be resumed
+   */
+  resumeObjectScan(directory: string): Promise<ResumedObjectScan>;
 
   /**
    * Clear current scan
@@ -54,6 +310,12 @@ export interface ARNativeModuleType {
    */
   clearScan(): Promise<void>;
 
+  /**
+   * Stop or resume saving frames without ending the capture
+   * @param paused True to ignore frames until called again with false
+   */
+  setCapturePaused(paused: boolean): Promise<void>;
+
   /**
    * Check if photogrammetry is supported on this device
    * Requires Mac with 4GB+ GPU and ray tracing, or iOS device with LiDAR
@@ -64,18 +326,29 @@ export interface ARNativeModuleType {
   /**
    * Process captured images using RealityKit's PhotogrammetrySession
    * @param inputDirectory Path to directory containing captured images
-   * @param outputFilename Name for output USDZ file (without extension)
-   * @param detail Quality level - "reduced", "medium", "full", or "raw"
-   * @param progressCallback Callback for progress updates
-   * @returns Promise with path to generated USDZ file
+   * @param outputFilename Name for the model files (without extension)
+   * @param options Detail, formats and session settings; defaults fill the rest
+   * @param progressCallback Called with each onProcessingProgress event for this job
+   * @param jobId Key for cancelPhotogrammetry and progress events; defaults to outputFilename
+   * @returns Promise with path to the model in the first output format
+   * @throws ProcessingOptionsError before starting if the options are invalid
+   * @throws Error with code PROCESSING_CANCELLED if cancelled
    */
   processPhotogrammetry(
     inputDirectory: string,
     outputFilename: string,
-    detail: string,
-    progressCallback: (progress: { status: string; progress: number }[]) => void
+    options: Partial<ProcessingOptions>,
+    progressCallback: (progress: ProcessingProgress) => void,
+    jobId?: string,
   ): Promise<string>;
 
+  /**
+   * Cancel a running processPhotogrammetry call
+   * @param jobId The jobId passed to processPhotogrammetry
+   * @returns Promise resolving to false if no such job is running
+   */
+  cancelPhotogrammetry(jobId: string): Promise<boolean>;
+
   /**
    * Get the directory where photogrammetry images are being captured
    * @returns Promise with directory path or null
@@ -87,22 +360,303 @@ export interface ARNativeModuleType {
    * @returns Promise with image count
    */
   getPhotogrammetryImageCount(): Promise<number>;
+
+  /**
+   * List a capture directory and read its per-image metadata files
+   * @param directory Capture directory path
+   * @returns Promise with file names and raw metadata contents
+   */
+  readCaptureManifest(directory: string): Promise<CaptureManifest>;
+
+  /**
+   * Read a UTF-8 file in the app's documents directory
+   * @param path Absolute path inside the documents directory, or a path relative to it
+   * @returns Promise with the contents, or null if the file does not exist
+   */
+  readTextFile(path: string): Promise<string | null>;
+
+  /**
+   * Atomically write a UTF-8 file in the app's documents directory
+   * @param path Absolute path inside the documents directory, or a path relative to it
+   * @param contents File contents
+   */
+  writeTextFile(path: string, contents: string): Promise<void>;
+
+  /**
+   * Write a binary file in the app's documents directory, replacing it if it exists
+   * @param path Absolute path inside the documents directory, or a path relative to it
+   * @param data File contents, base64-encoded
+   */
+  writeBase64File(path: string, data: string): Promise<void>;
+
+  /**
+   * Read part of a file in the app's documents directory
+   * @param path Absolute path inside the documents directory, or a path relative to it
+   * @param offset Byte offset to start at
+   * @param length Maximum number of bytes to read
+   * @returns Promise with the bytes, base64-encoded; empty at end of file
+   */
+  readFileChunk(path: string, offset: number, length: number): Promise<string>;
+
+  /**
+   * Download a URL into the app's documents directory, replacing any existing file
+   * @param url http(s) URL to fetch
+   * @param path Destination inside the documents directory, or a path relative to it
+   * @returns Promise with the absolute path of the downloaded file
+   */
+  downloadFile(url: string, path: string): Promise<string>;
+
+  /**
+   * Describe every capture on the device
+   * @returns Promise with captures, newest first
+   */
+  listCaptures(): Promise<CaptureInfo[]>;
+
+  /**
+   * Describe one capture
+   * @param directory Capture directory path
+   * @returns Promise with image count, size, name, processing status and models
+   */
+  getCaptureInfo(directory: string): Promise<CaptureInfo>;
+
+  /**
+   * Set the display name of a capture
+   * @param directory Capture directory path
+   * @param name New name; an empty string clears it
+   */
+  renameCapture(directory: string, name: string): Promise<void>;
+
+  /**
+   * Delete a capture directory and every model generated from it
+   * @param directory Capture directory path
+   */
+  deleteCapture(directory: string): Promise<void>;
+
+  /**
+   * Delete frames from a capture: each image with its metadata and depth
+   * @param directory Capture directory path
+   * @param indices Image indices, as in image_NNNN.jpg
+   * @returns Promise with the number of frames that had files to delete
+   */
+  deleteCaptureFrames(directory: string, indices: number[]): Promise<number>;
+
+  /**
+   * List the files in a capture directory, for uploading it elsewhere
+   * @param directory Capture directory path
+   * @returns Promise with file names and sizes, sorted by name
+   */
+  listCaptureFiles(directory: string): Promise<CaptureFileInfo[]>;
+
+  /**
+   * Record a processing attempt that did not go through processPhotogrammetry
+   * @param directory Capture directory path
+   * @param record Status and detail; updatedAt is set natively
+   */
+  recordCaptureProcessing(
+    directory: string,
+    record: Omit<CaptureProcessingRecord, 'updatedAt'>,
+  ): Promise<void>;
+
+  /**
+   * Add a model produced outside processPhotogrammetry to a capture
+   * @param directory Capture directory path
+   * @param path Absolute path of the model file
+   * @param detail Detail level it was made at
+   */
+  recordCaptureModel(
+    directory: string,
+    path: string,
+    detail: string,
+  ): Promise<void>;
+
+  /**
+   * Ask for permission to show notifications, prompting the first time
+   * @returns Promise resolving to true if notifications may be shown
+   */
+  requestNotificationPermission(): Promise<boolean>;
+
+  /**
+   * Show a notification immediately, including while the app is in the background
+   * @param title Notification title
+   * @param body Notification text
+   * @returns Promise resolving to false if notifications are not permitted
+   */
+  showLocalNotification(title: string, body: string): Promise<boolean>;
+
+  /**
+   * Subscribe to a native capture event
+   * @param eventName Event to listen for
+   * @param listener Called with the typed event payload
+   * @returns Subscription to remove when no longer interested
+   */
+  addEventListener<K extends ARNativeEventName>(
+    eventName: K,
+    listener: (event: ARNativeEventMap[K]) => void,
+  ): ARNativeSubscription;
 }
 
-// Link to the native module
-const ARNativeModuleRaw = NativeModules.ARNativeModule
-  ? NativeModules.ARNativeModule
-  : new Proxy(
-      {},
-      {
-        get() {
-          throw new Error(LINKING_ERROR);
-        },
-      }
-    );
+// What each native method resolves with; the wrappers below check arguments
+type NativeMethods = {
+  [K in keyof ARNativeModuleType]: (
+    ...args: unknown[]
+  ) => ReturnType<ARNativeModuleType[K]>;
+};
+
+// Link to the native module. Every call rejects with an ARError: native
+// rejection codes are mapped onto ARErrorCode, and an unlinked module
+// rejects with NOT_LINKED when a method is called.
+const ARNativeModuleRaw = new Proxy(
+  {},
+  {
+    get:
+      (_target, name: string) =>
+      (...args: unknown[]) =>
+        new Promise(resolve => {
+          if (!NativeModules.ARNativeModule) {
+            throw createARError('NOT_LINKED', LINKING_ERROR);
+          }
+          resolve(NativeModules.ARNativeModule[name](...args));
+        }).catch(error => {
+          throw toARError(error);
+        }),
+  },
+) as NativeMethods;
+
+// Created on first subscription so an unlinked module only fails when used
+let eventEmitter: NativeEventEmitter | null = null;
+
+const getEventEmitter = (): NativeEventEmitter => {
+  if (!NativeModules.ARNativeModule) {
+    throw createARError('NOT_LINKED', LINKING_ERROR);
+  }
+  if (!eventEmitter) {
+    eventEmitter = new NativeEventEmitter(NativeModules.ARNativeModule);
+  }
+  return eventEmitter;
+};
 
 /**
  * Native AR Module
  * Provides unified interface for ARKit (iOS) and ARCore (Android)
+ * Methods reject with an ARError (see ./ARError) rather than the raw native error.
+ * Always talks to the platform; use ARNativeModule unless that is the point.
+ */
+export const NativeARNativeModule: ARNativeModuleType = {
+  isSupported: () => ARNativeModuleRaw.isSupported(),
+  getDeviceCapabilities: () => ARNativeModuleRaw.getDeviceCapabilities(),
+  startSession: () => ARNativeModuleRaw.startSession(),
+  stopSession: () => ARNativeModuleRaw.stopSession(),
+  startObjectScan: async options =>
+    ARNativeModuleRaw.startObjectScan(
+      toNativeCaptureOptions(normalizeCaptureOptions(options)),
+    ),
+  stopObjectScan: () => ARNativeModuleRaw.stopObjectScan(),
+  resumeObjectScan: directory => ARNativeModuleRaw.resumeObjectScan(directory),
+  clearScan: () => ARNativeModuleRaw.clearScan(),
+  setCapturePaused: (paused: boolean) =>
+    ARNativeModuleRaw.setCapturePaused(paused),
+  isPhotogrammetrySupported: () =>
+    ARNativeModuleRaw.isPhotogrammetrySupported(),
+  processPhotogrammetry: async (
+    inputDirectory,
+    outputFilename,
+    options,
+    progressCallback,
+    jobId = outputFilename,
+  ) => {
+    const normalized = normalizeProcessingOptions(options);
+    // Progress arrives as events: a native callback can only be invoked once
+    const subscription = getEventEmitter().addListener(
+      'onProcessingProgress',
+      (event: ProcessingProgressEvent) => {
+        if (event.jobId === jobId) {
+          progressCallback({
+            status: event.status,
+            progress: event.progress,
+            stage: event.stage,
+          });
+        }
+      },
+    );
+    try {
+      return await ARNativeModuleRaw.processPhotogrammetry(
+        inputDirectory,
+        outputFilename,
+        normalized,
+        jobId,
+      );
+    } finally {
+      subscription.remove();
+    }
+  },
+  cancelPhotogrammetry: jobId => ARNativeModuleRaw.cancelPhotogrammetry(jobId),
+  getPhotogrammetryCaptureDirectory: () =>
+    ARNativeModuleRaw.getPhotogrammetryCaptureDirectory(),
+  getPhotogrammetryImageCount: () =>
+    ARNativeModuleRaw.getPhotogrammetryImageCount(),
+  readCaptureManifest: directory =>
+    ARNativeModuleRaw.readCaptureManifest(directory),
+  readTextFile: path => ARNativeModuleRaw.readTextFile(path),
+  writeTextFile: (path, contents) =>
+    ARNativeModuleRaw.writeTextFile(path, contents),
+  writeBase64File: (path, data) =>
+    ARNativeModuleRaw.writeBase64File(path, data),
+  readFileChunk: (path, offset, length) =>
+    ARNativeModuleRaw.readFileChunk(path, offset, length),
+  downloadFile: (url, path) => ARNativeModuleRaw.downloadFile(url, path),
+  listCaptures: () => ARNativeModuleRaw.listCaptures(),
+  getCaptureInfo: directory => ARNativeModuleRaw.getCaptureInfo(directory),
+  renameCapture: (directory, name) =>
+    ARNativeModuleRaw.renameCapture(directory, name),
+  deleteCapture: directory => ARNativeModuleRaw.deleteCapture(directory),
+  deleteCaptureFrames: (directory, indices) =>
+    ARNativeModuleRaw.deleteCaptureFrames(directory, indices),
+  listCaptureFiles: directory => ARNativeModuleRaw.listCaptureFiles(directory),
+  recordCaptureProcessing: (directory, { status, detail, error }) =>
+    ARNativeModuleRaw.recordCaptureProcessing(
+      directory,
+      status,
+      detail,
+      error ?? null,
+    ),
+  recordCaptureModel: (directory, path, detail) =>
+    ARNativeModuleRaw.recordCaptureModel(directory, path, detail),
+  requestNotificationPermission: () =>
+    ARNativeModuleRaw.requestNotificationPermission(),
+  showLocalNotification: (title, body) =>
+    ARNativeModuleRaw.showLocalNotification(title, body),
+  addEventListener: (eventName, listener) =>
+    getEventEmitter().addListener(eventName, listener),
+};
+
+// Set by selectARNativeModule; null means the platform module
+let selectedModule: ARNativeModuleType | null = null;
+
+/**
+ * Route ARNativeModule to another implementation, e.g. a
+ * SimulatedARNativeModule in tests or on hardware without AR
+ * @param module Implementation to use, or null for the platform module
+ */
+export const selectARNativeModule = (module: ARNativeModuleType | null) => {
+  selectedModule = module;
+};
+
+export const getSelectedARNativeModule = (): ARNativeModuleType =>
+  selectedModule ?? NativeARNativeModule;
+
+/**
+ * The module the app uses: the platform module unless another was selected
+ * with selectARNativeModule. The choice is read on every call, so code that
+ * keeps a reference follows later selections; subscriptions stay with the
+ * implementation they were made on.
  */
-export const ARNativeModule: ARNativeModuleType = ARNativeModuleRaw;
+export const ARNativeModule: ARNativeModuleType = new Proxy(
+  {} as ARNativeModuleType,
+  {
+    get: (_target, name) => {
+      const module = getSelectedARNativeModule();
+      const value = module[name as keyof ARNativeModuleType];
+      return typeof value === 'function' ? value.bind(module) : value;
+    },
+  },
+);
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  NativeSyntheticEvent,
+  requireNativeComponent,
+  StyleProp,
+  StyleSheet,
+  Text,
+  View,
+  ViewStyle,
+} from 'react-native';
+import type { RegionOfInterest } from '../capture/regionOfInterest';
+import type { ImageCapturedEvent } from './ARNativeModule';
+import { getSelectedARNativeModule } from './ARNativeModule';
+
+/**
+ * ARKit camera tracking state; ARCore's TRACKING, PAUSED and STOPPED are
+ * reported as normal, limited and notAvailable
+ */
+export type ARTrackingState = 'normal' | 'limited' | 'notAvailable';
+
+/**
+ * Why tracking is limited. ARKit reports the first four; ARCore adds
+ * insufficientLight and cameraUnavailable.
+ */
+export type ARTrackingReason =
+  | 'initializing'
+  | 'relocalizing'
+  | 'excessiveMotion'
+  | 'insufficientFeatures'
+  | 'insufficientLight'
+  | 'cameraUnavailable'
+  | 'unknown';
+
+export interface TrackingStateChangeEvent {
+  state: ARTrackingState;
+  /** Set only while tracking is limited */
+  reason: ARTrackingReason | null;
+}
+
+/**
+ * Same payload as ARNativeModule's onImageCaptured, delivered to the view
+ */
+export type FrameCapturedEvent = ImageCapturedEvent;
+
+export interface PlaneDetectedEvent {
+  /** Anchor identifier, stable for the life of the session */
+  id: string;
+  alignment: 'horizontal' | 'vertical';
+  /** Plane centre in world coordinates, metres */
+  center: [number, number, number];
+  /** Estimated size along the plane's own x and z axes, metres */
+  extent: { width: number; length: number };
+}
+
+export interface SessionErrorEvent {
+  code: string;
+  message: string;
+}
+
+export interface ARViewProps {
+  style?: StyleProp<ViewStyle>;
+  /** Draw the tracked feature point cloud */
+  showFeaturePoints?: boolean;
+  /** Draw a translucent overlay on detected planes */
+  showPlaneOverlays?: boolean;
+  /** Draw a small camera frustum at each captured frame's pose */
+  showCaptureFrustums?: boolean;
+  /** Draw a wireframe box around the object, e.g. while it is being placed */
+  regionOfInterest?: RegionOfInterest | null;
+  /** Pause the AR session without tearing the view down */
+  sessionPaused?: boolean;
+  onTrackingStateChange?: (event: TrackingStateChangeEvent) => void;
+  onFrameCaptured?: (event: FrameCapturedEvent) => void;
+  onPlaneDetected?: (event: PlaneDetectedEvent) => void;
+  onSessionError?: (event: SessionErrorEvent) => void;
+}
+
+/**
+ * The event handlers of ARView
+ */
+export type ARViewHandlers = Pick<
+  ARViewProps,
+  | 'onTrackingStateChange'
+  | 'onFrameCaptured'
+  | 'onPlaneDetected'
+  | 'onSessionError'
+>;
+
+/**
+ * View events keyed by handler name
+ */
+export type ARViewEventMap = {
+  [K in keyof ARViewHandlers]-?: Parameters<NonNullable<ARViewHandlers[K]>>[0];
+};
+
+/**
+ * A module that produces the view's events itself, e.g. a simulator. While
+ * it is selected ARView shows a placeholder instead of the camera.
+ */
+export interface ARViewHost {
+  /** Shown in place of the camera */
+  viewLabel: string;
+  /**
+   * Connect a mounted view; it receives view events until the returned
+   * function is called
+   */
+  attachView(handlers: ARViewHandlers): () => void;
+}
+
+/**
+ * A module that sees the native view's events before the screen does
+ */
+export interface ARViewObserver {
+  /**
+   * @returns Handlers to give the native view in place of the screen's
+   */
+  observeView(handlers: ARViewHandlers): ARViewHandlers;
+}
+
+export const isARViewHost = (module: object): module is ARViewHost =>
+  typeof (module as Partial<ARViewHost>).attachView === 'function';
+
+const isARViewObserver = (module: object): module is ARViewObserver =>
+  typeof (module as Partial<ARViewObserver>).observeView === 'function';
+
+type NativeHandler<T> = (event: NativeSyntheticEvent<T>) => void;
+
+export interface ARViewNativeProps
+  extends Pick<
+    ARViewProps,
+    | 'style'
+    | 'showFeaturePoints'
+    | 'showPlaneOverlays'
+    | 'showCaptureFrustums'
+    | 'regionOfInterest'
+    | 'sessionPaused'
+  > {
+  onTrackingStateChange?: NativeHandler<TrackingStateChangeEvent>;
+  onFrameCaptured?: NativeHandler<FrameCapturedEvent>;
+  onPlaneDetected?: NativeHandler<PlaneDetectedEvent>;
+  onSessionError?: NativeHandler<SessionErrorEvent>;
+}
+
+export const ARViewNative = requireNativeComponent<ARViewNativeProps>('ARView');
+
+const unwrap = <T,>(
+  handler?: (event: T) => void,
+): NativeHandler<T> | undefined =>
+  handler && (event => handler(event.nativeEvent));
+
+/**
+ * Stand-in for the camera while an ARViewHost is selected; the host sends it
+ * the events the native view would
+ */
+const HostedARView: React.FC<ARViewProps & { host: ARViewHost }> = ({
+  host,
+  style,
+  ...handlers
+}) => {
+  // Handlers change every render; attaching again would end the capture
+  const latest = useRef(handlers);
+  latest.current = handlers;
+
+  useEffect(
+    () =>
+      host.attachView({
+        onTrackingStateChange: event =>
+          latest.current.onTrackingStateChange?.(event),
+        onFrameCaptured: event => latest.current.onFrameCaptured?.(event),
+        onPlaneDetected: event => latest.current.onPlaneDetected?.(event),
+        onSessionError: event => latest.current.onSessionError?.(event),
+      }),
+    [host],
+  );
+
+  return (
+    <View style={[styles.hosted, style]}>
+      <Text style={styles.hostedText}>{host.viewLabel}</Text>
+    </View>
+  );
+};
+
+/**
+ * Camera view with the AR session. Events arrive as plain payloads rather
+ * than native synthetic events.
+ */
+export const ARView: React.FC<ARViewProps> = props => {
+  const module = getSelectedARNativeModule();
+  if (isARViewHost(module)) {
+    return <HostedARView host={module} {...props} />;
+  }
+  return (
+    <NativeARView
+      {...props}
+      {...(isARViewObserver(module) ? module.observeView(props) : {})}
+    />
+  );
+};
+
+const NativeARView: React.FC<ARViewProps> = ({
+  style,
+  showFeaturePoints = false,
+  showPlaneOverlays = false,
+  showCaptureFrustums = false,
+  regionOfInterest = null,
+  sessionPaused = false,
+  onTrackingStateChange,
+  onFrameCaptured,
+  onPlaneDetected,
+  onSessionError,
+}) => (
+  <ARViewNative
+    style={style}
+    showFeaturePoints={showFeaturePoints}
+    showPlaneOverlays={showPlaneOverlays}
+    showCaptureFrustums={showCaptureFrustums}
+    regionOfInterest={regionOfInterest}
+    sessionPaused={sessionPaused}
+    onTrackingStateChange={unwrap(onTrackingStateChange)}
+    onFrameCaptured={unwrap(onFrameCaptured)}
+    onPlaneDetected={unwrap(onPlaneDetected)}
+    onSessionError={unwrap(onSessionError)}
+  />
+);
+
+const styles = StyleSheet.create({
+  hosted: {
+    backgroundColor: '#263238',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  hostedText: {
+    color: '#90A4AE',
+    fontSize: 14,
+  },
+});
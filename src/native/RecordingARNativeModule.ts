@@ -0,0 +1,309 @@
+import { Platform } from 'react-native';
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+import type { CaptureOptions } from '../capture/captureOptions';
+import type { ProcessingOptions } from '../processing/processingOptions';
+import { toARError } from './ARError';
+import {
+  ARNativeEventName,
+  ARNativeModuleType,
+  ARNativeSubscription,
+} from './ARNativeModule';
+import {
+  ARViewEventMap,
+  ARViewHandlers,
+  ARViewHost,
+  ARViewObserver,
+  isARViewHost,
+} from './ARView';
+import {
+  RECORDED_EVENTS,
+  RECORDED_VIEW_EVENTS,
+  RecordedCall,
+  RecordedEntry,
+  RecordedMethod,
+  RecordedModuleEvent,
+  RecordedViewEvent,
+  SESSION_RECORDING_VERSION,
+  SessionRecording,
+} from './sessionRecording';
+
+/**
+ * Passes every call through to another module while recording the session:
+ * session calls and how they settled, module events, and the AR view's
+ * events. Select it in place of the module it wraps; stop() returns the
+ * recording, which saveSessionRecording turns into a bundle.
+ */
+export class RecordingARNativeModule
+  implements ARNativeModuleType, ARViewObserver, Partial<ARViewHost>
+{
+  viewLabel?: string;
+  attachView?: (handlers: ARViewHandlers) => () => void;
+
+  private readonly startedAt: number;
+  private timeline: RecordedEntry[] = [];
+  private subscriptions: ARNativeSubscription[];
+  private recording = true;
+
+  /**
+   * @param now Clock in milliseconds, for tests
+   */
+  constructor(
+    readonly inner: ARNativeModuleType,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.startedAt = now();
+    this.subscriptions = RECORDED_EVENTS.map(name => this.recordEvents(name));
+    // A simulator still draws the view; watch what it sends
+    if (isARViewHost(inner)) {
+      this.viewLabel = inner.viewLabel;
+      this.attachView = handlers =>
+        inner.attachView(this.observeView(handlers));
+    }
+  }
+
+  isRecording = () => this.recording;
+
+  /**
+   * Stop recording; calls keep passing through
+   */
+  stop(): SessionRecording {
+    this.recording = false;
+    this.subscriptions.forEach(subscription => subscription.remove());
+    this.subscriptions = [];
+    return {
+      version: SESSION_RECORDING_VERSION,
+      platform: Platform.OS,
+      startedAt: this.startedAt,
+      duration: this.elapsed(),
+      documentsDirectory: null,
+      files: [],
+      // Copied: calls still running keep updating their entries
+      timeline: JSON.parse(JSON.stringify(this.timeline)),
+    };
+  }
+
+  observeView(handlers: ARViewHandlers): ARViewHandlers {
+    const observed: ARViewHandlers = {};
+    RECORDED_VIEW_EVENTS.forEach(name => {
+      observed[name] = this.observeViewEvent(name, handlers);
+    });
+    return observed;
+  }
+
+  isSupported = () =>
+    this.record('isSupported', [], () => this.inner.isSupported());
+
+  getDeviceCapabilities = () =>
+    this.record('getDeviceCapabilities', [], () =>
+      this.inner.getDeviceCapabilities(),
+    );
+
+  startSession = () =>
+    this.record('startSession', [], () => this.inner.startSession());
+
+  stopSession = () =>
+    this.record('stopSession', [], () => this.inner.stopSession());
+
+  startObjectScan = (options?: Partial<CaptureOptions>) =>
+    this.record('startObjectScan', [options ?? null], () =>
+      this.inner.startObjectScan(options),
+    );
+
+  stopObjectScan = () =>
+    this.record('stopObjectScan', [], () => this.inner.stopObjectScan());
+
+  resumeObjectScan = (directory: string) =>
+    this.record('resumeObjectScan', [directory], () =>
+      this.inner.resumeObjectScan(directory),
+    );
+
+  clearScan = () => this.record('clearScan', [], () => this.inner.clearScan());
+
+  setCapturePaused = (paused: boolean) =>
+    this.record('setCapturePaused', [paused], () =>
+      this.inner.setCapturePaused(paused),
+    );
+
+  isPhotogrammetrySupported = () =>
+    this.record('isPhotogrammetrySupported', [], () =>
+      this.inner.isPhotogrammetrySupported(),
+    );
+
+  processPhotogrammetry = (
+    inputDirectory: string,
+    outputFilename: string,
+    options: Partial<ProcessingOptions>,
+    progressCallback: (progress: ProcessingProgress) => void,
+    jobId?: string,
+  ) =>
+    this.record(
+      'processPhotogrammetry',
+      [inputDirectory, outputFilename, options, jobId ?? null],
+      call =>
+        this.inner.processPhotogrammetry(
+          inputDirectory,
+          outputFilename,
+          options,
+          progress => {
+            if (call) {
+              call.progress = [
+                ...(call.progress ?? []),
+                { at: this.elapsed() - call.at, progress },
+              ];
+            }
+            progressCallback(progress);
+          },
+          jobId,
+        ),
+    );
+
+  cancelPhotogrammetry = (jobId: string) =>
+    this.record('cancelPhotogrammetry', [jobId], () =>
+      this.inner.cancelPhotogrammetry(jobId),
+    );
+
+  getPhotogrammetryCaptureDirectory = () =>
+    this.record('getPhotogrammetryCaptureDirectory', [], () =>
+      this.inner.getPhotogrammetryCaptureDirectory(),
+    );
+
+  getPhotogrammetryImageCount = () =>
+    this.record('getPhotogrammetryImageCount', [], () =>
+      this.inner.getPhotogrammetryImageCount(),
+    );
+
+  readCaptureManifest: ARNativeModuleType['readCaptureManifest'] = directory =>
+    this.inner.readCaptureManifest(directory);
+
+  readTextFile: ARNativeModuleType['readTextFile'] = path =>
+    this.inner.readTextFile(path);
+
+  writeTextFile: ARNativeModuleType['writeTextFile'] = (path, contents) =>
+    this.inner.writeTextFile(path, contents);
+
+  writeBase64File: ARNativeModuleType['writeBase64File'] = (path, data) =>
+    this.inner.writeBase64File(path, data);
+
+  readFileChunk: ARNativeModuleType['readFileChunk'] = (path, offset, length) =>
+    this.inner.readFileChunk(path, offset, length);
+
+  downloadFile: ARNativeModuleType['downloadFile'] = (url, path) =>
+    this.inner.downloadFile(url, path);
+
+  listCaptures: ARNativeModuleType['listCaptures'] = () =>
+    this.inner.listCaptures();
+
+  getCaptureInfo: ARNativeModuleType['getCaptureInfo'] = directory =>
+    this.inner.getCaptureInfo(directory);
+
+  renameCapture: ARNativeModuleType['renameCapture'] = (directory, name) =>
+    this.inner.renameCapture(directory, name);
+
+  deleteCapture: ARNativeModuleType['deleteCapture'] = directory =>
+    this.inner.deleteCapture(directory);
+
+  deleteCaptureFrames: ARNativeModuleType['deleteCaptureFrames'] = (
+    directory,
+    indices,
+  ) => this.inner.deleteCaptureFrames(directory, indices);
+
+  listCaptureFiles: ARNativeModuleType['listCaptureFiles'] = directory =>
+    this.inner.listCaptureFiles(directory);
+
+  recordCaptureProcessing: ARNativeModuleType['recordCaptureProcessing'] = (
+    directory,
+    record,
+  ) => this.inner.recordCaptureProcessing(directory, record);
+
+  recordCaptureModel: ARNativeModuleType['recordCaptureModel'] = (
+    directory,
+    path,
+    detail,
+  ) => this.inner.recordCaptureModel(directory, path, detail);
+
+  requestNotificationPermission: ARNativeModuleType['requestNotificationPermission'] =
+    () => this.inner.requestNotificationPermission();
+
+  showLocalNotification: ARNativeModuleType['showLocalNotification'] = (
+    title,
+    body,
+  ) => this.inner.showLocalNotification(title, body);
+
+  addEventListener: ARNativeModuleType['addEventListener'] = (
+    eventName,
+    listener,
+  ) => this.inner.addEventListener(eventName, listener);
+
+  private elapsed() {
+    return this.now() - this.startedAt;
+  }
+
+  private recordEvents<K extends ARNativeEventName>(name: K) {
+    return this.inner.addEventListener(name, payload => {
+      const entry: RecordedModuleEvent<K> = {
+        type: 'event',
+        at: this.elapsed(),
+        name,
+        payload,
+      };
+      this.add(entry as RecordedModuleEvent);
+    });
+  }
+
+  private observeViewEvent<K extends keyof ARViewHandlers>(
+    name: K,
+    handlers: ARViewHandlers,
+  ) {
+    return (payload: ARViewEventMap[K]) => {
+      const entry: RecordedViewEvent<K> = {
+        type: 'view',
+        at: this.elapsed(),
+        name,
+        payload,
+      };
+      this.add(entry as RecordedViewEvent);
+      const handler = handlers[name] as
+        | ((event: ARViewEventMap[K]) => void)
+        | undefined;
+      handler?.(payload);
+    };
+  }
+
+  private add(entry: RecordedEntry) {
+    if (this.recording) {
+      this.timeline.push(entry);
+    }
+  }
+
+  /**
+   * Run a session call, noting its arguments and outcome
+   * @param run Receives the entry being recorded, or null when not recording
+   */
+  private async record<T>(
+    method: RecordedMethod,
+    args: unknown[],
+    run: (call: RecordedCall | null) => Promise<T>,
+  ): Promise<T> {
+    const call: RecordedCall | null = this.recording
+      ? { type: 'call', at: this.elapsed(), method, args, duration: null }
+      : null;
+    if (call) {
+      this.timeline.push(call);
+    }
+    try {
+      const result = await run(call);
+      if (call) {
+        call.duration = this.elapsed() - call.at;
+        call.result = result ?? null;
+      }
+      return result;
+    } catch (error) {
+      const { code, message, nativeCode } = toARError(error);
+      if (call) {
+        call.duration = this.elapsed() - call.at;
+        call.error = { code, message, nativeCode };
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,357 @@
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+import type { CaptureOptions } from '../capture/captureOptions';
+import type { ProcessingOptions } from '../processing/processingOptions';
+import { stageOf } from '../processing/processingProgress';
+import { createARError } from './ARError';
+import {
+  ARNativeEventListeners,
+  ARNativeEventMap,
+  ARNativeEventName,
+  ARNativeModuleType,
+  ARNativeSubscription,
+  createEventListeners,
+  DeviceCapabilities,
+  ObjectScanResult,
+  ResumedObjectScan,
+} from './ARNativeModule';
+import type { ARViewEventMap, ARViewHandlers, ARViewHost } from './ARView';
+import {
+  RecordedCall,
+  RecordedEntry,
+  RecordedMethod,
+  RecordedModuleEvent,
+  RecordedViewEvent,
+  SessionRecording,
+} from './sessionRecording';
+
+export interface ReplayOptions {
+  /**
+   * Playback rate: 1 for the recorded timing, higher to go faster, Infinity
+   * to deliver everything as soon as possible
+   */
+  speed: number;
+}
+
+interface ReplayJob {
+  jobId: string;
+  reject: (error: unknown) => void;
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+/**
+ * Plays a SessionRecording back through the module API, e.g. from a bundle
+ * restored with restoreSessionRecording.
+ *
+ * Each session call the app makes is answered with the next recorded call of
+ * the same method, after the recorded duration. The module and view events
+ * recorded after that call, up to the next recorded call, follow at their
+ * recorded offsets; events from before the first call play once a view
+ * attaches. The app is expected to make the calls it made while recording,
+ * in the same order; a call with nothing left to replay rejects.
+ *
+ * File and library calls go to `files`, where the restored captures live;
+ * pass the module the bundle was restored with, not ARNativeModule, which
+ * would route back here once this module is selected.
+ */
+export class ReplayARNativeModule implements ARNativeModuleType, ARViewHost {
+  readonly viewLabel = 'Replaying session';
+
+  private speed: number;
+  private listeners: ARNativeEventListeners = createEventListeners();
+  private view: ARViewHandlers | null = null;
+  // Index in the timeline of each method's recorded calls, in order
+  private pending = new Map<RecordedMethod, number[]>();
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private jobs = new Map<string, ReplayJob>();
+  private openingPlayed = false;
+
+  constructor(
+    readonly recording: SessionRecording,
+    readonly files: ARNativeModuleType,
+    { speed = 1 }: Partial<ReplayOptions> = {},
+  ) {
+    this.speed = speed;
+    recording.timeline.forEach((entry, index) => {
+      if (entry.type === 'call') {
+        this.pending.set(entry.method, [
+          ...(this.pending.get(entry.method) ?? []),
+          index,
+        ]);
+      }
+    });
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+  }
+
+  /**
+   * Number of recorded calls not replayed yet
+   */
+  remainingCalls(): number {
+    return [...this.pending.values()].reduce(
+      (total, indices) => total + indices.length,
+      0,
+    );
+  }
+
+  attachView(handlers: ARViewHandlers): () => void {
+    this.view = handlers;
+    if (!this.openingPlayed) {
+      this.openingPlayed = true;
+      this.playAfter(-1, 0);
+    }
+    return () => {
+      if (this.view === handlers) {
+        this.view = null;
+      }
+    };
+  }
+
+  /**
+   * Cancel everything still scheduled, e.g. at the end of a test
+   */
+  dispose() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.jobs.clear();
+  }
+
+  isSupported = () => this.replay<boolean>('isSupported');
+
+  getDeviceCapabilities = () =>
+    this.replay<DeviceCapabilities>('getDeviceCapabilities');
+
+  startSession = () => this.replay<void>('startSession');
+
+  stopSession = () => this.replay<void>('stopSession');
+
+  startObjectScan = (_options?: Partial<CaptureOptions>) =>
+    this.replay<void>('startObjectScan');
+
+  stopObjectScan = () => this.replay<ObjectScanResult>('stopObjectScan');
+
+  resumeObjectScan = (_directory: string) =>
+    this.replay<ResumedObjectScan>('resumeObjectScan');
+
+  clearScan = () => this.replay<void>('clearScan');
+
+  setCapturePaused = (_paused: boolean) =>
+    this.replay<void>('setCapturePaused');
+
+  isPhotogrammetrySupported = () =>
+    this.replay<boolean>('isPhotogrammetrySupported');
+
+  processPhotogrammetry = (
+    _inputDirectory: string,
+    outputFilename: string,
+    _options: Partial<ProcessingOptions>,
+    progressCallback: (progress: ProcessingProgress) => void,
+    jobId: string = outputFilename,
+  ) =>
+    this.replay<string>('processPhotogrammetry', (call, job) => {
+      this.jobs.set(jobId, { jobId, ...job });
+      (call.progress ?? []).forEach(({ at, progress }) =>
+        job.timers.push(
+          this.schedule(at, () => {
+            this.listeners.onProcessingProgress.forEach(listener =>
+              listener({
+                jobId,
+                stage: progress.stage ?? stageOf(progress).stage,
+                progress: progress.progress,
+                status: progress.status,
+              }),
+            );
+            progressCallback(progress);
+          }),
+        ),
+      );
+      return () => this.jobs.delete(jobId);
+    });
+
+  cancelPhotogrammetry = async (jobId: string) => {
+    const cancelled = await this.replay<boolean>('cancelPhotogrammetry');
+    // Settle the job now rather than when the recording cancelled it
+    const job = this.jobs.get(jobId);
+    if (cancelled && job) {
+      this.jobs.delete(jobId);
+      job.timers.forEach(timer => this.clear(timer));
+      job.reject(
+        createARError('PROCESSING_CANCELLED', 'Processing was cancelled'),
+      );
+    }
+    return cancelled;
+  };
+
+  getPhotogrammetryCaptureDirectory = () =>
+    this.replay<string | null>('getPhotogrammetryCaptureDirectory');
+
+  getPhotogrammetryImageCount = () =>
+    this.replay<number>('getPhotogrammetryImageCount');
+
+  readCaptureManifest: ARNativeModuleType['readCaptureManifest'] = directory =>
+    this.files.readCaptureManifest(directory);
+
+  readTextFile: ARNativeModuleType['readTextFile'] = path =>
+    this.files.readTextFile(path);
+
+  writeTextFile: ARNativeModuleType['writeTextFile'] = (path, contents) =>
+    this.files.writeTextFile(path, contents);
+
+  writeBase64File: ARNativeModuleType['writeBase64File'] = (path, data) =>
+    this.files.writeBase64File(path, data);
+
+  readFileChunk: ARNativeModuleType['readFileChunk'] = (path, offset, length) =>
+    this.files.readFileChunk(path, offset, length);
+
+  downloadFile: ARNativeModuleType['downloadFile'] = (url, path) =>
+    this.files.downloadFile(url, path);
+
+  listCaptures: ARNativeModuleType['listCaptures'] = () =>
+    this.files.listCaptures();
+
+  getCaptureInfo: ARNativeModuleType['getCaptureInfo'] = directory =>
+    this.files.getCaptureInfo(directory);
+
+  renameCapture: ARNativeModuleType['renameCapture'] = (directory, name) =>
+    this.files.renameCapture(directory, name);
+
+  deleteCapture: ARNativeModuleType['deleteCapture'] = directory =>
+    this.files.deleteCapture(directory);
+
+  deleteCaptureFrames: ARNativeModuleType['deleteCaptureFrames'] = (
+    directory,
+    indices,
+  ) => this.files.deleteCaptureFrames(directory, indices);
+
+  listCaptureFiles: ARNativeModuleType['listCaptureFiles'] = directory =>
+    this.files.listCaptureFiles(directory);
+
+  recordCaptureProcessing: ARNativeModuleType['recordCaptureProcessing'] = (
+    directory,
+    record,
+  ) => this.files.recordCaptureProcessing(directory, record);
+
+  recordCaptureModel: ARNativeModuleType['recordCaptureModel'] = (
+    directory,
+    path,
+    detail,
+  ) => this.files.recordCaptureModel(directory, path, detail);
+
+  requestNotificationPermission: ARNativeModuleType['requestNotificationPermission'] =
+    () => this.files.requestNotificationPermission();
+
+  showLocalNotification: ARNativeModuleType['showLocalNotification'] = (
+    title,
+    body,
+  ) => this.files.showLocalNotification(title, body);
+
+  addEventListener = <K extends ARNativeEventName>(
+    eventName: K,
+    listener: (event: ARNativeEventMap[K]) => void,
+  ): ARNativeSubscription => {
+    const set = this.listeners[eventName];
+    set.add(listener);
+    return { remove: () => set.delete(listener) };
+  };
+
+  /**
+   * Answer a session call with the next recorded call of the method
+   * @param start Called as the reply is scheduled; returns cleanup to run
+   * once it is delivered
+   */
+  private replay<T>(
+    method: RecordedMethod,
+    start?: (call: RecordedCall, job: Omit<ReplayJob, 'jobId'>) => () => void,
+  ): Promise<T> {
+    const index = this.pending.get(method)?.shift();
+    if (index === undefined) {
+      return Promise.reject(
+        createARError(
+          'UNKNOWN',
+          `The recording has no more ${method} calls to replay`,
+          'REPLAY_EXHAUSTED',
+        ),
+      );
+    }
+    const call = this.recording.timeline[index] as RecordedCall;
+    this.playAfter(index, call.at);
+
+    return new Promise<T>((resolve, reject) => {
+      const job = { reject, timers: [] as ReturnType<typeof setTimeout>[] };
+      const finish = start?.(call, job);
+      // A call still running when recording stopped never settles
+      if (call.duration === null) {
+        return;
+      }
+      job.timers.push(
+        this.schedule(call.duration, () => {
+          finish?.();
+          if (call.error) {
+            const { code, message, nativeCode } = call.error;
+            reject(createARError(code, message, nativeCode));
+          } else {
+            resolve(call.result as T);
+          }
+        }),
+      );
+    });
+  }
+
+  /**
+   * Schedule the events recorded after a timeline entry, up to the next call
+   * @param at When the entry happened, in recording time
+   */
+  private playAfter(index: number, at: number) {
+    const { timeline } = this.recording;
+    for (let i = index + 1; i < timeline.length; i++) {
+      const entry: RecordedEntry = timeline[i];
+      if (entry.type === 'call') {
+        return;
+      }
+      this.schedule(entry.at - at, () => this.deliver(entry));
+    }
+  }
+
+  private deliver(entry: Exclude<RecordedEntry, RecordedCall>) {
+    if (entry.type === 'event') {
+      this.emit(entry);
+    } else {
+      this.show(entry);
+    }
+  }
+
+  private emit<K extends ARNativeEventName>({
+    name,
+    payload,
+  }: RecordedModuleEvent<K>) {
+    this.listeners[name].forEach(listener => listener(payload));
+  }
+
+  private show<K extends keyof ARViewHandlers>({
+    name,
+    payload,
+  }: RecordedViewEvent<K>) {
+    const handler = this.view?.[name] as
+      | ((event: ARViewEventMap[K]) => void)
+      | undefined;
+    handler?.(payload);
+  }
+
+  private schedule(delayMs: number, run: () => void) {
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(timer);
+        run();
+      },
+      Number.isFinite(this.speed) ? Math.max(delayMs, 0) / this.speed : 0,
+    );
+    this.timers.add(timer);
+    return timer;
+  }
+
+  private clear(timer: ReturnType<typeof setTimeout>) {
+    clearTimeout(timer);
+    this.timers.delete(timer);
+  }
+}
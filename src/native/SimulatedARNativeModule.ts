@@ -0,0 +1,1219 @@
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+import {
+  CAPTURE_SETTINGS_FILE,
+  CaptureOptions,
+  normalizeCaptureOptions,
+  toNativeCaptureOptions,
+} from '../capture/captureOptions';
+import {
+  EMPTY_FRAME_QUALITY_STATS,
+  FrameQualityStats,
+  recordFrameDecision,
+} from '../capture/frameQuality';
+import {
+  add,
+  cross,
+  Matrix4,
+  normalize,
+  subtract,
+  Vec3,
+} from '../capture/matrix';
+import {
+  CAPTURE_SEGMENTS_FILE,
+  GuidedPassId,
+  isFileInSegment,
+  parseCaptureSegments,
+} from '../capture/guidedCapture';
+import { encodeBase64, ScanMeshData } from '../capture/meshExport';
+import {
+  frustumForFrame,
+  REGION_OF_INTEREST_FILE,
+  regionIntersectsFrustum,
+} from '../capture/regionOfInterest';
+import {
+  normalizeProcessingOptions,
+  ProcessingOptions,
+} from '../processing/processingOptions';
+import { stageOf } from '../processing/processingProgress';
+import { toARError } from './ARError';
+import {
+  ARNativeEventListeners,
+  ARNativeEventMap,
+  ARNativeEventName,
+  ARNativeModuleType,
+  ARNativeSubscription,
+  CaptureFileInfo,
+  CaptureInfo,
+  CaptureManifest,
+  CaptureProcessingRecord,
+  createEventListeners,
+  DeviceCapabilities,
+  getSelectedARNativeModule,
+  ObjectScanResult,
+  ResumedObjectScan,
+  ThermalState,
+} from './ARNativeModule';
+import type {
+  ARViewHandlers,
+  ARViewHost,
+  PlaneDetectedEvent,
+  TrackingStateChangeEvent,
+} from './ARView';
+
+/**
+ * Camera path followed while a simulated capture runs: a circle around the
+ * object at a fixed height, always looking at its centre
+ */
+export interface SimulatedOrbit {
+  /** Frames per full turn around the object */
+  framesPerTurn: number;
+  /** Horizontal distance from the object centre, in metres */
+  radius: number;
+  /** Camera height above the object centre, in metres */
+  height: number;
+  /** Object centre in world coordinates, in metres */
+  target: Vec3;
+  /** Time between frames; null to produce frames only through captureFrames() */
+  frameIntervalMs: number | null;
+  imageResolution: { width: number; height: number };
+}
+
+/**
+ * A native rejection to simulate; the code is mapped like a platform one
+ */
+export interface SimulatedFailure {
+  code: string;
+  message?: string;
+}
+
+export type SimulatedMethod = Exclude<
+  keyof ARNativeModuleType,
+  'addEventListener'
+>;
+
+export interface SimulatedARConfig {
+  /** What isSupported reports; false also fails the view's session */
+  arSupported: boolean;
+  /** False rejects startObjectScan and fails the view's session */
+  cameraAuthorized: boolean;
+  photogrammetrySupported: boolean;
+  orbit: SimulatedOrbit;
+  /** Progress reported by processPhotogrammetry, in order; the model is written after the last */
+  processingSteps: ProcessingProgress[];
+  /** What requestNotificationPermission reports; false also drops notifications */
+  notificationsPermitted: boolean;
+  /** Time between processing steps; null to advance only through advanceProcessing() */
+  processingStepMs: number | null;
+  /** Rejection for every call of a method, until changed with setConfig */
+  failures: Partial<Record<SimulatedMethod, SimulatedFailure>>;
+  /** Scene mesh returned by stopObjectScan, as on a LiDAR device */
+  mesh: ScanMeshData | null;
+  /** Planes reported to a view as soon as it is attached */
+  planes: PlaneDetectedEvent[];
+  /** Free space before any simulated files, in bytes; the files use it up */
+  freeStorageBytes: number;
+  thermalState: ThermalState;
+}
+
+export type SimulatedARConfigInput = Partial<
+  Omit<SimulatedARConfig, 'orbit'>
+> & { orbit?: Partial<SimulatedOrbit> };
+
+export const DEFAULT_SIMULATED_AR_CONFIG: SimulatedARConfig = {
+  arSupported: true,
+  cameraAuthorized: true,
+  photogrammetrySupported: true,
+  orbit: {
+    framesPerTurn: 36,
+    radius: 0.4,
+    height: 0.25,
+    target: [0, 0, 0],
+    frameIntervalMs: 300,
+    imageResolution: { width: 1920, height: 1440 },
+  },
+  processingSteps: [
+    { status: 'Input validated', progress: 0.1, stage: 'validating' },
+    { status: 'Processing', progress: 0.4, stage: 'reconstructing' },
+    { status: 'Processing', progress: 0.7, stage: 'texturing' },
+    { status: 'Request complete', progress: 0.95, stage: 'exporting' },
+    { status: 'Complete', progress: 1, stage: 'exporting' },
+  ],
+  notificationsPermitted: true,
+  processingStepMs: 1000,
+  failures: {},
+  mesh: null,
+  // A table under the orbit target, big enough for a box around it
+  planes: [
+    {
+      id: 'simulated-table',
+      alignment: 'horizontal',
+      center: [0, -0.15, 0],
+      extent: { width: 1.2, length: 0.8 },
+    },
+  ],
+  freeStorageBytes: 32e9,
+  thermalState: 'nominal',
+};
+
+/**
+ * Where the simulated documents directory lives
+ */
+export const SIMULATED_DOCUMENTS_DIRECTORY = '/simulated/Documents';
+
+// Same limit as the iOS module, which rejects smaller captures up front
+const MIN_PHOTOGRAMMETRY_IMAGES = 10;
+const CAPTURE_INFO_FILE = 'capture.json';
+const CAPTURE_DIRECTORY_PREFIX = 'PhotoCapture_';
+// An image, its metadata or its depth
+const FRAME_FILE_PATTERN = /^image_(\d+)[._]/;
+// SOI and EOI markers: enough for anything that only checks the file type
+const PLACEHOLDER_JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+const PLACEHOLDER_MODEL = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
+
+interface SimulatedCapture {
+  directory: string;
+  options: CaptureOptions;
+  /** Index of the next frame; as on the platforms, counts deleted frames */
+  imageCount: number;
+  frameStats: FrameQualityStats;
+  /** Position along the orbit, in frames */
+  orbitStep: number;
+  active: boolean;
+  paused: boolean;
+  /** Resumed, and tracking has not yet relocalized */
+  relocalizing: boolean;
+}
+
+interface SimulatedJob {
+  inputDirectory: string;
+  outputFilename: string;
+  options: ProcessingOptions;
+  step: number;
+  progressCallback: (progress: ProcessingProgress) => void;
+  resolve: (path: string) => void;
+  reject: (error: unknown) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface StoredCaptureInfo {
+  name?: string;
+  models?: { path: string; detail: string; createdAt: number }[];
+  processing?: CaptureProcessingRecord;
+}
+
+const rejection = (code: string, message: string) =>
+  toARError(Object.assign(new Error(message), { code }));
+
+const joinPath = (directory: string, name: string) => `${directory}/${name}`;
+
+const parentOf = (path: string) => path.slice(0, path.lastIndexOf('/'));
+
+const nameOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const encodeUtf8 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const point = char.codePointAt(0) ?? 0;
+    if (point < 0x80) {
+      bytes.push(point);
+    } else if (point < 0x800) {
+      bytes.push(0xc0 + Math.floor(point / 64), 0x80 + (point % 64));
+    } else if (point < 0x10000) {
+      bytes.push(
+        0xe0 + Math.floor(point / 4096),
+        0x80 + (Math.floor(point / 64) % 64),
+        0x80 + (point % 64),
+      );
+    } else {
+      bytes.push(
+        0xf0 + Math.floor(point / 262144),
+        0x80 + (Math.floor(point / 4096) % 64),
+        0x80 + (Math.floor(point / 64) % 64),
+        0x80 + (point % 64),
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const decodeUtf8 = (bytes: Uint8Array): string => {
+  const chars: string[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i];
+    // Lead byte gives the sequence length; continuation bytes add 6 bits each
+    const [start, extra] =
+      lead < 0x80
+        ? [lead, 0]
+        : lead >= 0xf0
+        ? [lead - 0xf0, 3]
+        : lead >= 0xe0
+        ? [lead - 0xe0, 2]
+        : [lead - 0xc0, 1];
+    let point = start;
+    for (let k = 1; k <= extra; k++) {
+      point = point * 64 + ((bytes[i + k] ?? 0x80) - 0x80);
+    }
+    chars.push(String.fromCodePoint(point));
+    i += extra + 1;
+  }
+  return chars.join('');
+};
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * @returns null if the text is not base64
+ */
+const decodeBase64 = (text: string): Uint8Array | null => {
+  const clean = text.replace(/\s/g, '');
+  if (clean.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(clean)) {
+    return null;
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i += 4) {
+    const quad = clean.slice(i, i + 4);
+    const triple = [...quad].reduce(
+      (value, char) => value * 64 + Math.max(BASE64_ALPHABET.indexOf(char), 0),
+      0,
+    );
+    const padding = quad.length - quad.split('=').join('').length;
+    [65536, 256, 1]
+      .slice(0, 3 - padding)
+      .forEach(place => bytes.push(Math.floor(triple / place) % 256));
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Camera-to-world transform looking from `eye` at `target`, +Y up
+ */
+const lookAt = (eye: Vec3, target: Vec3): Matrix4 => {
+  // ARKit cameras look down -Z, so +Z points from the target to the eye
+  const z = normalize(subtract(eye, target));
+  const x = normalize(cross([0, 1, 0], z));
+  const y = cross(z, x);
+  return [
+    [...x, 0],
+    [...y, 0],
+    [...z, 0],
+    [...eye, 1],
+  ];
+};
+
+/**
+ * Pure-TypeScript stand-in for the platform module, for Jest and for
+ * running the app without AR hardware
+ *
+ * Files live in memory under SIMULATED_DOCUMENTS_DIRECTORY. Captures follow
+ * a synthetic orbit and write placeholder images with real metadata, so
+ * coverage, dataset export and the library work on them unchanged. Like the
+ * platform module, capture calls fail until an ARView is mounted (or a view
+ * is attached with attachView).
+ *
+ * Select it with selectARNativeModule, or with the simulated AR dev setting.
+ */
+export class SimulatedARNativeModule implements ARNativeModuleType, ARViewHost {
+  private config: SimulatedARConfig;
+  private files = new Map<string, Uint8Array>();
+  private listeners: ARNativeEventListeners = createEventListeners();
+  private view: ARViewHandlers | null = null;
+  private tracking: TrackingStateChangeEvent = {
+    state: 'normal',
+    reason: null,
+  };
+  private capture: SimulatedCapture | null = null;
+  private orbitTimer: ReturnType<typeof setInterval> | null = null;
+  private jobs = new Map<string, SimulatedJob>();
+  private notifications: { title: string; body: string }[] = [];
+  private pendingFailures: Partial<
+    Record<SimulatedMethod, SimulatedFailure[]>
+  > = {};
+  // Seconds, like ARFrame.timestamp
+  private clock = 1000;
+
+  constructor(config: SimulatedARConfigInput = {}) {
+    this.config = DEFAULT_SIMULATED_AR_CONFIG;
+    this.setConfig(config);
+  }
+
+  readonly viewLabel = 'Simulated AR';
+
+  getConfig = (): SimulatedARConfig => this.config;
+
+  /**
+   * Change behaviour; unset fields keep their current values
+   */
+  setConfig(config: SimulatedARConfigInput) {
+    this.config = {
+      ...this.config,
+      ...config,
+      orbit: { ...this.config.orbit, ...config.orbit },
+    };
+  }
+
+  /**
+   * Reject the next call of a method, once
+   */
+  failNext(method: SimulatedMethod, failure: SimulatedFailure) {
+    this.pendingFailures[method] = [
+      ...(this.pendingFailures[method] ?? []),
+      failure,
+    ];
+  }
+
+  /**
+   * Connect a view, as mounting ARView does; it receives view events until
+   * the returned function is called. Detaching mid-capture stops the capture.
+   */
+  attachView(handlers: ARViewHandlers): () => void {
+    this.view = handlers;
+    if (!this.config.arSupported) {
+      handlers.onSessionError?.({
+        code: 'AR_UNSUPPORTED',
+        message: 'AR is not supported on this device',
+      });
+    } else if (!this.config.cameraAuthorized) {
+      handlers.onSessionError?.({
+        code: 'CAMERA_PERMISSION_DENIED',
+        message: 'Camera access is denied',
+      });
+    } else {
+      this.config.planes.forEach(plane => handlers.onPlaneDetected?.(plane));
+    }
+
+    return () => {
+      if (this.view !== handlers) {
+        return;
+      }
+      if (this.capture?.active) {
+        this.finishCapture();
+      }
+      this.view = null;
+    };
+  }
+
+  /**
+   * Report a tracking change to the view, as the camera would
+   */
+  setTracking(event: TrackingStateChangeEvent) {
+    this.tracking = event;
+    this.view?.onTrackingStateChange?.(event);
+  }
+
+  /**
+   * Report a newly detected plane to the view, as the camera would
+   */
+  detectPlane(event: PlaneDetectedEvent) {
+    this.view?.onPlaneDetected?.(event);
+  }
+
+  /**
+   * Fail the view's AR session
+   */
+  failSession(code: string, message = 'The AR session failed') {
+    this.view?.onSessionError?.({ code, message });
+  }
+
+  /**
+   * Move along the orbit, offering one candidate frame per step to the
+   * running capture
+   * @returns Number of frames saved
+   */
+  captureFrames(count = 1): number {
+    let saved = 0;
+    for (let i = 0; i < count; i++) {
+      saved += this.offerFrame() ? 1 : 0;
+    }
+    return saved;
+  }
+
+  /**
+   * Deliver the next progress step of every running job, finishing jobs
+   * that were on their last step
+   * @returns false if no job is running
+   */
+  advanceProcessing(): boolean {
+    const jobIds = [...this.jobs.keys()];
+    jobIds.forEach(jobId => this.advanceJob(jobId));
+    return jobIds.length > 0;
+  }
+
+  /**
+   * Notifications shown so far, oldest first
+   */
+  getNotifications(): { title: string; body: string }[] {
+    return [...this.notifications];
+  }
+
+  /**
+   * Stop every timer, e.g. at the end of a test
+   */
+  dispose() {
+    this.stopOrbit();
+    this.jobs.forEach(job => job.timer && clearTimeout(job.timer));
+  }
+
+  isSupported = async () => {
+    this.injectFailure('isSupported');
+    return this.config.arSupported;
+  };
+
+  // A LiDAR iPhone when the config has a scene mesh, otherwise one without
+  getDeviceCapabilities = async (): Promise<DeviceCapabilities> => {
+    this.injectFailure('getDeviceCapabilities');
+    const { arSupported, mesh, photogrammetrySupported, orbit } = this.config;
+    const used = [...this.files.values()].reduce(
+      (total, data) => total + data.length,
+      0,
+    );
+    return {
+      platform: 'ios',
+      model: 'Simulated',
+      osVersion: '0',
+      arSupported,
+      lidar: !!mesh,
+      depth: !!mesh,
+      sceneReconstruction: !!mesh,
+      photogrammetry: photogrammetrySupported,
+      videoFormats: [{ ...orbit.imageResolution, fps: 60 }],
+      freeStorageBytes: Math.max(0, this.config.freeStorageBytes - used),
+      totalStorageBytes: 128e9,
+      thermalState: this.config.thermalState,
+    };
+  };
+
+  startSession = async () => {
+    this.injectFailure('startSession');
+    if (!this.config.arSupported) {
+      throw rejection('AR_NOT_SUPPORTED', 'AR is not supported on this device');
+    }
+  };
+
+  stopSession = async () => {
+    this.injectFailure('stopSession');
+  };
+
+  startObjectScan = async (options?: Partial<CaptureOptions>) => {
+    this.injectFailure('startObjectScan');
+    // Same validation as the platform wrapper
+    const normalized = normalizeCaptureOptions(options);
+    this.requireView();
+    if (!this.config.cameraAuthorized) {
+      throw rejection('CAMERA_PERMISSION_DENIED', 'Camera access is denied');
+    }
+
+    this.stopOrbit();
+    this.capture = {
+      directory: this.createCaptureDirectory(),
+      options: normalized,
+      imageCount: 0,
+      frameStats: EMPTY_FRAME_QUALITY_STATS,
+      orbitStep: 0,
+      active: true,
+      paused: false,
+      relocalizing: false,
+    };
+    // The platforms save the settings and region before the first frame
+    this.files.set(
+      joinPath(this.capture.directory, CAPTURE_SETTINGS_FILE),
+      encodeUtf8(JSON.stringify(toNativeCaptureOptions(normalized))),
+    );
+    if (normalized.regionOfInterest) {
+      this.files.set(
+        joinPath(this.capture.directory, REGION_OF_INTEREST_FILE),
+        encodeUtf8(JSON.stringify(normalized.regionOfInterest)),
+      );
+    }
+    this.beginCapture();
+  };
+
+  resumeObjectScan = async (directory: string): Promise<ResumedObjectScan> => {
+    this.injectFailure('resumeObjectScan');
+    this.requireView();
+    if (!this.config.cameraAuthorized) {
+      throw rejection('CAMERA_PERMISSION_DENIED', 'Camera access is denied');
+    }
+    if (this.capture?.active) {
+      throw rejection('START_SCAN_FAILED', 'A capture is already running');
+    }
+    const settings = this.files.get(joinPath(directory, CAPTURE_SETTINGS_FILE));
+    if (!settings) {
+      throw rejection(
+        'CAPTURE_NOT_FOUND',
+        `No capture to resume at ${directory}`,
+      );
+    }
+    const stored = JSON.parse(decodeUtf8(settings));
+
+    this.stopOrbit();
+    const nextIndex = this.nextImageIndex(directory);
+    this.capture = {
+      directory,
+      // 0 means no limit over the bridge
+      options: normalizeCaptureOptions({
+        ...stored,
+        maxImageCount: stored.maxImageCount || null,
+        maxExposureMs: stored.maxExposureMs || null,
+      }),
+      imageCount: nextIndex,
+      frameStats: EMPTY_FRAME_QUALITY_STATS,
+      orbitStep: nextIndex,
+      active: true,
+      paused: false,
+      relocalizing: true,
+    };
+    // As with a world map on iOS, tracking is limited until it relocalizes,
+    // which the simulator does on the next frame
+    this.setTracking({ state: 'limited', reason: 'relocalizing' });
+    this.beginCapture();
+    return {
+      directory,
+      imageCount: this.imageCount(directory),
+      nextIndex,
+      relocalizing: true,
+    };
+  };
+
+  stopObjectScan = async (): Promise<ObjectScanResult> => {
+    this.injectFailure('stopObjectScan');
+    this.requireView();
+    if (!this.capture) {
+      throw rejection('NO_ACTIVE_CAPTURE', 'No capture has been started');
+    }
+    const { directory, imageCount, frameStats } = this.finishCapture();
+    const { vertices = [], faces = [] } = this.config.mesh ?? {};
+
+    return {
+      vertices,
+      faces,
+      vertexCount: vertices.length,
+      faceCount: faces.length,
+      meshCount: vertices.length > 0 ? 1 : 0,
+      directory,
+      imageCount,
+      frameStats,
+      scanType: 'photogrammetry',
+    };
+  };
+
+  clearScan = async () => {
+    this.injectFailure('clearScan');
+    this.requireView();
+    this.stopOrbit();
+    this.capture = null;
+  };
+
+  setCapturePaused = async (paused: boolean) => {
+    this.injectFailure('setCapturePaused');
+    this.requireView();
+    if (this.capture) {
+      this.capture.paused = paused;
+    }
+  };
+
+  isPhotogrammetrySupported = async () => {
+    this.injectFailure('isPhotogrammetrySupported');
+    return this.config.photogrammetrySupported;
+  };
+
+  processPhotogrammetry = async (
+    inputDirectory: string,
+    outputFilename: string,
+    options: Partial<ProcessingOptions>,
+    progressCallback: (progress: ProcessingProgress) => void,
+    jobId: string = outputFilename,
+  ): Promise<string> => {
+    this.injectFailure('processPhotogrammetry');
+    // Same validation as the platform wrapper
+    const normalized = normalizeProcessingOptions(options);
+    if (!this.config.photogrammetrySupported) {
+      throw rejection(
+        'PHOTOGRAMMETRY_NOT_SUPPORTED',
+        'Photogrammetry is not supported on this device',
+      );
+    }
+    const imageCount = this.imageCount(inputDirectory, normalized.segment);
+    if (imageCount < MIN_PHOTOGRAMMETRY_IMAGES) {
+      throw rejection(
+        'INSUFFICIENT_IMAGES',
+        `Reconstruction needs at least ${MIN_PHOTOGRAMMETRY_IMAGES} images, found ${imageCount}`,
+      );
+    }
+
+    this.updateCaptureInfo(inputDirectory, {
+      processing: {
+        status: 'processing',
+        detail: normalized.detail,
+        updatedAt: Date.now(),
+      },
+    });
+    return new Promise<string>((resolve, reject) => {
+      this.jobs.set(jobId, {
+        inputDirectory,
+        outputFilename,
+        options: normalized,
+        step: 0,
+        progressCallback,
+        resolve,
+        reject,
+        timer: null,
+      });
+      this.scheduleJob(jobId);
+    });
+  };
+
+  cancelPhotogrammetry = async (jobId: string) => {
+    this.injectFailure('cancelPhotogrammetry');
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return false;
+    }
+    this.endJob(jobId);
+    this.updateCaptureInfo(job.inputDirectory, {
+      processing: {
+        status: 'cancelled',
+        detail: job.options.detail,
+        updatedAt: Date.now(),
+      },
+    });
+    job.reject(rejection('PROCESSING_CANCELLED', 'Processing was cancelled'));
+    return true;
+  };
+
+  getPhotogrammetryCaptureDirectory = async () => {
+    this.injectFailure('getPhotogrammetryCaptureDirectory');
+    return this.capture?.directory ?? null;
+  };
+
+  getPhotogrammetryImageCount = async () => {
+    this.injectFailure('getPhotogrammetryImageCount');
+    return this.capture?.imageCount ?? 0;
+  };
+
+  readCaptureManifest = async (directory: string): Promise<CaptureManifest> => {
+    this.injectFailure('readCaptureManifest');
+    const files = this.listDirectory(directory);
+    if (files.length === 0) {
+      throw rejection('CAPTURE_NOT_FOUND', `No capture at ${directory}`);
+    }
+    const metadata: Record<string, string> = {};
+    files
+      .filter(name => name.endsWith('.json'))
+      .forEach(name => {
+        metadata[name] = decodeUtf8(this.files.get(joinPath(directory, name))!);
+      });
+    return { directory, files, metadata };
+  };
+
+  readTextFile = async (path: string) => {
+    this.injectFailure('readTextFile');
+    const data = this.files.get(this.resolvePath(path, 'READ_FILE_FAILED'));
+    return data ? decodeUtf8(data) : null;
+  };
+
+  writeTextFile = async (path: string, contents: string) => {
+    this.injectFailure('writeTextFile');
+    this.files.set(
+      this.resolvePath(path, 'WRITE_FILE_FAILED'),
+      encodeUtf8(contents),
+    );
+  };
+
+  writeBase64File = async (path: string, data: string) => {
+    this.injectFailure('writeBase64File');
+    const resolved = this.resolvePath(path, 'WRITE_FILE_FAILED');
+    const bytes = decodeBase64(data);
+    if (!bytes) {
+      throw rejection(
+        'WRITE_FILE_FAILED',
+        `Failed to write ${path}: data is not base64`,
+      );
+    }
+    this.files.set(resolved, bytes);
+  };
+
+  readFileChunk = async (path: string, offset: number, length: number) => {
+    this.injectFailure('readFileChunk');
+    const data = this.files.get(this.resolvePath(path, 'READ_FILE_FAILED'));
+    if (!data) {
+      throw rejection(
+        'READ_FILE_FAILED',
+        `Failed to read ${path}: no such file`,
+      );
+    }
+    return encodeBase64(data.subarray(offset, offset + length));
+  };
+
+  downloadFile = async (url: string, path: string) => {
+    this.injectFailure('downloadFile');
+    const destination = this.resolvePath(path, 'DOWNLOAD_FAILED');
+    if (!/^https?:\/\//i.test(url)) {
+      throw rejection('DOWNLOAD_FAILED', `Not an http(s) URL: ${url}`);
+    }
+    const response = await fetch(url).catch(error => {
+      throw rejection('DOWNLOAD_FAILED', `Failed to download ${url}: ${error}`);
+    });
+    if (!response.ok) {
+      throw rejection(
+        'DOWNLOAD_FAILED',
+        `Failed to download ${url}: HTTP ${response.status}`,
+      );
+    }
+    this.files.set(destination, new Uint8Array(await response.arrayBuffer()));
+    return destination;
+  };
+
+  listCaptures = async (): Promise<CaptureInfo[]> => {
+    this.injectFailure('listCaptures');
+    const prefix = `${SIMULATED_DOCUMENTS_DIRECTORY}/${CAPTURE_DIRECTORY_PREFIX}`;
+    const directories = new Set(
+      [...this.files.keys()]
+        .filter(path => path.startsWith(prefix))
+        .map(path => path.slice(0, path.indexOf('/', prefix.length))),
+    );
+    return [...directories]
+      .map(directory => this.captureInfo(directory))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  };
+
+  getCaptureInfo = async (directory: string) => {
+    this.injectFailure('getCaptureInfo');
+    if (this.listDirectory(directory).length === 0) {
+      throw rejection('CAPTURE_NOT_FOUND', `No capture at ${directory}`);
+    }
+    return this.captureInfo(directory);
+  };
+
+  renameCapture = async (directory: string, name: string) => {
+    this.injectFailure('renameCapture');
+    this.updateCaptureInfo(directory, { name: name || undefined });
+  };
+
+  deleteCapture = async (directory: string) => {
+    this.injectFailure('deleteCapture');
+    const { models = [] } = this.readCaptureInfo(directory);
+    models.forEach(model => this.files.delete(model.path));
+    [...this.files.keys()]
+      .filter(path => path.startsWith(`${directory}/`))
+      .forEach(path => this.files.delete(path));
+  };
+
+  deleteCaptureFrames = async (directory: string, indices: number[]) => {
+    this.injectFailure('deleteCaptureFrames');
+    const files = this.listDirectory(directory);
+    if (files.length === 0) {
+      throw rejection('CAPTURE_NOT_FOUND', `No capture at ${directory}`);
+    }
+    const deleted = new Set<number>();
+    files.forEach(name => {
+      const match = FRAME_FILE_PATTERN.exec(name);
+      const index = match ? parseInt(match[1], 10) : NaN;
+      if (indices.includes(index)) {
+        this.files.delete(joinPath(directory, name));
+        deleted.add(index);
+      }
+    });
+    return deleted.size;
+  };
+
+  listCaptureFiles = async (directory: string): Promise<CaptureFileInfo[]> => {
+    this.injectFailure('listCaptureFiles');
+    return this.listDirectory(directory).map(name => ({
+      name,
+      size: this.files.get(joinPath(directory, name))!.length,
+    }));
+  };
+
+  recordCaptureProcessing = async (
+    directory: string,
+    record: Omit<CaptureProcessingRecord, 'updatedAt'>,
+  ) => {
+    this.injectFailure('recordCaptureProcessing');
+    this.updateCaptureInfo(directory, {
+      processing: { ...record, updatedAt: Date.now() },
+    });
+  };
+
+  recordCaptureModel = async (
+    directory: string,
+    path: string,
+    detail: string,
+  ) => {
+    this.injectFailure('recordCaptureModel');
+    this.addModel(directory, path, detail);
+  };
+
+  requestNotificationPermission = async () => {
+    this.injectFailure('requestNotificationPermission');
+    return this.config.notificationsPermitted;
+  };
+
+  showLocalNotification = async (title: string, body: string) => {
+    this.injectFailure('showLocalNotification');
+    if (!this.config.notificationsPermitted) {
+      return false;
+    }
+    this.notifications.push({ title, body });
+    return true;
+  };
+
+  addEventListener = <K extends ARNativeEventName>(
+    eventName: K,
+    listener: (event: ARNativeEventMap[K]) => void,
+  ): ARNativeSubscription => {
+    const set = this.listeners[eventName];
+    set.add(listener);
+    return { remove: () => set.delete(listener) };
+  };
+
+  private emit<K extends ARNativeEventName>(
+    eventName: K,
+    event: ARNativeEventMap[K],
+  ) {
+    this.listeners[eventName].forEach(listener => listener(event));
+  }
+
+  private injectFailure(method: SimulatedMethod) {
+    const failure =
+      this.pendingFailures[method]?.shift() ?? this.config.failures[method];
+    if (failure) {
+      throw rejection(
+        failure.code,
+        failure.message ?? `Simulated ${method} failure`,
+      );
+    }
+  }
+
+  private requireView() {
+    if (!this.view) {
+      throw rejection('AR_VIEW_NOT_FOUND', 'AR View is not initialized');
+    }
+  }
+
+  /**
+   * Run one capture interval: move the camera, then save the frame if the
+   * capture would keep it
+   * @returns true if a frame was saved
+   */
+  private offerFrame(): boolean {
+    const capture = this.capture;
+    if (!capture?.active || !this.view) {
+      return false;
+    }
+    if (capture.relocalizing) {
+      capture.relocalizing = false;
+      this.setTracking({ state: 'normal', reason: null });
+      return false;
+    }
+    if (capture.paused) {
+      return false;
+    }
+    const { maxImageCount, rejectLimitedTracking, regionOfInterest } =
+      capture.options;
+    if (maxImageCount !== null && capture.imageCount >= maxImageCount) {
+      return false;
+    }
+
+    const { framesPerTurn, radius, height, target, frameIntervalMs } =
+      this.config.orbit;
+    const angle = (2 * Math.PI * capture.orbitStep) / framesPerTurn;
+    const eye = add(target, [
+      radius * Math.cos(angle),
+      height,
+      radius * Math.sin(angle),
+    ]);
+    capture.orbitStep += 1;
+    this.clock += (frameIntervalMs ?? capture.options.intervalMs) / 1000;
+
+    if (rejectLimitedTracking && this.tracking.state !== 'normal') {
+      capture.frameStats = recordFrameDecision(capture.frameStats, {
+        accepted: false,
+        reason: 'limitedTracking',
+      });
+      this.emit('onFrameRejected', {
+        reason: 'limitedTracking',
+        timestamp: this.clock,
+        trackingState: this.tracking.state,
+      });
+      return false;
+    }
+
+    const transform = lookAt(eye, target);
+    const { width, height: imageHeight } = this.config.orbit.imageResolution;
+    const focalLength = 0.75 * width;
+    const intrinsics = [
+      [focalLength, 0, 0],
+      [0, focalLength, 0],
+      [width / 2, imageHeight / 2, 1],
+    ];
+
+    if (
+      regionOfInterest &&
+      !regionIntersectsFrustum(
+        regionOfInterest,
+        frustumForFrame({
+          transform,
+          intrinsics,
+          imageResolution: this.config.orbit.imageResolution,
+        }),
+      )
+    ) {
+      capture.frameStats = recordFrameDecision(capture.frameStats, {
+        accepted: false,
+        reason: 'outsideRegion',
+      });
+      this.emit('onFrameRejected', {
+        reason: 'outsideRegion',
+        timestamp: this.clock,
+        trackingState: this.tracking.state,
+      });
+      return false;
+    }
+
+    const index = capture.imageCount;
+    const name = `image_${String(index).padStart(4, '0')}`;
+    const imagePath = joinPath(capture.directory, `${name}.jpg`);
+    this.files.set(imagePath, PLACEHOLDER_JPEG);
+    this.files.set(
+      joinPath(capture.directory, `${name}.json`),
+      encodeUtf8(
+        JSON.stringify({
+          transform,
+          intrinsics,
+          imageResolution: { width, height: imageHeight },
+          exposureDuration: 1 / 120,
+          timestamp: this.clock,
+          trackingState: this.tracking.state,
+        }),
+      ),
+    );
+    capture.imageCount += 1;
+    capture.frameStats = recordFrameDecision(capture.frameStats, {
+      accepted: true,
+    });
+
+    const event = {
+      index,
+      path: imagePath,
+      pose: transform,
+      timestamp: this.clock,
+    };
+    this.emit('onImageCaptured', event);
+    this.view.onFrameCaptured?.(event);
+    return true;
+  }
+
+  private beginCapture() {
+    this.emit('onCaptureStarted', { directory: this.capture!.directory });
+    const { frameIntervalMs } = this.config.orbit;
+    if (frameIntervalMs !== null) {
+      this.orbitTimer = setInterval(() => this.offerFrame(), frameIntervalMs);
+    }
+  }
+
+  private finishCapture() {
+    const capture = this.capture!;
+    this.stopOrbit();
+    capture.active = false;
+    const result = {
+      directory: capture.directory,
+      imageCount: capture.imageCount,
+      frameStats: capture.frameStats,
+    };
+    this.emit('onCaptureStopped', result);
+    return result;
+  }
+
+  private stopOrbit() {
+    if (this.orbitTimer) {
+      clearInterval(this.orbitTimer);
+      this.orbitTimer = null;
+    }
+  }
+
+  private createCaptureDirectory() {
+    // Named by Unix seconds like the platform; step past taken names
+    let seconds = Math.floor(Date.now() / 1000);
+    const directoryFor = (value: number) =>
+      `${SIMULATED_DOCUMENTS_DIRECTORY}/${CAPTURE_DIRECTORY_PREFIX}${value}`;
+    while (this.listDirectory(directoryFor(seconds)).length > 0) {
+      seconds += 1;
+    }
+    return directoryFor(seconds);
+  }
+
+  private scheduleJob(jobId: string) {
+    const job = this.jobs.get(jobId);
+    const { processingStepMs } = this.config;
+    if (job && processingStepMs !== null) {
+      job.timer = setTimeout(() => {
+        this.advanceJob(jobId);
+        this.scheduleJob(jobId);
+      }, processingStepMs);
+    }
+  }
+
+  private advanceJob(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return;
+    }
+    const { processingSteps } = this.config;
+    if (job.step < processingSteps.length) {
+      const step = processingSteps[job.step];
+      const stage = step.stage ?? stageOf(step).stage;
+      this.emit('onProcessingProgress', {
+        jobId,
+        stage,
+        progress: step.progress,
+        status: step.status,
+      });
+      job.progressCallback({ ...step, stage });
+      job.step += 1;
+    }
+    if (job.step < processingSteps.length) {
+      return;
+    }
+
+    this.endJob(jobId);
+    const { detail, outputFormats } = job.options;
+    // As on iOS, an OBJ model is written into a directory with its materials
+    const outputPaths = outputFormats.map(format =>
+      joinPath(
+        SIMULATED_DOCUMENTS_DIRECTORY,
+        format === 'obj'
+          ? `${job.outputFilename}_obj/${job.outputFilename}.obj`
+          : `${job.outputFilename}.${format}`,
+      ),
+    );
+    outputPaths.forEach(path => {
+      this.files.set(path, PLACEHOLDER_MODEL);
+      this.addModel(job.inputDirectory, path, detail);
+    });
+    this.updateCaptureInfo(job.inputDirectory, {
+      processing: {
+        status: 'completed',
+        detail,
+        updatedAt: Date.now(),
+      },
+    });
+    job.resolve(outputPaths[0]);
+  }
+
+  private endJob(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (job?.timer) {
+      clearTimeout(job.timer);
+    }
+    this.jobs.delete(jobId);
+  }
+
+  /**
+   * Keep paths inside the simulated documents directory, as the platform does
+   */
+  private resolvePath(path: string, code: string) {
+    const resolved = path.startsWith('/')
+      ? path
+      : joinPath(SIMULATED_DOCUMENTS_DIRECTORY, path);
+    if (
+      !resolved.startsWith(`${SIMULATED_DOCUMENTS_DIRECTORY}/`) ||
+      resolved.split('/').includes('..')
+    ) {
+      throw rejection(code, `${path} is outside the documents directory`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Names of the files directly inside a directory, sorted
+   */
+  private listDirectory(directory: string) {
+    return [...this.files.keys()]
+      .filter(path => parentOf(path) === directory)
+      .map(nameOf)
+      .sort();
+  }
+
+  /**
+   * Images in a capture, or in one pass of a guided capture
+   */
+  private imageCount(directory: string, segment: GuidedPassId | null = null) {
+    const images = this.listDirectory(directory).filter(name =>
+      /^image_\d+\.jpg$/.test(name),
+    );
+    if (!segment) {
+      return images.length;
+    }
+    const data = this.files.get(joinPath(directory, CAPTURE_SEGMENTS_FILE));
+    const segments = data ? parseCaptureSegments(decodeUtf8(data)) : [];
+    return images.filter(name => isFileInSegment(segments, segment, name))
+      .length;
+  }
+
+  /**
+   * Index after the last image in a capture, as the platforms number new frames
+   */
+  private nextImageIndex(directory: string) {
+    return this.listDirectory(directory).reduce((next, name) => {
+      const match = /^image_(\d+)\.jpg$/.exec(name);
+      return match ? Math.max(next, parseInt(match[1], 10) + 1) : next;
+    }, 0);
+  }
+
+  private readCaptureInfo(directory: string): StoredCaptureInfo {
+    const data = this.files.get(joinPath(directory, CAPTURE_INFO_FILE));
+    return data ? JSON.parse(decodeUtf8(data)) : {};
+  }
+
+  private updateCaptureInfo(directory: string, patch: StoredCaptureInfo) {
+    this.files.set(
+      joinPath(directory, CAPTURE_INFO_FILE),
+      encodeUtf8(
+        JSON.stringify({ ...this.readCaptureInfo(directory), ...patch }),
+      ),
+    );
+  }
+
+  private addModel(directory: string, path: string, detail: string) {
+    const { models = [] } = this.readCaptureInfo(directory);
+    this.updateCaptureInfo(directory, {
+      models: [
+        ...models.filter(model => model.path !== path),
+        { path, detail, createdAt: Date.now() },
+      ],
+    });
+  }
+
+  private captureInfo(directory: string): CaptureInfo {
+    const { name, models = [], processing } = this.readCaptureInfo(directory);
+    const seconds = Number(
+      nameOf(directory).slice(CAPTURE_DIRECTORY_PREFIX.length),
+    );
+    return {
+      directory,
+      name: name ?? null,
+      createdAt: Number.isFinite(seconds) ? seconds * 1000 : 0,
+      imageCount: this.imageCount(directory),
+      sizeBytes: this.listDirectory(directory).reduce(
+        (total, file) =>
+          total + this.files.get(joinPath(directory, file))!.length,
+        0,
+      ),
+      models: models.map(model => ({
+        ...model,
+        exists: this.files.has(model.path),
+      })),
+      processing: processing ?? null,
+    };
+  }
+}
+
+/**
+ * The selected module, if it is a simulator
+ */
+export const getActiveSimulator = (): SimulatedARNativeModule | null => {
+  const module = getSelectedARNativeModule();
+  return module instanceof SimulatedARNativeModule ? module : null;
+};
@@ -0,0 +1,128 @@
+import {
+  ARNativeModuleType,
+  getSelectedARNativeModule,
+  NativeARNativeModule,
+  selectARNativeModule,
+} from './ARNativeModule';
+import { RecordingARNativeModule } from './RecordingARNativeModule';
+import { ReplayARNativeModule, ReplayOptions } from './ReplayARNativeModule';
+import {
+  restoreSessionRecording,
+  saveSessionRecording,
+} from './sessionRecording';
+import { SimulatedARNativeModule } from './SimulatedARNativeModule';
+
+export interface DevSettings {
+  /** Run the app on SimulatedARNativeModule instead of the platform module */
+  simulateAR: boolean;
+  /** Bundle saved by the last session recording */
+  lastRecording: string | null;
+}
+
+export const DEFAULT_DEV_SETTINGS: DevSettings = {
+  simulateAR: false,
+  lastRecording: null,
+};
+
+/**
+ * Where settings are kept, relative to the documents directory. Always read
+ * and written through the platform module, so they survive switching to the
+ * simulator.
+ */
+export const DEV_SETTINGS_FILE = 'dev_settings.json';
+
+// One simulator for the app's lifetime, so its captures survive toggling
+let devSimulator: SimulatedARNativeModule | null = null;
+let restored: Promise<DevSettings> | null = null;
+let devRecorder: RecordingARNativeModule | null = null;
+let devReplay: ReplayARNativeModule | null = null;
+
+export const loadDevSettings = async (
+  module: ARNativeModuleType = NativeARNativeModule,
+): Promise<DevSettings> => {
+  try {
+    const json = await module.readTextFile(DEV_SETTINGS_FILE);
+    const stored = json ? JSON.parse(json) : {};
+    return {
+      simulateAR: stored.simulateAR === true,
+      lastRecording:
+        typeof stored.lastRecording === 'string' ? stored.lastRecording : null,
+    };
+  } catch (error) {
+    console.warn('Could not read dev settings:', error);
+    return DEFAULT_DEV_SETTINGS;
+  }
+};
+
+export const saveDevSettings = (
+  settings: DevSettings,
+  module: ARNativeModuleType = NativeARNativeModule,
+): Promise<void> =>
+  module.writeTextFile(DEV_SETTINGS_FILE, JSON.stringify(settings));
+
+/**
+ * Select the module the settings ask for
+ */
+export const applyDevSettings = ({ simulateAR }: DevSettings) => {
+  if (simulateAR) {
+    devSimulator = devSimulator ?? new SimulatedARNativeModule();
+  }
+  selectARNativeModule(simulateAR ? devSimulator : null);
+};
+
+/**
+ * Load and apply the saved settings; later calls share the first load
+ */
+export const restoreDevSettings = (): Promise<DevSettings> => {
+  if (!restored) {
+    restored = loadDevSettings().then(settings => {
+      applyDevSettings(settings);
+      return settings;
+    });
+  }
+  return restored;
+};
+
+/**
+ * Record the session from now on, on whichever module is selected
+ */
+export const startDevRecording = () => {
+  devRecorder = new RecordingARNativeModule(getSelectedARNativeModule());
+  selectARNativeModule(devRecorder);
+};
+
+/**
+ * Stop recording and save the bundle next to the files it recorded
+ * @returns Bundle directory, or null if nothing was being recorded
+ */
+export const stopDevRecording = async (): Promise<string | null> => {
+  const recorder = devRecorder;
+  if (!recorder) {
+    return null;
+  }
+  devRecorder = null;
+  selectARNativeModule(recorder.inner);
+  return saveSessionRecording(recorder.stop(), recorder.inner);
+};
+
+/**
+ * Restore a bundle on the selected module and replay it until
+ * stopDevReplay is called
+ */
+export const startDevReplay = async (
+  bundle: string,
+  options: Partial<ReplayOptions> = {},
+) => {
+  const files = getSelectedARNativeModule();
+  const recording = await restoreSessionRecording(bundle, files);
+  devReplay = new ReplayARNativeModule(recording, files, options);
+  selectARNativeModule(devReplay);
+};
+
+export const stopDevReplay = () => {
+  if (devReplay) {
+    devReplay.dispose();
+    selectARNativeModule(devReplay.files);
+    devReplay = null;
+  }
+};
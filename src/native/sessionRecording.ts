@@ -0,0 +1,379 @@
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+import { ARErrorCode } from './ARError';
+import {
+  ARNativeEventMap,
+  ARNativeEventName,
+  ARNativeModule,
+  ARNativeModuleType,
+} from './ARNativeModule';
+import type { ARViewEventMap, ARViewHandlers } from './ARView';
+
+/**
+ * A recorded AR session: what the app asked the module, what the module and
+ * the AR view reported back, and when.
+ *
+ * Only session calls are recorded (RECORDED_METHODS). File and library calls
+ * are left out; the files they work on are copied into the bundle instead.
+ * Paths are kept as recorded and rewritten when the bundle is restored on
+ * another device.
+ */
+
+export const SESSION_RECORDING_VERSION = 2;
+
+/**
+ * Where bundles are saved, relative to the documents directory
+ */
+export const SESSION_RECORDINGS_DIRECTORY = 'Recordings';
+
+/**
+ * Inside a bundle: the recording, and the recorded files by their path
+ * relative to the documents directory
+ */
+export const SESSION_TIMELINE_FILE = 'timeline.json';
+export const SESSION_FILES_DIRECTORY = 'files';
+
+export const RECORDED_METHODS = [
+  'isSupported',
+  'getDeviceCapabilities',
+  'startSession',
+  'stopSession',
+  'startObjectScan',
+  'stopObjectScan',
+  'resumeObjectScan',
+  'clearScan',
+  'setCapturePaused',
+  'isPhotogrammetrySupported',
+  'processPhotogrammetry',
+  'cancelPhotogrammetry',
+  'getPhotogrammetryCaptureDirectory',
+  'getPhotogrammetryImageCount',
+] as const;
+
+export type RecordedMethod = (typeof RECORDED_METHODS)[number];
+
+export const RECORDED_EVENTS: ARNativeEventName[] = [
+  'onCaptureStarted',
+  'onImageCaptured',
+  'onFrameRejected',
+  'onCaptureStopped',
+];
+
+export const RECORDED_VIEW_EVENTS: (keyof ARViewHandlers)[] = [
+  'onTrackingStateChange',
+  'onFrameCaptured',
+  'onPlaneDetected',
+  'onSessionError',
+];
+
+export interface RecordedError {
+  code: ARErrorCode;
+  message: string;
+  nativeCode: string | null;
+}
+
+/**
+ * A module call and how it settled. Times are milliseconds since the
+ * recording started.
+ */
+export interface RecordedCall {
+  type: 'call';
+  at: number;
+  method: RecordedMethod;
+  /** Arguments that survive JSON; processPhotogrammetry's callback is dropped */
+  args: unknown[];
+  /** Time until the call settled; null if it had not when recording stopped */
+  duration: number | null;
+  result?: unknown;
+  error?: RecordedError;
+  /** Progress reported by processPhotogrammetry, at times relative to the call */
+  progress?: { at: number; progress: ProcessingProgress }[];
+}
+
+/**
+ * A module event, with the payload its name carries
+ */
+export type RecordedModuleEvent<
+  K extends ARNativeEventName = ARNativeEventName,
+> = {
+  [Name in K]: {
+    type: 'event';
+    at: number;
+    name: Name;
+    payload: ARNativeEventMap[Name];
+  };
+}[K];
+
+/**
+ * An AR view event, with the payload its name carries
+ */
+export type RecordedViewEvent<
+  K extends keyof ARViewEventMap = keyof ARViewEventMap,
+> = {
+  [Name in K]: {
+    type: 'view';
+    at: number;
+    name: Name;
+    payload: ARViewEventMap[Name];
+  };
+}[K];
+
+export type RecordedEntry =
+  | RecordedCall
+  | RecordedModuleEvent
+  | RecordedViewEvent;
+
+export interface SessionRecording {
+  version: number;
+  /** Platform.OS of the recording device */
+  platform: string;
+  /** Unix time in milliseconds */
+  startedAt: number;
+  duration: number;
+  /** The recording device's documents directory */
+  documentsDirectory: string | null;
+  /** Recorded files, relative to the documents directory */
+  files: string[];
+  timeline: RecordedEntry[];
+}
+
+/**
+ * Thrown when a bundle is missing or cannot be read
+ */
+export class SessionRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionRecordingError';
+  }
+}
+
+// Multiple of 3 so base64 chunks can be joined
+const COPY_CHUNK_BYTES = 3 * 256 * 1024;
+
+const joinPath = (directory: string, name: string) => `${directory}/${name}`;
+
+const parentOf = (path: string) => path.slice(0, path.lastIndexOf('/'));
+
+const nameOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+/**
+ * Copy a file within the documents directory through the module
+ */
+export const copyFile = async (
+  from: string,
+  to: string,
+  module: ARNativeModuleType = ARNativeModule,
+) => {
+  const chunks: string[] = [];
+  for (let offset = 0; ; offset += COPY_CHUNK_BYTES) {
+    const chunk = await module.readFileChunk(from, offset, COPY_CHUNK_BYTES);
+    chunks.push(chunk);
+    // A full chunk is 4 base64 characters per 3 bytes
+    if (chunk.length < (COPY_CHUNK_BYTES / 3) * 4) {
+      break;
+    }
+  }
+  await module.writeBase64File(to, chunks.join(''));
+};
+
+/**
+ * Capture directories the recording saw, as recorded
+ */
+export const recordedCaptureDirectories = (
+  recording: Pick<SessionRecording, 'timeline'>,
+): string[] => {
+  const directories = new Set<string>();
+  recording.timeline.forEach(entry => {
+    if (
+      entry.type === 'event' &&
+      (entry.name === 'onCaptureStarted' || entry.name === 'onCaptureStopped')
+    ) {
+      const { directory } = entry.payload;
+      if (directory) {
+        directories.add(directory);
+      }
+    }
+  });
+  return [...directories];
+};
+
+/**
+ * Models the recording saw being generated, as recorded
+ */
+export const recordedModelPaths = (
+  recording: Pick<SessionRecording, 'timeline'>,
+): string[] =>
+  recording.timeline.flatMap(entry =>
+    entry.type === 'call' &&
+    entry.method === 'processPhotogrammetry' &&
+    typeof entry.result === 'string'
+      ? [entry.result]
+      : [],
+  );
+
+/**
+ * Save a recording and the files it produced as a bundle: the captured
+ * images and metadata, and any generated models. Library bookkeeping
+ * (capture.json) is left out so a replay starts from a fresh capture.
+ * @returns Bundle directory, relative to the documents directory
+ */
+export const saveSessionRecording = async (
+  recording: SessionRecording,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<string> => {
+  const bundle = joinPath(
+    SESSION_RECORDINGS_DIRECTORY,
+    `Recording_${Math.floor(recording.startedAt / 1000)}`,
+  );
+  const captures = recordedCaptureDirectories(recording);
+  const documentsDirectory = captures.length > 0 ? parentOf(captures[0]) : null;
+  const relative = (path: string) =>
+    documentsDirectory && path.startsWith(`${documentsDirectory}/`)
+      ? path.slice(documentsDirectory.length + 1)
+      : null;
+
+  const files: string[] = [];
+  const save = async (path: string) => {
+    const name = relative(path);
+    if (name) {
+      await copyFile(
+        path,
+        joinPath(bundle, joinPath(SESSION_FILES_DIRECTORY, name)),
+        module,
+      );
+      files.push(name);
+    }
+  };
+
+  for (const directory of captures) {
+    const captureFiles = await module.listCaptureFiles(directory);
+    for (const file of captureFiles) {
+      if (file.name !== 'capture.json') {
+        await save(joinPath(directory, file.name));
+      }
+    }
+  }
+  for (const path of recordedModelPaths(recording)) {
+    await save(path);
+  }
+
+  await module.writeTextFile(
+    joinPath(bundle, SESSION_TIMELINE_FILE),
+    JSON.stringify({ ...recording, documentsDirectory, files }),
+  );
+  return bundle;
+};
+
+// Version 1 recorded each processing update as the array the native
+// callback was invoked with
+const upgradeFromVersion1 = (
+  recording: SessionRecording,
+): SessionRecording => ({
+  ...recording,
+  version: SESSION_RECORDING_VERSION,
+  timeline: recording.timeline.map(entry =>
+    entry.type === 'call' && entry.progress
+      ? {
+          ...entry,
+          progress: entry.progress.map(({ at, progress }) => ({
+            at,
+            progress: Array.isArray(progress) ? progress[0] : progress,
+          })),
+        }
+      : entry,
+  ),
+});
+
+/**
+ * Read a bundle's recording without touching its files
+ * @throws SessionRecordingError if the bundle is missing or unreadable
+ */
+export const loadSessionRecording = async (
+  bundle: string,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<SessionRecording> => {
+  const json = await module.readTextFile(
+    joinPath(bundle, SESSION_TIMELINE_FILE),
+  );
+  if (!json) {
+    throw new SessionRecordingError(`No recording at ${bundle}`);
+  }
+  let recording: SessionRecording;
+  try {
+    recording = JSON.parse(json);
+  } catch {
+    throw new SessionRecordingError(`Recording at ${bundle} is not valid JSON`);
+  }
+  if (
+    recording.version !== SESSION_RECORDING_VERSION &&
+    recording.version !== 1
+  ) {
+    throw new SessionRecordingError(
+      `Recording version ${recording.version} is not supported`,
+    );
+  }
+  if (!Array.isArray(recording.timeline) || !Array.isArray(recording.files)) {
+    throw new SessionRecordingError(`Recording at ${bundle} has no timeline`);
+  }
+  return recording.version === 1 ? upgradeFromVersion1(recording) : recording;
+};
+
+/**
+ * Replace a path prefix in every string of a recorded value
+ */
+export const rewritePaths = <T>(value: T, from: string, to: string): T => {
+  if (from === to) {
+    return value;
+  }
+  const rewrite = (item: unknown): unknown => {
+    if (typeof item === 'string') {
+      return item === from || item.startsWith(`${from}/`)
+        ? to + item.slice(from.length)
+        : item;
+    }
+    if (Array.isArray(item)) {
+      return item.map(rewrite);
+    }
+    if (item && typeof item === 'object') {
+      return Object.fromEntries(
+        Object.entries(item).map(([key, entry]) => [key, rewrite(entry)]),
+      );
+    }
+    return item;
+  };
+  return rewrite(value) as T;
+};
+
+/**
+ * Copy a bundle's files back into the documents directory, then point the
+ * recording's paths at them
+ * @returns The recording, ready for ReplayARNativeModule
+ */
+export const restoreSessionRecording = async (
+  bundle: string,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<SessionRecording> => {
+  const recording = await loadSessionRecording(bundle, module);
+  for (const name of recording.files) {
+    await copyFile(
+      joinPath(bundle, joinPath(SESSION_FILES_DIRECTORY, name)),
+      name,
+      module,
+    );
+  }
+
+  // The library reports absolute paths, which tells us where documents live
+  const [capture] = recordedCaptureDirectories(recording);
+  if (!capture || !recording.documentsDirectory) {
+    return recording;
+  }
+  const restored = (await module.listCaptures()).find(
+    info => nameOf(info.directory) === nameOf(capture),
+  );
+  return restored
+    ? rewritePaths(
+        recording,
+        recording.documentsDirectory,
+        parentOf(restored.directory),
+      )
+    : recording;
+};
@@ -0,0 +1,33 @@
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import {
+  ReconstructionProvider,
+  ReconstructionRequest,
+} from './ReconstructionProvider';
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+
+/**
+ * On-device reconstruction with RealityKit's PhotogrammetrySession (iOS only)
+ */
+export class LocalReconstructionProvider implements ReconstructionProvider {
+  readonly id = 'local';
+  readonly label = 'This device';
+
+  constructor(private readonly module: ARNativeModuleType = ARNativeModule) {}
+
+  reconstruct(
+    { jobId, directory, outputFilename, options }: ReconstructionRequest,
+    onProgress: (progress: ProcessingProgress) => void,
+  ): Promise<string> {
+    return this.module.processPhotogrammetry(
+      directory,
+      outputFilename,
+      options,
+      onProgress,
+      jobId,
+    );
+  }
+
+  cancel(jobId: string): Promise<boolean> {
+    return this.module.cancelPhotogrammetry(jobId);
+  }
+}
@@ -0,0 +1,453 @@
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import { ARErrorCode, createARError, toARError } from '../native/ARError';
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+import {
+  isProcessingCancelled,
+  ReconstructionProvider,
+  ReconstructionProviderId,
+} from './ReconstructionProvider';
+import { ProgressEstimator } from './processingProgress';
+import { selectReconstructionProvider } from './reconstructionSettings';
+import {
+  normalizeProcessingOptions,
+  ProcessingOptions,
+  sameProcessingOptions,
+} from './processingOptions';
+
+export type ProcessingJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type ProcessingJobOptions = ProcessingOptions;
+
+export interface ProcessingJob {
+  id: string;
+  /** Capture directory to reconstruct */
+  directory: string;
+  options: ProcessingJobOptions;
+  status: ProcessingJobStatus;
+  /** Latest progress while running, with an estimate of the time left; not persisted */
+  progress: ProcessingProgress | null;
+  outputPath: string | null;
+  error: string | null;
+  /** Cause of the latest failure, for recovery and for counting failures */
+  errorCode: ARErrorCode | null;
+  /** Backend that ran the latest attempt */
+  provider: ReconstructionProviderId | null;
+  /** Number of times the job has been started, including retries */
+  attempts: number;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  updatedAt: number;
+  /** When the latest attempt started, or null if it never has */
+  startedAt: number | null;
+}
+
+export type ProcessingQueueListener = (jobs: ProcessingJob[]) => void;
+
+/**
+ * Chooses the backend for each run; null fails the job
+ */
+export type ReconstructionProviderSelector =
+  () => Promise<ReconstructionProvider | null>;
+
+export const NO_PROVIDER_ERROR =
+  'This device cannot reconstruct models. Set a reconstruction server to process captures.';
+
+/**
+ * Where job state is kept, relative to the documents directory
+ */
+export const PROCESSING_JOBS_FILE = 'processing_jobs.json';
+
+const SETTLED_STATUSES: ProcessingJobStatus[] = [
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+export const isJobSettled = (job: ProcessingJob) =>
+  SETTLED_STATUSES.includes(job.status);
+
+/**
+ * Count failed jobs by the cause of their latest failure
+ */
+export const countFailuresByCause = (
+  jobs: ProcessingJob[],
+): Partial<Record<ARErrorCode, number>> =>
+  jobs.reduce<Partial<Record<ARErrorCode, number>>>((counts, job) => {
+    if (job.status === 'failed') {
+      const code = job.errorCode ?? 'UNKNOWN';
+      counts[code] = (counts[code] ?? 0) + 1;
+    }
+    return counts;
+  }, {});
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+let jobCounter = 0;
+
+const createJobId = () =>
+  `job_${Date.now().toString(36)}_${(jobCounter++).toString(36)}`;
+
+const parseOptions = (
+  options: Partial<ProcessingOptions>,
+): ProcessingOptions | null => {
+  try {
+    return normalizeProcessingOptions(options);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parse persisted jobs, dropping entries that do not look like jobs. Jobs
+ * saved with only a detail level get the default for every other option.
+ */
+const parseJobs = (json: string): ProcessingJob[] => {
+  const raw = JSON.parse(json);
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter(
+      (job): job is ProcessingJob =>
+        typeof job?.id === 'string' &&
+        typeof job.directory === 'string' &&
+        typeof job.options?.detail === 'string' &&
+        typeof job.status === 'string',
+    )
+    .flatMap(job => {
+      const options = parseOptions(job.options);
+      return options
+        ? [
+            {
+              ...job,
+              options,
+              provider: job.provider ?? null,
+              errorCode: job.errorCode ?? null,
+              startedAt: job.startedAt ?? null,
+            },
+          ]
+        : [];
+    });
+};
+
+/**
+ * Runs reconstruction jobs one at a time, independent of any screen
+ *
+ * Each run goes to the provider chosen for the device at that moment, so a
+ * job queued before a server was set up can be retried once it is.
+ *
+ * Job state is written to disk on every status change, so queued work
+ * survives app restarts: call restore() once at startup to reload it. A job
+ * that was running when the app exited is queued again, since native
+ * processing does not outlive the process.
+ */
+export class ProcessingQueue {
+  private jobs: ProcessingJob[] = [];
+  private listeners = new Set<ProcessingQueueListener>();
+  private cancelRequested = new Set<string>();
+  private activeProvider: ReconstructionProvider | null = null;
+  private loaded: Promise<void> | null = null;
+  private restored: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param module Native module, used for job state and the default provider selection
+   * @param storagePath File for job state, or null to keep jobs in memory only
+   * @param selectProvider Picks the backend each time a job starts
+   */
+  constructor(
+    private readonly module: ARNativeModuleType = ARNativeModule,
+    private readonly storagePath: string | null = PROCESSING_JOBS_FILE,
+    private readonly selectProvider: ReconstructionProviderSelector = () =>
+      selectReconstructionProvider(module),
+  ) {}
+
+  getJobs = (): ProcessingJob[] => this.jobs;
+
+  getJob(id: string): ProcessingJob | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  subscribe = (listener: ProcessingQueueListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Reload persisted jobs and resume the queue; safe to call more than once
+   */
+  restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.ensureLoaded().then(() => this.pump());
+    }
+    return this.restored;
+  }
+
+  // Started by restore(), or by the first write if a job changes before then
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Queue a capture for processing
+   * @param options Unset options take their defaults
+   * @returns The new job, or the existing unsettled job for the same capture and options
+   * @throws ProcessingOptionsError if the options are invalid
+   */
+  enqueue(
+    directory: string,
+    options: Partial<ProcessingJobOptions>,
+  ): ProcessingJob {
+    const normalized = normalizeProcessingOptions(options);
+    const existing = this.jobs.find(
+      job =>
+        job.directory === directory &&
+        sameProcessingOptions(job.options, normalized) &&
+        !isJobSettled(job),
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const job: ProcessingJob = {
+      id: createJobId(),
+      directory,
+      options: normalized,
+      status: 'queued',
+      progress: null,
+      outputPath: null,
+      error: null,
+      errorCode: null,
+      provider: null,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: null,
+    };
+    this.setJobs([...this.jobs, job]);
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Cancel a queued or running job
+   * @returns false if the job is unknown or already settled
+   */
+  async cancel(id: string): Promise<boolean> {
+    const job = this.getJob(id);
+    if (!job || isJobSettled(job)) {
+      return false;
+    }
+    if (job.status === 'queued') {
+      this.updateJob(id, { status: 'cancelled', progress: null });
+      return true;
+    }
+
+    // The running call rejects once the provider has stopped; run() settles
+    // the job. Before a provider is chosen, run() checks the flag itself.
+    this.cancelRequested.add(id);
+    return this.activeProvider ? this.activeProvider.cancel(id) : true;
+  }
+
+  /**
+   * Queue a settled job again, optionally with different options
+   * @returns The requeued job, or null if it is unknown or still active
+   * @throws ProcessingOptionsError if the options are invalid
+   */
+  retry(
+    id: string,
+    options: Partial<ProcessingJobOptions> = {},
+  ): ProcessingJob | null {
+    const job = this.getJob(id);
+    if (!job || !isJobSettled(job)) {
+      return null;
+    }
+    this.updateJob(id, {
+      status: 'queued',
+      options: normalizeProcessingOptions({ ...job.options, ...options }),
+      outputPath: null,
+      error: null,
+      errorCode: null,
+      progress: null,
+    });
+    this.pump();
+    return this.getJob(id) ?? null;
+  }
+
+  /**
+   * Forget a settled job; models it produced are kept
+   */
+  remove(id: string): boolean {
+    const job = this.getJob(id);
+    if (!job || !isJobSettled(job)) {
+      return false;
+    }
+    this.setJobs(this.jobs.filter(other => other.id !== id));
+    return true;
+  }
+
+  /**
+   * Resolve once the job has completed, failed or been cancelled
+   */
+  waitFor(id: string): Promise<ProcessingJob> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const job = this.getJob(id);
+        if (!job) {
+          unsubscribe();
+          reject(new Error(`Unknown processing job ${id}`));
+        } else if (isJobSettled(job)) {
+          unsubscribe();
+          resolve(job);
+        }
+      };
+      const unsubscribe = this.subscribe(check);
+      check();
+    });
+  }
+
+  private async load() {
+    if (!this.storagePath) {
+      return;
+    }
+    try {
+      const json = await this.module.readTextFile(this.storagePath);
+      const persisted = json ? parseJobs(json) : [];
+      const resumed = persisted
+        .filter(job => !this.getJob(job.id))
+        .map(job =>
+          job.status === 'running'
+            ? { ...job, status: 'queued' as const, progress: null }
+            : { ...job, progress: null },
+        );
+      if (resumed.length > 0) {
+        this.setJobs([...resumed, ...this.jobs]);
+      }
+    } catch (error) {
+      console.warn('Could not restore processing jobs:', error);
+    }
+  }
+
+  private pump() {
+    if (this.jobs.some(job => job.status === 'running')) {
+      return;
+    }
+    const next = this.jobs.find(job => job.status === 'queued');
+    if (next) {
+      this.run(next);
+    }
+  }
+
+  private async run(job: ProcessingJob) {
+    this.updateJob(job.id, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      progress: { status: 'Starting...', progress: 0, etaSeconds: null },
+      error: null,
+      errorCode: null,
+      startedAt: Date.now(),
+    });
+    const estimator = new ProgressEstimator();
+
+    try {
+      const provider = await this.selectProvider();
+      if (!provider) {
+        throw createARError('PHOTOGRAMMETRY_UNSUPPORTED', NO_PROVIDER_ERROR);
+      }
+      if (this.cancelRequested.has(job.id)) {
+        throw new Error('Cancelled before starting');
+      }
+      this.activeProvider = provider;
+      this.updateJob(job.id, { provider: provider.id });
+
+      const outputPath = await provider.reconstruct(
+        {
+          jobId: job.id,
+          directory: job.directory,
+          outputFilename: `model_${Date.now()}`,
+          options: job.options,
+        },
+        progress => {
+          if (this.getJob(job.id)?.status === 'running') {
+            this.updateJob(
+              job.id,
+              { progress: estimator.add(progress) },
+              false,
+            );
+          }
+        },
+      );
+      this.updateJob(job.id, {
+        status: 'completed',
+        outputPath,
+        progress: null,
+      });
+    } catch (error) {
+      const cancelled =
+        this.cancelRequested.has(job.id) || isProcessingCancelled(error);
+      this.updateJob(job.id, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error: cancelled ? null : errorMessage(error),
+        errorCode: cancelled ? null : toARError(error).code,
+        progress: null,
+      });
+    } finally {
+      this.activeProvider = null;
+      this.cancelRequested.delete(job.id);
+      this.pump();
+    }
+  }
+
+  private updateJob(id: string, patch: Partial<ProcessingJob>, persist = true) {
+    this.setJobs(
+      this.jobs.map(job =>
+        job.id === id ? { ...job, ...patch, updatedAt: Date.now() } : job,
+      ),
+      persist,
+    );
+  }
+
+  private setJobs(jobs: ProcessingJob[], persist = true) {
+    this.jobs = jobs;
+    this.listeners.forEach(listener => listener(jobs));
+    if (persist) {
+      this.persist();
+    }
+  }
+
+  // Writes are chained so an older snapshot never lands after a newer one.
+  // The snapshot is taken once the saved jobs have loaded, so a job queued
+  // before restore() never replaces them on disk.
+  private persist() {
+    const { storagePath } = this;
+    if (!storagePath) {
+      return;
+    }
+    this.saving = this.saving
+      .then(() => this.ensureLoaded())
+      .then(() =>
+        this.module.writeTextFile(
+          storagePath,
+          JSON.stringify(this.jobs.map(job => ({ ...job, progress: null }))),
+        ),
+      )
+      .catch(error => console.warn('Could not save processing jobs:', error));
+  }
+}
+
+/**
+ * Queue shared by every screen; restored from disk at app start
+ */
+export const processingQueue = new ProcessingQueue();
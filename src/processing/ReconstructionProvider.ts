@@ -0,0 +1,51 @@
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+import { createARError } from '../native/ARError';
+import type { ProcessingOptions } from './processingOptions';
+
+export type ReconstructionProviderId = 'local' | 'remote';
+
+export interface ReconstructionRequest {
+  /** Processing queue job; the key for cancel() */
+  jobId: string;
+  /** Capture directory to reconstruct */
+  directory: string;
+  /** Model file name, without extension */
+  outputFilename: string;
+  options: ProcessingOptions;
+}
+
+/**
+ * A backend that turns a capture directory into a model
+ *
+ * Providers record processing status and models on the capture themselves,
+ * so the scan library looks the same whichever one ran.
+ */
+export interface ReconstructionProvider {
+  readonly id: ReconstructionProviderId;
+  /** Where the work happens, for display */
+  readonly label: string;
+
+  /**
+   * @returns Absolute path of the model on this device
+   * @throws Error with code PROCESSING_CANCELLED if cancelled
+   */
+  reconstruct(
+    request: ReconstructionRequest,
+    onProgress: (progress: ProcessingProgress) => void,
+  ): Promise<string>;
+
+  /**
+   * Stop a running reconstruct() call, which then rejects
+   * @returns false if the job is not running here
+   */
+  cancel(jobId: string): Promise<boolean>;
+}
+
+/**
+ * The rejection every provider uses for a cancelled job
+ */
+export const processingCancelledError = () =>
+  createARError('PROCESSING_CANCELLED', 'Processing was cancelled');
+
+export const isProcessingCancelled = (error: unknown) =>
+  (error as { code?: string } | null)?.code === 'PROCESSING_CANCELLED';
@@ -0,0 +1,471 @@
+import { Platform } from 'react-native';
+import {
+  ARNativeModule,
+  ARNativeModuleType,
+  CaptureFileInfo,
+  CaptureProcessingRecord,
+} from '../native/ARNativeModule';
+import {
+  isProcessingCancelled,
+  processingCancelledError,
+  ReconstructionProvider,
+  ReconstructionRequest,
+} from './ReconstructionProvider';
+import { ProcessingOptions, sameProcessingOptions } from './processingOptions';
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+import { isFileInSegment, loadCaptureSegments } from '../capture/guidedCapture';
+
+export type RemoteJobStatus =
+  | 'uploading'
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Job state as reported by GET /jobs/:id
+ */
+export interface RemoteJob {
+  id: string;
+  status: RemoteJobStatus;
+  /** 0-1 while queued or processing */
+  progress?: number;
+  /** Stage description from the server */
+  message?: string;
+  error?: string;
+  /** Bytes received so far, keyed by file name */
+  files: Record<string, number>;
+  /** Model file extension, e.g. "glb" or "usdz" */
+  modelFormat?: string;
+}
+
+export interface RemoteReconstructionOptions {
+  /** Server base URL, e.g. http://192.168.1.20:8080 */
+  serverUrl: string;
+  /** Bytes per upload request */
+  chunkSize?: number;
+  /** Delay between status requests while the server works */
+  pollIntervalMs?: number;
+  /** Where upload progress is kept between runs, or null for memory only */
+  statePath?: string | null;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Where remote job IDs are kept, relative to the documents directory,
+ * so an interrupted upload resumes instead of starting over
+ */
+export const REMOTE_UPLOADS_FILE = 'remote_uploads.json';
+
+const DEFAULT_CHUNK_SIZE = 512 * 1024;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_MODEL_FORMAT = 'glb';
+
+// Share of the progress bar spent uploading; the server reports the rest
+const UPLOAD_SHARE = 0.3;
+
+const STATUS_LABELS: Record<RemoteJobStatus, string> = {
+  uploading: 'Uploading...',
+  queued: 'Waiting for server...',
+  processing: 'Processing on server...',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Thrown for an unexpected response from the reconstruction server
+ */
+export class ReconstructionServerError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(`Reconstruction server responded ${status}: ${message}`);
+    this.name = 'ReconstructionServerError';
+  }
+}
+
+/**
+ * Thrown when the server's count of bytes received for a file cannot be
+ * right: uploading on from it would stall or leave the file incomplete
+ */
+export class ReconstructionUploadError extends Error {
+  constructor(
+    readonly fileName: string,
+    readonly offset: number,
+    readonly received: unknown,
+  ) {
+    super(
+      `Reconstruction server reported ${JSON.stringify(
+        received,
+      )} bytes of ${fileName} received after a chunk at ${offset}`,
+    );
+    this.name = 'ReconstructionUploadError';
+  }
+}
+
+/**
+ * Check that a reconstruction server is reachable and speaks the protocol
+ * @throws Error describing why it is not
+ */
+export const checkReconstructionServer = async (
+  serverUrl: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<void> => {
+  const response = await fetchImpl(`${serverUrl.replace(/\/+$/, '')}/health`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new ReconstructionServerError(response.status, response.statusText);
+  }
+};
+
+interface SavedUpload {
+  remoteId: string;
+  serverUrl: string;
+  options: ProcessingOptions;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const pathJoin = (directory: string, name: string) =>
+  `${directory.replace(/\/+$/, '')}/${name}`;
+
+/**
+ * Where to send the next chunk from, given the server's count for the file
+ * A stored chunk must move the count forward; a 409 may move it anywhere
+ * but where it was. Either way it must stay within the file.
+ * @throws ReconstructionUploadError for any other count
+ */
+const checkReceived = (
+  file: CaptureFileInfo,
+  offset: number,
+  received: unknown,
+  rewind: boolean,
+): number => {
+  const valid =
+    typeof received === 'number' &&
+    Number.isInteger(received) &&
+    received <= file.size &&
+    (rewind ? received >= 0 && received !== offset : received > offset);
+  if (!valid) {
+    throw new ReconstructionUploadError(file.name, offset, received);
+  }
+  return received as number;
+};
+
+/**
+ * Reconstruction on a self-hosted HTTP server
+ *
+ * The capture directory is uploaded in chunks; the server reports how many
+ * bytes of each file it holds, so an interrupted upload picks up where it
+ * stopped, even after an app restart. The protocol is described in
+ * RECONSTRUCTION_SERVER.md.
+ */
+export class RemoteReconstructionProvider implements ReconstructionProvider {
+  readonly id = 'remote';
+  readonly label: string;
+  private readonly serverUrl: string;
+  private readonly chunkSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly statePath: string | null;
+  private readonly fetch: typeof fetch;
+  private running = new Set<string>();
+  private cancelRequested = new Set<string>();
+
+  constructor(
+    options: RemoteReconstructionOptions,
+    private readonly module: ARNativeModuleType = ARNativeModule,
+  ) {
+    this.serverUrl = options.serverUrl.replace(/\/+$/, '');
+    this.label = this.serverUrl.replace(/^https?:\/\//, '');
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.statePath =
+      options.statePath === undefined ? REMOTE_UPLOADS_FILE : options.statePath;
+    // Unbound, fetch can throw "Illegal invocation"
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async reconstruct(
+    request: ReconstructionRequest,
+    onProgress: (progress: ProcessingProgress) => void,
+  ): Promise<string> {
+    const { jobId, directory, outputFilename, options } = request;
+    const { detail } = options;
+    this.running.add(jobId);
+    let remoteId: string | null = null;
+    await this.record(directory, { status: 'processing', detail });
+
+    try {
+      onProgress({ status: 'Connecting...', progress: 0 });
+      const files = await this.captureFiles(directory, options);
+      let job = await this.openJob(request, files);
+      remoteId = job.id;
+
+      if (job.status === 'uploading') {
+        await this.upload(request, job, files, onProgress);
+        job = await this.send<RemoteJob>('POST', `/jobs/${job.id}/start`);
+      }
+      job = await this.poll(jobId, job, onProgress);
+      if (job.status !== 'completed') {
+        throw new Error(job.error || `Server job ${job.status}`);
+      }
+
+      onProgress({ status: 'Downloading model...', progress: 1 });
+      const format = job.modelFormat ?? DEFAULT_MODEL_FORMAT;
+      const path = await this.module.downloadFile(
+        this.url(`/jobs/${job.id}/model`),
+        `${outputFilename}.${format}`,
+      );
+      await this.module
+        .recordCaptureModel(directory, path, detail)
+        .catch(error => console.warn('Could not record model:', error));
+      await this.record(directory, { status: 'completed', detail });
+      await this.forget(jobId);
+      return path;
+    } catch (error) {
+      if (this.cancelRequested.has(jobId) || isProcessingCancelled(error)) {
+        if (remoteId) {
+          await this.send('POST', `/jobs/${remoteId}/cancel`).catch(() => {});
+        }
+        await this.forget(jobId);
+        await this.record(directory, { status: 'cancelled', detail });
+        throw processingCancelledError();
+      }
+      // Upload state is kept, so a retry resumes rather than starts over
+      await this.record(directory, {
+        status: 'failed',
+        detail,
+        error: errorMessage(error),
+      });
+      throw error;
+    } finally {
+      this.running.delete(jobId);
+      this.cancelRequested.delete(jobId);
+    }
+  }
+
+  async cancel(jobId: string): Promise<boolean> {
+    if (!this.running.has(jobId)) {
+      return false;
+    }
+    this.cancelRequested.add(jobId);
+    return true;
+  }
+
+  /**
+   * Files to upload: the whole capture, or one pass of a guided capture
+   */
+  private async captureFiles(
+    directory: string,
+    { segment }: ProcessingOptions,
+  ): Promise<CaptureFileInfo[]> {
+    const files = await this.module.listCaptureFiles(directory);
+    if (!segment) {
+      return files;
+    }
+    const segments = await loadCaptureSegments(directory, this.module);
+    return files.filter(file => isFileInSegment(segments, segment, file.name));
+  }
+
+  /**
+   * Resume the server job from an earlier attempt, or create one
+   */
+  private async openJob(
+    { jobId, directory, options }: ReconstructionRequest,
+    files: CaptureFileInfo[],
+  ): Promise<RemoteJob> {
+    const saved = (await this.loadState())[jobId];
+    if (
+      saved?.options &&
+      saved.serverUrl === this.serverUrl &&
+      sameProcessingOptions(saved.options, options)
+    ) {
+      try {
+        const job = await this.send<RemoteJob>(
+          'GET',
+          `/jobs/${saved.remoteId}`,
+        );
+        if (job.status !== 'failed' && job.status !== 'cancelled') {
+          return job;
+        }
+      } catch (error) {
+        // The server forgot the job (e.g. it restarted); start a new one
+        if (
+          !(error instanceof ReconstructionServerError && error.status === 404)
+        ) {
+          throw error;
+        }
+      }
+    }
+
+    const job = await this.send<RemoteJob>('POST', '/jobs', {
+      captureId: directory.split('/').pop(),
+      detail: options.detail,
+      options,
+      platform: Platform.OS,
+      imageCount: files.filter(file => /^image_.*\.jpg$/.test(file.name))
+        .length,
+      files,
+    });
+    await this.saveState(jobId, {
+      remoteId: job.id,
+      serverUrl: this.serverUrl,
+      options,
+    });
+    return job;
+  }
+
+  private async upload(
+    { jobId, directory }: ReconstructionRequest,
+    job: RemoteJob,
+    files: CaptureFileInfo[],
+    onProgress: (progress: ProcessingProgress) => void,
+  ) {
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    const received = { ...job.files };
+    const sent = () =>
+      files.reduce(
+        (sum, file) => sum + Math.min(received[file.name] ?? 0, file.size),
+        0,
+      );
+    const report = () =>
+      onProgress({
+        status: STATUS_LABELS.uploading,
+        progress: total > 0 ? (sent() / total) * UPLOAD_SHARE : UPLOAD_SHARE,
+      });
+
+    for (const file of files) {
+      let offset = received[file.name] ?? 0;
+      while (offset < file.size) {
+        this.throwIfCancelled(jobId);
+        report();
+        const data = await this.module.readFileChunk(
+          pathJoin(directory, file.name),
+          offset,
+          Math.min(this.chunkSize, file.size - offset),
+        );
+        // The server answers with how much it now holds, which is also how
+        // it tells us, with a 409, to resend from elsewhere
+        const { status, body } = await this.request<{ received?: unknown }>(
+          'PUT',
+          `/jobs/${job.id}/files/${encodeURIComponent(file.name)}`,
+          { offset, data },
+          [409],
+        );
+        offset = checkReceived(file, offset, body.received, status === 409);
+        received[file.name] = offset;
+      }
+    }
+    report();
+  }
+
+  private async poll(
+    jobId: string,
+    initial: RemoteJob,
+    onProgress: (progress: ProcessingProgress) => void,
+  ): Promise<RemoteJob> {
+    let job = initial;
+    while (job.status === 'queued' || job.status === 'processing') {
+      onProgress({
+        status: job.message || STATUS_LABELS[job.status],
+        progress: UPLOAD_SHARE + (job.progress ?? 0) * (1 - UPLOAD_SHARE),
+      });
+      await sleep(this.pollIntervalMs);
+      this.throwIfCancelled(jobId);
+      job = await this.send<RemoteJob>('GET', `/jobs/${job.id}`);
+    }
+    return job;
+  }
+
+  private throwIfCancelled(jobId: string) {
+    if (this.cancelRequested.has(jobId)) {
+      throw processingCancelledError();
+    }
+  }
+
+  private url(path: string) {
+    return `${this.serverUrl}${path}`;
+  }
+
+  /**
+   * @param allowStatuses Error statuses whose JSON body is still a valid answer
+   */
+  private async send<T = unknown>(
+    method: string,
+    path: string,
+    body?: unknown,
+    allowStatuses: number[] = [],
+  ): Promise<T> {
+    return (await this.request<T>(method, path, body, allowStatuses)).body;
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    allowStatuses: number[] = [],
+  ): Promise<{ status: number; body: T }> {
+    const response = await this.fetch(this.url(path), {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok && !allowStatuses.includes(response.status)) {
+      const text = await response.text().catch(() => '');
+      throw new ReconstructionServerError(
+        response.status,
+        text || response.statusText,
+      );
+    }
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  private record(
+    directory: string,
+    record: Omit<CaptureProcessingRecord, 'updatedAt'>,
+  ) {
+    return this.module
+      .recordCaptureProcessing(directory, record)
+      .catch(error => console.warn('Could not record processing:', error));
+  }
+
+  private async loadState(): Promise<Record<string, SavedUpload>> {
+    if (!this.statePath) {
+      return {};
+    }
+    try {
+      const json = await this.module.readTextFile(this.statePath);
+      return json ? JSON.parse(json) : {};
+    } catch (error) {
+      console.warn('Could not read upload state:', error);
+      return {};
+    }
+  }
+
+  private async saveState(jobId: string, upload: SavedUpload | null) {
+    if (!this.statePath) {
+      return;
+    }
+    const state = await this.loadState();
+    if (upload) {
+      state[jobId] = upload;
+    } else {
+      delete state[jobId];
+    }
+    await this.module
+      .writeTextFile(this.statePath, JSON.stringify(state))
+      .catch(error => console.warn('Could not save upload state:', error));
+  }
+
+  private forget(jobId: string) {
+    return this.saveState(jobId, null);
+  }
+}
@@ -0,0 +1,100 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import {
+  ProcessingJob,
+  ProcessingJobStatus,
+  processingQueue,
+  ProcessingQueue,
+} from './ProcessingQueue';
+
+/**
+ * Jobs that ran at least this long notify when they finish in the background
+ */
+export const LONG_PROCESSING_JOB_MS = 60000;
+
+export interface ProcessingNotificationOptions {
+  queue: ProcessingQueue;
+  module: ARNativeModuleType;
+  minDurationMs: number;
+  /** Whether the app is in the foreground, where no notification is needed */
+  getAppState: () => AppStateStatus;
+  /** Clock in milliseconds, for tests */
+  now: () => number;
+}
+
+/**
+ * Notification for a job that has just finished, or null if there is
+ * nothing to tell (it was cancelled)
+ */
+export const processingNotificationFor = (
+  job: ProcessingJob,
+): { title: string; body: string } | null => {
+  const name = job.directory.slice(job.directory.lastIndexOf('/') + 1);
+  switch (job.status) {
+    case 'completed':
+      return { title: 'Model ready', body: `${name} has finished processing.` };
+    case 'failed':
+      return {
+        title: 'Processing failed',
+        body: job.error
+          ? `${name}: ${job.error}`
+          : `${name} could not be processed.`,
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Show a local notification when a long job finishes while the app is in
+ * the background. Permission is asked for when a job starts, while the user
+ * is still looking at the app.
+ * @returns Function that stops watching
+ */
+export const watchProcessingNotifications = ({
+  queue = processingQueue,
+  module = ARNativeModule,
+  minDurationMs = LONG_PROCESSING_JOB_MS,
+  getAppState = () => AppState.currentState,
+  now = Date.now,
+}: Partial<ProcessingNotificationOptions> = {}): (() => void) => {
+  const statuses = new Map<string, ProcessingJobStatus>();
+  let permissionRequested = false;
+
+  const check = (jobs: ProcessingJob[]) => {
+    jobs.forEach(job => {
+      const previous = statuses.get(job.id);
+      statuses.set(job.id, job.status);
+      if (previous === job.status) {
+        return;
+      }
+      if (job.status === 'running' && !permissionRequested) {
+        permissionRequested = true;
+        module
+          .requestNotificationPermission()
+          .catch(error =>
+            console.warn('Could not request notification permission:', error),
+          );
+      }
+
+      const notification = processingNotificationFor(job);
+      if (
+        previous !== 'running' ||
+        !notification ||
+        getAppState() === 'active' ||
+        job.startedAt === null ||
+        now() - job.startedAt < minDurationMs
+      ) {
+        return;
+      }
+      module
+        .showLocalNotification(notification.title, notification.body)
+        .catch(error =>
+          console.warn('Could not show processing notification:', error),
+        );
+    });
+  };
+
+  check(queue.getJobs());
+  return queue.subscribe(check);
+};
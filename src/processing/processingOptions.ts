@@ -0,0 +1,212 @@
+import type { ProcessingDetail } from '../capture/CaptureSessionController';
+import { GUIDED_PASSES, GuidedPassId } from '../capture/guidedCapture';
+import { withDefaults } from '../capture/optionDefaults';
+
+/**
+ * How PhotogrammetrySession should treat the images: `sequential` lets it
+ * assume neighbouring images overlap, which suits a walk-around capture
+ */
+export type SampleOrdering = 'unordered' | 'sequential';
+
+/**
+ * `high` looks harder for landmarks, for objects with little texture
+ */
+export type FeatureSensitivity = 'normal' | 'high';
+
+export type ModelFormat = 'usdz' | 'obj';
+
+export type Vector3 = [number, number, number];
+
+/**
+ * Axis-aligned box in the model's coordinate space, in metres; geometry
+ * outside it is cropped away
+ */
+export interface ProcessingBounds {
+  min: Vector3;
+  max: Vector3;
+}
+
+/**
+ * Options for one reconstruction, passed to processPhotogrammetry
+ */
+export interface ProcessingOptions {
+  detail: ProcessingDetail;
+  sampleOrdering: SampleOrdering;
+  featureSensitivity: FeatureSensitivity;
+  /** Separate the object from its surroundings before meshing */
+  objectMasking: boolean;
+  /** Models to write, at least one; the first is the one returned */
+  outputFormats: ModelFormat[];
+  /** Crop box, or null to keep everything that was reconstructed */
+  bounds: ProcessingBounds | null;
+  /** Use only the images of one guided-capture pass; null for all of them */
+  segment: GuidedPassId | null;
+}
+
+/**
+ * PhotogrammetrySession's own defaults, which is what processing used
+ * before the other options could be chosen
+ */
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  detail: 'medium',
+  sampleOrdering: 'unordered',
+  featureSensitivity: 'normal',
+  objectMasking: true,
+  outputFormats: ['usdz'],
+  bounds: null,
+  segment: null,
+};
+
+export const PROCESSING_DETAILS: { detail: ProcessingDetail; label: string }[] =
+  [
+    { detail: 'reduced', label: 'Reduced' },
+    { detail: 'medium', label: 'Medium' },
+    { detail: 'full', label: 'Full' },
+    { detail: 'raw', label: 'Raw' },
+  ];
+
+export const SAMPLE_ORDERINGS: { value: SampleOrdering; label: string }[] = [
+  { value: 'unordered', label: 'Unordered' },
+  { value: 'sequential', label: 'Sequential' },
+];
+
+export const FEATURE_SENSITIVITIES: {
+  value: FeatureSensitivity;
+  label: string;
+}[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'high', label: 'High' },
+];
+
+export const MODEL_FORMATS: { value: ModelFormat; label: string }[] = [
+  { value: 'usdz', label: 'USDZ' },
+  { value: 'obj', label: 'OBJ' },
+];
+
+/**
+ * Thrown when a processing option is missing or outside its valid values
+ */
+export class ProcessingOptionsError extends Error {
+  constructor(readonly field: keyof ProcessingOptions, message: string) {
+    super(`Invalid processing option '${field}': ${message}`);
+    this.name = 'ProcessingOptionsError';
+  }
+}
+
+const requireOneOf = <T extends string>(
+  field: keyof ProcessingOptions,
+  value: unknown,
+  allowed: readonly T[],
+): T => {
+  if (!allowed.includes(value as T)) {
+    throw new ProcessingOptionsError(
+      field,
+      `must be one of ${allowed.join(', ')}`,
+    );
+  }
+  return value as T;
+};
+
+const requireVector = (value: unknown): Vector3 => {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 3 ||
+    !value.every(item => typeof item === 'number' && Number.isFinite(item))
+  ) {
+    throw new ProcessingOptionsError(
+      'bounds',
+      'min and max must each be 3 finite numbers',
+    );
+  }
+  return [value[0], value[1], value[2]];
+};
+
+const requireBounds = (value: unknown): ProcessingBounds => {
+  const { min, max } = (value ?? {}) as Partial<ProcessingBounds>;
+  const bounds = { min: requireVector(min), max: requireVector(max) };
+  if (bounds.min.some((low, axis) => low >= bounds.max[axis])) {
+    throw new ProcessingOptionsError(
+      'bounds',
+      'min must be below max on every axis',
+    );
+  }
+  return bounds;
+};
+
+/**
+ * Fill in defaults and validate
+ * @throws ProcessingOptionsError for unknown values or an empty box
+ */
+export const normalizeProcessingOptions = (
+  options: Partial<ProcessingOptions> = {},
+): ProcessingOptions => {
+  const merged = withDefaults(DEFAULT_PROCESSING_OPTIONS, options);
+
+  if (!Array.isArray(merged.outputFormats)) {
+    throw new ProcessingOptionsError('outputFormats', 'must be a list');
+  }
+  const formats = MODEL_FORMATS.map(format => format.value);
+  const outputFormats = merged.outputFormats
+    .map(format => requireOneOf('outputFormats', format, formats))
+    .filter((format, index, all) => all.indexOf(format) === index);
+  if (outputFormats.length === 0) {
+    throw new ProcessingOptionsError(
+      'outputFormats',
+      'must include at least one format',
+    );
+  }
+
+  return {
+    detail: requireOneOf(
+      'detail',
+      merged.detail,
+      PROCESSING_DETAILS.map(option => option.detail),
+    ),
+    sampleOrdering: requireOneOf(
+      'sampleOrdering',
+      merged.sampleOrdering,
+      SAMPLE_ORDERINGS.map(option => option.value),
+    ),
+    featureSensitivity: requireOneOf(
+      'featureSensitivity',
+      merged.featureSensitivity,
+      FEATURE_SENSITIVITIES.map(option => option.value),
+    ),
+    objectMasking: Boolean(merged.objectMasking),
+    outputFormats,
+    bounds: merged.bounds === null ? null : requireBounds(merged.bounds),
+    segment:
+      merged.segment === null
+        ? null
+        : requireOneOf(
+            'segment',
+            merged.segment,
+            Object.keys(GUIDED_PASSES) as GuidedPassId[],
+          ),
+  };
+};
+
+/**
+ * Whether two sets of options produce the same models
+ */
+export const sameProcessingOptions = (
+  a: ProcessingOptions,
+  b: ProcessingOptions,
+) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Short description for job lists, e.g. "Medium · USDZ, OBJ · cropped"
+ */
+export const formatProcessingOptions = (options: ProcessingOptions) =>
+  [
+    PROCESSING_DETAILS.find(option => option.detail === options.detail)
+      ?.label ?? options.detail,
+    options.outputFormats.map(format => format.toUpperCase()).join(', '),
+    options.sampleOrdering === 'sequential' && 'sequential',
+    options.featureSensitivity === 'high' && 'high sensitivity',
+    !options.objectMasking && 'no masking',
+    options.bounds && 'cropped',
+    options.segment && `${GUIDED_PASSES[options.segment].label} only`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,158 @@
+import type { ProcessingProgress } from '../capture/CaptureSessionController';
+
+/**
+ * Named steps of a reconstruction, in order
+ */
+export type ProcessingStage =
+  | 'validating'
+  | 'reconstructing'
+  | 'texturing'
+  | 'exporting';
+
+export interface ProcessingStageInfo {
+  stage: ProcessingStage;
+  label: string;
+  /** Share of overall progress at which the stage starts and ends */
+  start: number;
+  end: number;
+}
+
+/**
+ * Where each stage usually falls in PhotogrammetrySession's overall
+ * progress; used for backends that only report a fraction
+ */
+export const PROCESSING_STAGES: ProcessingStageInfo[] = [
+  { stage: 'validating', label: 'Validating images', start: 0, end: 0.1 },
+  {
+    stage: 'reconstructing',
+    label: 'Reconstructing geometry',
+    start: 0.1,
+    end: 0.7,
+  },
+  { stage: 'texturing', label: 'Texturing', start: 0.7, end: 0.9 },
+  { stage: 'exporting', label: 'Exporting model', start: 0.9, end: 1 },
+];
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * The stage a progress update belongs to: the one the backend named, or the
+ * one its overall progress falls in
+ */
+export const stageOf = (progress: ProcessingProgress): ProcessingStageInfo =>
+  PROCESSING_STAGES.find(info => info.stage === progress.stage) ??
+  PROCESSING_STAGES.find(info => progress.progress < info.end) ??
+  PROCESSING_STAGES[PROCESSING_STAGES.length - 1];
+
+/**
+ * Progress through the current stage, 0-1
+ */
+export const stageProgress = (progress: ProcessingProgress) => {
+  const { start, end } = stageOf(progress);
+  return clamp((progress.progress - start) / (end - start));
+};
+
+/**
+ * e.g. "Texturing (3 of 4)"
+ */
+export const formatStage = (progress: ProcessingProgress) => {
+  const info = stageOf(progress);
+  return `${info.label} (${PROCESSING_STAGES.indexOf(info) + 1} of ${
+    PROCESSING_STAGES.length
+  })`;
+};
+
+/**
+ * e.g. "About 4 min left"
+ */
+export const formatEta = (seconds: number) => {
+  if (seconds < 60) {
+    return 'Less than a minute left';
+  }
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `About ${minutes} min left`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0
+    ? `About ${hours} h left`
+    : `About ${hours} h ${minutes % 60} min left`;
+};
+
+export interface ProgressEstimatorOptions {
+  /** Time over which older rate measurements fade, in milliseconds */
+  smoothingMs: number;
+  /** History needed before an estimate is given, in milliseconds */
+  minimumHistoryMs: number;
+}
+
+export const DEFAULT_PROGRESS_ESTIMATOR_OPTIONS: ProgressEstimatorOptions = {
+  smoothingMs: 30000,
+  minimumHistoryMs: 5000,
+};
+
+/**
+ * Estimates the time left in a job from its progress history
+ *
+ * The rate of progress is averaged over time with an exponential decay, so
+ * one fast or slow update moves the estimate only a little and the displayed
+ * time does not jump around. Progress going backwards (a new attempt) starts
+ * the history again.
+ */
+export class ProgressEstimator {
+  private readonly options: ProgressEstimatorOptions;
+  private startedAt: number | null = null;
+  private last: { at: number; progress: number } | null = null;
+  // Overall progress per millisecond
+  private rate: number | null = null;
+
+  /**
+   * @param now Clock in milliseconds, for tests
+   */
+  constructor(
+    options: Partial<ProgressEstimatorOptions> = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.options = { ...DEFAULT_PROGRESS_ESTIMATOR_OPTIONS, ...options };
+  }
+
+  /**
+   * Record an update
+   * @returns The update with etaSeconds set, null while there is too little history
+   */
+  add(progress: ProcessingProgress): ProcessingProgress {
+    const at = this.now();
+    const value = clamp(progress.progress);
+    if (!this.last || value < this.last.progress) {
+      this.startedAt = at;
+      this.last = { at, progress: value };
+      this.rate = null;
+      return { ...progress, etaSeconds: null };
+    }
+
+    const elapsed = at - this.last.at;
+    if (value > this.last.progress && elapsed > 0) {
+      const rate = (value - this.last.progress) / elapsed;
+      const weight = 1 - Math.exp(-elapsed / this.options.smoothingMs);
+      this.rate =
+        this.rate === null ? rate : this.rate + weight * (rate - this.rate);
+      this.last = { at, progress: value };
+    }
+
+    return { ...progress, etaSeconds: this.estimate(at, value) };
+  }
+
+  private estimate(at: number, value: number): number | null {
+    if (value >= 1) {
+      return 0;
+    }
+    if (
+      !this.rate ||
+      this.startedAt === null ||
+      at - this.startedAt < this.options.minimumHistoryMs
+    ) {
+      return null;
+    }
+    return Math.round((1 - value) / this.rate / 1000);
+  }
+}
@@ -0,0 +1,130 @@
+import { ARNativeModule, ARNativeModuleType } from '../native/ARNativeModule';
+import { LocalReconstructionProvider } from './LocalReconstructionProvider';
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  normalizeProcessingOptions,
+  ProcessingOptions,
+} from './processingOptions';
+import { ReconstructionProvider } from './ReconstructionProvider';
+import { RemoteReconstructionProvider } from './RemoteReconstructionProvider';
+
+export interface ReconstructionSettings {
+  /** Self-hosted reconstruction server, or null if none is set up */
+  serverUrl: string | null;
+}
+
+export const DEFAULT_RECONSTRUCTION_SETTINGS: ReconstructionSettings = {
+  serverUrl: null,
+};
+
+/**
+ * Where settings are kept, relative to the documents directory
+ */
+export const RECONSTRUCTION_SETTINGS_FILE = 'reconstruction_settings.json';
+
+/**
+ * Thrown when a server URL cannot be used
+ */
+export class ServerUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServerUrlError';
+  }
+}
+
+/**
+ * Trim a server URL, defaulting to http:// and dropping trailing slashes
+ * @returns null for an empty input, which clears the server
+ * @throws ServerUrlError if it is not an http(s) URL with a host
+ */
+export const normalizeServerUrl = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)
+    ? trimmed
+    : `http://${trimmed}`;
+  const match = /^(https?):\/\/([^/?#\s]+)([^?#\s]*)$/i.exec(url);
+  if (!match) {
+    throw new ServerUrlError('Server address must be an http or https URL');
+  }
+  const [, scheme, host, path] = match;
+  return `${scheme.toLowerCase()}://${host}${path.replace(/\/+$/, '')}`;
+};
+
+export const loadReconstructionSettings = async (
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<ReconstructionSettings> => {
+  try {
+    const json = await module.readTextFile(RECONSTRUCTION_SETTINGS_FILE);
+    const stored = json ? JSON.parse(json) : {};
+    return {
+      serverUrl: typeof stored.serverUrl === 'string' ? stored.serverUrl : null,
+    };
+  } catch (error) {
+    console.warn('Could not read reconstruction settings:', error);
+    return DEFAULT_RECONSTRUCTION_SETTINGS;
+  }
+};
+
+export const saveReconstructionSettings = (
+  settings: ReconstructionSettings,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<void> =>
+  module.writeTextFile(RECONSTRUCTION_SETTINGS_FILE, JSON.stringify(settings));
+
+/**
+ * Where the options last used for processing are kept, relative to the
+ * documents directory
+ */
+export const LAST_PROCESSING_OPTIONS_FILE = 'processing_options.json';
+
+/**
+ * @returns The options last processed with, or the defaults if there are none
+ * or they no longer validate
+ */
+export const loadLastProcessingOptions = async (
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<ProcessingOptions> => {
+  try {
+    const json = await module.readTextFile(LAST_PROCESSING_OPTIONS_FILE);
+    return json
+      ? normalizeProcessingOptions(JSON.parse(json))
+      : DEFAULT_PROCESSING_OPTIONS;
+  } catch (error) {
+    console.warn('Could not read processing options:', error);
+    return DEFAULT_PROCESSING_OPTIONS;
+  }
+};
+
+/**
+ * Remember options for the next capture; the pass is left out since it was
+ * chosen for this capture's segments
+ */
+export const saveLastProcessingOptions = (
+  options: ProcessingOptions,
+  module: ARNativeModuleType = ARNativeModule,
+): Promise<void> =>
+  module.writeTextFile(
+    LAST_PROCESSING_OPTIONS_FILE,
+    JSON.stringify({ ...options, segment: null }),
+  );
+
+/**
+ * Pick the backend for this device: on-device photogrammetry where the
+ * hardware supports it, otherwise the configured server
+ * @returns null if neither is available
+ */
+export const selectReconstructionProvider = async (
+  module: ARNativeModuleType = ARNativeModule,
+  settings?: ReconstructionSettings,
+): Promise<ReconstructionProvider | null> => {
+  if (await module.isPhotogrammetrySupported().catch(() => false)) {
+    return new LocalReconstructionProvider(module);
+  }
+  const { serverUrl } = settings ?? (await loadReconstructionSettings(module));
+  return serverUrl
+    ? new RemoteReconstructionProvider({ serverUrl }, module)
+    : null;
+};
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,44 +9,149 @@ import {
   Platform,
   Share,
 } from 'react-native';
+import { RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { useFocusEffect } from '@react-navigation/native';
-import { ARNativeModule } from '../native/ARNativeModule';
-import { ARViewNative } from '../native/ARView';
+import { ARNativeModule, DeviceCapabilities } from '../native/ARNativeModule';
+import { ARView, PlaneDetectedEvent, SessionErrorEvent } from '../native/ARView';
+import { createARError } from '../native/ARError';
+import { ARErrorRecovery, showARErrorAlert } from '../components/ARErrorAlert';
+import { showInterruptedCaptureAlert } from '../components/InterruptedCaptureAlert';
+import {
+  analyzeCaptureCoverage,
+  formatCoverageSummary,
+} from '../capture/coverage';
+import { formatFrameQualitySummary } from '../capture/frameQuality';
+import { loadCaptureRegion, placeRegionOnPlane, RegionOfInterest } from '../capture/regionOfInterest';
+import { findInterruptedCapture, watchCaptureJournal } from '../capture/captureJournal';
+import {
+  CaptureSegment,
+  formatGuidedProgress,
+  formatSegmentSummary,
+  guidedPassSequence,
+} from '../capture/guidedCapture';
+import { exportCaptureDataset } from '../capture/datasetExport';
+import {
+  buildTriangleMesh,
+  exportScanMesh,
+  MESH_FORMATS,
+  MeshFormat,
+  ScanMeshData,
+} from '../capture/meshExport';
+import { MeasurementUnit, measureMesh } from '../capture/meshMeasurements';
+import { selectReconstructionProvider } from '../processing/reconstructionSettings';
+import { ProcessingOptions } from '../processing/processingOptions';
+import { formatEta, formatStage } from '../processing/processingProgress';
+import { useCaptureSession } from '../hooks/useCaptureSession';
+import { useLiveCoverage } from '../hooks/useLiveCoverage';
+import { useCaptureEvents } from '../hooks/useCaptureEvents';
+import { useGuidedCapture } from '../hooks/useGuidedCapture';
+import { CoverageDial } from '../components/CoverageDial';
+import { CapturePresetPicker } from '../components/CapturePresetPicker';
+import { RegionOfInterestPanel } from '../components/RegionOfInterestPanel';
+import { MeasurementPanel } from '../components/MeasurementPanel';
+import { ProcessingOptionsSheet } from '../components/ProcessingOptionsSheet';
+import { ActionSheet, ActionSheetContent } from '../components/ActionSheet';
+import { TrackingCoachBanner } from '../components/TrackingCoachBanner';
+import { formatTrackingSummary } from '../capture/trackingQuality';
+import {
+  CAPTURE_PRESETS,
+  CapturePresetName,
+  normalizeCaptureOptions,
+} from '../capture/captureOptions';
+import {
+  adaptCaptureOptions,
+  defaultSaveDepth,
+  storageWarning,
+  thermalWarning,
+} from '../capture/deviceCapabilities';
 import { RootStackParamList } from '../types/navigation';
 
+// Share of the viewpoint dial at which capture can stop on its own
+const COVERAGE_TARGET = 0.6;
+
 type ARScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'AR'>;
+  route?: RouteProp<RootStackParamList, 'AR'>;
 };
 
-export const ARScreen: React.FC<ARScreenProps> = ({ navigation }) => {
+export const ARScreen: React.FC<ARScreenProps> = ({ navigation, route }) => {
   const [isSupported, setIsSupported] = useState<boolean | null>(null);
-  const [isScanning, setIsScanning] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [imageCount, setImageCount] = useState(0);
-  const [captureDirectory, setCaptureDirectory] = useState<string | null>(null);
-  const [processingProgress, setProcessingProgress] = useState<{ status: string; progress: number } | null>(null);
-  const [selectedQuality, setSelectedQuality] = useState<'reduced' | 'medium' | 'full' | 'raw'>('medium');
-  const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(null);
+  const [session, controller] = useCaptureSession();
+  const { phase, imageCount, progress: processingProgress } = session;
+  const isScanning = phase === 'capturing' || phase === 'stopping';
+  const isLoading =
+    phase === 'starting' || phase === 'stopping' || phase === 'processing';
+  const [autoStop, setAutoStop] = useState(false);
+  const [presetName, setPresetName] = useState<CapturePresetName | null>(null);
+  // null until the user picks, then the device's default applies
+  const [saveDepth, setSaveDepth] = useState<boolean | null>(null);
+  const chosenOptions = normalizeCaptureOptions({
+    ...(presetName ? CAPTURE_PRESETS[presetName].options : {}),
+    saveDepth: saveDepth ?? (!!capabilities && defaultSaveDepth(capabilities)),
+  });
+  // The chosen options as this device can run them
+  const captureOptions = adaptCaptureOptions(chosenOptions, capabilities);
+  const deviceWarnings = capabilities
+    ? [storageWarning(capabilities, chosenOptions), thermalWarning(capabilities.thermalState)].filter(Boolean)
+    : [];
+  // Latest surface the box can stand on, and the box once placed
+  const [surface, setSurface] = useState<PlaneDetectedEvent | null>(null);
+  const [region, setRegion] = useState<RegionOfInterest | null>(null);
+  // Guided mode runs low, mid and high orbits, then optionally the bottom
+  const [guidedMode, setGuidedMode] = useState(false);
+  const [includeBottom, setIncludeBottom] = useState(false);
+  const [showMeasurements, setShowMeasurements] = useState(false);
+  const [measurementUnit, setMeasurementUnit] = useState<MeasurementUnit>('mm');
+  // Choices with more options than Android's alerts can show
+  const [actionSheet, setActionSheet] = useState<ActionSheetContent | null>(null);
+  // Session capture waiting for processing options, and where it will be processed
+  const [optionsRequest, setOptionsRequest] = useState<{ message?: string; region: RegionOfInterest | null; segments: CaptureSegment[] } | null>(null);
+  const measurements = useMemo(() => {
+    if (!session.mesh) {
+      return null;
+    }
+    try {
+      return measureMesh(buildTriangleMesh(session.mesh));
+    } catch (error) {
+      console.error('Error measuring mesh:', error);
+      return null;
+    }
+  }, [session.mesh]);
+  const liveCoverage = useLiveCoverage({
+    target: COVERAGE_TARGET,
+    coverage: { region },
+    onTargetReached: () => {
+      // Guided passes end the capture themselves once the last pass is done
+      if (autoStop && !guided.state) {
+        stopCapture();
+      }
+    },
+  });
 
-  // Check AR support on mount
-  useEffect(() => {
-    checkARSupport();
-    
-    // Cleanup polling interval on unmount
-    return () => {
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
+  const guided = useGuidedCapture({
+    onHoldChange: held => controller.holdCapture(held),
+    onComplete: () => stopCapture(),
+  });
+
+  // Native stops saving at the frame limit; finish the capture here so the
+  // summary is shown as if the user had pressed stop
+  useCaptureEvents({
+    onImageCaptured: event => {
+      const { maxImageCount } = captureOptions;
+      if (maxImageCount && event.index + 1 >= maxImageCount) {
+        stopCapture();
       }
-    };
-  }, [pollingInterval]);
+    },
+  });
 
-  const checkARSupport = async () => {
+  const checkARSupport = useCallback(async () => {
     try {
-      const supported = await ARNativeModule.isSupported();
-      setIsSupported(supported);
+      const report = await ARNativeModule.getDeviceCapabilities();
+      setCapabilities(report);
+      setIsSupported(report.arSupported);
 
-      if (!supported) {
+      if (!report.arSupported) {
         Alert.alert(
           'AR Not Supported',
           `AR is not supported on this device. ${
@@ -60,191 +165,267 @@ export const ARScreen: React.FC<ARScreenProps> = ({ navigation }) => {
     } catch (error) {
       console.error('Error checking AR support:', error);
       setIsSupported(false);
-      Alert.alert(
-        'Error',
-        'Failed to check AR support',
-        [{ text: 'OK', onPress: () => navigation.goBack() }]
-      );
+      showARErrorAlert(error, { title: 'Error', message: 'Failed to check AR support' }, {
+        goBack: () => navigation.goBack(),
+      });
+    }
+  }, [navigation]);
+
+  // Storage and temperature change as captures are made
+  const refreshCapabilities = useCallback(() => {
+    ARNativeModule.getDeviceCapabilities()
+      .then(setCapabilities)
+      .catch(error => console.warn('Could not refresh device capabilities:', error));
+  }, []);
+
+  // Check AR support on mount
+  useEffect(() => {
+    checkARSupport();
+  }, [checkARSupport]);
+
+  // Note the running capture so it can be resumed if the app dies mid-capture
+  useEffect(() => watchCaptureJournal(controller), [controller]);
+
+  const resumeCapture = useCallback(async (directory: string) => {
+    try {
+      if (await controller.resume(directory)) {
+        // Keep filtering coverage and cropping by the box the capture started with
+        setRegion(await loadCaptureRegion(directory).catch(() => null));
+        console.log('Photogrammetry capture resumed');
+      }
+    } catch (error) {
+      console.error('Error resuming capture:', error);
+      showARErrorAlert(error, { title: 'Capture Error', message: 'Failed to resume the capture' }, {
+        goBack: () => navigation.goBack(),
+      });
+    }
+  }, [controller, navigation]);
+
+  // Continue an interrupted capture: straight away if Home asked to, otherwise
+  // offer whichever one the journal points at
+  const resumeDirectory = route?.params?.resumeDirectory;
+  useEffect(() => {
+    if (!isSupported) {
+      return;
+    }
+    if (resumeDirectory) {
+      resumeCapture(resumeDirectory);
+      return;
+    }
+    findInterruptedCapture()
+      .then(interrupted => {
+        if (interrupted) {
+          showInterruptedCaptureAlert(interrupted, () => resumeCapture(interrupted.directory));
+        }
+      })
+      .catch(error => console.warn('Could not check for an interrupted capture:', error));
+  }, [isSupported, resumeDirectory, resumeCapture]);
+
+  const handlePlaneDetected = (event: PlaneDetectedEvent) => {
+    if (event.alignment === 'horizontal') {
+      setSurface(event);
     }
   };
 
-  const handleStartScan = async () => {
-    if (isScanning) {
-      // Stop capturing images
-      setIsLoading(true);
-      
-      // Clear polling interval
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-        setPollingInterval(null);
+  const handleSessionError = (event: SessionErrorEvent) => {
+    console.error('AR session error:', event.code, event.message);
+    // The view reports the same codes the module rejects with
+    showARErrorAlert(event, { title: 'AR Session Error', message: 'The AR session failed' }, recoveries);
+  };
+
+  const getCoverageSummary = async (directory: string) => {
+    try {
+      const report = await analyzeCaptureCoverage(directory);
+      return report.frameCount > 0 ? formatCoverageSummary(report) : null;
+    } catch (error) {
+      // Coverage is advisory; the capture itself is still usable
+      console.error('Error analyzing coverage:', error);
+      return null;
+    }
+  };
+
+  const stopCapture = async () => {
+    try {
+      if (!(await controller.stop())) {
+        return;
       }
+      const { directory, imageCount: count, frameStats, trackingStats, mesh } = controller.getState();
+      const segments = guided.getState()?.segments ?? [];
+      setShowMeasurements(!!mesh);
+      refreshCapabilities();
+      const coverageSummary = directory
+        ? await getCoverageSummary(directory)
+        : null;
+      const summary = [
+        `Captured ${count} images`,
+        segments.length > 0 && formatSegmentSummary(segments),
+        frameStats && formatFrameQualitySummary(frameStats),
+        trackingStats && formatTrackingSummary(trackingStats),
+        coverageSummary,
+      ].filter(Boolean).join('\n\n');
       
-      try {
-        const scanData = await ARNativeModule.stopObjectScan();
-        setIsScanning(false);
-        const directory = scanData.directory || captureDirectory;
-        const count = scanData.imageCount || imageCount;
-        
-        Alert.alert(
-          'Capture Complete',
-          `Captured ${count} images`,
-          [
-            { text: 'OK', style: 'cancel' },
-            {
-              text: 'Process Now',
-              onPress: async () => {
-                // Check if photogrammetry is supported
-                const isSupported = await ARNativeModule.isPhotogrammetrySupported();
-                if (!isSupported) {
-                  Alert.alert(
-                    'Not Supported',
-                    'Photogrammetry is not supported on this device. Requires Mac with 4GB+ GPU and ray tracing, or iOS device with LiDAR.',
-                    [{ text: 'OK' }]
-                  );
-                  return;
-                }
-                
-                // Show quality selector
-                Alert.alert(
-                  'Select Quality',
-                  'Choose processing quality level',
-                  [
-                    {
-                      text: 'Reduced (Fast)',
-                      onPress: () => processPhotogrammetry(directory, 'reduced')
-                    },
-                    {
-                      text: 'Medium',
-                      onPress: () => processPhotogrammetry(directory, 'medium')
-                    },
-                    {
-                      text: 'Full (Slow)',
-                      onPress: () => processPhotogrammetry(directory, 'full')
-                    },
-                    { text: 'Cancel', style: 'cancel' }
-                  ]
-                );
-              },
+      // A sheet, since Android alerts show only three of these actions
+      setActionSheet({
+        title: 'Capture Complete',
+        message: summary,
+        cancelLabel: 'OK',
+        actions: [
+          {
+            label: 'Process Now',
+            onPress: async () => {
+              // On-device where supported, otherwise the configured server
+              const provider = await selectReconstructionProvider();
+              if (!provider) {
+                showNoProviderAlert(directory, count);
+                return;
+              }
+              
+              setOptionsRequest({
+                message: provider.id === 'remote' ? `Images will be uploaded to ${provider.label}` : undefined,
+                region,
+                segments,
+              });
             },
-            {
-              text: 'Share Images',
-              onPress: async () => {
-                try {
-                  if (!directory) {
-                    Alert.alert('Error', 'No capture directory found');
-                    return;
-                  }
-                  
-                  await Share.share({
-                    title: 'Photogrammetry Images',
-                    message: `Captured ${count} images for 3D reconstruction`,
-                    url: directory,
-                  });
-                } catch (error) {
-                  console.error('Error sharing directory:', error);
-                  Alert.alert('Error', 'Failed to share images');
-                }
-              },
+          },
+          {
+            label: 'Share Images',
+            onPress: () => {
+              if (!directory) {
+                showARErrorAlert(noCaptureError(), { title: 'Error', message: 'No capture directory found' }, recoveries);
+                return;
+              }
+              shareImages(directory, `Captured ${count} images for 3D reconstruction, with camera poses for COLMAP and NeRF`);
             },
-          ]
-        );
-      } catch (error: any) {
-        console.error('Error stopping capture:', error);
-        Alert.alert('Error', 'Failed to stop capture');
-      } finally {
-        setIsLoading(false);
-      }
+          },
+          ...(directory ? [{
+            label: 'Review Frames',
+            onPress: () => navigation.navigate('DatasetReview', { directory }),
+          }] : []),
+          ...(mesh ? [{
+            label: 'Export Mesh',
+            onPress: () => showMeshExportOptions(mesh, directory),
+          }] : []),
+        ],
+      });
+    } catch (error) {
+      console.error('Error stopping capture:', error);
+      showARErrorAlert(error, { title: 'Error', message: 'Failed to stop capture' }, recoveries);
+    }
+  };
+
+  const startCapture = async () => {
+    if (guidedMode) {
+      guided.prepare(guidedPassSequence(includeBottom), region?.center ?? null);
     } else {
-      // Start capturing images
-      setIsLoading(true);
-      try {
-        await ARNativeModule.startObjectScan();
-        setIsScanning(true);
-        setImageCount(0);
+      guided.clear();
+    }
+    try {
+      if (await controller.start({ ...captureOptions, regionOfInterest: region })) {
         console.log('Photogrammetry capture started');
-        
-        // Poll for image count updates
-        const interval = setInterval(async () => {
-          try {
-            const count = await ARNativeModule.getPhotogrammetryImageCount();
-            setImageCount(count);
-            
-            const directory = await ARNativeModule.getPhotogrammetryCaptureDirectory();
-            if (directory) {
-              setCaptureDirectory(directory);
-            }
-          } catch (error) {
-            console.error('Error getting capture info:', error);
-          }
-        }, 500); // Poll every 500ms for smooth updates
-        
-        setPollingInterval(interval);
-      } catch (error: any) {
-        console.error('Error starting capture:', error);
-        Alert.alert(
-          'Capture Error',
-          error.message || 'Failed to start photogrammetry capture',
-          [{ text: 'OK' }]
-        );
-      } finally {
-        setIsLoading(false);
       }
+    } catch (error) {
+      console.error('Error starting capture:', error);
+      showARErrorAlert(error, { title: 'Capture Error', message: 'Failed to start photogrammetry capture' }, recoveries);
     }
   };
 
-  const processPhotogrammetry = async (directory: string | null, quality: string) => {
-    if (!directory) {
-      Alert.alert('Error', 'No capture directory found');
-      return;
-    }
-    
-    // Check if we're on Android
-    if (Platform.OS === 'android') {
-      Alert.alert(
-        'Android Limitation',
-        `Captured ${imageCount} images successfully!\n\nAndroid doesn't have built-in 3D reconstruction. You can:\n\n1. Share the images and use external photogrammetry software (Metashape, RealityCapture)\n2. Use cloud services (Polycam API, Sketchfab)\n3. Process on a Mac/iOS device with this app`,
-        [
-          { text: 'OK' },
-          {
-            text: 'Share Images',
-            onPress: async () => {
-              try {
-                await Share.share({
-                  title: 'Photogrammetry Images',
-                  message: `${imageCount} images ready for 3D reconstruction. Directory: ${directory}`,
-                  url: directory,
-                });
-              } catch (error) {
-                console.error('Error sharing:', error);
-              }
+  const handleStartScan = () => (isScanning ? stopCapture() : startCapture());
+
+  // What this screen can do about each kind of failure
+  const recoveries: Partial<Record<ARErrorRecovery, () => void>> = {
+    goBack: () => navigation.goBack(),
+    // Remounting the screen restarts the AR view and its session
+    retry: () => navigation.replace('AR'),
+    newCapture: () => startCapture(),
+    useServer: () => navigation.navigate('ReconstructionSettings'),
+    manageScans: () => navigation.navigate('Library'),
+  };
+
+  const noCaptureError = () => createARError('NO_ACTIVE_CAPTURE', 'No capture directory found');
+
+  const showNoProviderAlert = (directory: string | null, count: number) => {
+    Alert.alert(
+      'No Reconstruction Backend',
+      `Captured ${count} images successfully!\n\nThis device can't build 3D models itself. Set up a reconstruction server to process scans on your network, or share the images and use external photogrammetry software (Metashape, RealityCapture).`,
+      [
+        { text: 'OK', style: 'cancel' },
+        {
+          text: 'Set Up Server',
+          onPress: () => navigation.navigate('ReconstructionSettings'),
+        },
+        {
+          text: 'Share Images',
+          onPress: () => {
+            if (directory) {
+              shareImages(directory, `${count} images ready for 3D reconstruction, with camera poses for COLMAP and NeRF. Directory: ${directory}`);
             }
           }
-        ]
+        }
+      ]
+    );
+  };
+
+  // Write COLMAP and NeRF poses next to the images so they travel together
+  const shareImages = async (directory: string, message: string) => {
+    try {
+      await exportCaptureDataset(directory).catch(error =>
+        console.warn('Could not export camera poses:', error)
       );
+      await Share.share({
+        title: 'Photogrammetry Images',
+        message,
+        url: directory,
+      });
+    } catch (error) {
+      console.error('Error sharing directory:', error);
+      Alert.alert('Error', 'Failed to share images');
+    }
+  };
+
+  const showMeshExportOptions = (mesh: ScanMeshData, directory: string | null) => {
+    setActionSheet({
+      title: 'Export Mesh',
+      message: 'Choose a file format',
+      actions: (Object.keys(MESH_FORMATS) as MeshFormat[]).map(format => ({
+        label: MESH_FORMATS[format].label,
+        onPress: () => exportMesh(mesh, format, directory),
+      })),
+    });
+  };
+
+  const exportMesh = async (mesh: ScanMeshData, format: MeshFormat, directory: string | null) => {
+    try {
+      // Keep the mesh with its capture when there is one
+      const path = await exportScanMesh(
+        mesh,
+        format,
+        directory ? `${directory}/mesh` : `ScanMesh_${Date.now()}`
+      );
+      await Share.share({ title: 'Scan Mesh', url: `file://${path}` });
+    } catch (error) {
+      console.error('Error exporting mesh:', error);
+      showARErrorAlert(error, { title: 'Export Failed', message: 'Failed to export mesh' }, {
+        manageScans: recoveries.manageScans,
+      });
+    }
+  };
+
+  // Always the session's own capture; the controller knows its directory
+  const processPhotogrammetry = async (options: ProcessingOptions) => {
+    if (!controller.getState().directory) {
+      showARErrorAlert(noCaptureError(), { title: 'Error', message: 'No capture directory found' }, recoveries);
       return;
     }
     
-    setIsLoading(true);
-    setProcessingProgress({ status: 'Starting...', progress: 0 });
-    
     try {
-      const filename = `model_${Date.now()}`;
-      const outputPath = await ARNativeModule.processPhotogrammetry(
-        directory,
-        filename,
-        quality,
-        (progressData) => {
-          if (progressData && progressData[0]) {
-            setProcessingProgress(progressData[0]);
-          }
-        }
-      );
-      
-      setProcessingProgress(null);
+      const outputPath = await controller.process(options);
+      if (!outputPath) {
+        return;
+      }
       
       Alert.alert(
         'Processing Complete',
-        `USDZ model generated successfully`,
+        `3D model generated successfully`,
         [
           { text: 'OK', style: 'cancel' },
           {
@@ -264,16 +445,12 @@ export const ARScreen: React.FC<ARScreenProps> = ({ navigation }) => {
           },
         ]
       );
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error processing photogrammetry:', error);
-      setProcessingProgress(null);
-      Alert.alert(
-        'Processing Failed',
-        error.message || 'Failed to process photogrammetry',
-        [{ text: 'OK' }]
-      );
-    } finally {
-      setIsLoading(false);
+      showARErrorAlert(error, { title: 'Processing Failed', message: 'Failed to process photogrammetry' }, {
+        ...recoveries,
+        retry: () => processPhotogrammetry(options),
+      });
     }
   };
 
@@ -303,22 +480,71 @@ export const ARScreen: React.FC<ARScreenProps> = ({ navigation }) => {
   return (
     <View style={styles.container}>
       {/* AR Camera View */}
-      <ARViewNative style={styles.arView} />
+      <ARView
+        style={styles.arView}
+        showCaptureFrustums={isScanning}
+        showPlaneOverlays={!isScanning && !region}
+        regionOfInterest={region}
+        onTrackingStateChange={controller.updateTracking}
+        onPlaneDetected={handlePlaneDetected}
+        onSessionError={handleSessionError}
+      />
       
       {/* Capture Status Overlay */}
       {isScanning && (
         <View style={styles.statusOverlay}>
           <View style={styles.statusContainer}>
-            <View style={[styles.statusIndicator, styles.statusScanning]} />
-            <Text style={styles.statusText}>Capturing Images...</Text>
+            <View style={[styles.statusIndicator, session.capturePaused ? styles.statusPaused : styles.statusScanning]} />
+            <Text style={styles.statusText}>{session.capturePaused ? 'Capture Paused' : 'Capturing Images...'}</Text>
           </View>
+          <TrackingCoachBanner tracking={session.tracking} paused={session.capturePaused} />
           <Text style={styles.progressText}>
             Images: {imageCount}
           </Text>
-          <Text style={styles.instructionText}>
-            Move slowly around the object{"\n"}
-            Capture from multiple angles (50-100 images recommended)
-          </Text>
+          {guided.state && (
+            <Text style={styles.stageText}>{formatGuidedProgress(guided.state)}</Text>
+          )}
+          <CoverageDial
+            report={liveCoverage.report}
+            nextCell={liveCoverage.nextCell}
+            target={COVERAGE_TARGET}
+          />
+          {guided.state ? (
+            <Text style={styles.instructionText}>{guided.state.prompt}</Text>
+          ) : (
+            <Text style={styles.instructionText}>
+              Move slowly around the object{"\n"}
+              {liveCoverage.nextCell
+                ? 'Head for the highlighted sector'
+                : 'Keep circling until the rings fill in'}
+            </Text>
+          )}
+          {guided.state?.status === 'waitingForFlip' && (
+            <TouchableOpacity
+              style={styles.autoStopToggle}
+              onPress={guided.confirmFlip}
+            >
+              <Text style={styles.autoStopText}>Object Turned Over</Text>
+            </TouchableOpacity>
+          )}
+          {guided.state?.status === 'capturing' && (
+            <TouchableOpacity
+              style={styles.autoStopToggle}
+              onPress={guided.skipPass}
+            >
+              <Text style={styles.autoStopText}>Skip This Pass</Text>
+            </TouchableOpacity>
+          )}
+          {!guided.state && (
+            <TouchableOpacity
+              style={styles.autoStopToggle}
+              onPress={() => setAutoStop(value => !value)}
+            >
+              <Text style={styles.autoStopText}>
+                Auto-stop at {Math.round(COVERAGE_TARGET * 100)}%: {autoStop ? 'On' : 'Off'}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
       
@@ -332,14 +558,86 @@ export const ARScreen: React.FC<ARScreenProps> = ({ navigation }) => {
           <Text style={styles.progressText}>
             {processingProgress.status}: {Math.round(processingProgress.progress * 100)}%
           </Text>
+          {processingProgress.stage && (
+            <Text style={styles.stageText}>
+              {formatStage(processingProgress)}
+              {processingProgress.etaSeconds ? ` · ${formatEta(processingProgress.etaSeconds)}` : ''}
+            </Text>
+          )}
           <Text style={styles.instructionText}>
-            This may take several minutes
+            This may take several minutes{"\n"}
+            Processing continues if you leave this screen
           </Text>
+          <TouchableOpacity
+            style={styles.cancelProcessingButton}
+            onPress={() => controller.cancelProcessing()}
+          >
+            <Text style={styles.cancelProcessingText}>Cancel Processing</Text>
+          </TouchableOpacity>
         </View>
       )}
 
+      {/* Scan Measurements */}
+      {showMeasurements && measurements && !isScanning && !processingProgress && (
+        <MeasurementPanel
+          measurements={measurements}
+          unit={measurementUnit}
+          onUnitChange={setMeasurementUnit}
+          onClose={() => setShowMeasurements(false)}
+        />
+      )}
+
       {/* Scan Control Button */}
       <View style={styles.controls}>
+        {measurements && !showMeasurements && !isScanning && !isLoading && (
+          <TouchableOpacity
+            style={styles.measurementsButton}
+            onPress={() => setShowMeasurements(true)}
+          >
+            <Text style={styles.autoStopText}>Show Measurements</Text>
+          </TouchableOpacity>
+        )}
+        {!isScanning && !isLoading && (
+          <RegionOfInterestPanel
+            region={region}
+            canPlace={!!surface}
+            onPlace={() => surface && setRegion(placeRegionOnPlane(surface))}
+            onChange={setRegion}
+            onClear={() => setRegion(null)}
+          />
+        )}
+        {!isScanning && !isLoading && (
+          <CapturePresetPicker value={presetName} onChange={setPresetName} />
+        )}
+        {!isScanning && !isLoading && deviceWarnings.map(warning => (
+          <Text key={warning} style={styles.warningText}>{warning}</Text>
+        ))}
+        {!isScanning && !isLoading && (
+          <View style={styles.guidedRow}>
+            <TouchableOpacity
+              style={styles.guidedToggle}
+              onPress={() => setGuidedMode(value => !value)}
+            >
+              <Text style={styles.autoStopText}>Guided passes: {guidedMode ? 'On' : 'Off'}</Text>
+            </TouchableOpacity>
+            {guidedMode && (
+              <TouchableOpacity
+                style={styles.guidedToggle}
+                onPress={() => setIncludeBottom(value => !value)}
+              >
+                <Text style={styles.autoStopText}>Turn over for bottom: {includeBottom ? 'On' : 'Off'}</Text>
+              </TouchableOpacity>
+            )}
+            {capabilities?.depth && (
+              <TouchableOpacity
+                style={styles.guidedToggle}
+                onPress={() => setSaveDepth(!captureOptions.saveDepth)}
+              >
+                <Text style={styles.autoStopText}>Save depth: {captureOptions.saveDepth ? 'On' : 'Off'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
         <TouchableOpacity
           style={[
             styles.scanButton,
@@ -352,11 +650,25 @@ export const ARScreen: React.FC<ARScreenProps> = ({ navigation }) => {
             <ActivityIndicator color="#fff" />
           ) : (
             <Text style={styles.scanButtonText}>
-              {isScanning ? 'Stop Capture' : 'Start Photogrammetry'}
+              {isScanning ? 'Stop Capture' : guidedMode ? 'Start Guided Capture' : 'Start Photogrammetry'}
             </Text>
           )}
         </TouchableOpacity>
       </View>
+
+      <ActionSheet content={actionSheet} onClose={() => setActionSheet(null)} />
+
+      <ProcessingOptionsSheet
+        visible={!!optionsRequest}
+        message={optionsRequest?.message}
+        region={optionsRequest?.region}
+        segments={optionsRequest?.segments}
+        onCancel={() => setOptionsRequest(null)}
+        onConfirm={options => {
+          setOptionsRequest(null);
+          processPhotogrammetry(options);
+        }}
+      />
     </View>
   );
 };
@@ -377,6 +689,17 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 20,
   },
+  backButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 30,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   arView: {
     flex: 1,
   },
@@ -403,6 +726,9 @@ const styles = StyleSheet.create({
   statusScanning: {
     backgroundColor: '#00BCD4',
   },
+  statusPaused: {
+    backgroundColor: '#FF9800',
+  },
   statusText: {
     fontSize: 18,
     color: '#fff',
@@ -414,12 +740,75 @@ const styles = StyleSheet.create({
     marginTop: 5,
     fontWeight: '600',
   },
+  stageText: {
+    fontSize: 13,
+    color: '#fff',
+    marginTop: 4,
+  },
   instructionText: {
     fontSize: 13,
     color: '#AAA',
     marginTop: 8,
     fontStyle: 'italic',
   },
+  autoStopToggle: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#00BCD4',
+  },
+  measurementsButton: {
+    alignSelf: 'center',
+    marginBottom: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#00BCD4',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  guidedRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  guidedToggle: {
+    marginHorizontal: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#00BCD4',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  autoStopText: {
+    fontSize: 13,
+    color: '#00BCD4',
+    fontWeight: '600',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#FFC107',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  cancelProcessingButton: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#F44336',
+  },
+  cancelProcessingText: {
+    fontSize: 13,
+    color: '#F44336',
+    fontWeight: '600',
+  },
   controls: {
     position: 'absolute',
     bottom: 0,
@@ -0,0 +1,474 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ARNativeModule } from '../native/ARNativeModule';
+import { toARError } from '../native/ARError';
+import { loadCaptureDataset } from '../capture/CaptureDataset';
+import {
+  FRAME_FLAG_LABELS,
+  FrameReview,
+  flaggedFrameIndices,
+  formatFrameDetails,
+  formatReviewSummary,
+  reviewCaptureFrames,
+  unpairedFrameIndices,
+} from '../capture/datasetReview';
+import { CaptureSegment, loadCaptureSegments } from '../capture/guidedCapture';
+import { RegionOfInterest } from '../capture/regionOfInterest';
+import { isJobSettled } from '../processing/ProcessingQueue';
+import { selectReconstructionProvider } from '../processing/reconstructionSettings';
+import { ProcessingOptions } from '../processing/processingOptions';
+import { useProcessingJobs } from '../hooks/useProcessingJobs';
+import { ProcessingOptionsSheet } from '../components/ProcessingOptionsSheet';
+import { showARErrorAlert } from '../components/ARErrorAlert';
+import { RootStackParamList } from '../types/navigation';
+
+type DatasetReviewScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'DatasetReview'>;
+  route: RouteProp<RootStackParamList, 'DatasetReview'>;
+};
+
+const COLUMNS = 3;
+
+/**
+ * Every frame of a capture as a thumbnail grid, to delete bad ones before
+ * processing. Deleting removes each image with its metadata, so whatever
+ * processes the directory afterwards sees only the kept frames.
+ */
+export const DatasetReviewScreen: React.FC<DatasetReviewScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { directory } = route.params;
+  const [reviews, setReviews] = useState<FrameReview[] | null>(null);
+  const [unpaired, setUnpaired] = useState<number[]>([]);
+  const [region, setRegion] = useState<RegionOfInterest | null>(null);
+  const [segments, setSegments] = useState<CaptureSegment[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [deleting, setDeleting] = useState(false);
+  const [choosingOptions, setChoosingOptions] = useState(false);
+  const [jobs, queue] = useProcessingJobs();
+  // Frames must not change under a running job
+  const isProcessing = jobs.some(
+    job => job.directory === directory && !isJobSettled(job),
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const result = await loadCaptureDataset(directory);
+      setReviews(reviewCaptureFrames(result.dataset.frames));
+      setUnpaired(unpairedFrameIndices(result));
+      setRegion(result.dataset.region);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(toARError(error).message || 'Failed to load frames');
+    }
+  }, [directory]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    loadCaptureSegments(directory)
+      .then(setSegments)
+      .catch(error => console.warn('Could not read capture segments:', error));
+  }, [directory]);
+
+  const flagged = useMemo(
+    () => (reviews ? flaggedFrameIndices(reviews) : []),
+    [reviews],
+  );
+  const startTimestamp = reviews?.[0]?.frame.metadata.timestamp ?? 0;
+  const keptCount = (reviews?.length ?? 0) - selected.size;
+
+  const toggle = (index: number) =>
+    setSelected(current => {
+      const next = new Set(current);
+      if (!next.delete(index)) {
+        next.add(index);
+      }
+      return next;
+    });
+
+  /**
+   * @param onDeleted Runs once the frames are gone, including after a retry
+   */
+  const deleteFrames = async (indices: number[], onDeleted?: () => void) => {
+    setDeleting(true);
+    try {
+      await ARNativeModule.deleteCaptureFrames(directory, indices);
+      setSelected(new Set());
+      await load();
+    } catch (error) {
+      console.error('Error deleting frames:', error);
+      showARErrorAlert(
+        error,
+        { title: 'Error', message: 'Failed to delete frames' },
+        {
+          retry: () => deleteFrames(indices, onDeleted),
+          manageScans: () => navigation.navigate('Library'),
+        },
+      );
+      return;
+    } finally {
+      setDeleting(false);
+    }
+    onDeleted?.();
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      'Delete Frames',
+      `Delete ${selected.size} frames? Their images and metadata are removed from the scan.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteFrames([...selected]),
+        },
+      ],
+    );
+  };
+
+  const chooseOptions = async () => {
+    if (!(await selectReconstructionProvider())) {
+      Alert.alert(
+        'No Reconstruction Backend',
+        "This device can't build 3D models itself. Set up a reconstruction server, or share the images and process them with external photogrammetry software.",
+        [
+          { text: 'OK', style: 'cancel' },
+          {
+            text: 'Set Up Server',
+            onPress: () => navigation.navigate('ReconstructionSettings'),
+          },
+        ],
+      );
+      return;
+    }
+    setChoosingOptions(true);
+  };
+
+  // Selected frames are left out by deleting them first
+  const processKept = () => {
+    if (selected.size === 0) {
+      chooseOptions();
+      return;
+    }
+    Alert.alert(
+      'Process Kept Frames',
+      `The ${selected.size} selected frames will be deleted before processing.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete and Process',
+          style: 'destructive',
+          onPress: () => deleteFrames([...selected], chooseOptions),
+        },
+      ],
+    );
+  };
+
+  const startProcessing = (options: ProcessingOptions) => {
+    setChoosingOptions(false);
+    queue.enqueue(directory, options);
+    // Back to the scan if the review was opened from it
+    navigation.navigate('ScanDetail', { directory }, { pop: true });
+  };
+
+  if (!reviews) {
+    return (
+      <View style={styles.centered}>
+        {loadError ? (
+          <Text style={styles.errorText}>{loadError}</Text>
+        ) : (
+          <ActivityIndicator size="large" color="#007AFF" />
+        )}
+      </View>
+    );
+  }
+
+  const renderFrame = ({ item }: { item: FrameReview }) => {
+    const { frame, flags } = item;
+    const isSelected = selected.has(frame.index);
+    return (
+      <TouchableOpacity
+        style={styles.cell}
+        onPress={() => toggle(frame.index)}
+        activeOpacity={0.8}
+      >
+        <View style={[styles.thumbnail, isSelected && styles.selected]}>
+          <Image
+            source={{ uri: `file://${frame.imagePath}` }}
+            style={styles.image}
+            resizeMethod="resize"
+          />
+          {isSelected ? <View style={styles.selectedOverlay} /> : null}
+        </View>
+        <Text style={styles.cellTitle}>#{frame.index}</Text>
+        <Text style={styles.cellMeta} numberOfLines={1}>
+          {formatFrameDetails(frame, startTimestamp)}
+        </Text>
+        {flags.length > 0 ? (
+          <Text style={styles.flagText} numberOfLines={2}>
+            {flags.map(flag => FRAME_FLAG_LABELS[flag]).join(', ')}
+          </Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  const busy = deleting || isProcessing;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <Text style={styles.summary}>
+          {formatReviewSummary(reviews, selected.size)}
+        </Text>
+        <View style={styles.toolbarActions}>
+          <TouchableOpacity
+            onPress={() => setSelected(new Set(flagged))}
+            disabled={flagged.length === 0}
+          >
+            <Text
+              style={[styles.link, flagged.length === 0 && styles.disabled]}
+            >
+              Select Flagged
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setSelected(new Set())}
+            disabled={selected.size === 0}
+          >
+            <Text
+              style={[
+                styles.link,
+                styles.linkSpacing,
+                selected.size === 0 && styles.disabled,
+              ]}
+            >
+              Clear
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {unpaired.length > 0 ? (
+          <View style={styles.warningRow}>
+            <Text style={styles.warningText}>
+              {unpaired.length} images or metadata files have no usable pair
+            </Text>
+            <TouchableOpacity
+              onPress={() => deleteFrames(unpaired)}
+              disabled={busy}
+            >
+              <Text style={[styles.link, styles.deleteText]}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+        {isProcessing ? (
+          <Text style={styles.warningText}>
+            This scan is being processed; frames can be changed once it finishes
+          </Text>
+        ) : null}
+      </View>
+
+      <FlatList
+        data={reviews}
+        renderItem={renderFrame}
+        keyExtractor={item => String(item.frame.index)}
+        numColumns={COLUMNS}
+        extraData={selected}
+        initialNumToRender={COLUMNS * 4}
+        windowSize={5}
+        removeClippedSubviews
+        contentContainerStyle={styles.grid}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No frames left in this scan</Text>
+        }
+      />
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.secondaryButton,
+            (selected.size === 0 || busy) && styles.disabled,
+          ]}
+          onPress={confirmDelete}
+          disabled={selected.size === 0 || busy}
+          activeOpacity={0.8}
+        >
+          <Text style={[styles.secondaryButtonText, styles.deleteText]}>
+            Delete {selected.size}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, (keptCount === 0 || busy) && styles.disabled]}
+          onPress={processKept}
+          disabled={keptCount === 0 || busy}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.buttonText}>Process {keptCount} Frames</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ProcessingOptionsSheet
+        visible={choosingOptions}
+        region={region}
+        segments={segments}
+        frameIndices={reviews?.map(review => review.frame.index)}
+        onCancel={() => setChoosingOptions(false)}
+        onConfirm={startProcessing}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#F44336',
+    textAlign: 'center',
+  },
+  toolbar: {
+    padding: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  summary: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  toolbarActions: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  link: {
+    fontSize: 15,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  linkSpacing: {
+    marginLeft: 16,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#FF9800',
+    marginTop: 4,
+  },
+  grid: {
+    padding: 4,
+  },
+  cell: {
+    flex: 1 / COLUMNS,
+    padding: 4,
+  },
+  thumbnail: {
+    aspectRatio: 3 / 4,
+    borderRadius: 6,
+    overflow: 'hidden',
+    backgroundColor: '#ddd',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selected: {
+    borderColor: '#F44336',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  selectedOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(244, 67, 54, 0.3)',
+  },
+  cellTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 4,
+  },
+  cellMeta: {
+    fontSize: 11,
+    color: '#666',
+  },
+  flagText: {
+    fontSize: 11,
+    color: '#FF9800',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 12,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  button: {
+    flex: 2,
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  deleteText: {
+    color: '#F44336',
+  },
+});
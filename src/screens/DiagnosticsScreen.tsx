@@ -0,0 +1,256 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Share,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ARNativeModule, DeviceCapabilities } from '../native/ARNativeModule';
+import {
+  capabilityRows,
+  formatCapabilityReport,
+  formatVideoFormat,
+  storageWarning,
+  thermalWarning,
+} from '../capture/deviceCapabilities';
+import { DEFAULT_CAPTURE_OPTIONS } from '../capture/captureOptions';
+import {
+  ARErrorRecovery,
+  getRecoveryGuidance,
+  RecoveryGuidance,
+} from '../components/ARErrorAlert';
+import { RootStackParamList } from '../types/navigation';
+
+type DiagnosticsScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'Diagnostics'>;
+};
+
+/**
+ * What the device reports about itself, to check a bug against and to
+ * attach to a bug report
+ */
+export const DiagnosticsScreen: React.FC<DiagnosticsScreenProps> = ({
+  navigation,
+}) => {
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(
+    null,
+  );
+  const [loadError, setLoadError] = useState<RecoveryGuidance | null>(null);
+
+  const loadCapabilities = useCallback(async () => {
+    try {
+      setCapabilities(await ARNativeModule.getDeviceCapabilities());
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error reading device capabilities:', error);
+      setLoadError(
+        getRecoveryGuidance(error, {
+          title: 'Diagnostics Unavailable',
+          message: 'Failed to read device capabilities',
+        }),
+      );
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCapabilities();
+    }, [loadCapabilities]),
+  );
+
+  // Recoveries this screen can perform; others get no button
+  const recoveries: Partial<Record<ARErrorRecovery, () => void>> = {
+    goBack: () => navigation.goBack(),
+    openSettings: () => Linking.openSettings(),
+    retry: loadCapabilities,
+    manageScans: () => navigation.navigate('Library'),
+  };
+  const recover = loadError?.recovery && recoveries[loadError.recovery];
+
+  const shareReport = async () => {
+    if (!capabilities) {
+      return;
+    }
+    try {
+      await Share.share({
+        title: 'Device Diagnostics',
+        message: formatCapabilityReport(capabilities),
+      });
+    } catch (error) {
+      console.error('Error sharing diagnostics:', error);
+      Alert.alert('Error', 'Failed to share the report');
+    }
+  };
+
+  if (!capabilities) {
+    return (
+      <View style={styles.centered}>
+        {loadError ? (
+          <>
+            <Text style={styles.errorTitle}>{loadError.title}</Text>
+            <Text style={styles.errorText}>{loadError.message}</Text>
+            {recover ? (
+              <TouchableOpacity
+                style={[styles.button, styles.recoveryButton]}
+                onPress={recover}
+              >
+                <Text style={styles.buttonText}>{loadError.actionLabel}</Text>
+              </TouchableOpacity>
+            ) : null}
+          </>
+        ) : (
+          <ActivityIndicator size="large" color="#007AFF" />
+        )}
+      </View>
+    );
+  }
+
+  const warnings = [
+    storageWarning(capabilities, DEFAULT_CAPTURE_OPTIONS),
+    thermalWarning(capabilities.thermalState),
+  ].filter((warning): warning is string => !!warning);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        {capabilityRows(capabilities).map(([label, value]) => (
+          <View key={label} style={styles.row}>
+            <Text style={styles.label}>{label}</Text>
+            <Text style={styles.value}>{value}</Text>
+          </View>
+        ))}
+      </View>
+
+      {warnings.map(warning => (
+        <Text key={warning} style={styles.warningText}>
+          {warning}
+        </Text>
+      ))}
+
+      <Text style={styles.sectionTitle}>Video Formats</Text>
+      <View style={styles.card}>
+        {capabilities.videoFormats.length > 0 ? (
+          capabilities.videoFormats.map(format => (
+            <Text key={formatVideoFormat(format)} style={styles.value}>
+              {formatVideoFormat(format)}
+            </Text>
+          ))
+        ) : (
+          <Text style={styles.label}>None reported</Text>
+        )}
+      </View>
+
+      <TouchableOpacity style={styles.button} onPress={shareReport}>
+        <Text style={styles.buttonText}>Share Report</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={loadCapabilities}
+      >
+        <Text style={styles.secondaryButtonText}>Refresh</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#F44336',
+    textAlign: 'center',
+  },
+  card: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 15,
+    color: '#666',
+  },
+  value: {
+    fontSize: 15,
+    color: '#333',
+    fontWeight: '600',
+    paddingVertical: 2,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#E65100',
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  recoveryButton: {
+    alignSelf: 'stretch',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
@@ -1,13 +1,122 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types/navigation';
+import {
+  applyDevSettings,
+  DevSettings,
+  restoreDevSettings,
+  saveDevSettings,
+  startDevRecording,
+  startDevReplay,
+  stopDevRecording,
+  stopDevReplay,
+} from '../native/devSettings';
+import { ARNativeModule, DeviceCapabilities } from '../native/ARNativeModule';
+import { findInterruptedCapture } from '../capture/captureJournal';
+import {
+  capabilityHighlights,
+  defaultSaveDepth,
+  storageWarning,
+} from '../capture/deviceCapabilities';
+import { showInterruptedCaptureAlert } from '../components/InterruptedCaptureAlert';
 
 type HomeScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Home'>;
 };
 
 export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
+  // Null until the saved dev settings have been applied
+  const [devSettings, setDevSettings] = useState<DevSettings | null>(null);
+  const [devSession, setDevSession] = useState<'idle' | 'recording' | 'replaying'>('idle');
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(null);
+
+  const loadCapabilities = useCallback(() => {
+    ARNativeModule.getDeviceCapabilities()
+      .then(setCapabilities)
+      .catch(error => console.warn('Could not read device capabilities:', error));
+  }, []);
+
+  // Describe the device and offer to resume a capture the app was closed in
+  // the middle of, from the simulator if the dev settings select it
+  useEffect(() => {
+    const ready = __DEV__ ? restoreDevSettings().then(setDevSettings) : Promise.resolve();
+    ready
+      .then(() => {
+        loadCapabilities();
+        return findInterruptedCapture();
+      })
+      .then(interrupted => {
+        if (interrupted) {
+          showInterruptedCaptureAlert(interrupted, () =>
+            navigation.navigate('AR', { resumeDirectory: interrupted.directory })
+          );
+        }
+      })
+      .catch(error => console.warn('Could not check for an interrupted capture:', error));
+  }, [navigation, loadCapabilities]);
+
+  const updateDevSettings = (patch: Partial<DevSettings>) => {
+    const settings = { ...devSettings!, ...patch };
+    setDevSettings(settings);
+    saveDevSettings(settings).catch(error =>
+      console.warn('Could not save dev settings:', error)
+    );
+    return settings;
+  };
+
+  const toggleSimulatedAR = () => {
+    applyDevSettings(updateDevSettings({ simulateAR: !devSettings?.simulateAR }));
+    loadCapabilities();
+  };
+
+  const toggleRecording = async () => {
+    if (devSession !== 'recording') {
+      startDevRecording();
+      setDevSession('recording');
+      return;
+    }
+    setDevSession('idle');
+    try {
+      const bundle = await stopDevRecording();
+      if (bundle) {
+        updateDevSettings({ lastRecording: bundle });
+        Alert.alert('Recording Saved', `Saved to ${bundle} in the app's documents.`);
+      }
+    } catch (error) {
+      console.error('Error saving recording:', error);
+      Alert.alert('Error', 'Failed to save the recording');
+    }
+  };
+
+  const toggleReplay = () => {
+    const bundle = devSettings?.lastRecording;
+    if (devSession === 'replaying' || !bundle) {
+      stopDevReplay();
+      setDevSession('idle');
+      return;
+    }
+    const replay = async (speed: number) => {
+      try {
+        await startDevReplay(bundle, { speed });
+        setDevSession('replaying');
+        navigation.navigate('AR');
+      } catch (error) {
+        console.error('Error starting replay:', error);
+        Alert.alert('Error', 'Failed to load the recording');
+      }
+    };
+    Alert.alert('Replay Session', `Replay ${bundle} on the AR screen.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Real Time', onPress: () => replay(1) },
+      { text: '4× Speed', onPress: () => replay(4) },
+    ]);
+  };
+
+  const lowStorage = capabilities
+    ? storageWarning(capabilities, { saveDepth: defaultSaveDepth(capabilities), maxImageCount: null })
+    : null;
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>3D Object Scanner</Text>
@@ -23,16 +132,78 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
         <Text style={styles.buttonText}>Start Scanning</Text>
       </TouchableOpacity>
 
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => navigation.navigate('Library')}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.secondaryButtonText}>Scan Library</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => navigation.navigate('ReconstructionSettings')}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.secondaryButtonText}>Processing Settings</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => navigation.navigate('Diagnostics')}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.secondaryButtonText}>Device Diagnostics</Text>
+      </TouchableOpacity>
+
+      {__DEV__ && devSettings && devSession === 'idle' && (
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={toggleSimulatedAR}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.devToggleText}>
+            Simulated AR: {devSettings.simulateAR ? 'On' : 'Off'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {__DEV__ && devSettings && devSession !== 'replaying' && (
+        <TouchableOpacity
+          style={styles.devButton}
+          onPress={toggleRecording}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.devToggleText}>
+            Record Session: {devSession === 'recording' ? 'On' : 'Off'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {__DEV__ && devSettings?.lastRecording && devSession !== 'recording' && (
+        <TouchableOpacity
+          style={styles.devButton}
+          onPress={toggleReplay}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.devToggleText}>
+            {devSession === 'replaying' ? 'Stop Replay' : 'Replay Last Recording'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       <View style={styles.infoContainer}>
-        <Text style={styles.infoText}>
-          • Works with or without LiDAR sensor
-        </Text>
-        <Text style={styles.infoText}>
-          • Export scans as OBJ files
-        </Text>
+        {capabilities && capabilityHighlights(capabilities).map(line => (
+          <Text key={line} style={styles.infoText}>
+            • {line}
+          </Text>
+        ))}
         <Text style={styles.infoText}>
           • Move around objects for best results
         </Text>
+        {lowStorage && (
+          <Text style={styles.warningText}>{lowStorage}</Text>
+        )}
       </View>
     </View>
   );
@@ -74,6 +245,26 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  secondaryButton: {
+    marginTop: 16,
+    paddingHorizontal: 40,
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  devButton: {
+    marginTop: 4,
+    paddingHorizontal: 40,
+    paddingVertical: 8,
+  },
+  devToggleText: {
+    color: '#888',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   infoContainer: {
     marginTop: 60,
     padding: 20,
@@ -90,4 +281,9 @@ const styles = StyleSheet.create({
     color: '#666',
     marginVertical: 5,
   },
+  warningText: {
+    fontSize: 14,
+    color: '#E65100',
+    marginTop: 10,
+  },
 });
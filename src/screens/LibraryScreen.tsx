@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { CaptureInfo } from '../native/ARNativeModule';
+import {
+  CAPTURE_STATUS_LABELS,
+  CaptureStatus,
+  formatCaptureDate,
+  formatCaptureSummary,
+  getCaptureStatus,
+  getCaptureTitle,
+} from '../capture/captureLibrary';
+import { isJobSettled, ProcessingJob } from '../processing/ProcessingQueue';
+import { ProcessingJobList } from '../components/ProcessingJobList';
+import { ProcessingOptionsSheet } from '../components/ProcessingOptionsSheet';
+import { useCaptureLibrary } from '../hooks/useCaptureLibrary';
+import { useProcessingJobs } from '../hooks/useProcessingJobs';
+import { RootStackParamList } from '../types/navigation';
+
+type LibraryScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'Library'>;
+};
+
+const STATUS_COLORS: Record<CaptureStatus, string> = {
+  unprocessed: '#999',
+  processing: '#FFC107',
+  processed: '#4CAF50',
+  failed: '#F44336',
+};
+
+export const LibraryScreen: React.FC<LibraryScreenProps> = ({ navigation }) => {
+  const { captures, loading, error, refresh } = useCaptureLibrary();
+  const [jobs, queue] = useProcessingJobs();
+  const activeJobCount = jobs.filter(job => !isJobSettled(job)).length;
+  const lastActiveJobCount = useRef(activeJobCount);
+  const [retrying, setRetrying] = useState<ProcessingJob | null>(null);
+
+  // Pick up renames, deletions and new models when coming back from a detail
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh]),
+  );
+
+  // A finished job changes its capture's status and models
+  useEffect(() => {
+    if (activeJobCount < lastActiveJobCount.current) {
+      refresh();
+    }
+    lastActiveJobCount.current = activeJobCount;
+  }, [activeJobCount, refresh]);
+
+  const getJobTitle = (job: ProcessingJob) => {
+    const capture = captures.find(item => item.directory === job.directory);
+    return capture
+      ? getCaptureTitle(capture)
+      : job.directory.split('/').pop() ?? job.directory;
+  };
+
+  const renderItem = ({ item }: { item: CaptureInfo }) => {
+    const status = getCaptureStatus(item);
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() =>
+          navigation.navigate('ScanDetail', { directory: item.directory })
+        }
+        activeOpacity={0.7}
+      >
+        <View style={styles.rowText}>
+          <Text style={styles.title} numberOfLines={1}>
+            {getCaptureTitle(item)}
+          </Text>
+          {item.name && (
+            <Text style={styles.date}>{formatCaptureDate(item.createdAt)}</Text>
+          )}
+          <Text style={styles.summary}>{formatCaptureSummary(item)}</Text>
+        </View>
+        <View
+          style={[styles.badge, { backgroundColor: STATUS_COLORS[status] }]}
+        >
+          <Text style={styles.badgeText}>{CAPTURE_STATUS_LABELS[status]}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <FlatList
+        style={styles.container}
+        contentContainerStyle={captures.length === 0 && styles.emptyContainer}
+        data={captures}
+        keyExtractor={item => item.directory}
+        renderItem={renderItem}
+        ListHeaderComponent={
+          <ProcessingJobList
+            jobs={jobs}
+            getTitle={getJobTitle}
+            onOpen={job =>
+              navigation.navigate('ScanDetail', { directory: job.directory })
+            }
+            onCancel={job => queue.cancel(job.id)}
+            onRetry={setRetrying}
+            onDismiss={job => queue.remove(job.id)}
+          />
+        }
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={refresh} />
+        }
+        ListEmptyComponent={
+          loading ? null : (
+            <View style={styles.empty}>
+              <Text style={styles.emptyText}>
+                {error
+                  ? `Could not load scans: ${error.message}`
+                  : 'No scans yet'}
+              </Text>
+              <TouchableOpacity
+                style={styles.button}
+                onPress={() => navigation.navigate('AR')}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.buttonText}>Start Scanning</Text>
+              </TouchableOpacity>
+            </View>
+          )
+        }
+      />
+      <ProcessingOptionsSheet
+        visible={!!retrying}
+        initialOptions={retrying?.options}
+        confirmLabel="Retry"
+        onCancel={() => setRetrying(null)}
+        onConfirm={options => {
+          if (retrying) {
+            queue.retry(retrying.id, options);
+          }
+          setRetrying(null);
+        }}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  emptyContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 16,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  date: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  summary: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: 12,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  empty: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 40,
+    paddingVertical: 15,
+    borderRadius: 10,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ARNativeModule } from '../native/ARNativeModule';
+import { showARErrorAlert } from '../components/ARErrorAlert';
+import {
+  loadReconstructionSettings,
+  normalizeServerUrl,
+  saveReconstructionSettings,
+} from '../processing/reconstructionSettings';
+import { checkReconstructionServer } from '../processing/RemoteReconstructionProvider';
+import { RootStackParamList } from '../types/navigation';
+
+type ReconstructionSettingsScreenProps = {
+  navigation: NativeStackNavigationProp<
+    RootStackParamList,
+    'ReconstructionSettings'
+  >;
+};
+
+export const ReconstructionSettingsScreen: React.FC<
+  ReconstructionSettingsScreenProps
+> = ({ navigation }) => {
+  const [serverUrl, setServerUrl] = useState('');
+  const [localSupported, setLocalSupported] = useState<boolean | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    loadReconstructionSettings().then(settings =>
+      setServerUrl(settings.serverUrl ?? ''),
+    );
+    ARNativeModule.getDeviceCapabilities()
+      .then(capabilities => setLocalSupported(capabilities.photogrammetry))
+      .catch(() => setLocalSupported(false));
+  }, []);
+
+  // undefined if the address is invalid (already reported); null clears it
+  const parseServerUrl = (): string | null | undefined => {
+    try {
+      return normalizeServerUrl(serverUrl);
+    } catch (error) {
+      Alert.alert(
+        'Invalid Address',
+        error instanceof Error ? error.message : String(error),
+      );
+      return undefined;
+    }
+  };
+
+  const testConnection = async () => {
+    const url = parseServerUrl();
+    if (!url) {
+      return;
+    }
+    setChecking(true);
+    try {
+      await checkReconstructionServer(url);
+      Alert.alert('Connected', `${url} is ready to reconstruct scans.`);
+    } catch (error) {
+      showARErrorAlert(
+        error,
+        { title: 'Connection Failed', message: 'Could not reach the server' },
+        { retry: testConnection },
+      );
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const save = async () => {
+    const url = parseServerUrl();
+    if (url === undefined) {
+      return;
+    }
+    try {
+      await saveReconstructionSettings({ serverUrl: url });
+      navigation.goBack();
+    } catch (error) {
+      showARErrorAlert(
+        error,
+        { title: 'Error', message: 'Failed to save settings' },
+        { retry: save },
+      );
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.sectionTitle}>On this device</Text>
+      <View style={styles.card}>
+        {localSupported === null ? (
+          <ActivityIndicator color="#007AFF" />
+        ) : (
+          <Text style={styles.body}>
+            {localSupported
+              ? 'This device reconstructs scans itself. The server below is only used on devices that cannot.'
+              : 'This device cannot reconstruct scans itself. Scans are uploaded to the server below.'}
+          </Text>
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>Reconstruction server</Text>
+      <View style={styles.card}>
+        <TextInput
+          style={styles.input}
+          value={serverUrl}
+          onChangeText={setServerUrl}
+          placeholder="http://192.168.1.20:8080"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          returnKeyType="done"
+        />
+        <Text style={styles.hint}>
+          Leave empty to turn off server processing.
+        </Text>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={testConnection}
+          disabled={checking || !serverUrl.trim()}
+          activeOpacity={0.8}
+        >
+          {checking ? (
+            <ActivityIndicator color="#007AFF" />
+          ) : (
+            <Text style={styles.secondaryButtonText}>Test Connection</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={styles.button}
+        onPress={save}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.buttonText}>Save</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  body: {
+    fontSize: 15,
+    color: '#333',
+  },
+  input: {
+    fontSize: 16,
+    color: '#333',
+    borderBottomWidth: 1,
+    borderBottomColor: '#007AFF',
+    paddingVertical: 6,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  secondaryButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
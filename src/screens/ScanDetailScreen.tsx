@@ -0,0 +1,474 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  Share,
+  ActivityIndicator,
+} from 'react-native';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ARNativeModule, CaptureInfo } from '../native/ARNativeModule';
+import { toARError } from '../native/ARError';
+import {
+  availableModels,
+  CAPTURE_STATUS_LABELS,
+  formatByteSize,
+  formatJobStatus,
+  formatCaptureDate,
+  getCaptureStatus,
+  getCaptureTitle,
+  MAX_CAPTURE_NAME_LENGTH,
+  normalizeCaptureName,
+} from '../capture/captureLibrary';
+import { exportCaptureDataset } from '../capture/datasetExport';
+import {
+  formatRegionSize,
+  loadCaptureRegion,
+  RegionOfInterest,
+} from '../capture/regionOfInterest';
+import { isJobSettled } from '../processing/ProcessingQueue';
+import { selectReconstructionProvider } from '../processing/reconstructionSettings';
+import { ProcessingOptions } from '../processing/processingOptions';
+import { useProcessingJobs } from '../hooks/useProcessingJobs';
+import { ProcessingOptionsSheet } from '../components/ProcessingOptionsSheet';
+import { showARErrorAlert } from '../components/ARErrorAlert';
+import { RootStackParamList } from '../types/navigation';
+
+type ScanDetailScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'ScanDetail'>;
+  route: RouteProp<RootStackParamList, 'ScanDetail'>;
+};
+
+export const ScanDetailScreen: React.FC<ScanDetailScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { directory } = route.params;
+  const [info, setInfo] = useState<CaptureInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [choosingOptions, setChoosingOptions] = useState(false);
+  const [region, setRegion] = useState<RegionOfInterest | null>(null);
+  const [jobs, queue] = useProcessingJobs();
+  const activeJob = jobs.find(
+    job => job.directory === directory && !isJobSettled(job),
+  );
+  const isProcessing = !!activeJob;
+  const lastJobId = useRef<string | null>(null);
+
+  const loadInfo = useCallback(async () => {
+    try {
+      setInfo(await ARNativeModule.getCaptureInfo(directory));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(toARError(error).message || 'Failed to load scan');
+    }
+  }, [directory]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadInfo();
+    }, [loadInfo]),
+  );
+
+  // The region never changes after capture
+  useEffect(() => {
+    loadCaptureRegion(directory)
+      .then(setRegion)
+      .catch(error =>
+        console.warn('Could not read region of interest:', error),
+      );
+  }, [directory]);
+
+  // Reload once this capture's job settles, and report a failure
+  useEffect(() => {
+    const finished = lastJobId.current && queue.getJob(lastJobId.current);
+    lastJobId.current = activeJob?.id ?? null;
+    if (!finished || !isJobSettled(finished)) {
+      return;
+    }
+    loadInfo();
+    if (finished.status === 'failed') {
+      Alert.alert(
+        'Processing Error',
+        finished.error || 'Failed to process photogrammetry',
+      );
+    }
+  }, [activeJob?.id, queue, loadInfo]);
+
+  const saveName = async () => {
+    if (editingName === null) {
+      return;
+    }
+    try {
+      await ARNativeModule.renameCapture(
+        directory,
+        normalizeCaptureName(editingName),
+      );
+      setEditingName(null);
+      await loadInfo();
+    } catch (error) {
+      console.error('Error renaming scan:', error);
+      showARErrorAlert(
+        error,
+        { title: 'Error', message: 'Failed to rename scan' },
+        { retry: saveName, manageScans: () => navigation.navigate('Library') },
+      );
+    }
+  };
+
+  const deleteScan = async () => {
+    try {
+      await ARNativeModule.deleteCapture(directory);
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error deleting scan:', error);
+      showARErrorAlert(
+        error,
+        { title: 'Error', message: 'Failed to delete scan' },
+        { retry: deleteScan },
+      );
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      'Delete Scan',
+      'This removes the captured images and every model generated from them.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: deleteScan,
+        },
+      ],
+    );
+  };
+
+  const reprocess = async () => {
+    if (!info) {
+      return;
+    }
+    if (!(await selectReconstructionProvider())) {
+      Alert.alert(
+        'No Reconstruction Backend',
+        "This device can't build 3D models itself. Set up a reconstruction server, or share the images and process them with external photogrammetry software.",
+        [
+          { text: 'OK', style: 'cancel' },
+          {
+            text: 'Set Up Server',
+            onPress: () => navigation.navigate('ReconstructionSettings'),
+          },
+        ],
+      );
+      return;
+    }
+
+    setChoosingOptions(true);
+  };
+
+  const startProcessing = (options: ProcessingOptions) => {
+    setChoosingOptions(false);
+    if (info) {
+      queue.enqueue(info.directory, options);
+    }
+  };
+
+  const shareModel = async (path: string) => {
+    try {
+      await Share.share({ title: '3D Model', url: `file://${path}` });
+    } catch (error) {
+      console.error('Error sharing model:', error);
+      Alert.alert('Error', 'Failed to share model');
+    }
+  };
+
+  const shareImages = async () => {
+    try {
+      // Poses travel with the images as COLMAP and NeRF files
+      await exportCaptureDataset(directory).catch(error =>
+        console.warn('Could not export camera poses:', error),
+      );
+      await Share.share({
+        title: 'Photogrammetry Images',
+        message: `${
+          info?.imageCount ?? 0
+        } images for 3D reconstruction, with camera poses for COLMAP and NeRF`,
+        url: directory,
+      });
+    } catch (error) {
+      console.error('Error sharing directory:', error);
+      Alert.alert('Error', 'Failed to share images');
+    }
+  };
+
+  if (!info) {
+    return (
+      <View style={styles.centered}>
+        {loadError ? (
+          <Text style={styles.errorText}>{loadError}</Text>
+        ) : (
+          <ActivityIndicator size="large" color="#007AFF" />
+        )}
+      </View>
+    );
+  }
+
+  const status = getCaptureStatus(info);
+  const models = availableModels(info);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        {editingName === null ? (
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>{getCaptureTitle(info)}</Text>
+            <TouchableOpacity onPress={() => setEditingName(info.name ?? '')}>
+              <Text style={styles.link}>Rename</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.titleRow}>
+            <TextInput
+              style={styles.nameInput}
+              value={editingName}
+              onChangeText={setEditingName}
+              placeholder="Scan name"
+              maxLength={MAX_CAPTURE_NAME_LENGTH}
+              autoFocus
+              onSubmitEditing={saveName}
+              returnKeyType="done"
+            />
+            <TouchableOpacity onPress={saveName}>
+              <Text style={styles.link}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setEditingName(null)}>
+              <Text style={[styles.link, styles.linkSpacing]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <Text style={styles.meta}>{formatCaptureDate(info.createdAt)}</Text>
+        <Text style={styles.meta}>
+          {info.imageCount} images · {formatByteSize(info.sizeBytes)}
+        </Text>
+        <Text style={styles.meta}>
+          {CAPTURE_STATUS_LABELS[status]}
+          {info.processing?.error ? `: ${info.processing.error}` : ''}
+        </Text>
+        {region ? (
+          <Text style={styles.meta}>
+            Region of interest: {formatRegionSize(region)}
+          </Text>
+        ) : null}
+      </View>
+
+      <Text style={styles.sectionTitle}>Models</Text>
+      <View style={styles.card}>
+        {models.length === 0 ? (
+          <Text style={styles.meta}>No models generated yet</Text>
+        ) : (
+          models.map(model => (
+            <View key={model.path} style={styles.modelRow}>
+              <View style={styles.modelText}>
+                <Text style={styles.modelDetail}>{model.detail} detail</Text>
+                <Text style={styles.meta}>
+                  {formatCaptureDate(model.createdAt)}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => shareModel(model.path)}>
+                <Text style={styles.link}>Share</Text>
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>Process</Text>
+      <View style={styles.card}>
+        {activeJob ? (
+          <View style={styles.jobRow}>
+            <ActivityIndicator color="#007AFF" />
+            <Text style={[styles.meta, styles.jobStatus]}>
+              {formatJobStatus(activeJob)}
+            </Text>
+            <TouchableOpacity onPress={() => queue.cancel(activeJob.id)}>
+              <Text style={[styles.link, styles.deleteText]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={styles.button}
+            onPress={reprocess}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.buttonText}>
+              {models.length > 0 ? 'Process Again' : 'Process'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => navigation.navigate('DatasetReview', { directory })}
+        disabled={isProcessing}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.secondaryButtonText}>Review Frames</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={shareImages}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.secondaryButtonText}>Share Images</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={confirmDelete}
+        disabled={isProcessing}
+        activeOpacity={0.8}
+      >
+        <Text style={[styles.secondaryButtonText, styles.deleteText]}>
+          Delete Scan
+        </Text>
+      </TouchableOpacity>
+
+      <ProcessingOptionsSheet
+        visible={choosingOptions}
+        region={region}
+        onCancel={() => setChoosingOptions(false)}
+        onConfirm={startProcessing}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#F44336',
+    textAlign: 'center',
+  },
+  card: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  nameInput: {
+    flex: 1,
+    fontSize: 18,
+    color: '#333',
+    borderBottomWidth: 1,
+    borderBottomColor: '#007AFF',
+    paddingVertical: 4,
+    marginRight: 12,
+  },
+  link: {
+    fontSize: 15,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  linkSpacing: {
+    marginLeft: 12,
+  },
+  meta: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  modelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  modelText: {
+    flex: 1,
+  },
+  modelDetail: {
+    fontSize: 15,
+    color: '#333',
+    textTransform: 'capitalize',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  jobStatus: {
+    flex: 1,
+    marginTop: 0,
+    marginLeft: 12,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  deleteText: {
+    color: '#F44336',
+  },
+});
@@ -1,6 +1,12 @@
 export type RootStackParamList = {
   Home: undefined;
-  AR: undefined;
+  /** resumeDirectory: interrupted capture to continue as soon as the screen opens */
+  AR: { resumeDirectory?: string } | undefined;
+  Library: undefined;
+  ScanDetail: { directory: string };
+  DatasetReview: { directory: string };
+  ReconstructionSettings: undefined;
+  Diagnostics: undefined;
 };
 
 declare global {